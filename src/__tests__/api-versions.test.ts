@@ -0,0 +1,245 @@
+/**
+ * API Version Catalog Tests
+ *
+ * Tests the shipped API version catalog, the latestApiVersion helper that
+ * renders from it, its offline refresh from azure-rest-api-specs and
+ * `azmp apiversions check` on existing templates.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ApiVersionCatalog,
+  buildApiVersionCatalogFromSpecs,
+  classifyApiVersion,
+  getLatestApiVersion,
+  getProjectCatalogPath,
+  loadApiVersionCatalog,
+  mergeApiVersionCatalogs,
+  resourceTypeFromPath,
+  writeApiVersionCatalog
+} from '../core/api-version-catalog';
+import { checkApiVersions } from '../core/api-version-check';
+import { readGenerationRecord, recordToConfig } from '../core/generation-record';
+import { AppConfig } from '../config/app-config';
+import { createHandlebarsEnvironment } from '../core/handlebars-environment';
+import { lintTemplateSource, LintModel } from '../core/template-lint';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import { TemplateGenerationError, ValidationError } from '../utils/error-handler';
+
+const catalog: ApiVersionCatalog = {
+  source: 'test',
+  updated: '2025-01-01',
+  resourceTypes: {
+    'Microsoft.Storage/storageAccounts': { stable: ['2024-01-01', '2023-05-01'], preview: ['2024-06-01-preview', '2020-08-01-preview'] },
+    'Microsoft.Insights/diagnosticSettings': { stable: [], preview: ['2021-05-01-preview'] }
+  }
+};
+
+describe('API Version Catalog', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-apiversions-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('shipped catalog', () => {
+    it('should list every resource type the storage template renders', () => {
+      const shipped = loadApiVersionCatalog();
+      for (const resourceType of [
+        'Microsoft.Storage/storageAccounts',
+        'Microsoft.Storage/storageAccounts/blobServices',
+        'Microsoft.Storage/storageAccounts/fileServices',
+        'Microsoft.EventGrid/systemTopics',
+        'Microsoft.EventGrid/systemTopics/eventSubscriptions',
+        'Microsoft.Resources/deployments'
+      ]) {
+        expect(getLatestApiVersion(shipped, resourceType)).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      }
+    });
+  });
+
+  describe('getLatestApiVersion', () => {
+    it('should prefer stable versions and match types case-insensitively', () => {
+      expect(getLatestApiVersion(catalog, 'microsoft.storage/STORAGEACCOUNTS')).toBe('2024-01-01');
+      expect(getLatestApiVersion(catalog, 'Microsoft.Storage/storageAccounts', true)).toBe('2024-06-01-preview');
+      expect(getLatestApiVersion(catalog, 'Microsoft.Insights/diagnosticSettings')).toBe('2021-05-01-preview');
+      expect(getLatestApiVersion(catalog, 'Microsoft.Storage/storageAccounts/blobServices')).toBeUndefined();
+    });
+  });
+
+  describe('latestApiVersion helper', () => {
+    it('should render from the catalog and refuse unknown resource types', () => {
+      const env = createHandlebarsEnvironment();
+      const shipped = loadApiVersionCatalog();
+
+      expect(env.compile("{{latestApiVersion 'Microsoft.Storage/storageAccounts/blobServices'}}")({}))
+        .toBe(getLatestApiVersion(shipped, 'Microsoft.Storage/storageAccounts/blobServices'));
+      expect(() => env.compile("{{latestApiVersion 'Microsoft.Storage/storageAcounts'}}")({}))
+        .toThrow("Resource type 'Microsoft.Storage/storageAcounts' is not in the API version catalog (did you mean 'Microsoft.Storage/storageAccounts'?)");
+    });
+
+    it('should fail generation naming the source', async () => {
+      const templateDir = path.join(workDir, 'app');
+      await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }]
+      });
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "apiVersion": "{{latestApiVersion \'Microsoft.Foo/bars\'}}" }');
+      const registry = new TemplateRegistry();
+      registry.registerTemplate({ type: 'app', name: 'App', description: 'App', version: '1.0.0', templatePath: templateDir });
+
+      const generation = new TemplateGenerator(registry).generateTemplate({
+        type: 'app', publisher: 'Acme', name: 'App', output: path.join(workDir, 'out'), quiet: true
+      });
+
+      await expect(generation).rejects.toThrow(TemplateGenerationError);
+      await expect(generation).rejects.toThrow(/^Failed to render mainTemplate.json.hbs: Resource type 'Microsoft.Foo\/bars'/);
+    });
+
+    it('should render from the project catalog of azmp.config.json', async () => {
+      const templateDir = path.join(workDir, 'app');
+      await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }]
+      });
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "apiVersion": "{{latestApiVersion \'Microsoft.Storage/storageAccounts\'}}" }');
+      const registry = new TemplateRegistry();
+      registry.registerTemplate({ type: 'app', name: 'App', description: 'App', version: '1.0.0', templatePath: templateDir });
+      const projectCatalog = { ...catalog, resourceTypes: { 'Microsoft.Storage/storageAccounts': { stable: ['2099-01-01'], preview: [] } } };
+      await writeApiVersionCatalog(path.join(workDir, 'project/api-versions.json'), projectCatalog);
+      const configPath = path.join(workDir, 'project/azmp.config.json');
+
+      const apiVersionCatalog = getProjectCatalogPath({ apiVersionCatalog: './api-versions.json' }, configPath);
+      expect(apiVersionCatalog).toBe(path.join(workDir, 'project/api-versions.json'));
+      expect(getProjectCatalogPath(null, null)).toBe(AppConfig.getApiVersionCatalogPath());
+
+      const output = path.join(workDir, 'project/out');
+      await new TemplateGenerator(registry).generateTemplate({ type: 'app', publisher: 'Acme', name: 'App', output, quiet: true, apiVersionCatalog });
+
+      expect(await fs.readJson(path.join(output, 'mainTemplate.json'))).toEqual({ apiVersion: '2099-01-01' });
+      const record = await readGenerationRecord(output);
+      expect(record.apiVersionCatalog).toBe('../api-versions.json');
+      expect(recordToConfig(record, output, output).apiVersionCatalog).toBe(apiVersionCatalog);
+
+      await expect(new TemplateGenerator(registry).generateTemplate({
+        type: 'app', publisher: 'Acme', name: 'App', output, quiet: true, apiVersionCatalog: path.join(workDir, 'missing.json')
+      })).rejects.toThrow(ValidationError);
+    });
+
+    it('should be reported by the template linter', () => {
+      const model: LintModel = { helpers: new Set(['latestApiVersion']), partials: new Set(), apiVersions: catalog };
+
+      const issues = lintTemplateSource("{{latestApiVersion 'Microsoft.Storage/storageAccounts'}}\n{{latestApiVersion 'Microsoft.Storage/storageAcounts'}}", 'x.hbs', model).issues;
+
+      expect(issues).toEqual([expect.objectContaining({ line: 2, column: 20, rule: 'unknown-resource-type' })]);
+    });
+  });
+
+  describe('classifyApiVersion', () => {
+    it('should compare versions with the latest stable version', () => {
+      const classify = (version: string) => classifyApiVersion(catalog, 'Microsoft.Storage/storageAccounts', version);
+
+      expect(classify('2024-01-01')).toEqual({ status: 'current', latest: '2024-01-01' });
+      expect(classify('2023-05-01')).toEqual({ status: 'outdated', latest: '2024-01-01' });
+      expect(classify('2020-08-01-preview')).toEqual({ status: 'outdated', latest: '2024-01-01' });
+      expect(classify('2024-06-01-preview')).toEqual({ status: 'preview', latest: '2024-01-01' });
+      expect(classify('2025-01-01')).toEqual({ status: 'unknown-version', latest: '2024-01-01' });
+      expect(classifyApiVersion(catalog, 'Microsoft.Foo/bars', '2020-01-01')).toEqual({ status: 'unknown-type' });
+    });
+  });
+
+  describe('refresh from azure-rest-api-specs', () => {
+    const specFile = (channel: string, version: string) =>
+      path.join(workDir, 'specs', 'specification', 'storage', 'resource-manager', 'Microsoft.Storage', channel, version, 'storage.json');
+    const accountPath = '/subscriptions/{subscriptionId}/resourceGroups/{resourceGroupName}/providers/Microsoft.Storage/storageAccounts/{accountName}';
+
+    it('should derive resource types from operation paths', () => {
+      expect(resourceTypeFromPath(`${accountPath}/blobServices/{BlobServicesName}`)).toBe('Microsoft.Storage/storageAccounts/blobServices');
+      expect(resourceTypeFromPath('/{scope}/providers/Microsoft.Insights/diagnosticSettings/{name}')).toBe('Microsoft.Insights/diagnosticSettings');
+      expect(resourceTypeFromPath(`${accountPath}/blobServices/default`)).toBe('Microsoft.Storage/storageAccounts/blobServices');
+      expect(resourceTypeFromPath(`${accountPath}/listKeys`)).toBeUndefined();
+      expect(resourceTypeFromPath('/providers/{resourceProviderNamespace}/things/{name}')).toBeUndefined();
+    });
+
+    it('should collect the versions of the types each spec can create', async () => {
+      await fs.outputJson(specFile('stable', '2025-01-01'), {
+        paths: {
+          [accountPath]: { put: {}, get: {} },
+          [`${accountPath}/listKeys`]: { post: {} },
+          [`${accountPath}/blobServices/{BlobServicesName}`]: { get: {} }
+        }
+      });
+      await fs.outputJson(specFile('preview', '2025-06-01-preview'), { paths: { [accountPath]: { put: {} } } });
+      await fs.outputJson(path.join(path.dirname(specFile('stable', '2025-01-01')), 'examples', 'x.json'), {
+        paths: { '/providers/Microsoft.Example/things/{name}': { put: {} } }
+      });
+
+      const refreshed = await buildApiVersionCatalogFromSpecs(path.join(workDir, 'specs'), '2025-07-01');
+
+      expect(refreshed).toEqual({
+        source: 'azure-rest-api-specs',
+        updated: '2025-07-01',
+        resourceTypes: { 'Microsoft.Storage/storageAccounts': { stable: ['2025-01-01'], preview: ['2025-06-01-preview'] } }
+      });
+
+      const merged = mergeApiVersionCatalogs(catalog, refreshed);
+      expect(merged.resourceTypes['Microsoft.Storage/storageAccounts'].stable).toEqual(['2025-01-01', '2024-01-01', '2023-05-01']);
+      expect(merged.resourceTypes['Microsoft.Insights/diagnosticSettings']).toEqual(catalog.resourceTypes['Microsoft.Insights/diagnosticSettings']);
+
+      const catalogFile = path.join(workDir, 'api-versions.json');
+      await writeApiVersionCatalog(catalogFile, merged);
+      expect(getLatestApiVersion(loadApiVersionCatalog(catalogFile), 'Microsoft.Storage/storageAccounts')).toBe('2025-01-01');
+    });
+
+    it('should reject directories without resource-manager specs', async () => {
+      await fs.ensureDir(path.join(workDir, 'empty'));
+      await expect(buildApiVersionCatalogFromSpecs(path.join(workDir, 'empty'))).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('checkApiVersions', () => {
+    it('should check resources, child resources and nested deployments', async () => {
+      await fs.outputJson(path.join(workDir, 'out', 'mainTemplate.json'), {
+        resources: [
+          {
+            type: 'Microsoft.Storage/storageAccounts',
+            apiVersion: '2023-05-01',
+            resources: [{ type: 'blobServices', apiVersion: '2024-01-01' }]
+          },
+          {
+            type: 'Microsoft.Resources/deployments',
+            apiVersion: "[variables('deploymentApiVersion')]",
+            properties: { template: { resources: [{ type: 'Microsoft.Insights/diagnosticSettings', apiVersion: '2021-05-01-preview' }] } }
+          }
+        ]
+      });
+      await fs.outputJson(path.join(workDir, 'out', 'createUiDefinition.json'), { parameters: {} });
+      await fs.outputJson(path.join(workDir, 'out', '.azmp', 'base', 'mainTemplate.json'), { resources: [] });
+
+      const result = await checkApiVersions(path.join(workDir, 'out'), catalog);
+
+      expect(result.files).toEqual(['mainTemplate.json']);
+      expect(result.findings.map(finding => `${finding.path} ${finding.resourceType}@${finding.apiVersion} ${finding.status}`)).toEqual([
+        'resources[0] Microsoft.Storage/storageAccounts@2023-05-01 outdated',
+        'resources[0].resources[0] Microsoft.Storage/storageAccounts/blobServices@2024-01-01 unknown-type',
+        'resources[1].properties.template.resources[0] Microsoft.Insights/diagnosticSettings@2021-05-01-preview current'
+      ]);
+    });
+
+    it('should find nothing outdated in a freshly generated storage application', async () => {
+      const output = path.join(workDir, 'storage');
+      await new TemplateGenerator().generateTemplate({ type: 'storage', publisher: 'Acme', name: 'App', output, seed: 'x', quiet: true });
+
+      const result = await checkApiVersions(output, loadApiVersionCatalog());
+
+      expect(result.files).toEqual(['mainTemplate.json', 'nestedtemplates/storageAccount.json']);
+      expect(result.findings.filter(finding => finding.status !== 'current')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Bicep Output Tests
+ *
+ * Tests the ARM JSON → Bicep conversion, `azmp create --format bicep|both`
+ * and packaging a bicep output with the ARM JSON it was converted from.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { decompileToBicep } from '../core/bicep-decompiler';
+import { linkedTemplateUri } from '../core/linked-templates';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import {
+  getGenerationCompiledDir,
+  readGenerationRecord,
+  recordToConfig
+} from '../core/generation-record';
+import { listPackageEntries } from '../core/package-provenance';
+import { TemplateGenerationError, ValidationError } from '../utils/error-handler';
+
+describe('Bicep Output', () => {
+  const expected = path.join(__dirname, '../templates/storage/tests/default/expected/mainTemplate.json');
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-bicep-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  /**
+   * Bicep of a template with these variables, for checking single expressions
+   */
+  function convertVariables(variables: Record<string, unknown>, parameters: Record<string, unknown> = {}): string[] {
+    const content = decompileToBicep({ parameters, variables, resources: [] }).content;
+    return content.split('\n').filter(line => line.startsWith('var '));
+  }
+
+  describe('decompileToBicep', () => {
+    it('should convert the storage template', async () => {
+      const { content, warnings } = decompileToBicep(await fs.readJson(expected));
+
+      expect(warnings).toEqual([]);
+      expect(content).toContain(
+        "@description('Prefix for the storage account name')\n@minLength(3)\n@maxLength(11)\nparam storageAccountNamePrefix string\n");
+      expect(content).toContain("@allowed([\n  'Standard_LRS'\n  'Standard_GRS'\n  'Standard_RAGRS'\n  'Premium_LRS'\n])\nparam storageAccountType string = 'Standard_LRS'");
+      expect(content).toContain('param location string = resourceGroup().location');
+      expect(content).toContain("var storageAccountName = '${storageAccountNamePrefix}${uniqueString(resourceGroup().id)}'");
+      expect(content).toContain("resource storageAccount 'Microsoft.Storage/storageAccounts@2024-01-01' = {\n  name: storageAccountName\n  location: location\n");
+      expect(content).toContain(
+        "resource blobService 'Microsoft.Storage/storageAccounts/blobServices@2024-01-01' = {\n  parent: storageAccount\n  name: 'default'\n  properties: {");
+      expect(content).toContain('      days: blobSoftDeleteDays > 0 ? blobSoftDeleteDays : null\n');
+      expect(content).not.toContain('dependsOn');
+      expect(content).toContain('output storageEndpoint string = storageAccount.properties.primaryEndpoints.blob');
+      expect(content).toContain('output storageAccountId string = storageAccount.id');
+      expect(content).toContain('output securityStatus object = {\n  publicAccessBlocked: !allowBlobPublicAccess\n');
+    });
+
+    it('should convert operators, interpolation and literals', () => {
+      expect(convertVariables({
+        a: "[and(equals(parameters('tier'), 'premium'), or(parameters('ha'), not(greater(add(parameters('count'), 1), 3))))]",
+        b: "[mul(sub(parameters('count'), 1), 2)]",
+        c: "[format('{0}-{1}{{x}}', parameters('tier'), toLower('AB'))]",
+        d: "[concat(createArray('a'), createArray('b'))]",
+        e: "It's a ${literal} \\ path",
+        f: '[[not an expression]',
+        g: "[if(empty(parameters('tier')), json('null'), tolower(parameters('tier')))]",
+        h: "[reference(resourceId('Microsoft.Network/virtualNetworks', 'vnet'), '2023-01-01', 'Full').id]"
+      }, { tier: { type: 'string' }, ha: { type: 'bool' }, count: { type: 'int' } })).toEqual([
+        "var a = tier == 'premium' && (ha || !(count + 1 > 3))",
+        'var b = (count - 1) * 2',
+        "var c = '${tier}-${toLower('AB')}{x}'",
+        "var d = concat(['a'], ['b'])",
+        "var e = 'It\\'s a \\${literal} \\\\ path'",
+        "var f = '[not an expression]'",
+        "var g = empty(tier) ? json('null') : toLower(tier)",
+        "var h = reference(resourceId('Microsoft.Network/virtualNetworks', 'vnet'), '2023-01-01', 'Full').id"
+      ]);
+    });
+
+    it('should keep parameter names and rename symbols that collide', () => {
+      const { content } = decompileToBicep({
+        parameters: { environment: { type: 'string', defaultValue: "[environment().name]" }, secret: { type: 'securestring' } },
+        variables: { environment: 'x', deployment: "[deployment().name]" },
+        resources: [{ type: 'Microsoft.Resources/deployments', apiVersion: '2022-09-01', name: 'inner', properties: { mode: 'Incremental' } }]
+      });
+
+      expect(content).toContain('param environment string = az.environment().name');
+      expect(content).toContain('@secure()\nparam secret string');
+      expect(content).toContain("var environmentVar = 'x'");
+      expect(content).toContain('var deployment = az.deployment().name');
+      expect(content).toContain("resource deploymentResource 'Microsoft.Resources/deployments@2022-09-01' = {");
+    });
+
+    it('should turn linked deployments into modules and resolve dependsOn', () => {
+      const { content, warnings } = decompileToBicep({
+        parameters: { _artifactsLocation: { type: 'string' }, _artifactsLocationSasToken: { type: 'securestring' }, prefix: { type: 'string' } },
+        resources: [
+          {
+            type: 'Microsoft.Resources/deployments',
+            apiVersion: '2022-09-01',
+            name: 'storage',
+            condition: "[not(empty(parameters('prefix')))]",
+            dependsOn: ['vault', "[resourceId('Microsoft.Foo/bars', 'missing')]"],
+            properties: {
+              mode: 'Incremental',
+              templateLink: { uri: linkedTemplateUri('nestedtemplates/storageAccount.json') },
+              parameters: { prefix: { value: "[parameters('prefix')]" } }
+            }
+          },
+          { type: 'Microsoft.KeyVault/vaults', apiVersion: '2023-07-01', name: 'vault', properties: {} }
+        ],
+        outputs: {
+          accountName: { type: 'string', value: "[reference('storage').outputs.accountName.value]" }
+        }
+      });
+
+      expect(content).toContain(
+        "module storageAccountDeployment 'nestedtemplates/storageAccount.json' = if (!empty(prefix)) {\n" +
+        "  name: 'storage'\n  params: {\n    prefix: prefix\n  }\n  dependsOn: [\n    vault\n  ]\n}");
+      expect(content).toContain('output accountName string = storageAccountDeployment.outputs.accountName');
+      expect(warnings).toEqual([
+        `storageAccountDeployment: dropped dependsOn "[resourceId('Microsoft.Foo/bars', 'missing')]" (no resource of the template has that name)`
+      ]);
+    });
+
+    it('should report every construct it cannot convert', () => {
+      let error: TemplateGenerationError | undefined;
+      try {
+        decompileToBicep({
+          functions: [{ namespace: 'acme', members: {} }],
+          parameters: { 'bad-name': { type: 'string' } },
+          resources: [
+            { type: 'Microsoft.Storage/storageAccounts', apiVersion: '2024-01-01', name: "[concat('sa', copyIndex())]", copy: { name: 'loop', count: 2 } },
+            {
+              type: 'Microsoft.Resources/deployments',
+              apiVersion: '2022-09-01',
+              name: 'inline',
+              properties: { expressionEvaluationOptions: { scope: 'inner' }, template: { resources: [] } }
+            }
+          ]
+        });
+      } catch (caught) {
+        error = caught as TemplateGenerationError;
+      }
+
+      expect(error).toBeInstanceOf(TemplateGenerationError);
+      expect(error?.message).toBe('Cannot convert mainTemplate.json to Bicep');
+      expect(error?.details).toEqual([
+        'User-defined functions are not supported',
+        'Parameter bad-name: the name is not a valid Bicep identifier',
+        'resources[0] (Microsoft.Storage/storageAccounts): copy loops are not supported',
+        'resources[1]: inline nested templates with inner expression scope cannot be converted ' +
+          '(generate without --inline-linked-templates; linked templates become Bicep modules)',
+        'copyIndex() cannot be converted (copy loops are not supported)'
+      ]);
+    });
+  });
+
+  describe('azmp create --format', () => {
+    const generate = (output: string, format: 'bicep' | 'both') => new TemplateGenerator(new TemplateRegistry()).generateTemplate({
+      type: 'storage', publisher: 'Acme', name: 'App', output, seed: 'bicep', format, quiet: true
+    });
+
+    it('should write main.bicep instead of mainTemplate.json and keep the ARM JSON for packaging', async () => {
+      const output = path.join(workDir, 'bicep');
+      const result = await generate(output, 'bicep');
+
+      expect(result.files.map(file => file.output)).toContain('main.bicep');
+      expect(await fs.pathExists(path.join(output, 'mainTemplate.json'))).toBe(false);
+      expect(await fs.readFile(path.join(output, 'main.bicep'), 'utf8')).toMatch(/^\/\/ Converted from mainTemplate.json/);
+      const compiled = path.join(getGenerationCompiledDir(output), 'mainTemplate.json');
+      expect((await fs.readJson(compiled)).resources[0].type).toBe('Microsoft.Storage/storageAccounts');
+
+      const record = await readGenerationRecord(output);
+      expect(record.format).toBe('bicep');
+      expect(record.files).toContain('main.bicep');
+      expect(recordToConfig(record, output, workDir).format).toBe('bicep');
+
+      const entries = await listPackageEntries(output);
+      expect(entries.map(entry => entry.name)).toEqual([
+        'createUiDefinition.json', 'mainTemplate.json', 'nestedtemplates/storageAccount.json', 'viewDefinition.json'
+      ]);
+      expect(entries.find(entry => entry.name === 'mainTemplate.json')).toEqual({ name: 'mainTemplate.json', path: compiled, compiled: true });
+    });
+
+    it('should refuse to package a main.bicep edited after generation until it is compiled', async () => {
+      const output = path.join(workDir, 'edited');
+      await generate(output, 'bicep');
+      const bicepPath = path.join(output, 'main.bicep');
+      await fs.appendFile(bicepPath, '// reviewed\n');
+      await fs.utimes(bicepPath, new Date(2030, 0, 1), new Date(2030, 0, 1));
+
+      await expect(listPackageEntries(output)).rejects.toThrow(ValidationError);
+      await expect(listPackageEntries(output)).rejects.toThrow('main.bicep was edited after generation');
+
+      // bicep build main.bicep --outfile mainTemplate.json
+      await fs.writeJson(path.join(output, 'mainTemplate.json'), { resources: [] });
+      await fs.utimes(path.join(output, 'mainTemplate.json'), new Date(2030, 0, 2), new Date(2030, 0, 2));
+      expect(await listPackageEntries(output)).toContainEqual({ name: 'mainTemplate.json', path: path.join(output, 'mainTemplate.json') });
+    });
+
+    it('should write both formats and package the ARM JSON of the output directory', async () => {
+      const output = path.join(workDir, 'both');
+      await generate(output, 'both');
+
+      expect(await fs.pathExists(path.join(output, 'mainTemplate.json'))).toBe(true);
+      expect(await fs.pathExists(path.join(output, 'main.bicep'))).toBe(true);
+      expect(await fs.pathExists(getGenerationCompiledDir(output))).toBe(false);
+      expect((await listPackageEntries(output)).map(entry => entry.name)).not.toContain('main.bicep');
+    });
+  });
+});
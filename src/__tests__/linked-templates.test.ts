@@ -0,0 +1,159 @@
+/**
+ * Linked Template Tests
+ *
+ * Tests the _artifactsLocation pattern helpers and inlining linked templates
+ * into mainTemplate.json.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getLinkedTemplatePath,
+  inlineLinkedTemplates,
+  linkedTemplateUri
+} from '../core/linked-templates';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+
+describe('Linked Templates', () => {
+  const nestedTemplate = {
+    $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    contentVersion: '1.0.0.0',
+    parameters: { prefix: { type: 'string' } },
+    resources: []
+  };
+
+  function mainTemplate(): Record<string, unknown> {
+    return {
+      parameters: {
+        _artifactsLocation: { type: 'string' },
+        _artifactsLocationSasToken: { type: 'securestring' }
+      },
+      resources: [{
+        type: 'Microsoft.Resources/deployments',
+        name: 'storage',
+        properties: {
+          mode: 'Incremental',
+          templateLink: { uri: linkedTemplateUri('nestedtemplates/storageAccount.json') },
+          parameters: { prefix: { value: 'acme' } }
+        }
+      }]
+    };
+  }
+
+  describe('getLinkedTemplatePath', () => {
+    it('should read the path from artifacts location URIs', () => {
+      expect(getLinkedTemplatePath(linkedTemplateUri('nestedtemplates/a.json'))).toBe('nestedtemplates/a.json');
+      expect(getLinkedTemplatePath("[uri(parameters('_artifactsLocation'), './b.json')]")).toBe('b.json');
+    });
+
+    it('should ignore other URIs', () => {
+      expect(getLinkedTemplatePath('https://example.com/template.json')).toBeUndefined();
+      expect(getLinkedTemplatePath(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('inlineLinkedTemplates', () => {
+    it('should replace templateLink with inline content in inner scope', () => {
+      const main = mainTemplate();
+      const result = inlineLinkedTemplates(main, { 'nestedtemplates/storageAccount.json': nestedTemplate });
+
+      const deployment = (result.template.resources as Array<{ properties: Record<string, unknown> }>)[0];
+      expect(result.inlined).toEqual(['nestedtemplates/storageAccount.json']);
+      expect(deployment.properties.templateLink).toBeUndefined();
+      expect(deployment.properties.template).toEqual(nestedTemplate);
+      expect(deployment.properties.expressionEvaluationOptions).toEqual({ scope: 'inner' });
+      expect(deployment.properties.parameters).toEqual({ prefix: { value: 'acme' } });
+    });
+
+    it('should drop the artifacts location parameters once unused', () => {
+      const result = inlineLinkedTemplates(mainTemplate(), { 'nestedtemplates/storageAccount.json': nestedTemplate });
+
+      expect(result.template.parameters).toEqual({});
+    });
+
+    it('should leave deployments alone when the linked template was not rendered', () => {
+      const main = mainTemplate();
+      const result = inlineLinkedTemplates(main, {});
+
+      expect(result.inlined).toEqual([]);
+      expect(result.template).toEqual(main);
+    });
+  });
+
+  describe('TemplateGenerator', () => {
+    let workDir: string;
+    let registry: TemplateRegistry;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-linked-'));
+      const templateDir = path.join(workDir, 'template');
+      await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }]
+      });
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), `{
+    "parameters": {
+        {{artifactsLocationParameters}}
+    },
+    "resources": [
+        {
+            "type": "Microsoft.Resources/deployments",
+            "apiVersion": "{{latestApiVersion 'Microsoft.Resources/deployments'}}",
+            "name": "storage",
+            "properties": {
+                "mode": "Incremental",
+                "templateLink": { "uri": "{{linkedTemplateUri 'nestedtemplates/storageAccount.json'}}" }
+            }
+        }
+    ]
+}`);
+      await fs.outputFile(
+        path.join(templateDir, 'nestedtemplates', 'storageAccount.json.hbs'),
+        '{ "contentVersion": "1.0.0.0", "metadata": { "application": "{{name}}" }, "resources": [] }'
+      );
+
+      registry = new TemplateRegistry();
+      registry.registerTemplate({
+        type: 'linked',
+        name: 'Linked',
+        description: 'Template with a linked template',
+        version: '1.0.0',
+        templatePath: templateDir
+      });
+    });
+
+    afterEach(async () => {
+      await fs.remove(workDir);
+    });
+
+    it('should keep linked templates in their subfolder by default', async () => {
+      const output = path.join(workDir, 'output');
+      const result = await new TemplateGenerator(registry).generateTemplate({
+        type: 'linked', publisher: 'Acme', name: 'App', output
+      });
+
+      const main = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      expect(result.inlined).toBeUndefined();
+      expect(Object.keys(main.parameters)).toEqual(['_artifactsLocation', '_artifactsLocationSasToken']);
+      expect(main.parameters._artifactsLocation.defaultValue).toBe('[deployment().properties.templateLink.uri]');
+      expect(main.resources[0].properties.templateLink.uri).toBe(linkedTemplateUri('nestedtemplates/storageAccount.json'));
+      expect(await fs.pathExists(path.join(output, 'nestedtemplates', 'storageAccount.json'))).toBe(true);
+    });
+
+    it('should inline linked templates into mainTemplate.json on request', async () => {
+      const output = path.join(workDir, 'output');
+      const result = await new TemplateGenerator(registry).generateTemplate({
+        type: 'linked', publisher: 'Acme', name: 'App', output, inlineLinkedTemplates: true
+      });
+
+      const main = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      expect(result.inlined).toEqual(['nestedtemplates/storageAccount.json']);
+      expect(result.files.map(file => file.output)).toEqual(['mainTemplate.json']);
+      expect(main.resources[0].properties.template.metadata).toEqual({ application: 'App' });
+      expect(main.parameters).toEqual({});
+      expect(await fs.pathExists(path.join(output, 'nestedtemplates'))).toBe(false);
+    });
+  });
+});
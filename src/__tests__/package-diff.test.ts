@@ -0,0 +1,182 @@
+/**
+ * Package Diff Tests
+ *
+ * Tests the generation record written by each run, the semantic comparison of
+ * generated files and `azmp diff`'s comparison with a fresh render.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { diffGeneratedFile, diffJsonDocuments } from '../core/semantic-diff';
+import {
+  getGenerationRecordPath,
+  readGenerationRecord,
+  recordToConfig
+} from '../core/generation-record';
+import { diffOutputDirectory } from '../core/package-diff';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { AppConfig } from '../config/app-config';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+const ARM_SCHEMA = 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#';
+
+describe('Package Diff', () => {
+  describe('diffJsonDocuments', () => {
+    it('should compare ARM templates by section and resources by type/name', () => {
+      const before = {
+        $schema: ARM_SCHEMA,
+        contentVersion: '1.0.0.0',
+        parameters: { sku: { type: 'string', defaultValue: 'Standard_LRS' }, old: { type: 'string' } },
+        variables: { name: 'a' },
+        resources: [
+          { type: 'Microsoft.Storage/storageAccounts', name: 'sa', properties: { minimumTlsVersion: 'TLS1_0' } },
+          { type: 'Microsoft.Insights/diagnosticSettings', name: 'diag' }
+        ],
+        outputs: {}
+      };
+      const after = {
+        contentVersion: '1.0.0.0',
+        $schema: ARM_SCHEMA,
+        parameters: { sku: { type: 'string', defaultValue: 'Standard_GRS' }, old: { type: 'string' } },
+        variables: { name: 'a' },
+        resources: [
+          { type: 'Microsoft.Insights/diagnosticSettings', name: 'diag' },
+          { type: 'Microsoft.Storage/storageAccounts', name: 'sa', properties: { minimumTlsVersion: 'TLS1_2' } }
+        ],
+        outputs: { id: { type: 'string', value: 'x' } }
+      };
+
+      expect(diffJsonDocuments(before, after)).toEqual([
+        { section: 'parameters', key: 'sku', path: 'defaultValue', kind: 'changed', before: 'Standard_LRS', after: 'Standard_GRS' },
+        {
+          section: 'resources',
+          key: 'Microsoft.Storage/storageAccounts/sa',
+          path: 'properties.minimumTlsVersion',
+          kind: 'changed',
+          before: 'TLS1_0',
+          after: 'TLS1_2'
+        },
+        { section: 'outputs', key: 'id', kind: 'added', after: { type: 'string', value: 'x' } }
+      ]);
+    });
+
+    it('should compare createUiDefinition files by UI element path', () => {
+      const ui = (label: string, extra: object[] = []): object => ({
+        handler: 'Microsoft.Azure.CreateUIDef',
+        version: '0.1.2-preview',
+        parameters: {
+          basics: [{ name: 'intro', type: 'Microsoft.Common.InfoBox' }],
+          steps: [{
+            name: 'storage',
+            label: 'Storage',
+            elements: [{ name: 'security', type: 'Microsoft.Common.Section', elements: [{ name: 'tls', label }, ...extra] }]
+          }],
+          outputs: { location: '[location()]' }
+        }
+      });
+
+      expect(diffJsonDocuments(ui('TLS'), ui('Minimum TLS', [{ name: 'https', label: 'HTTPS' }]))).toEqual([
+        { section: 'uiElements', key: 'storage/security/https', kind: 'added', after: { name: 'https', label: 'HTTPS' } },
+        { section: 'uiElements', key: 'storage/security/tls', path: 'label', kind: 'changed', before: 'TLS', after: 'Minimum TLS' }
+      ]);
+    });
+
+    it('should ignore formatting and key order', () => {
+      expect(diffGeneratedFile('a.json', '{"a":1,"b":[1,2]}', '{\n    "b": [1, 2],\n    "a": 1\n}\n'))
+        .toEqual({ file: 'a.json', status: 'unchanged', changes: [] });
+    });
+
+    it('should report missing, extra and unparsable files', () => {
+      expect(diffGeneratedFile('a.json', undefined, '{}').status).toBe('added');
+      expect(diffGeneratedFile('a.json', '{}', undefined).status).toBe('removed');
+      expect(diffGeneratedFile('a.json', '{', '{}').changes[0].key).toBe('(invalid JSON)');
+      expect(diffGeneratedFile('setup.sh', 'echo a', 'echo b').status).toBe('changed');
+    });
+  });
+
+  describe('Generation record and fresh render', () => {
+    let workDir: string;
+    let output: string;
+    let generator: TemplateGenerator;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-diff-test-'));
+      output = path.join(workDir, 'output');
+      generator = new TemplateGenerator(new TemplateRegistry());
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      await generator.generateTemplate({
+        type: 'storage',
+        publisher: 'Acme',
+        name: 'App',
+        output,
+        seed: 'release-1',
+        parameters: { minimumTlsVersion: 'TLS1_2' },
+        templatesDir: path.join(workDir, 'templates')
+      });
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await fs.remove(workDir);
+    });
+
+    it('should record the inputs of a run in .azmp/generation.json', async () => {
+      const record = await readGenerationRecord(output);
+
+      expect(record).toMatchObject({
+        generatorVersion: AppConfig.getGeneratorVersion(),
+        type: 'storage',
+        publisher: 'Acme',
+        name: 'App',
+        seed: 'release-1',
+        deterministic: true,
+        parameters: { minimumTlsVersion: 'TLS1_2' },
+        templatesDir: '../templates'
+      });
+      expect(record.files).toContain('mainTemplate.json');
+      expect(recordToConfig(record, output, '/tmp/render').templatesDir).toBe(path.join(workDir, 'templates'));
+    });
+
+    it('should find no differences in untouched output', async () => {
+      const diff = await diffOutputDirectory(output, generator);
+
+      expect(diff.identical).toBe(true);
+      expect(diff.files.length).toBeGreaterThan(0);
+    });
+
+    it('should report hand edits as semantic differences', async () => {
+      const mainPath = path.join(output, 'mainTemplate.json');
+      const main = await fs.readJson(mainPath);
+      main.parameters.minimumTlsVersion.defaultValue = 'TLS1_0';
+      await fs.writeJson(mainPath, main);
+      await fs.remove(path.join(output, 'viewDefinition.json'));
+
+      const diff = await diffOutputDirectory(output, generator);
+
+      expect(diff.identical).toBe(false);
+      expect(diff.files.find(file => file.file === 'viewDefinition.json')?.status).toBe('added');
+      expect(diff.files.find(file => file.file === 'mainTemplate.json')?.changes).toEqual([{
+        section: 'parameters',
+        key: 'minimumTlsVersion',
+        path: 'defaultValue',
+        kind: 'changed',
+        before: 'TLS1_0',
+        after: 'TLS1_2'
+      }]);
+    });
+
+    it('should fail without a generation record', async () => {
+      await fs.remove(getGenerationRecordPath(output));
+
+      await expect(diffOutputDirectory(output, generator)).rejects.toBeInstanceOf(FileSystemError);
+    });
+
+    it('should reject a malformed generation record', async () => {
+      await fs.writeJson(getGenerationRecordPath(output), { type: 'storage', files: 'all' });
+
+      await expect(readGenerationRecord(output)).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Package Upgrade Tests
+ *
+ * Tests the per-path three-way JSON merge and `azmp upgrade`, which merges
+ * the recorded base render, hand-edited files and a fresh render.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { formatConflictReport, mergeJson, mergeText } from '../core/three-way-merge';
+import { UPGRADE_CONFLICTS_FILE, upgradeOutputDirectory } from '../core/package-upgrade';
+import { GENERATION_RECORD_DIR, getGenerationBaseDir } from '../core/generation-record';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import { FileSystemError } from '../utils/error-handler';
+
+describe('Package Upgrade', () => {
+  describe('mergeJson', () => {
+    it('should take changes made on only one side', () => {
+      const base = { a: 1, b: 1, c: 1 };
+      const current = { a: 2, b: 1, c: 1, mine: true };
+      const incoming = { a: 1, b: 3, theirs: true };
+
+      expect(mergeJson(base, current, incoming)).toEqual({
+        value: { a: 2, b: 3, mine: true, theirs: true },
+        conflicts: []
+      });
+    });
+
+    it('should report values changed differently on both sides and keep the current value', () => {
+      const result = mergeJson(
+        { parameters: { sku: { defaultValue: 'Standard_LRS' } } },
+        { parameters: { sku: { defaultValue: 'Premium_LRS' } } },
+        { parameters: { sku: { defaultValue: 'Standard_GRS' } } }
+      );
+
+      expect(result.value).toEqual({ parameters: { sku: { defaultValue: 'Premium_LRS' } } });
+      expect(result.conflicts).toEqual([{
+        path: 'parameters.sku.defaultValue',
+        base: 'Standard_LRS',
+        current: 'Premium_LRS',
+        incoming: 'Standard_GRS'
+      }]);
+    });
+
+    it('should merge resources by type and name', () => {
+      const storage = { type: 'Microsoft.Storage/storageAccounts', name: 'sa', sku: 'Standard_LRS' };
+      const diagnostics = { type: 'Microsoft.Insights/diagnosticSettings', name: 'diag' };
+      const lock = { type: 'Microsoft.Authorization/locks', name: 'lock' };
+
+      const result = mergeJson(
+        { resources: [storage, diagnostics] },
+        { resources: [{ ...storage, tags: { team: 'a' } }, diagnostics] },
+        { resources: [{ ...storage, sku: 'Standard_GRS' }, lock] }
+      );
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.value).toEqual({
+        resources: [{ ...storage, sku: 'Standard_GRS', tags: { team: 'a' } }, lock]
+      });
+    });
+
+    it('should treat unidentifiable arrays changed on both sides as one conflict', () => {
+      const result = mergeJson({ list: [1, 2] }, { list: [1, 2, 3] }, { list: [0, 1, 2] });
+
+      expect(result.value).toEqual({ list: [1, 2, 3] });
+      expect(result.conflicts.map(conflict => conflict.path)).toEqual(['list']);
+    });
+  });
+
+  describe('mergeText and the conflict report', () => {
+    it('should merge whole text files', () => {
+      expect(mergeText('a', 'b', 'a')).toEqual({ value: 'b', conflicts: [] });
+      expect(mergeText('a', 'a', 'c')).toEqual({ value: 'c', conflicts: [] });
+      expect(mergeText('a', 'b', 'c').conflicts).toHaveLength(1);
+    });
+
+    it('should write conflict markers per path', () => {
+      const report = formatConflictReport(
+        [{ file: 'mainTemplate.json', conflicts: [{ path: 'variables.x', base: 1, current: 2, incoming: 3 }] }],
+        { base: 'v1', incoming: 'v2' }
+      );
+
+      expect(report).toBe([
+        'mainTemplate.json: variables.x',
+        '<<<<<<< current (kept)',
+        '2',
+        '||||||| base (v1)',
+        '1',
+        '=======',
+        '3',
+        '>>>>>>> incoming (v2)',
+        ''
+      ].join('\n'));
+    });
+  });
+
+  describe('upgradeOutputDirectory', () => {
+    let workDir: string;
+    let templateDir: string;
+    let output: string;
+    let generator: TemplateGenerator;
+
+    const writeTemplate = async (source: object): Promise<void> => {
+      await fs.outputFile(path.join(templateDir, 'main.json.hbs'), JSON.stringify(source).replace('NAME', '{{name}}'));
+    };
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-upgrade-test-'));
+      templateDir = path.join(workDir, 'template');
+      output = path.join(workDir, 'output');
+      await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'main.json.hbs', output: 'mainTemplate.json' }]
+      });
+      await writeTemplate({ name: 'NAME', sku: 'Standard_LRS', tls: 'TLS1_0' });
+
+      const registry = new TemplateRegistry();
+      registry.registerTemplate({
+        type: 'custom',
+        name: 'Custom',
+        description: 'Custom template',
+        version: '1.0.0',
+        templatePath: templateDir
+      });
+      generator = new TemplateGenerator(registry);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      await generator.generateTemplate({ type: 'custom', publisher: 'Acme', name: 'App', output, seed: 's' });
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await fs.remove(workDir);
+    });
+
+    it('should keep hand edits and take template changes', async () => {
+      await fs.writeJson(path.join(output, 'mainTemplate.json'), { name: 'App', sku: 'Premium_LRS', tls: 'TLS1_0' });
+      await writeTemplate({ name: 'NAME', sku: 'Standard_LRS', tls: 'TLS1_2', https: true });
+
+      const result = await upgradeOutputDirectory(output, { generator });
+
+      expect(result.conflictCount).toBe(0);
+      expect(result.files).toEqual([{ file: 'mainTemplate.json', action: 'merged', conflicts: [] }]);
+      expect(await fs.readJson(path.join(output, 'mainTemplate.json'))).toEqual({
+        name: 'App', sku: 'Premium_LRS', tls: 'TLS1_2', https: true
+      });
+      // The fresh render is the base of the next upgrade
+      expect(await fs.readJson(path.join(getGenerationBaseDir(output), 'mainTemplate.json'))).toEqual({
+        name: 'App', sku: 'Standard_LRS', tls: 'TLS1_2', https: true
+      });
+    });
+
+    it('should keep valid JSON and write a conflict report for conflicting edits', async () => {
+      await fs.writeJson(path.join(output, 'mainTemplate.json'), { name: 'App', sku: 'Premium_LRS', tls: 'TLS1_0' });
+      await writeTemplate({ name: 'NAME', sku: 'Standard_GRS', tls: 'TLS1_2' });
+
+      const result = await upgradeOutputDirectory(output, { generator });
+
+      expect(result.files[0].action).toBe('conflict');
+      expect(result.files[0].conflicts.map(conflict => conflict.path)).toEqual(['sku']);
+      expect(await fs.readJson(path.join(output, 'mainTemplate.json'))).toEqual({
+        name: 'App', sku: 'Premium_LRS', tls: 'TLS1_2'
+      });
+      expect(result.reportPath).toBe(path.join(output, GENERATION_RECORD_DIR, UPGRADE_CONFLICTS_FILE));
+      expect(await fs.readFile(result.reportPath as string, 'utf8')).toContain('<<<<<<< current (kept)\n"Premium_LRS"');
+    });
+
+    it('should not write anything in a dry run', async () => {
+      await writeTemplate({ name: 'NAME', sku: 'Standard_GRS', tls: 'TLS1_0' });
+      const before = await fs.readFile(path.join(output, 'mainTemplate.json'), 'utf8');
+
+      const result = await upgradeOutputDirectory(output, { generator, dryRun: true });
+
+      expect(result.files[0].action).toBe('updated');
+      expect(await fs.readFile(path.join(output, 'mainTemplate.json'), 'utf8')).toBe(before);
+    });
+
+    it('should fail without a recorded base render', async () => {
+      await fs.remove(getGenerationBaseDir(output));
+
+      await expect(upgradeOutputDirectory(output, { generator })).rejects.toBeInstanceOf(FileSystemError);
+    });
+  });
+});
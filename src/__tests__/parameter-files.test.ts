@@ -0,0 +1,143 @@
+/**
+ * Deployment Parameter File Tests
+ *
+ * Tests `azmp params generate`: parameter files for named profiles, and the
+ * pairwise matrix over the storage template's parameters.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildPairwiseRows,
+  DEPLOYMENT_PARAMETERS_SCHEMA_URL,
+  generateParameterFiles,
+  getMatrixFactors,
+  readTemplateParameters
+} from '../core/parameter-files';
+import { getConfigManager } from '../utils/config-manager';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+const storageExpected = path.join(__dirname, '../templates/storage/tests/default/expected');
+
+const required = { storageAccountNamePrefix: 'azmptest', applicationName: 'azmp-test' };
+
+describe('Deployment Parameter Files', () => {
+  let workDir: string;
+  let packageDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-params-test-'));
+    packageDir = path.join(workDir, 'output');
+    outputDir = path.join(workDir, 'output-parameters');
+    await fs.copy(path.join(storageExpected, 'mainTemplate.json'), path.join(packageDir, 'mainTemplate.json'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('buildPairwiseRows', () => {
+    it('should cover every pair of values with far fewer rows than all combinations', () => {
+      const levels = [2, 4, 3, 2, 3];
+
+      const { rows, pairs } = buildPairwiseRows(levels);
+
+      expect(pairs).toBe(2 * 4 + 2 * 3 + 2 * 2 + 2 * 3 + 4 * 3 + 4 * 2 + 4 * 3 + 3 * 2 + 3 * 3 + 2 * 3);
+      expect(rows.length).toBeLessThan(levels.reduce((product, level) => product * level, 1) / 4);
+      expect(rows[0]).toEqual([0, 0, 0, 0, 0]);
+      for (let first = 0; first < levels.length; first++) {
+        for (let second = first + 1; second < levels.length; second++) {
+          for (let a = 0; a < levels[first]; a++) {
+            for (let b = 0; b < levels[second]; b++) {
+              expect(rows.some(row => row[first] === a && row[second] === b)).toBe(true);
+            }
+          }
+        }
+      }
+      expect(buildPairwiseRows([3])).toEqual({ rows: [[0], [1], [2]], pairs: 0 });
+      expect(buildPairwiseRows([])).toEqual({ rows: [[]], pairs: 0 });
+    });
+  });
+
+  describe('generateParameterFiles', () => {
+    it('should write a file per profile with literal defaults and checked values', async () => {
+      const result = await generateParameterFiles({
+        packageDir,
+        outputDir,
+        profiles: { default: required, 'locked-down': { ...required, publicNetworkAccess: 'Disabled', allowSharedKeyAccess: false } },
+        names: ['default', 'locked-down'],
+        set: { blobSoftDeleteDays: '30' }
+      });
+
+      expect(result.files.map(file => file.file)).toEqual(['azuredeploy.parameters.json', 'azuredeploy.parameters.locked-down.json']);
+      const defaults = await fs.readJson(path.join(outputDir, 'azuredeploy.parameters.json'));
+      expect(defaults.$schema).toBe(DEPLOYMENT_PARAMETERS_SCHEMA_URL);
+      expect(Object.keys(defaults.parameters)).not.toContain('location');
+      expect(defaults.parameters).toMatchObject({
+        storageAccountNamePrefix: { value: 'azmptest' },
+        minimumTlsVersion: { value: 'TLS1_2' },
+        publicNetworkAccess: { value: 'Enabled' },
+        blobSoftDeleteDays: { value: 30 }
+      });
+      const lockedDown = await fs.readJson(path.join(outputDir, 'azuredeploy.parameters.locked-down.json'));
+      expect(lockedDown.parameters).toMatchObject({ publicNetworkAccess: { value: 'Disabled' }, allowSharedKeyAccess: { value: false } });
+    });
+
+    it('should write a pairwise matrix over allowedValues, bools and int bounds', async () => {
+      const result = await generateParameterFiles({
+        packageDir, outputDir, profiles: { default: required }, set: { minimumTlsVersion: 'TLS1_2' }, matrix: 'pairwise'
+      });
+
+      expect(result.factors.find(factor => factor.name === 'blobSoftDeleteDays')?.values).toEqual([7, 0, 365]);
+      expect(result.factors.map(factor => factor.name)).not.toContain('minimumTlsVersion');
+      expect(result.files.length).toBeLessThanOrEqual(15);
+      expect(result.files[0].name).toBe('pairwise-01');
+
+      const parameters = await readTemplateParameters(packageDir);
+      const files = await Promise.all(result.files.map(file => fs.readJson(path.join(outputDir, file.file))));
+      for (const file of files) {
+        expect(file.parameters.minimumTlsVersion.value).toBe('TLS1_2');
+        expect(file.parameters.storageAccountNamePrefix.value).toBe('azmptest');
+      }
+      const [first, second] = result.factors.filter(factor => factor.name === 'storageAccountType' || factor.name === 'containerSoftDeleteDays');
+      for (const a of first.values) {
+        for (const b of second.values) {
+          expect(files.some(file => file.parameters[first.name].value === a && file.parameters[second.name].value === b)).toBe(true);
+        }
+      }
+      expect(getMatrixFactors(parameters).length).toBe(result.factors.length + 1);
+    });
+
+    it('should reject unknown profiles, invalid values and missing required values', async () => {
+      const generate = (options: Partial<Parameters<typeof generateParameterFiles>[0]>) =>
+        generateParameterFiles({ packageDir, outputDir, profiles: { default: required }, ...options });
+
+      await expect(generate({ names: ['secure'] })).rejects.toThrow('Unknown parameter profile: secure');
+      await expect(generate({ names: ['default', 'default'], matrix: 'pairwise' })).rejects.toThrow(ValidationError);
+      await expect(generate({ profiles: {} })).rejects.toMatchObject({
+        details: [
+          'storageAccountNamePrefix has no default; set it in the profile or with --set storageAccountNamePrefix=<value>',
+          'applicationName has no default; set it in the profile or with --set applicationName=<value>'
+        ]
+      });
+      await expect(generate({ set: { blobSoftDeleteDays: '400', enableVersioning: 'maybe', retention: '1' } })).rejects.toMatchObject({
+        details: [
+          "Unknown parameter 'retention'",
+          'blobSoftDeleteDays must be at most 365 (got 400)',
+          "enableVersioning: 'maybe' is not true or false"
+        ]
+      });
+      await expect(generate({ packageDir: workDir })).rejects.toThrow(FileSystemError);
+      expect(await fs.pathExists(outputDir)).toBe(false);
+    });
+  });
+
+  it('should validate parameterProfiles in azmp.config.json', () => {
+    expect(getConfigManager().validateConfig({ parameterProfiles: { default: required } }).errors).toEqual([]);
+    expect(getConfigManager().validateConfig({
+      parameterProfiles: { broken: [] as unknown as Record<string, unknown> }
+    }).errors).toEqual(['parameterProfiles.broken must be an object']);
+  });
+});
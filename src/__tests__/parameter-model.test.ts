@@ -0,0 +1,190 @@
+/**
+ * Template Parameter Model Tests
+ *
+ * Tests typed parameter definitions, value coercion and validation, and how
+ * parameter values reach the rendered storage template.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkParameterValue,
+  coerceParameterValue,
+  parseSetArguments,
+  resolveParameterValues,
+  validateParameterDefinition
+} from '../core/parameter-model';
+import { loadTemplateManifest, TemplateManifest } from '../core/template-manifest';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { AppConfig } from '../config/app-config';
+import { ValidationError } from '../utils/error-handler';
+
+describe('Template Parameter Model', () => {
+  const manifest: TemplateManifest = {
+    type: 'sample',
+    files: [{ source: 'main.json.hbs', output: 'mainTemplate.json' }],
+    parameters: {
+      tier: { type: 'string', default: 'Standard', allowedValues: ['Standard', 'Premium'] },
+      retentionDays: { type: 'int', default: 7, minValue: 0, maxValue: 365 },
+      versioning: { type: 'bool', default: false },
+      prefix: { type: 'string', minLength: 3, maxLength: 11, pattern: '^[a-z0-9]+$' },
+      tags: { type: 'object', default: {} }
+    }
+  };
+
+  describe('validateParameterDefinition', () => {
+    it('should accept well-formed definitions', () => {
+      for (const [name, definition] of Object.entries(manifest.parameters ?? {})) {
+        expect(validateParameterDefinition(name, definition)).toEqual([]);
+      }
+    });
+
+    it('should reject unknown types', () => {
+      expect(validateParameterDefinition('x', { type: 'number' })).toEqual([
+        'parameters.x.type must be one of: string, int, bool, array, object'
+      ]);
+    });
+
+    it('should reject defaults that break their own constraints', () => {
+      expect(validateParameterDefinition('days', { type: 'int', default: 400, maxValue: 365 })).toEqual([
+        'parameters.days.default: days must be at most 365 (got 400)'
+      ]);
+    });
+
+    it('should reject invalid patterns', () => {
+      expect(validateParameterDefinition('x', { pattern: '(' })).toEqual([
+        'parameters.x.pattern must be a valid regular expression'
+      ]);
+    });
+  });
+
+  describe('coerceParameterValue', () => {
+    it('should parse strings as the declared type', () => {
+      expect(coerceParameterValue('n', { type: 'int' }, '30')).toBe(30);
+      expect(coerceParameterValue('b', { type: 'bool' }, 'TRUE')).toBe(true);
+      expect(coerceParameterValue('o', { type: 'object' }, '{"env":"prod"}')).toEqual({ env: 'prod' });
+      expect(coerceParameterValue('s', {}, ' keep ')).toBe(' keep ');
+    });
+
+    it('should leave typed values unchanged', () => {
+      expect(coerceParameterValue('n', { type: 'int' }, 30)).toBe(30);
+    });
+
+    it('should throw a ValidationError for unparseable strings', () => {
+      expect(() => coerceParameterValue('n', { type: 'int' }, '3.5')).toThrow(ValidationError);
+      expect(() => coerceParameterValue('b', { type: 'bool' }, 'yes')).toThrow(ValidationError);
+    });
+  });
+
+  describe('checkParameterValue', () => {
+    it('should enforce type, range, length, enum and pattern constraints', () => {
+      const parameters = manifest.parameters ?? {};
+
+      expect(checkParameterValue('retentionDays', parameters.retentionDays, '7')).toEqual([
+        'retentionDays must be of type int (got string)'
+      ]);
+      expect(checkParameterValue('retentionDays', parameters.retentionDays, -1)).toHaveLength(1);
+      expect(checkParameterValue('tier', parameters.tier, 'Basic')).toHaveLength(1);
+      expect(checkParameterValue('prefix', parameters.prefix, 'ab')).toHaveLength(1);
+      expect(checkParameterValue('prefix', parameters.prefix, 'Acme')).toEqual(['prefix must match ^[a-z0-9]+$']);
+      expect(checkParameterValue('prefix', parameters.prefix, 'acme')).toEqual([]);
+    });
+  });
+
+  describe('parseSetArguments', () => {
+    it('should split on the first equals sign', () => {
+      expect(parseSetArguments(['tier=Premium', 'filter=a=b', 'tier=Standard'])).toEqual({
+        tier: 'Standard',
+        filter: 'a=b'
+      });
+    });
+
+    it('should reject arguments without a key', () => {
+      expect(() => parseSetArguments(['=value', 'novalue'])).toThrow(ValidationError);
+    });
+  });
+
+  describe('resolveParameterValues', () => {
+    it('should apply supplied values over declared defaults', () => {
+      expect(resolveParameterValues(manifest, { retentionDays: '30', versioning: true })).toEqual({
+        tier: 'Standard',
+        retentionDays: 30,
+        versioning: true,
+        tags: {}
+      });
+    });
+
+    it('should report every problem at once', () => {
+      let thrown: unknown;
+      try {
+        resolveParameterValues(manifest, { retentionDays: 'many', tier: 'Basic', typo: 'x' });
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(ValidationError);
+      const details = (thrown as ValidationError).details ?? [];
+      expect(details).toContain("retentionDays: 'many' is not an integer");
+      expect(details).toContain('tier must be one of: "Standard", "Premium"');
+      expect(details).toContain("Unknown parameter 'typo'");
+    });
+  });
+
+  describe('Storage template parameters', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-parameters-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(workDir);
+    });
+
+    it('should declare all 16 storage parameters', async () => {
+      const storageManifest = await loadTemplateManifest(path.join(AppConfig.getTemplatesDir(), 'storage'));
+
+      expect(Object.keys(storageManifest.parameters ?? {})).toHaveLength(16);
+    });
+
+    it('should render supplied values as the generated defaults', async () => {
+      const generator = new TemplateGenerator(new TemplateRegistry());
+      await generator.generateTemplate({
+        type: 'storage',
+        publisher: 'Acme',
+        name: 'Storage App',
+        output: workDir,
+        parameters: { minimumTlsVersion: 'TLS1_2', blobSoftDeleteDays: '30', enableVersioning: 'true' }
+      });
+
+      const mainTemplate = await fs.readJson(path.join(workDir, 'mainTemplate.json'));
+      expect(mainTemplate.parameters.blobSoftDeleteDays.defaultValue).toBe(30);
+      expect(mainTemplate.parameters.enableVersioning.defaultValue).toBe(true);
+      expect(mainTemplate.parameters.allowSharedKeyAccess.defaultValue).toBe(false);
+
+      const uiDefinition = await fs.readJson(path.join(workDir, 'createUiDefinition.json'));
+      const dataProtection = uiDefinition.parameters.steps.find(
+        (step: { name: string }) => step.name === 'dataProtectionConfig'
+      );
+      const softDelete = dataProtection.elements.find(
+        (element: { name: string }) => element.name === 'softDeleteSection'
+      );
+      expect(softDelete.elements[0].defaultValue).toBe(30);
+    });
+
+    it('should refuse out-of-range values before writing any file', async () => {
+      const generator = new TemplateGenerator(new TemplateRegistry());
+
+      await expect(generator.generateTemplate({
+        type: 'storage',
+        publisher: 'Acme',
+        name: 'Storage App',
+        output: path.join(workDir, 'output'),
+        parameters: { containerSoftDeleteDays: 366 }
+      })).rejects.toThrow(ValidationError);
+      expect(await fs.pathExists(path.join(workDir, 'output'))).toBe(false);
+    });
+  });
+});
@@ -6,6 +6,7 @@
  */
 
 import { HelperRegistrar } from '../core/helper-registrar';
+import { createHandlebarsEnvironment } from '../core/handlebars-environment';
 import { CommandRegistrar } from '../core/command-registrar';
 import { TemplateRegistry } from '../core/template-registry';
 import { IPlugin, PluginContext, PluginConfig } from '../core/plugin';
@@ -152,7 +153,7 @@ describe('Plugin Loading System', () => {
         expect(helperRegistrar.getHelperOwner('testHelper')).toBe('test-plugin');
       });
 
-      it('should register helpers with Handlebars engine', () => {
+      it('should provide helpers to an isolated Handlebars environment only', () => {
         const helperFn = () => 'UPPERCASE';
         const plugin: IPlugin = {
           metadata: { 
@@ -166,10 +167,44 @@ describe('Plugin Loading System', () => {
 
         helperRegistrar.register(plugin, 'test');
 
-        // Verify helper was registered in Handlebars
-        const template = Handlebars.compile('{{toUpper}}');
-        const result = template({});
-        expect(result).toBe('UPPERCASE');
+        // Verify helper renders in a generation environment but not globally
+        const env = createHandlebarsEnvironment({ helpers: helperRegistrar.getPluginHelpers('test') });
+        expect(env.compile('{{toUpper}}')({})).toBe('UPPERCASE');
+        expect(Handlebars.helpers.toUpper).toBeUndefined();
+      });
+
+      it('should reject helpers that override built-in helpers', () => {
+        const plugin: IPlugin = {
+          metadata: { 
+            id: 'test', 
+            name: 'Test', 
+            description: 'Test plugin',
+            version: '1.0.0' 
+          },
+          getHandlebarsHelpers: () => ({ latestApiVersion: () => '2000-01-01' })
+        };
+
+        expect(() => {
+          helperRegistrar.register(plugin, 'test');
+        }).toThrow(/latestApiVersion.*conflicts with a built-in helper/);
+      });
+
+      it('should unregister the helpers of a plugin', () => {
+        const plugin: IPlugin = {
+          metadata: { 
+            id: 'test', 
+            name: 'Test', 
+            description: 'Test plugin',
+            version: '1.0.0' 
+          },
+          getHandlebarsHelpers: () => ({ testHelper: () => 'test' })
+        };
+
+        helperRegistrar.register(plugin, 'test');
+
+        expect(helperRegistrar.unregister('test')).toEqual(['testHelper']);
+        expect(helperRegistrar.hasHelper('testHelper')).toBe(false);
+        expect(() => helperRegistrar.register(plugin, 'test')).not.toThrow();
       });
     });
   });
@@ -558,6 +593,49 @@ describe('Plugin Loading System', () => {
         templateRegistry.registerPlugin(plugin2);
       }).toThrow(/Template type.*shared-type.*conflicts/);
     });
+
+    it('should unregister a plugin with its templates and helpers', () => {
+      const plugin: IPlugin = {
+        metadata: {
+          id: 'test',
+          name: 'Test',
+          description: 'Test plugin',
+          version: '1.0.0'
+        },
+        getTemplates: () => [{
+          type: 'test-type',
+          name: 'Test Template',
+          description: 'Test',
+          version: '1.0.0',
+          templatePath: 'test'
+        }],
+        getHandlebarsHelpers: () => ({ testHelper: () => 'test' })
+      };
+
+      templateRegistry.registerPlugin(plugin);
+
+      expect(templateRegistry.unregisterPlugin('test')).toBe(true);
+      expect(templateRegistry.hasTemplate('test-type')).toBe(false);
+      expect(templateRegistry.getAllHelpers().size).toBe(0);
+      expect(() => templateRegistry.registerPlugin(plugin)).not.toThrow();
+      expect(templateRegistry.unregisterPlugin('unknown')).toBe(false);
+    });
+
+    it('should reject plugin helpers named like built-in helpers', () => {
+      const plugin: IPlugin = {
+        metadata: {
+          id: 'test',
+          name: 'Test',
+          description: 'Test plugin',
+          version: '1.0.0'
+        },
+        getHandlebarsHelpers: () => ({ storageAccountName: () => 'fixed' })
+      };
+
+      expect(() => {
+        templateRegistry.registerPlugin(plugin);
+      }).toThrow(/Handlebars helper 'storageAccountName' from plugin 'test' conflicts with helper from 'built-in'/);
+    });
   });
 
   describe('Plugin Context', () => {
@@ -0,0 +1,152 @@
+/**
+ * Provenance Tests
+ *
+ * Tests the provenance recorded in .azmp/generation.json (versions, plugins,
+ * helpers, output hashes), the integrity check against it, and the package
+ * provenance sidecar.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  readGenerationRecord,
+  sha256,
+  verifyGenerationRecord
+} from '../core/generation-record';
+import {
+  buildPackageProvenance,
+  getPackageProvenancePath,
+  listPackagedFiles,
+  readPackagedTemplateType
+} from '../core/package-provenance';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { IPlugin } from '../core/plugin';
+import { AppConfig } from '../config/app-config';
+
+describe('Generation Provenance', () => {
+  let workDir: string;
+  let output: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-provenance-'));
+    output = path.join(workDir, 'output');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  describe('Built-in template', () => {
+    beforeEach(async () => {
+      await new TemplateGenerator(new TemplateRegistry()).generateTemplate({
+        type: 'storage', publisher: 'Acme', name: 'App', output, seed: 'audit'
+      });
+    });
+
+    it('should record versions, helpers and a SHA-256 of every output', async () => {
+      const record = await readGenerationRecord(output);
+
+      expect(record.templateVersion).toBe('3.1.0');
+      expect(record.plugin).toBeUndefined();
+      expect(record.helpers).toEqual(expect.arrayContaining(['storageAccountName', 'uniqueString', 'if', 'each']));
+      expect(Object.keys(record.sha256)).toEqual(record.files);
+      expect(record.sha256['mainTemplate.json'])
+        .toBe(sha256(await fs.readFile(path.join(output, 'mainTemplate.json'))));
+    });
+
+    it('should render the versions into the _generator metadata', async () => {
+      const mainTemplate = await fs.readJson(path.join(output, 'mainTemplate.json'));
+
+      expect(mainTemplate.metadata._generator).toEqual({
+        name: 'Azure Marketplace Generator',
+        version: AppConfig.getGeneratorVersion(),
+        templateVersion: '3.1.0'
+      });
+    });
+
+    it('should report modified and missing outputs', async () => {
+      await fs.appendFile(path.join(output, 'mainTemplate.json'), ' ');
+      await fs.remove(path.join(output, 'viewDefinition.json'));
+
+      const report = await verifyGenerationRecord(output, await readGenerationRecord(output));
+
+      expect(report.modified).toEqual(['mainTemplate.json']);
+      expect(report.missing).toEqual(['viewDefinition.json']);
+      expect(report.verified).toEqual(['createUiDefinition.json', 'nestedtemplates/storageAccount.json']);
+    });
+
+    it('should describe a package and the origin of each packaged file', async () => {
+      await fs.writeFile(path.join(output, 'README.md'), 'notes');
+      await fs.appendFile(path.join(output, 'viewDefinition.json'), '\n');
+      const packagePath = path.join(workDir, 'app.zip');
+      await fs.writeFile(packagePath, 'zip bytes');
+
+      const provenance = await buildPackageProvenance(output, packagePath);
+
+      expect(getPackageProvenancePath(packagePath)).toBe(path.join(workDir, 'app.provenance.json'));
+      expect(provenance.package).toBe('app.zip');
+      expect(provenance.sha256).toBe(sha256('zip bytes'));
+      expect(provenance.generation?.seed).toBe('audit');
+      expect(provenance.files.map(file => [file.path, file.origin])).toEqual([
+        ['README.md', 'added'],
+        ['createUiDefinition.json', 'generated'],
+        ['mainTemplate.json', 'generated'],
+        ['nestedtemplates/storageAccount.json', 'generated'],
+        ['viewDefinition.json', 'modified']
+      ]);
+    });
+
+    it('should leave the generation record out of the packaged files', async () => {
+      expect(await listPackagedFiles(output)).not.toContain('.azmp/generation.json');
+    });
+  });
+
+  describe('Plugin template', () => {
+    it('should package with the recorded template type', async () => {
+      const templateDir = path.join(workDir, 'plugin', 'templates', 'queue');
+      await fs.outputJson(path.join(templateDir, 'template.manifest.json'), {
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }]
+      });
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "name": "{{name}}" }');
+      const registry = new TemplateRegistry();
+      registry.registerPlugin({
+        metadata: { id: 'queue-plugin', name: 'Queue Plugin', description: 'Queue', version: '2.4.0' },
+        getTemplates: () => [{
+          type: 'queue', name: 'Queue', description: 'Queue template', version: '1.2.0', templatePath: 'templates/queue'
+        }]
+      }, path.join(workDir, 'plugin'));
+
+      expect(await readPackagedTemplateType(output)).toBeUndefined();
+      await new TemplateGenerator(registry).generateTemplate({ type: 'queue', publisher: 'Acme', name: 'App', output });
+
+      expect(await readPackagedTemplateType(output)).toBe('queue');
+    });
+
+    it('should record the providing plugin and its helpers', async () => {
+      const templateDir = path.join(workDir, 'plugin', 'templates', 'queue');
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "name": "{{shout name}}" }');
+      await fs.outputFile(path.join(templateDir, 'createUiDefinition.json.hbs'), '{ "handler": "Microsoft.Azure.CreateUIDef" }');
+      const plugin: IPlugin = {
+        metadata: { id: 'queue-plugin', name: 'Queue Plugin', description: 'Queue', version: '2.4.0' },
+        getTemplates: () => [{
+          type: 'queue', name: 'Queue', description: 'Queue template', version: '1.2.0', templatePath: 'templates/queue'
+        }],
+        getHandlebarsHelpers: () => ({ shout: (value: string) => value.toUpperCase() })
+      };
+      const registry = new TemplateRegistry();
+      registry.registerPlugin(plugin, path.join(workDir, 'plugin'));
+
+      await new TemplateGenerator(registry).generateTemplate({ type: 'queue', publisher: 'Acme', name: 'App', output });
+      const record = await readGenerationRecord(output);
+
+      expect(record.templateVersion).toBe('1.2.0');
+      expect(record.plugin).toEqual({ id: 'queue-plugin', version: '2.4.0' });
+      expect(record.plugins).toEqual([{ id: 'queue-plugin', version: '2.4.0' }]);
+      expect(record.helpers).toContain('shout');
+    });
+  });
+});
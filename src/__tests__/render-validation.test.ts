@@ -0,0 +1,137 @@
+/**
+ * Rendered Output Validation Tests
+ *
+ * Tests that rendered JSON outputs are parsed and pretty-printed, and that
+ * invalid JSON is reported against the .hbs source that produced it.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import Handlebars from 'handlebars';
+import {
+  locateJsonSyntaxError,
+  mapOutputOffsetToSource,
+  parseRenderedJson
+} from '../core/render-validation';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import { TemplateGenerationError } from '../utils/error-handler';
+
+describe('Rendered Output Validation', () => {
+  describe('locateJsonSyntaxError', () => {
+    it('should return undefined for valid JSON', () => {
+      expect(locateJsonSyntaxError('{ "a": [1, -2.5e3, true, null, "x\\u00e9"] }')).toBeUndefined();
+    });
+
+    it('should point at the first offending character', () => {
+      expect(locateJsonSyntaxError('{"a":1,}')).toBe(7);
+      expect(locateJsonSyntaxError('[1,,2]')).toBe(3);
+      expect(locateJsonSyntaxError('{"a":tru}')).toBe(8);
+      expect(locateJsonSyntaxError('{"a":1')).toBe(6);
+    });
+  });
+
+  describe('parseRenderedJson', () => {
+    it('should report the line and column of the error', () => {
+      const result = parseRenderedJson('{\n    "a": 1,\n}');
+
+      expect('error' in result && result.error.position).toEqual({ line: 3, column: 1 });
+    });
+  });
+
+  describe('mapOutputOffsetToSource', () => {
+    it('should map offsets into the taken branch of a conditional', () => {
+      const source = '{\n  "a": 1{{#if extra}},{{/if}}\n}';
+      const context = { extra: true };
+      const output = Handlebars.compile(source)(context);
+      const comma = output.indexOf(',');
+
+      expect(mapOutputOffsetToSource(Handlebars, source, context, output, comma)).toEqual({
+        start: { line: 2, column: 22 },
+        end: { line: 2, column: 22 }
+      });
+    });
+
+    it('should map offsets in plain content to their exact position', () => {
+      const source = '{\n  "name": "{{name}}",\n  "x": }';
+      const context = { name: 'App' };
+      const output = Handlebars.compile(source)(context);
+
+      expect(mapOutputOffsetToSource(Handlebars, source, context, output, output.lastIndexOf('}'))).toEqual({
+        start: { line: 3, column: 8 },
+        end: { line: 3, column: 8 }
+      });
+    });
+  });
+
+  describe('TemplateGenerator', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-render-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(workDir);
+    });
+
+    async function registerTemplate(source: string): Promise<TemplateRegistry> {
+      const templateDir = path.join(workDir, 'template');
+      await fs.ensureDir(templateDir);
+      await fs.writeJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'main.json.hbs', output: 'mainTemplate.json' }],
+        parameters: { enableWebsite: { type: 'bool', default: true } }
+      });
+      await fs.writeFile(path.join(templateDir, 'main.json.hbs'), source);
+
+      const registry = new TemplateRegistry();
+      registry.registerTemplate({
+        type: 'custom',
+        name: 'Custom',
+        description: 'Custom template',
+        version: '1.0.0',
+        templatePath: templateDir
+      });
+      return registry;
+    }
+
+    it('should pretty-print JSON outputs', async () => {
+      const registry = await registerTemplate('{"name":"{{name}}","tags":{"a":1}}');
+      const output = path.join(workDir, 'output');
+
+      await new TemplateGenerator(registry).generateTemplate({ type: 'custom', publisher: 'Acme', name: 'App', output });
+
+      expect(await fs.readFile(path.join(output, 'mainTemplate.json'), 'utf8')).toBe(
+        '{\n    "name": "App",\n    "tags": {\n        "a": 1\n    }\n}\n'
+      );
+    });
+
+    it('should name the output position and the .hbs region of a stray comma', async () => {
+      const registry = await registerTemplate([
+        '{',
+        '    "resources": [',
+        '        { "name": "{{name}}" }{{#if enableWebsite}},{{/if}}',
+        '    ]',
+        '}'
+      ].join('\n'));
+      const output = path.join(workDir, 'output');
+
+      let thrown: unknown;
+      try {
+        await new TemplateGenerator(registry).generateTemplate({ type: 'custom', publisher: 'Acme', name: 'App', output });
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(TemplateGenerationError);
+      const error = thrown as TemplateGenerationError;
+      expect(error.message).toMatch(/Rendered mainTemplate\.json is not valid JSON.*\(line 4, column 5\)/);
+      expect(error.details).toContain('Output: mainTemplate.json:4:5');
+      expect(error.details).toContain('Source: main.json.hbs:3:52');
+      expect(error.details).toContain('Source: main.json.hbs:4:5');
+      expect(await fs.pathExists(path.join(output, 'mainTemplate.json'))).toBe(false);
+    });
+  });
+});
@@ -34,10 +34,13 @@ describe('Enhanced Security Parameters', () => {
   });
 
   test('should have secure defaults', () => {
-    expect(content).toContain('"allowSharedKeyAccess"');
-    expect(content).toContain('"defaultValue": false');
-    expect(content).toContain('"minimumTlsVersion"');
-    expect(content).toContain('"defaultValue": "TLS1_2"');
+    const manifestPath = path.join(__dirname, '../templates/storage/template.manifest.json');
+    const parameters = JSON.parse(fs.readFileSync(manifestPath, 'utf8')).parameters;
+
+    expect(content).toContain('"defaultValue": {{json allowSharedKeyAccess}}');
+    expect(parameters.allowSharedKeyAccess.default).toBe(false);
+    expect(content).toContain('"defaultValue": {{json minimumTlsVersion}}');
+    expect(parameters.minimumTlsVersion.default).toBe('TLS1_2');
   });
 });
 
@@ -63,15 +66,16 @@ describe('Enhanced Data Protection Parameters', () => {
 describe('UI Definition Enhancements', () => {
   const uiPath = path.join(__dirname, '../templates/storage/createUiDefinition.json.hbs');
   const content = fs.readFileSync(uiPath, 'utf8');
+  const labels = fs.readFileSync(path.join(__dirname, '../templates/storage/locales/en.json'), 'utf8');
 
   test('should have Security & Access Control step', () => {
     expect(content).toContain('"securityConfig"');
-    expect(content).toContain('Security');
+    expect(labels).toContain('Security');
   });
 
   test('should have Data Protection step', () => {
     expect(content).toContain('"dataProtectionConfig"');
-    expect(content).toContain('Data Protection');
+    expect(labels).toContain('Data Protection');
   });
 
   test('should map parameters to outputs', () => {
@@ -85,12 +89,17 @@ describe('View Definition Enhancements', () => {
   const viewPath = path.join(__dirname, '../templates/storage/viewDefinition.json.hbs');
   const content = fs.readFileSync(viewPath, 'utf8');
 
-  test('should have Security Status panel', () => {
-    expect(content).toContain('Security Status');
+  const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '../templates/storage/template.manifest.json'), 'utf8'));
+  const mainTemplate = fs.readFileSync(path.join(__dirname, '../templates/storage/mainTemplate.json.hbs'), 'utf8');
+
+  test('should render only the views declared in the manifest', () => {
+    expect(content).toContain('"views": {{json views}}');
+    expect(manifest.views.map((view: { kind: string }) => view.kind)).toEqual(['Overview', 'Metrics']);
   });
 
-  test('should have Data Protection Status panel', () => {
-    expect(content).toContain('Data Protection Status');
+  test('should report Security Status and Data Protection Status as deployment outputs', () => {
+    expect(mainTemplate).toContain('"securityStatus"');
+    expect(mainTemplate).toContain('"dataProtectionStatus"');
   });
 });
 
@@ -114,3 +123,15 @@ describe('Template Integration', () => {
     expect(content).toContain('"dataProtectionStatus"');
   });
 });
+
+describe('Rendered Templates', () => {
+  const expectedDir = path.join(__dirname, '../templates/storage/tests/default/expected');
+
+  test.each(['mainTemplate.json', 'nestedtemplates/storageAccount.json'])('should reference every parameter declared in %s', file => {
+    const content = fs.readFileSync(path.join(expectedDir, file), 'utf8');
+    const unreferenced = Object.keys(JSON.parse(content).parameters)
+      .filter(name => !content.includes(`parameters('${name}')`));
+
+    expect(unreferenced).toEqual([]);
+  });
+});
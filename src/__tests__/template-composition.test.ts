@@ -0,0 +1,314 @@
+/**
+ * Template Composition Tests
+ *
+ * Tests composing the rendered outputs of several template types into one
+ * managed application (`azmp create --compose`), including namespacing,
+ * collision reporting and dependsOn rewiring.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CompositionPart, composeTemplates, getNamespace } from '../core/template-composition';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import { readGenerationRecord } from '../core/generation-record';
+import { diffOutputDirectory } from '../core/package-diff';
+import { TemplateGenerationError } from '../utils/error-handler';
+
+const schema = 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#';
+const location = { type: 'string', defaultValue: '[resourceGroup().location]' };
+
+function part(type: string, files: Record<string, object>): CompositionPart {
+  return {
+    type,
+    outputs: Object.entries(files).map(([output, content]) => ({ output, content: JSON.stringify(content) }))
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function composedFile(result: ReturnType<typeof composeTemplates>, output: string): Record<string, any> {
+  const file = result.outputs.find(entry => entry.output === output);
+  return JSON.parse(file?.content ?? 'null');
+}
+
+const storage = part('storage', {
+  'mainTemplate.json': {
+    $schema: schema,
+    contentVersion: '1.0.0.0',
+    parameters: { location, sku: { type: 'string' } },
+    variables: { accountName: "[concat('sa', uniqueString(resourceGroup().id))]" },
+    resources: [
+      { type: 'Microsoft.Storage/storageAccounts', name: "[variables('accountName')]", sku: { name: "[parameters('sku')]" } },
+      { type: 'Microsoft.Network/networkSecurityGroups', name: 'nsg' },
+      { type: 'Microsoft.Insights/actionGroups', name: 'alerts', dependsOn: ['nsg'] }
+    ],
+    outputs: { id: { type: 'string', value: "[resourceId('Microsoft.Storage/storageAccounts', variables('accountName'))]" } }
+  },
+  'createUiDefinition.json': {
+    handler: 'Microsoft.Azure.CreateUIDef',
+    parameters: {
+      basics: [{ name: 'applicationName', type: 'Microsoft.Common.TextBox' }],
+      steps: [{ name: 'config', label: 'Storage', elements: [{ name: 'sku' }] }],
+      outputs: { location: '[location()]', sku: "[steps('config').sku]" }
+    }
+  },
+  'viewDefinition.json': {
+    views: [
+      { kind: 'Overview', properties: { header: 'Storage' } },
+      { kind: 'Properties', properties: { items: [{ value: "[outputs('id')]" }] } }
+    ]
+  }
+});
+
+const vm = part('vm', {
+  'mainTemplate.json': {
+    $schema: schema,
+    contentVersion: '1.0.0.0',
+    parameters: { location, sku: { type: 'string', defaultValue: 'Standard_B2s' } },
+    resources: [
+      { type: 'Microsoft.Compute/virtualMachines', name: 'vm', properties: { size: "[parameters('sku')]" } },
+      { type: 'Microsoft.Network/networkSecurityGroups', name: 'vmNsg' },
+      { type: 'Microsoft.Network/networkInterfaces', name: 'nic', dependsOn: ['vmNsg', 'missing'] }
+    ],
+    outputs: { id: { type: 'string', value: "[resourceId('Microsoft.Compute/virtualMachines', 'vm')]" } }
+  },
+  'createUiDefinition.json': {
+    handler: 'Microsoft.Azure.CreateUIDef',
+    parameters: {
+      basics: [{ name: 'applicationName', type: 'Microsoft.Common.TextBox' }],
+      steps: [{ name: 'config', label: 'Virtual machine', elements: [{ name: 'size' }] }],
+      outputs: { location: '[location()]', sku: "[steps('config').size]" }
+    }
+  },
+  'viewDefinition.json': {
+    views: [{ kind: 'Overview', properties: { header: 'VM' } }]
+  }
+});
+
+describe('Template Composition', () => {
+  describe('composeTemplates', () => {
+    it('should namespace names and rewrite the expressions referring to them', () => {
+      const result = composeTemplates([storage, vm]);
+      const main = composedFile(result, 'mainTemplate.json');
+
+      expect(Object.keys(main.parameters)).toEqual(['location', 'storage_sku', 'vm_sku']);
+      expect(Object.keys(main.variables)).toEqual(['storage_accountName']);
+      expect(Object.keys(main.outputs)).toEqual(['storage_id', 'vm_id']);
+      expect(main.resources[0]).toEqual({
+        type: 'Microsoft.Storage/storageAccounts',
+        name: "[variables('storage_accountName')]",
+        sku: { name: "[parameters('storage_sku')]" }
+      });
+      expect(main.resources[3].properties.size).toBe("[parameters('vm_sku')]");
+      expect(main.metadata.composedFrom).toEqual(['storage', 'vm']);
+    });
+
+    it('should report collisions and how they were resolved', () => {
+      const { report } = composeTemplates([storage, vm]);
+
+      expect(report.namespaces).toEqual({ storage: 'storage', vm: 'vm' });
+      expect(report.collisions).toEqual(expect.arrayContaining([
+        { kind: 'parameter', name: 'location', types: ['storage', 'vm'], resolution: 'shared' },
+        { kind: 'parameter', name: 'sku', types: ['storage', 'vm'], resolution: 'namespaced' },
+        { kind: 'output', name: 'id', types: ['storage', 'vm'], resolution: 'namespaced' },
+        { kind: 'basics', name: 'applicationName', types: ['storage', 'vm'], resolution: 'shared' },
+        { kind: 'step', name: 'config', types: ['storage', 'vm'], resolution: 'renamed' },
+        { kind: 'view', name: 'Overview', types: ['storage', 'vm'], resolution: 'dropped' }
+      ]));
+    });
+
+    it('should share location when only its metadata differs', () => {
+      const describedLocation = (description: string) => ({ ...location, metadata: { description } });
+      const withLocation = (source: CompositionPart, description: string): CompositionPart => ({
+        ...source,
+        outputs: source.outputs.map(entry => {
+          if (entry.output !== 'mainTemplate.json') {
+            return entry;
+          }
+          const main = JSON.parse(entry.content);
+          return { ...entry, content: JSON.stringify({ ...main, parameters: { ...main.parameters, location: describedLocation(description) } }) };
+        })
+      });
+
+      const result = composeTemplates([withLocation(storage, 'Location for all resources'), withLocation(vm, 'Region of the virtual machine')]);
+      const main = composedFile(result, 'mainTemplate.json');
+
+      expect(main.parameters.location).toEqual(describedLocation('Location for all resources'));
+      expect(Object.keys(main.parameters)).toEqual(['location', 'storage_sku', 'vm_sku']);
+      expect(composedFile(result, 'createUiDefinition.json').parameters.outputs.location).toBe('[location()]');
+      expect(result.report.collisions).toContainEqual({ kind: 'parameter', name: 'location', types: ['storage', 'vm'], resolution: 'shared' });
+
+      // A different default value still keeps the parameters apart
+      const westEurope: CompositionPart = {
+        ...vm,
+        outputs: vm.outputs.map(entry => (entry.output === 'mainTemplate.json'
+          ? { ...entry, content: entry.content.replace('[resourceGroup().location]', 'westeurope') }
+          : entry))
+      };
+      expect(Object.keys(composedFile(composeTemplates([storage, westEurope]), 'mainTemplate.json').parameters))
+        .toEqual(['storage_location', 'storage_sku', 'vm_location', 'vm_sku']);
+
+      // So do allowedValues that only one template declares
+      const eastUsOnly: CompositionPart = {
+        ...storage,
+        outputs: storage.outputs.map(entry => {
+          if (entry.output !== 'mainTemplate.json') {
+            return entry;
+          }
+          const main = JSON.parse(entry.content);
+          return { ...entry, content: JSON.stringify({ ...main, parameters: { ...main.parameters, location: { ...location, allowedValues: ['eastus'] } } }) };
+        })
+      };
+      const restricted = composedFile(composeTemplates([eastUsOnly, vm]), 'mainTemplate.json');
+      expect(Object.keys(restricted.parameters)).toEqual(['storage_location', 'storage_sku', 'vm_location', 'vm_sku']);
+      expect(restricted.parameters.vm_location).toEqual(location);
+    });
+
+    it('should report dependsOn targets that the template does not deploy', () => {
+      const { report } = composeTemplates([storage, vm]);
+
+      expect(report.warnings).toEqual([
+        "vm: Microsoft.Network/networkInterfaces/nic depends on 'missing', which that template does not deploy"
+      ]);
+    });
+
+    it('should rewire plain dependsOn names that another template also deploys', () => {
+      const other = part('network', {
+        'mainTemplate.json': {
+          $schema: schema,
+          resources: [{ type: 'Microsoft.Network/virtualNetworks', name: 'nsg' }]
+        }
+      });
+
+      const result = composeTemplates([storage, other]);
+      const alerts = composedFile(result, 'mainTemplate.json').resources[2];
+
+      expect(alerts.dependsOn).toEqual(["[resourceId('Microsoft.Network/networkSecurityGroups', 'nsg')]"]);
+      expect(result.report.rewired).toEqual([{
+        type: 'storage',
+        resource: 'Microsoft.Insights/actionGroups/alerts',
+        from: 'nsg',
+        to: "[resourceId('Microsoft.Network/networkSecurityGroups', 'nsg')]"
+      }]);
+    });
+
+    it('should merge createUiDefinition steps and outputs', () => {
+      const ui = composedFile(composeTemplates([storage, vm]), 'createUiDefinition.json');
+
+      expect(ui.parameters.basics.map((element: { name: string }) => element.name)).toEqual(['applicationName']);
+      expect(ui.parameters.steps.map((step: { name: string }) => step.name)).toEqual(['config', 'vm_config']);
+      expect(ui.parameters.outputs).toEqual({
+        location: '[location()]',
+        storage_sku: "[steps('config').sku]",
+        vm_sku: "[steps('vm_config').size]"
+      });
+    });
+
+    it('should keep one Overview and rewrite view references to outputs', () => {
+      const view = composedFile(composeTemplates([storage, vm]), 'viewDefinition.json');
+
+      expect(view.views.map((entry: { kind: string }) => entry.kind)).toEqual(['Overview', 'Properties']);
+      expect(view.views[0].properties.header).toBe('Storage');
+      expect(view.views[1].properties.items[0].value).toBe("[outputs('storage_id')]");
+    });
+
+    it('should refuse templates that deploy the same resource', () => {
+      const twin = part('twin', {
+        'mainTemplate.json': { $schema: schema, resources: [{ type: 'Microsoft.Network/networkSecurityGroups', name: 'nsg' }] }
+      });
+
+      expect(() => composeTemplates([storage, twin])).toThrow(TemplateGenerationError);
+      try {
+        composeTemplates([storage, twin]);
+      } catch (error) {
+        expect((error as TemplateGenerationError).details).toEqual([
+          "Resource Microsoft.Network/networkSecurityGroups/nsg is deployed by both 'storage' and 'twin'"
+        ]);
+      }
+    });
+
+    it('should need two distinct template types', () => {
+      expect(() => composeTemplates([storage])).toThrow('at least two');
+      expect(() => composeTemplates([storage, storage])).toThrow('only be composed once');
+      expect(getNamespace('web-app')).toBe('webApp');
+    });
+  });
+
+  describe('generateTemplate with compose', () => {
+    let workDir: string;
+    let output: string;
+    let generator: TemplateGenerator;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-compose-test-'));
+      const templateDir = path.join(workDir, 'vm');
+      output = path.join(workDir, 'output');
+      await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }],
+        parameters: { vmSize: { type: 'string', defaultValue: 'Standard_B2s' } }
+      });
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), JSON.stringify({
+        $schema: schema,
+        parameters: { location, vmSize: { type: 'string', defaultValue: '{{vmSize}}' } },
+        resources: [{ type: 'Microsoft.Compute/virtualMachines', name: 'vm', properties: { size: "[parameters('vmSize')]" } }]
+      }));
+
+      const registry = new TemplateRegistry();
+      registry.registerTemplate({
+        type: 'vm',
+        name: 'Virtual Machine',
+        description: 'VM template',
+        version: '2.0.0',
+        templatePath: templateDir
+      });
+      generator = new TemplateGenerator(registry);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await fs.remove(workDir);
+    });
+
+    it('should render each type with its own parameters and record the composition', async () => {
+      const result = await generator.generateTemplate({
+        type: 'storage',
+        compose: ['storage', 'vm'],
+        publisher: 'Acme',
+        name: 'App',
+        output,
+        seed: 's',
+        parameters: { vm: { vmSize: 'Standard_D4s_v5' } }
+      });
+
+      const main = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      expect(main.parameters.vm_vmSize.defaultValue).toBe('Standard_D4s_v5');
+      expect(main.parameters.storage_storageAccountType).toBeDefined();
+      expect(result.files.map(file => file.output)).toEqual(expect.arrayContaining([
+        'mainTemplate.json', 'createUiDefinition.json', 'viewDefinition.json', 'nestedtemplates/storageAccount.json'
+      ]));
+      expect(result.composition?.types).toEqual(['storage', 'vm']);
+
+      const record = await readGenerationRecord(output);
+      expect(record.type).toBe('storage');
+      expect(record.compose?.map(entry => [entry.type, entry.templateVersion])).toEqual([
+        ['storage', expect.any(String)],
+        ['vm', '2.0.0']
+      ]);
+      expect((await diffOutputDirectory(output, generator)).identical).toBe(true);
+    });
+
+    it('should refuse parameters for types that are not composed', async () => {
+      await expect(generator.generateTemplate({
+        type: 'storage',
+        compose: ['storage', 'vm'],
+        publisher: 'Acme',
+        name: 'App',
+        output,
+        parameters: { web: {} }
+      })).rejects.toThrow('not composed');
+    });
+  });
+});
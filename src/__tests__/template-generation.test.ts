@@ -0,0 +1,221 @@
+/**
+ * Template Generation Tests
+ *
+ * Tests that TemplateGenerator renders any template registered in a
+ * TemplateRegistry, including templates contributed by plugins.
+ */
+
+import Handlebars from 'handlebars';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { registerBuiltInTemplates } from '../core/builtin-templates';
+import { IPlugin } from '../core/plugin';
+import { AppConfig } from '../config/app-config';
+import { TemplateGenerationError } from '../utils/error-handler';
+import { deriveSuffix, pinnedGenerationDate } from '../core/seed';
+
+describe('Template Generation', () => {
+  let registry: TemplateRegistry;
+  let workDir: string;
+
+  beforeEach(async () => {
+    registry = new TemplateRegistry();
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-generation-'));
+  });
+
+  afterEach(async () => {
+    registry.clear();
+    await fs.remove(workDir);
+  });
+
+  async function writePluginTemplate(root: string): Promise<void> {
+    const templateDir = path.join(root, 'templates', 'queue');
+    await fs.ensureDir(templateDir);
+    await fs.writeFile(
+      path.join(templateDir, 'mainTemplate.json.hbs'),
+      '{ "publisher": "{{shout publisher}}", "name": "{{name}}" }'
+    );
+    await fs.writeFile(
+      path.join(templateDir, 'createUiDefinition.json.hbs'),
+      '{ "handler": "Microsoft.Azure.CreateUIDef" }'
+    );
+  }
+
+  const queuePlugin: IPlugin = {
+    metadata: {
+      id: 'queue-plugin',
+      name: 'Queue Plugin',
+      description: 'Adds a queue template',
+      version: '1.0.0'
+    },
+    getTemplates: () => [{
+      type: 'queue',
+      name: 'Queue',
+      description: 'Queue template',
+      version: '1.0.0',
+      templatePath: 'templates/queue'
+    }],
+    getHandlebarsHelpers: () => ({
+      shout: (value: string) => value.toUpperCase()
+    })
+  };
+
+  describe('TemplateRegistry.resolveTemplate', () => {
+    it('should resolve built-in templates against the built-in templates directory', () => {
+      registerBuiltInTemplates(registry);
+
+      const resolved = registry.resolveTemplate('storage');
+
+      expect(resolved?.templateDir).toBe(path.join(AppConfig.getTemplatesDir(), 'storage'));
+      expect(resolved?.pluginId).toBeUndefined();
+    });
+
+    it('should resolve plugin templates against the plugin templates root', () => {
+      registry.registerPlugin(queuePlugin, workDir);
+
+      const resolved = registry.resolveTemplate('queue');
+
+      expect(resolved?.templateDir).toBe(path.join(workDir, 'templates', 'queue'));
+      expect(resolved?.pluginId).toBe('queue-plugin');
+    });
+
+    it('should return undefined for unknown types', () => {
+      expect(registry.resolveTemplate('unknown')).toBeUndefined();
+    });
+
+    it('should only return helpers owned by the requested plugin', () => {
+      registry.registerPlugin(queuePlugin, workDir);
+
+      expect(Object.keys(registry.getPluginHelpers('queue-plugin'))).toEqual(['shout']);
+      expect(registry.getPluginHelpers('other-plugin')).toEqual({});
+    });
+
+    it('should not register the built-in templates twice', () => {
+      registerBuiltInTemplates(registry);
+      expect(() => registerBuiltInTemplates(registry)).not.toThrow();
+      expect(registry.getTemplateTypes()).toEqual(['storage']);
+    });
+  });
+
+  describe('TemplateGenerator.generateTemplate', () => {
+    it('should render plugin templates with the plugin helpers', async () => {
+      await writePluginTemplate(workDir);
+      registry.registerPlugin(queuePlugin, workDir);
+
+      const output = path.join(workDir, 'output');
+      const generator = new TemplateGenerator(registry);
+      await generator.generateTemplate({ type: 'queue', publisher: 'Acme', name: 'Queue App', output });
+
+      const mainTemplate = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      expect(mainTemplate).toEqual({ publisher: 'ACME', name: 'Queue App' });
+      expect(await fs.pathExists(path.join(output, 'createUiDefinition.json'))).toBe(true);
+    });
+
+    it('should keep plugin helpers out of the global Handlebars object', async () => {
+      await writePluginTemplate(workDir);
+      registry.registerPlugin(queuePlugin, workDir);
+
+      const generator = new TemplateGenerator(registry);
+      await generator.generateTemplate({
+        type: 'queue', publisher: 'Acme', name: 'Queue App', output: path.join(workDir, 'output')
+      });
+      expect(Handlebars.helpers.shout).toBeUndefined();
+
+      // Once the plugin is gone its templates and helpers are gone too
+      registry.unregisterPlugin('queue-plugin');
+      await expect(generator.generateTemplate({
+        type: 'queue', publisher: 'Acme', name: 'Queue App', output: path.join(workDir, 'again')
+      })).rejects.toThrow(/Unknown template type: queue/);
+    });
+
+    it('should render the built-in storage template', async () => {
+      const output = path.join(workDir, 'output');
+      const generator = new TemplateGenerator(registry);
+      await generator.generateTemplate({ type: 'storage', publisher: 'Acme', name: 'Storage App', output });
+
+      const mainTemplate = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      expect(mainTemplate.parameters.minimumTlsVersion).toBeDefined();
+
+      const nestedTemplate = await fs.readJson(path.join(output, 'nestedtemplates', 'storageAccount.json'));
+      expect(nestedTemplate.resources[0].type).toBe('Microsoft.Storage/storageAccounts');
+    });
+
+    it('should reject types that are not registered', async () => {
+      const generator = new TemplateGenerator(registry);
+
+      await expect(
+        generator.generateTemplate({ type: 'unknown', publisher: 'Acme', name: 'App', output: workDir })
+      ).rejects.toThrow(TemplateGenerationError);
+    });
+  });
+
+  describe('Deterministic generation', () => {
+    async function generateStorage(output: string, seed?: string): Promise<Record<string, string>> {
+      const generator = new TemplateGenerator(registry);
+      const result = await generator.generateTemplate({
+        type: 'storage',
+        publisher: 'Acme',
+        name: 'Storage App',
+        output,
+        seed
+      });
+      const contents: Record<string, string> = {};
+      for (const file of result.files) {
+        contents[file.output] = await fs.readFile(path.join(output, file.output), 'utf8');
+      }
+      return contents;
+    }
+
+    it('should render byte-identical output for the same inputs and seed', async () => {
+      const first = await generateStorage(path.join(workDir, 'first'), 'release-1');
+      const second = await generateStorage(path.join(workDir, 'second'), 'release-1');
+
+      expect(Object.keys(first).length).toBeGreaterThan(0);
+      expect(second).toEqual(first);
+    });
+
+    it('should derive different names for different seeds', async () => {
+      const first = await generateStorage(path.join(workDir, 'first'), 'release-1');
+      const second = await generateStorage(path.join(workDir, 'second'), 'release-2');
+
+      expect(second['createUiDefinition.json']).not.toEqual(first['createUiDefinition.json']);
+    });
+
+    it('should derive lowercase alphanumeric suffixes of the requested length', () => {
+      const inputs = { publisher: 'Acme', name: 'App', seed: 's' };
+
+      expect(deriveSuffix(inputs, 'storage')).toMatch(/^[0-9a-z]{6}$/);
+      expect(deriveSuffix(inputs, 'storage')).toBe(deriveSuffix(inputs, 'storage'));
+      expect(deriveSuffix(inputs, 'storage')).not.toBe(deriveSuffix(inputs, 'other'));
+    });
+
+    it('should spread every suffix position over the whole alphabet', () => {
+      const suffixes = Array.from({ length: 500 }, (_, index) =>
+        deriveSuffix({ publisher: 'Acme', name: 'App', seed: `release-${index}` }, 'storage'));
+
+      for (let position = 0; position < 6; position++) {
+        expect(new Set(suffixes.map(suffix => suffix[position])).size).toBeGreaterThan(30);
+      }
+    });
+
+    it('should pin the generation date to SOURCE_DATE_EPOCH when set', () => {
+      const previous = process.env.SOURCE_DATE_EPOCH;
+      try {
+        delete process.env.SOURCE_DATE_EPOCH;
+        expect(pinnedGenerationDate()).toBeUndefined();
+
+        process.env.SOURCE_DATE_EPOCH = '1700000000';
+        expect(pinnedGenerationDate()).toBe('2023-11-14T22:13:20.000Z');
+      } finally {
+        if (previous === undefined) {
+          delete process.env.SOURCE_DATE_EPOCH;
+        } else {
+          process.env.SOURCE_DATE_EPOCH = previous;
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * ARM Template Import Tests
+ *
+ * Tests `azmp import`: an existing ARM template must become a template
+ * directory that renders back to the same template, with a createUiDefinition
+ * wired to its parameters, and register as a local template type through
+ * azmp.config.json.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { importArmTemplate } from '../core/template-import';
+import { addLocalTemplateToConfig, registerLocalTemplates } from '../core/local-templates';
+import { registerBuiltInTemplates } from '../core/builtin-templates';
+import { TemplateGenerator } from '../core/generator';
+import { runTemplateTests } from '../core/template-tests';
+import { TemplateRegistry } from '../core/template-registry';
+import { getConfigManager } from '../utils/config-manager';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+const azuredeploy = {
+  $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+  contentVersion: '1.0.0.0',
+  parameters: {
+    location: { type: 'string', defaultValue: '[resourceGroup().location]' },
+    siteName: { type: 'string', defaultValue: "[concat('web', uniqueString(resourceGroup().id))]" },
+    sku: { type: 'string', defaultValue: 'B1', allowedValues: ['B1', 'S1'], metadata: { description: 'App Service plan SKU' } },
+    instanceCount: { type: 'int', defaultValue: 2, minValue: 1, maxValue: 10 },
+    httpsOnly: { type: 'bool', defaultValue: true },
+    adminPassword: { type: 'securestring' },
+    ownerTag: { type: 'string', defaultValue: 'Contoso operations' },
+    appSettings: { type: 'object' },
+    _artifactsLocation: { type: 'string', defaultValue: '[deployment().properties.templateLink.uri]' }
+  },
+  variables: { greeting: "[format('{{0}} by Contoso Web', parameters('siteName'))]" },
+  resources: [
+    {
+      type: 'Microsoft.Web/serverfarms',
+      apiVersion: '2023-01-01',
+      name: "[concat(parameters('siteName'), '-plan')]",
+      location: "[parameters('location')]",
+      sku: { name: "[parameters('sku')]", capacity: "[parameters('instanceCount')]" },
+      tags: { owner: "[parameters('ownerTag')]", product: 'Contoso Web' }
+    }
+  ]
+};
+
+describe('ARM Template Import', () => {
+  let workDir: string;
+  let templateFile: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-import-test-'));
+    templateFile = path.join(workDir, 'azuredeploy.json');
+    await fs.writeJson(templateFile, azuredeploy);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    getConfigManager().reset();
+    await fs.remove(workDir);
+  });
+
+  const importWebApp = (templateDir = path.join(workDir, 'templates', 'web-app')) => importArmTemplate({
+    templateFile, type: 'web-app', templateDir, publisher: 'Contoso', name: 'Contoso Web'
+  });
+
+  describe('importArmTemplate', () => {
+    it('should create a template that renders the imported template for another publisher', async () => {
+      const result = await importWebApp();
+
+      expect(result.files).toEqual([
+        'template.manifest.json',
+        'mainTemplate.json.hbs',
+        'createUiDefinition.json.hbs',
+        'viewDefinition.json.hbs',
+        'tests/default/input.json',
+        'tests/default/expected/createUiDefinition.json',
+        'tests/default/expected/mainTemplate.json',
+        'tests/default/expected/viewDefinition.json'
+      ]);
+      expect(result.manifestParameters).toEqual(['location', 'siteName', 'sku', 'instanceCount', 'httpsOnly', '_artifactsLocation']);
+      expect(result.warnings).toEqual([]);
+      expect((await runTemplateTests(result.templateDir)).passed).toBe(true);
+
+      const registry = new TemplateRegistry();
+      registry.registerTemplate(result.metadata);
+      const output = path.join(workDir, 'output');
+      await new TemplateGenerator(registry).generateTemplate({
+        type: 'web-app', publisher: 'Acme', name: 'Acme Web', output, seed: 'x', quiet: true, parameters: { sku: 'S1' }
+      });
+
+      const main = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      expect(main.metadata._generator.name).toBe('Azure Marketplace Generator');
+      expect(main.metadata.description).toBe('Acme Web - Managed Application Main Template');
+      expect(main.parameters.sku.defaultValue).toBe('S1');
+      expect(main.parameters.ownerTag.defaultValue).toBe('Acme operations');
+      expect(main.variables.greeting).toBe("[format('{{0}} by Acme Web', parameters('siteName'))]");
+      expect(main.resources[0].tags.product).toBe('Acme Web');
+      delete main.metadata;
+      expect(main).toEqual({
+        ...azuredeploy,
+        parameters: { ...azuredeploy.parameters, sku: { ...azuredeploy.parameters.sku, defaultValue: 'S1' }, ownerTag: { ...azuredeploy.parameters.ownerTag, defaultValue: 'Acme operations' } },
+        variables: { greeting: "[format('{{0}} by Acme Web', parameters('siteName'))]" },
+        resources: [{ ...azuredeploy.resources[0], tags: { owner: "[parameters('ownerTag')]", product: 'Acme Web' } }]
+      });
+    });
+
+    it('should derive createUiDefinition elements and outputs from the parameters', async () => {
+      const result = await importWebApp();
+      const { parameters } = await fs.readJson(path.join(result.templateDir, 'tests', 'default', 'expected', 'createUiDefinition.json'));
+      const elements = parameters.steps[0].elements;
+
+      expect(elements.map((element: { name: string; type: string }) => `${element.name}: ${element.type}`)).toEqual([
+        'sku: Microsoft.Common.OptionsGroup',
+        'instanceCount: Microsoft.Common.Slider',
+        'httpsOnly: Microsoft.Common.CheckBox',
+        'adminPassword: Microsoft.Common.PasswordBox',
+        'ownerTag: Microsoft.Common.TextBox',
+        'appSettings: Microsoft.Common.TextBox'
+      ]);
+      expect(elements[0]).toMatchObject({ label: 'Sku', toolTip: 'App Service plan SKU', defaultValue: 'B1' });
+      expect(elements[3].constraints.required).toBe(true);
+      expect(elements[4].defaultValue).toBe('Contoso operations');
+      expect(parameters.outputs).toEqual({
+        location: '[location()]',
+        sku: "[steps('settings').sku]",
+        instanceCount: "[steps('settings').instanceCount]",
+        httpsOnly: "[steps('settings').httpsOnly]",
+        adminPassword: "[steps('settings').adminPassword]",
+        ownerTag: "[steps('settings').ownerTag]",
+        appSettings: "[parse(steps('settings').appSettings)]"
+      });
+    });
+
+    it('should refuse files that are not resource group templates and non-empty directories', async () => {
+      const importFile = async (content: unknown) => {
+        await fs.writeJson(templateFile, content);
+        return importArmTemplate({ templateFile, type: 'web-app', templateDir: path.join(workDir, 'out') });
+      };
+
+      await expect(importFile({ resources: [] })).rejects.toThrow(ValidationError);
+      await expect(importFile({
+        ...azuredeploy, $schema: 'https://schema.management.azure.com/schemas/2018-05-01/subscriptionDeploymentTemplate.json#'
+      })).rejects.toThrow('managed applications deploy to a resource group');
+      await expect(importArmTemplate({ templateFile: path.join(workDir, 'missing.json'), type: 'web-app', templateDir: path.join(workDir, 'out') }))
+        .rejects.toThrow(FileSystemError);
+
+      await fs.outputFile(path.join(workDir, 'taken', 'file.txt'), 'x');
+      await fs.writeJson(templateFile, azuredeploy);
+      await expect(importWebApp(path.join(workDir, 'taken'))).rejects.toThrow(FileSystemError);
+    });
+  });
+
+  describe('local template types', () => {
+    it('should register imported types from azmp.config.json and skip conflicting entries', async () => {
+      const configPath = path.join(workDir, 'azmp.config.json');
+      await fs.writeJson(configPath, { publisher: 'Acme', templates: { 'web-app': { name: 'Acme Web' } } });
+      await importWebApp();
+
+      expect(await addLocalTemplateToConfig(configPath, 'web-app', path.join(workDir, 'templates', 'web-app'))).toBe('./templates/web-app');
+      expect(await addLocalTemplateToConfig(configPath, 'storage', path.join(workDir, 'templates', 'storage'))).toBe('./templates/storage');
+      const config = await fs.readJson(configPath);
+      expect(config.templates['web-app']).toEqual({ name: 'Acme Web', path: './templates/web-app' });
+      expect(getConfigManager().validateConfig(config).errors).toEqual([]);
+
+      const registry = new TemplateRegistry();
+      registerBuiltInTemplates(registry);
+      const { registered, errors } = await registerLocalTemplates(config, configPath, registry);
+
+      expect(registered).toEqual(['web-app']);
+      expect(errors).toEqual(["templates.storage: 'storage' is already a registered template type"]);
+      expect(registry.resolveTemplate('web-app')?.templateDir).toBe(path.join(workDir, 'templates', 'web-app'));
+
+      const output = path.join(workDir, 'output');
+      await new TemplateGenerator(registry).generateTemplate({ type: 'web-app', publisher: 'Acme', name: 'Acme Web', output, quiet: true });
+      expect(await fs.pathExists(path.join(output, 'createUiDefinition.json'))).toBe(true);
+    });
+
+    it('should report entries without a template directory and invalid paths', async () => {
+      const configPath = path.join(workDir, 'azmp.config.json');
+      const config = { templates: { missing: { path: './templates/missing' }, blank: { path: '' } } };
+
+      const { registered, errors } = await registerLocalTemplates(config, configPath, new TemplateRegistry());
+
+      expect(registered).toEqual([]);
+      expect(errors[0]).toMatch(/^templates\.missing: no template\.manifest\.json in /);
+      expect(getConfigManager().validateConfig(config).errors).toEqual(['templates.blank.path must be a non-empty string']);
+    });
+  });
+});
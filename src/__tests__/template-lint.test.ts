@@ -0,0 +1,165 @@
+/**
+ * Template Lint Tests
+ *
+ * Tests the static checks of `azmp template lint`: unknown helpers, variables
+ * and partials, unbalanced blocks and conditionals that break JSON outputs.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkBlockBalance,
+  formatLintIssue,
+  LintModel,
+  lintTemplateDirectory,
+  lintTemplateSource
+} from '../core/template-lint';
+import { AppConfig } from '../config/app-config';
+import { getBuiltInHelperNames } from '../core/handlebars-environment';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+
+const model: LintModel = {
+  helpers: new Set(getBuiltInHelperNames()),
+  variables: new Set(['publisher', 'name', 'tier', 'items']),
+  partials: new Set(['tags'])
+};
+
+function lint(source: string): string[] {
+  return lintTemplateSource(source, 'main.json.hbs', model).issues
+    .map(issue => `${issue.line}:${issue.column} ${issue.rule} ${issue.message}`);
+}
+
+describe('Template Lint', () => {
+  describe('lintTemplateSource', () => {
+    it('should report unknown variables and helpers with suggestions', () => {
+      expect(lint('{\n  "publisher": "{{publsher}}",\n  "name": "{{storageAcountName name}}"\n}')).toEqual([
+        "2:19 unknown-variable Unknown variable 'publsher': not a declared parameter or generator value (did you mean 'publisher'?)",
+        "3:14 unknown-helper Unknown helper 'storageAcountName' (did you mean 'storageAccountName'?)"
+      ]);
+    });
+
+    it('should check helper arguments and subexpressions', () => {
+      expect(lint('{{#if (eqq tier "Premium")}}{{json tiers}}{{/if}}')).toEqual([
+        "1:8 unknown-helper Unknown helper 'eqq' (did you mean 'eq'?)",
+        "1:36 unknown-variable Unknown variable 'tiers': not a declared parameter or generator value (did you mean 'tier'?)"
+      ]);
+    });
+
+    it('should not check variables inside each and with blocks except through @root and ../', () => {
+      expect(lint('{{#each items as |item|}}{{item.id}}{{id}}{{@index}}{{@root.tier}}{{../nam}}{{else}}{{nme}}{{/each}}')).toEqual([
+        expect.stringContaining("Unknown variable 'nam'"),
+        expect.stringContaining("Unknown variable 'nme'")
+      ]);
+      expect(lint('{{#with items}}{{anything}}{{/with}}{{#if tier}}{{tierr}}{{/if}}')).toEqual([
+        expect.stringContaining("Unknown variable 'tierr'")
+      ]);
+    });
+
+    it('should report unknown partials but accept inline partials', () => {
+      expect(lint('{{> tags}}{{> tagz}}{{#*inline "local"}}x{{/inline}}{{> local}}')).toEqual([
+        "1:11 unknown-partial Unknown partial 'tagz' (did you mean 'tags'?)"
+      ]);
+    });
+
+    it('should skip variable checks without a parameter model', () => {
+      const issues = lintTemplateSource('{{anything}}{{unknownHelper 1}}', 'x.hbs', { ...model, variables: undefined }).issues;
+      expect(issues.map(issue => issue.rule)).toEqual(['unknown-helper']);
+    });
+  });
+
+  describe('checkBlockBalance', () => {
+    it('should name blocks that are never closed or closed by another helper', () => {
+      expect(checkBlockBalance('{\n{{#if tier}}\n"a": 1\n}', 'x.hbs')).toEqual([
+        { file: 'x.hbs', line: 2, column: 1, rule: 'unbalanced-block', message: '{{#if}} is never closed' }
+      ]);
+      expect(checkBlockBalance('{{#if a}}\n  {{#each b}}\n{{/if}}', 'x.hbs').map(issue => `${issue.line} ${issue.message}`)).toEqual([
+        '2 {{#each}} is not closed before {{/if}} at line 3'
+      ]);
+      expect(checkBlockBalance('{{#if a}}{{/each}}{{/if}}{{else}}', 'x.hbs').map(issue => issue.message)).toEqual([
+        '{{/each}} does not close an open block (innermost open block: {{#if}} at line 1)',
+        '{{else}} outside of a block'
+      ]);
+    });
+
+    it('should ignore blocks inside comments', () => {
+      expect(checkBlockBalance('{{!-- {{#if a}} --}}{{! {{/each}} }}', 'x.hbs')).toEqual([]);
+    });
+  });
+
+  describe('lintTemplateDirectory', () => {
+    let templateDir: string;
+
+    beforeEach(async () => {
+      templateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-lint-test-'));
+      await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }],
+        parameters: {
+          enableLogs: { type: 'bool', default: true },
+          tier: { type: 'string', default: 'Basic' }
+        }
+      });
+      await fs.outputFile(path.join(templateDir, 'partials', 'tags.hbs'), '{ "Publisher": "{{publisher}}", "Purpose": "{{purpose}}" }');
+    });
+
+    afterEach(async () => {
+      await fs.remove(templateDir);
+    });
+
+    it('should lint the bundled storage template without issues', async () => {
+      const result = await lintTemplateDirectory(path.join(AppConfig.getTemplatesDir(), 'storage'));
+
+      expect(result.files).toContain('partials/resourceTags.hbs');
+      expect(result.variablesChecked).toBe(true);
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should report conditionals that break the JSON in one branch', async () => {
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), [
+        '{',
+        '    "a": 1{{#if enableLogs}},{{/if}}',
+        '    {{#unless (eq tier "Basic")}}"b": 2,{{/unless}}',
+        '    "tags": {{> tags purpose="Logs"}}',
+        '}'
+      ].join('\n'));
+
+      const result = await lintTemplateDirectory(templateDir);
+
+      expect(result.files).toEqual(['mainTemplate.json.hbs', 'partials/tags.hbs']);
+      expect(result.issues).toEqual([{
+        file: 'mainTemplate.json.hbs',
+        line: 2,
+        column: 11,
+        rule: 'json-conditional',
+        message: "Output is not valid JSON when enableLogs is false (Expected ',' or '}' after property value at output line 4)"
+      }]);
+    });
+
+    it('should report outputs that are not valid JSON with the defaults', async () => {
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{\n    "a": 1{{#unless enableLogs}},{{/unless}}\n    "b": 2\n}');
+
+      const [issue] = (await lintTemplateDirectory(templateDir)).issues;
+
+      expect(issue.rule).toBe('invalid-json');
+      expect(formatLintIssue(issue, 'templates/app')).toMatch(/^templates\/app\/mainTemplate\.json\.hbs:3:5: Output is not valid JSON with the parameter defaults/);
+    });
+
+    it('should accept the hash arguments callers pass to a partial', async () => {
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "tags": {{> tags}} }');
+      expect((await lintTemplateDirectory(templateDir)).issues).toEqual([
+        expect.objectContaining({ file: 'partials/tags.hbs', rule: 'unknown-variable', message: expect.stringContaining("'purpose'") })
+      ]);
+
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "tags": {{> tags purpose="Logs"}} }');
+      expect((await lintTemplateDirectory(templateDir)).issues).toEqual([]);
+    });
+
+    it('should accept the helpers of the template\'s plugin', async () => {
+      await fs.remove(path.join(templateDir, 'partials'));
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "size": "{{vmSize tier}}" }');
+
+      expect((await lintTemplateDirectory(templateDir)).issues.map(issue => issue.rule)).toEqual(['unknown-helper']);
+      expect((await lintTemplateDirectory(templateDir, { helpers: { vmSize: () => 'B2s' } })).issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Template Locale Tests
+ *
+ * Tests resource strings: locale files, the `{{t "key"}}` helper, locale
+ * selection with fallbacks, `azmp create --locale` on the storage template
+ * and the missing-key checks of `azmp template lint`.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateGenerator } from '../core/generator';
+import { createHandlebarsEnvironment } from '../core/handlebars-environment';
+import { lintTemplateDirectory } from '../core/template-lint';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import {
+  findMissingResourceStrings,
+  loadTemplateLocales,
+  selectLocale,
+  TemplateLocales
+} from '../core/template-locales';
+import { ValidationError } from '../utils/error-handler';
+
+const locales: TemplateLocales = {
+  en: { 'basics.label': 'Basics', 'basics.toolTip': 'Name of {name}', 'tier.label': 'Tier' },
+  de: { 'basics.label': 'Grundlagen', 'basics.toolTip': 'Name von {name}' },
+  'de-CH': { 'tier.label': 'Stufe' },
+  fr: { 'basics.label': 'Paramètres de base', 'extra.label': 'Extra' }
+};
+
+describe('Template Locales', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-locales-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('loadTemplateLocales', () => {
+    it('should flatten locale files and let overlay layers replace single strings', async () => {
+      const overlayDir = path.join(workDir, 'overlay');
+      await fs.outputJson(path.join(workDir, 'locales/en.json'), { basics: { label: 'Basics', toolTip: 'Name' } });
+      await fs.outputJson(path.join(workDir, 'locales/de.json'), { basics: { label: 'Grundlagen' } });
+      await fs.outputJson(path.join(overlayDir, 'locales/de.json'), { basics: { toolTip: 'Anzeigename' } });
+      await fs.outputFile(path.join(workDir, 'locales/README.md'), 'not a locale');
+
+      expect(await loadTemplateLocales([workDir, overlayDir])).toEqual({
+        en: { 'basics.label': 'Basics', 'basics.toolTip': 'Name' },
+        de: { 'basics.label': 'Grundlagen', 'basics.toolTip': 'Anzeigename' }
+      });
+      await expect(loadTemplateLocales(overlayDir)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject invalid locale files and a missing default locale', async () => {
+      await fs.outputJson(path.join(workDir, 'locales/de.json'), { basics: { label: 3 } });
+      await fs.outputFile(path.join(workDir, 'locales/fr.json'), '{ "label": ');
+      await fs.outputJson(path.join(workDir, 'locales/German.json'), {});
+
+      await expect(loadTemplateLocales(workDir)).rejects.toMatchObject({
+        message: 'Invalid template locales',
+        details: [
+          'locales/German.json: locale files must be named after a locale (en.json, de.json, de-CH.json)',
+          'locales/de.json: basics.label must be a string or an object of strings',
+          expect.stringMatching(/^locales\/fr\.json: /),
+          'locales/en.json is required: it holds the strings other locales fall back to'
+        ]
+      });
+      expect(await loadTemplateLocales(path.join(workDir, 'missing'))).toEqual({});
+    });
+  });
+
+  describe('selectLocale', () => {
+    it('should fall back from region to language to the default locale', () => {
+      expect(selectLocale(locales, 'de-CH')).toEqual({
+        locale: 'de-CH',
+        strings: { 'basics.label': 'Grundlagen', 'basics.toolTip': 'Name von {name}', 'tier.label': 'Stufe' },
+        chain: ['de-CH', 'de', 'en'],
+        fallbacks: []
+      });
+      expect(selectLocale(locales, 'de').fallbacks).toEqual(['tier.label']);
+      expect(selectLocale(locales).chain).toEqual(['en']);
+      expect(selectLocale({}, 'de')).toEqual({ locale: 'de', strings: {}, chain: [], fallbacks: [] });
+    });
+
+    it('should reject unknown and invalid locales', () => {
+      expect(() => selectLocale(locales, 'es', 'storage')).toThrow("Template 'storage' has no resource strings for locale 'es'");
+      expect(() => selectLocale(locales, '../en')).toThrow(ValidationError);
+    });
+
+    it('should list the keys each locale is missing', () => {
+      expect(findMissingResourceStrings(locales)).toEqual({
+        'de': ['tier.label'],
+        fr: ['basics.toolTip', 'tier.label']
+      });
+    });
+  });
+
+  it('should render resource strings escaped for JSON with placeholders from the hash', () => {
+    const env = createHandlebarsEnvironment({
+      locale: selectLocale({ en: { quote: 'Say "{greeting}"\nto {name}' } })
+    });
+
+    expect(env.compile('"{{t "quote" greeting="hi" name=name}}"')({ name: "O'Brien & Co" }))
+      .toBe('"Say \\"hi\\"\\nto O\'Brien & Co"');
+    expect(() => env.compile('{{t "missing"}}')({})).toThrow("Unknown resource string 'missing': not defined in locale 'en' or locales/en.json");
+    expect(() => createHandlebarsEnvironment().compile('{{t "label"}}')({})).toThrow('the template has no resource strings');
+  });
+
+  describe('storage template', () => {
+    const generate = (locale?: string) => new TemplateGenerator().generateTemplate({
+      type: 'storage', publisher: 'Contoso', name: 'Team Files', output: workDir, seed: 'locales', quiet: true, locale
+    });
+
+    it('should render createUiDefinition labels, tooltips and messages in the requested locale', async () => {
+      await generate('fr');
+
+      const ui = await fs.readJson(path.join(workDir, 'createUiDefinition.json'));
+      expect(ui.parameters.config.basics.description).toMatch(/^\*\*Team Files\*\* par Contoso\n\n/);
+      const storageType = ui.parameters.steps[0].elements[1];
+      expect(storageType.label).toBe('Type de compte de stockage');
+      expect(storageType.constraints.allowedValues.map((value: { label: string }) => value.label)).toContain(storageType.defaultValue);
+      expect((await fs.readJson(path.join(workDir, '.azmp/generation.json'))).locale).toBe('fr');
+
+      await generate('de-AT');
+      const german = await fs.readJson(path.join(workDir, 'createUiDefinition.json'));
+      expect(german.parameters.steps[0].label).toBe('Speicherkonfiguration');
+    });
+
+    it('should reject locales the template does not have', async () => {
+      await expect(generate('es')).rejects.toMatchObject({
+        message: "Template 'storage' has no resource strings for locale 'es'",
+        details: ['Available locales: de, en, fr']
+      });
+    });
+  });
+
+  it('should report unknown keys and the keys each locale is missing in azmp template lint', async () => {
+    await fs.writeJson(path.join(workDir, TEMPLATE_MANIFEST_FILE), {
+      type: 'sample',
+      files: [{ source: 'ui.json.hbs', output: 'ui.json' }],
+      parameters: {}
+    });
+    await fs.writeFile(path.join(workDir, 'ui.json.hbs'), '{\n  "label": "{{t "basics.label"}}",\n  "toolTip": "{{t "basics.tooltip"}}"\n}\n');
+    for (const [locale, strings] of Object.entries(locales)) {
+      await fs.outputJson(path.join(workDir, `locales/${locale}.json`), strings);
+    }
+
+    const result = await lintTemplateDirectory(workDir);
+
+    expect(result.files).toEqual(['ui.json.hbs', 'locales/de.json', 'locales/de-CH.json', 'locales/en.json', 'locales/fr.json']);
+    expect(result.issues.map(issue => `${issue.file}:${issue.line}:${issue.column} ${issue.rule} ${issue.message}`)).toEqual([
+      "ui.json.hbs:3:19 unknown-resource-string Unknown resource string 'basics.tooltip': not defined in locales/en.json (did you mean 'basics.toolTip'?)",
+      "locales/de.json:1:1 missing-resource-string Locale 'de' is missing 1 resource string(s) of en.json: tier.label",
+      "locales/fr.json:1:1 missing-resource-string Locale 'fr' is missing 2 resource string(s) of en.json: basics.toolTip, tier.label",
+      "locales/fr.json:1:1 unknown-resource-string Locale 'fr' defines resource string(s) missing from en.json: extra.label"
+    ]);
+  });
+});
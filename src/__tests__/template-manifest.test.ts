@@ -0,0 +1,239 @@
+/**
+ * Template Manifest Tests
+ *
+ * Tests manifest validation, loading, and how the generator and template
+ * registry use template.manifest.json.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  LEGACY_TEMPLATE_MANIFEST,
+  TEMPLATE_MANIFEST_FILE,
+  getParameterDefaults,
+  getRequiredOutputs,
+  loadTemplateManifest,
+  validateTemplateManifest
+} from '../core/template-manifest';
+import { TemplateRegistry } from '../core/template-registry';
+import { TemplateGenerator } from '../core/generator';
+import { AppConfig } from '../config/app-config';
+import { ValidationError } from '../utils/error-handler';
+import { compareVersions, satisfiesMinimumVersion } from '../utils/version';
+
+describe('Template Manifest', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-manifest-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('validateTemplateManifest', () => {
+    it('should accept a minimal manifest', () => {
+      expect(validateTemplateManifest({
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }]
+      })).toEqual([]);
+    });
+
+    it('should require at least one file', () => {
+      expect(validateTemplateManifest({ files: [] })).toContain('files must be a non-empty array');
+    });
+
+    it('should reject paths that escape their directory', () => {
+      const errors = validateTemplateManifest({
+        files: [{ source: '../secret.hbs', output: '/etc/passwd' }]
+      });
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatch(/files\[0\]\.source/);
+      expect(errors[1]).toMatch(/files\[0\]\.output/);
+    });
+
+    it('should reject duplicate outputs', () => {
+      const errors = validateTemplateManifest({
+        files: [
+          { source: 'a.json.hbs', output: 'mainTemplate.json' },
+          { source: 'b.json.hbs', output: 'mainTemplate.json' }
+        ]
+      });
+
+      expect(errors).toEqual([`files[1].output 'mainTemplate.json' is declared more than once`]);
+    });
+
+    it('should reject parameters that shadow generator context keys', () => {
+      const errors = validateTemplateManifest({
+        files: [{ source: 'a.json.hbs', output: 'a.json' }],
+        parameters: { publisher: { default: 'x' } }
+      });
+
+      expect(errors).toEqual(['parameters.publisher uses a reserved context name']);
+    });
+
+    it('should reject malformed version requirements', () => {
+      const errors = validateTemplateManifest({
+        files: [{ source: 'a.json.hbs', output: 'a.json' }],
+        requiredGeneratorVersion: 'latest'
+      });
+
+      expect(errors[0]).toMatch(/requiredGeneratorVersion/);
+    });
+  });
+
+  describe('loadTemplateManifest', () => {
+    it('should fall back to the legacy file set when no manifest exists', async () => {
+      expect(await loadTemplateManifest(workDir)).toBe(LEGACY_TEMPLATE_MANIFEST);
+    });
+
+    it('should throw a ValidationError for invalid manifests', async () => {
+      await fs.writeJson(path.join(workDir, TEMPLATE_MANIFEST_FILE), { files: 'nope' });
+
+      await expect(loadTemplateManifest(workDir)).rejects.toThrow(ValidationError);
+    });
+
+    it('should load the built-in storage manifest', async () => {
+      const manifest = await loadTemplateManifest(path.join(AppConfig.getTemplatesDir(), 'storage'));
+
+      expect(manifest.type).toBe('storage');
+      expect(getRequiredOutputs(manifest)).toEqual(['mainTemplate.json', 'createUiDefinition.json']);
+    });
+  });
+
+  describe('getParameterDefaults', () => {
+    it('should only include parameters that declare a default', () => {
+      const defaults = getParameterDefaults({
+        files: [{ source: 'a.json.hbs', output: 'a.json' }],
+        parameters: {
+          enableFeature: { default: true },
+          optionalValue: { description: 'No default' }
+        }
+      });
+
+      expect(defaults).toEqual({ enableFeature: true });
+    });
+  });
+
+  describe('TemplateRegistry.validateTemplatePath', () => {
+    const registry = new TemplateRegistry();
+
+    it('should require the non-optional sources listed in the manifest', async () => {
+      const templateDir = path.join(workDir, 'custom');
+      await fs.ensureDir(templateDir);
+      await fs.writeJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        files: [
+          { source: 'main.json.hbs', output: 'mainTemplate.json' },
+          { source: 'extra.json.hbs', output: 'extra.json', optional: true }
+        ]
+      });
+
+      expect(await registry.validateTemplatePath(workDir, 'custom')).toBe(false);
+
+      await fs.writeFile(path.join(templateDir, 'main.json.hbs'), '{}');
+      expect(await registry.validateTemplatePath(workDir, 'custom')).toBe(true);
+    });
+
+    it('should accept the built-in storage template', async () => {
+      expect(await registry.validateTemplatePath(AppConfig.getTemplatesDir(), 'storage')).toBe(true);
+    });
+  });
+
+  describe('Manifest-driven generation', () => {
+    async function registerTemplate(manifest: object, files: Record<string, string>): Promise<TemplateRegistry> {
+      const templateDir = path.join(workDir, 'template');
+      await fs.ensureDir(templateDir);
+      await fs.writeJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), manifest);
+      for (const [file, content] of Object.entries(files)) {
+        await fs.outputFile(path.join(templateDir, file), content);
+      }
+
+      const registry = new TemplateRegistry();
+      registry.registerTemplate({
+        type: 'custom',
+        name: 'Custom',
+        description: 'Custom template',
+        version: '1.0.0',
+        templatePath: templateDir
+      });
+      return registry;
+    }
+
+    it('should render declared files to their output paths with parameter defaults', async () => {
+      const registry = await registerTemplate({
+        files: [
+          { source: 'main.json.hbs', output: 'mainTemplate.json' },
+          { source: 'missing.json.hbs', output: 'missing.json', optional: true }
+        ],
+        parameters: { sku: { default: 'Standard_LRS' } }
+      }, {
+        'main.json.hbs': '{ "sku": "{{sku}}", "name": "{{name}}" }'
+      });
+      const output = path.join(workDir, 'output');
+
+      const result = await new TemplateGenerator(registry).generateTemplate({
+        type: 'custom', publisher: 'Acme', name: 'App', output
+      });
+
+      expect(result.files).toEqual([{ source: 'main.json.hbs', output: 'mainTemplate.json' }]);
+      expect(await fs.readJson(path.join(output, 'mainTemplate.json'))).toEqual({ sku: 'Standard_LRS', name: 'App' });
+    });
+
+    it('should render undeclared sources from subfolders to the same relative path', async () => {
+      const registry = await registerTemplate({
+        files: [{ source: 'main.json.hbs', output: 'mainTemplate.json' }]
+      }, {
+        'main.json.hbs': '{}',
+        'nestedtemplates/network.json.hbs': '{ "name": "{{name}}" }',
+        'scripts/setup.sh.hbs': 'echo {{name}}',
+        'README.md': 'not a template'
+      });
+      const output = path.join(workDir, 'output');
+
+      const result = await new TemplateGenerator(registry).generateTemplate({
+        type: 'custom', publisher: 'Acme', name: 'App', output
+      });
+
+      expect(result.files.map(file => file.output)).toEqual([
+        'mainTemplate.json',
+        'nestedtemplates/network.json',
+        'scripts/setup.sh'
+      ]);
+      expect(await fs.readJson(path.join(output, 'nestedtemplates', 'network.json'))).toEqual({ name: 'App' });
+      expect(await fs.readFile(path.join(output, 'scripts', 'setup.sh'), 'utf8')).toBe('echo App');
+      expect(await fs.pathExists(path.join(output, 'README.md'))).toBe(false);
+    });
+
+    it('should fail when a required source is missing', async () => {
+      const registry = await registerTemplate({
+        files: [{ source: 'main.json.hbs', output: 'mainTemplate.json' }]
+      }, {});
+
+      await expect(new TemplateGenerator(registry).generateTemplate({
+        type: 'custom', publisher: 'Acme', name: 'App', output: path.join(workDir, 'output')
+      })).rejects.toThrow(/Required template file not found: main.json.hbs/);
+    });
+
+    it('should refuse templates that need a newer generator', async () => {
+      const registry = await registerTemplate({
+        requiredGeneratorVersion: '>=99.0.0',
+        files: [{ source: 'main.json.hbs', output: 'mainTemplate.json' }]
+      }, { 'main.json.hbs': '{}' });
+
+      await expect(new TemplateGenerator(registry).generateTemplate({
+        type: 'custom', publisher: 'Acme', name: 'App', output: path.join(workDir, 'output')
+      })).rejects.toThrow(/requires generator >=99.0.0/);
+    });
+  });
+
+  describe('Version utilities', () => {
+    it('should compare versions numerically', () => {
+      expect(compareVersions('3.10.0', '3.9.0')).toBeGreaterThan(0);
+      expect(compareVersions('3.1', '3.1.0')).toBe(0);
+      expect(satisfiesMinimumVersion('3.1.0', '>=3.1.0')).toBe(true);
+      expect(satisfiesMinimumVersion('3.0.9', '3.1.0')).toBe(false);
+    });
+  });
+});
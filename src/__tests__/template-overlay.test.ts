@@ -0,0 +1,150 @@
+/**
+ * Template Overlay Tests
+ *
+ * Tests that files in <templatesDir>/<type> override or add to the files of a
+ * registered template, and the report of which files came from the overlay.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildOverlayReport,
+  findTemplateOverlay,
+  loadLayeredManifest,
+  resolveLayeredFile,
+  resolveTemplateLayers
+} from '../core/template-overlay';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { AppConfig } from '../config/app-config';
+import { getConfigManager } from '../utils/config-manager';
+
+describe('Template Overlays', () => {
+  let workDir: string;
+  let templatesDir: string;
+  const storageDir = path.join(AppConfig.getTemplatesDir(), 'storage');
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-overlay-'));
+    templatesDir = path.join(workDir, 'templates');
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('resolveTemplateLayers', () => {
+    it('should use <templatesDir>/<type> as the overlay', async () => {
+      await fs.ensureDir(path.join(templatesDir, 'storage'));
+
+      expect(await findTemplateOverlay(templatesDir, 'storage')).toBe(path.join(templatesDir, 'storage'));
+      expect(await resolveTemplateLayers(storageDir, templatesDir, 'storage')).toEqual({
+        baseDir: storageDir,
+        overlayDir: path.join(templatesDir, 'storage')
+      });
+    });
+
+    it('should have no overlay without a directory for the type', async () => {
+      expect(await resolveTemplateLayers(storageDir, templatesDir, 'storage')).toEqual({ baseDir: storageDir });
+      expect(await resolveTemplateLayers(storageDir, undefined, 'storage')).toEqual({ baseDir: storageDir });
+    });
+
+    it('should not treat the template directory itself as an overlay', async () => {
+      expect(await resolveTemplateLayers(storageDir, AppConfig.getTemplatesDir(), 'storage')).toEqual({
+        baseDir: storageDir
+      });
+    });
+  });
+
+  describe('Layered files', () => {
+    it('should prefer overlay files and report overridden and added files', async () => {
+      const overlayDir = path.join(templatesDir, 'storage');
+      await fs.outputFile(path.join(overlayDir, 'createUiDefinition.json.hbs'), '{}');
+      await fs.outputFile(path.join(overlayDir, 'scripts', 'setup.sh.hbs'), 'echo {{name}}');
+      const layers = await resolveTemplateLayers(storageDir, templatesDir, 'storage');
+
+      expect(await resolveLayeredFile(layers, 'createUiDefinition.json.hbs'))
+        .toBe(path.join(overlayDir, 'createUiDefinition.json.hbs'));
+      expect(await resolveLayeredFile(layers, 'mainTemplate.json.hbs'))
+        .toBe(path.join(storageDir, 'mainTemplate.json.hbs'));
+      expect(await resolveLayeredFile(layers, 'missing.hbs')).toBeUndefined();
+      expect(await buildOverlayReport(layers)).toEqual({
+        overlayDir,
+        overridden: ['createUiDefinition.json.hbs'],
+        added: ['scripts/setup.sh.hbs']
+      });
+    });
+
+    it('should replace the manifest when the overlay has one', async () => {
+      const overlayDir = path.join(templatesDir, 'storage');
+      await fs.outputJson(path.join(overlayDir, TEMPLATE_MANIFEST_FILE), {
+        files: [{ source: 'mainTemplate.json.hbs', output: 'azuredeploy.json' }]
+      });
+      const layers = await resolveTemplateLayers(storageDir, templatesDir, 'storage');
+
+      expect((await loadLayeredManifest(layers)).files).toEqual([
+        { source: 'mainTemplate.json.hbs', output: 'azuredeploy.json' }
+      ]);
+    });
+  });
+
+  describe('Generation with an overlay', () => {
+    it('should render overlay files and partials in place of the built-in ones', async () => {
+      const overlayDir = path.join(templatesDir, 'storage');
+      await fs.outputFile(
+        path.join(overlayDir, 'createUiDefinition.json.hbs'),
+        '{ "handler": "Microsoft.Azure.CreateUIDef", "version": "0.1.2-preview", "label": "{{name}} by {{publisher}}" }'
+      );
+      await fs.outputFile(
+        path.join(overlayDir, 'partials', 'resourceTags.hbs'),
+        '{ "Owner": "{{publisher}}" }'
+      );
+      await fs.outputFile(path.join(overlayDir, 'scripts', 'setup.sh.hbs'), 'echo {{name}}');
+      const output = path.join(workDir, 'output');
+
+      const result = await new TemplateGenerator(new TemplateRegistry()).generateTemplate({
+        type: 'storage', publisher: 'Acme', name: 'App', output, templatesDir
+      });
+
+      expect(await fs.readJson(path.join(output, 'createUiDefinition.json'))).toEqual({
+        handler: 'Microsoft.Azure.CreateUIDef',
+        version: '0.1.2-preview',
+        label: 'App by Acme'
+      });
+      const mainTemplate = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      const storageAccount = mainTemplate.resources.find(
+        (resource: { type: string }) => resource.type === 'Microsoft.Storage/storageAccounts'
+      );
+      expect(storageAccount.tags).toEqual({ Owner: 'Acme' });
+      expect(await fs.readFile(path.join(output, 'scripts', 'setup.sh'), 'utf8')).toBe('echo App');
+
+      expect(result.files.filter(file => file.overlay).map(file => file.output)).toEqual([
+        'createUiDefinition.json',
+        'scripts/setup.sh'
+      ]);
+      expect(result.overlay?.overridden).toEqual(['createUiDefinition.json.hbs', 'partials/resourceTags.hbs']);
+      expect(result.overlay?.added).toEqual(['scripts/setup.sh.hbs']);
+    });
+
+    it('should not report an overlay when templatesDir has no directory for the type', async () => {
+      await fs.ensureDir(path.join(templatesDir, 'other'));
+
+      const result = await new TemplateGenerator(new TemplateRegistry()).generateTemplate({
+        type: 'storage', publisher: 'Acme', name: 'App', output: path.join(workDir, 'output'), templatesDir
+      });
+
+      expect(result.overlay).toBeUndefined();
+      expect(result.files.some(file => file.overlay)).toBe(false);
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should reject a templatesDir that is not a string', () => {
+      const validation = getConfigManager().validateConfig({ templatesDir: 42 as unknown as string });
+
+      expect(validation.errors).toContain('templatesDir must be a non-empty string');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Template Partials Tests
+ *
+ * Tests loading partials from a template's partials/ directory, plugin
+ * partials and their conflict checks, and the partials of the storage template.
+ */
+
+import Handlebars from 'handlebars';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { isValidPartialName, loadTemplatePartials } from '../core/template-partials';
+import { listTemplateSources, TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import { TemplateRegistry } from '../core/template-registry';
+import { TemplateGenerator } from '../core/generator';
+import { IPlugin } from '../core/plugin';
+import { AppConfig } from '../config/app-config';
+import { TemplateGenerationError, ValidationError } from '../utils/error-handler';
+
+describe('Template Partials', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-partials-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  function partialPlugin(id: string, partials: Record<string, string>): IPlugin {
+    return {
+      metadata: { id, name: id, description: 'Adds partials', version: '1.0.0' },
+      getTemplates: () => [{
+        type: `${id}-template`,
+        name: 'Template',
+        description: 'Plugin template',
+        version: '1.0.0',
+        templatePath: 'template'
+      }],
+      getHandlebarsPartials: () => partials
+    };
+  }
+
+  async function writeTemplate(files: Record<string, string>): Promise<void> {
+    const templateDir = path.join(workDir, 'template');
+    await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+      files: [{ source: 'main.json.hbs', output: 'mainTemplate.json' }]
+    });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(templateDir, file), content);
+    }
+  }
+
+  describe('loadTemplatePartials', () => {
+    it('should name partials after their path below partials/', async () => {
+      await writeTemplate({
+        'partials/tags.hbs': '{ "Publisher": "{{publisher}}" }',
+        'partials/ui/infoBox.hbs': '{ "name": "{{name}}" }',
+        'partials/notes.txt': 'not a partial'
+      });
+
+      const partials = await loadTemplatePartials(path.join(workDir, 'template'));
+
+      expect(Object.keys(partials).sort()).toEqual(['tags', 'ui/infoBox']);
+      expect(partials.tags).toBe('{ "Publisher": "{{publisher}}" }');
+    });
+
+    it('should return no partials without a partials directory', async () => {
+      await writeTemplate({ 'main.json.hbs': '{}' });
+
+      expect(await loadTemplatePartials(path.join(workDir, 'template'))).toEqual({});
+    });
+
+    it('should reject file names that cannot be referenced', async () => {
+      await writeTemplate({ 'partials/resource tags.hbs': '{}' });
+
+      await expect(loadTemplatePartials(path.join(workDir, 'template'))).rejects.toThrow(ValidationError);
+      expect(isValidPartialName('resource tags')).toBe(false);
+      expect(isValidPartialName('ui/info-box')).toBe(true);
+    });
+
+    it('should not render partials as template files', async () => {
+      await writeTemplate({ 'main.json.hbs': '{}', 'partials/tags.hbs': '{}' });
+
+      expect(await listTemplateSources(path.join(workDir, 'template'))).toEqual(['main.json.hbs']);
+    });
+  });
+
+  describe('TemplateRegistry partials', () => {
+    it('should return the partials owned by a plugin', () => {
+      const registry = new TemplateRegistry();
+      registry.registerPlugin(partialPlugin('plugin1', { tags: '{}' }), workDir);
+
+      expect(registry.getPluginPartials('plugin1')).toEqual({ tags: '{}' });
+      expect(registry.getPluginPartials('plugin2')).toEqual({});
+      expect(Array.from(registry.getAllPartials().keys())).toEqual(['tags']);
+    });
+
+    it('should detect partial name conflicts between plugins', () => {
+      const registry = new TemplateRegistry();
+      registry.registerPlugin(partialPlugin('plugin1', { tags: '{}' }), workDir);
+
+      expect(() => {
+        registry.registerPlugin(partialPlugin('plugin2', { tags: '{}' }), workDir);
+      }).toThrow(/Handlebars partial 'tags' from plugin 'plugin2' conflicts with partial from 'plugin1'/);
+      expect(registry.getPlugin('plugin2')).toBeUndefined();
+    });
+  });
+
+  describe('Generation with partials', () => {
+    it('should render template and plugin partials with hash arguments', async () => {
+      await writeTemplate({
+        'main.json.hbs': '{ "tags": {{> tags purpose="Demo"}}, "info": {{> ui/note}} }',
+        'partials/tags.hbs': '{ "Publisher": "{{publisher}}", "Purpose": "{{purpose}}" }'
+      });
+      const registry = new TemplateRegistry();
+      registry.registerPlugin(partialPlugin('plugin1', { 'ui/note': '"{{name}}"' }), workDir);
+      const output = path.join(workDir, 'output');
+
+      await new TemplateGenerator(registry).generateTemplate({
+        type: 'plugin1-template', publisher: 'Acme', name: 'App', output
+      });
+
+      expect(await fs.readJson(path.join(output, 'mainTemplate.json'))).toEqual({
+        tags: { Publisher: 'Acme', Purpose: 'Demo' },
+        info: 'App'
+      });
+      expect(Handlebars.partials.tags).toBeUndefined();
+      expect(Handlebars.partials['ui/note']).toBeUndefined();
+    });
+
+    it('should refuse plugin partials that shadow template partials', async () => {
+      await writeTemplate({ 'main.json.hbs': '{}', 'partials/tags.hbs': '{}' });
+      const registry = new TemplateRegistry();
+      registry.registerPlugin(partialPlugin('plugin1', { tags: '{}' }), workDir);
+
+      await expect(new TemplateGenerator(registry).generateTemplate({
+        type: 'plugin1-template', publisher: 'Acme', name: 'App', output: path.join(workDir, 'output')
+      })).rejects.toThrow(TemplateGenerationError);
+    });
+
+    it('should render the storage InfoBoxes and tags from partials', async () => {
+      const storageDir = path.join(AppConfig.getTemplatesDir(), 'storage');
+      expect(Object.keys(await loadTemplatePartials(storageDir)).sort()).toEqual(['infoBox', 'resourceTags']);
+
+      const output = path.join(workDir, 'output');
+      await new TemplateGenerator(new TemplateRegistry()).generateTemplate({
+        type: 'storage', publisher: 'Acme', name: 'App', output
+      });
+
+      const mainTemplate = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      const storageAccount = mainTemplate.resources.find(
+        (resource: { type: string }) => resource.type === 'Microsoft.Storage/storageAccounts'
+      );
+      expect(storageAccount.tags).toEqual({
+        CreatedBy: 'Azure Marketplace Generator',
+        Publisher: 'Acme',
+        Application: "[parameters('applicationName')]"
+      });
+
+      const uiDefinition = await fs.readJson(path.join(output, 'createUiDefinition.json'));
+      const security = uiDefinition.parameters.steps.find(
+        (step: { name: string }) => step.name === 'securityConfig'
+      );
+      expect(security.elements[0]).toEqual({
+        name: 'securityInfo',
+        type: 'Microsoft.Common.InfoBox',
+        visible: true,
+        options: { icon: 'Info', text: expect.stringContaining('Configure security') }
+      });
+      const warning = security.elements.find(
+        (element: { name: string }) => element.name === 'privateEndpointWarning'
+      );
+      expect(warning.visible).toBe("[equals(steps('securityConfig').publicNetworkAccess, 'Disabled')]");
+    });
+  });
+});
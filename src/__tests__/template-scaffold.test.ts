@@ -0,0 +1,126 @@
+/**
+ * Template Scaffold Tests
+ *
+ * Tests the `azmp template new` scaffolder: the generated skeleton must render
+ * to valid, wired-up output, pass its own template tests and register itself
+ * in a plugin's template list.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { GENERATOR_PACKAGE, registerTemplateInSource, scaffoldTemplate } from '../core/template-scaffold';
+import { TemplateGenerator } from '../core/generator';
+import { runTemplateTests } from '../core/template-tests';
+import { TemplateRegistry } from '../core/template-registry';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+describe('Template Scaffold', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-scaffold-test-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  describe('scaffoldTemplate', () => {
+    it('should create a skeleton that renders to wired-up output and passes its template tests', async () => {
+      const templateDir = path.join(workDir, 'templates', 'web-app');
+      const result = await scaffoldTemplate({ type: 'web-app', templateDir });
+
+      expect(result.files).toEqual([
+        'template.manifest.json',
+        'mainTemplate.json.hbs',
+        'createUiDefinition.json.hbs',
+        'viewDefinition.json.hbs',
+        'tests/default/input.json',
+        'tests/web-app.test.ts',
+        'tests/default/expected/createUiDefinition.json',
+        'tests/default/expected/mainTemplate.json',
+        'tests/default/expected/viewDefinition.json'
+      ]);
+      expect(result.metadata).toMatchObject({ type: 'web-app', name: 'Web App', version: '1.0.0' });
+
+      const registry = new TemplateRegistry();
+      registry.registerTemplate({ ...result.metadata, templatePath: templateDir });
+      const input = await fs.readJson(path.join(templateDir, 'tests', 'default', 'input.json'));
+      const output = path.join(workDir, 'output');
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      await new TemplateGenerator(registry).generateTemplate({ ...input, type: 'web-app', output, seed: 'default' });
+
+      const main = await fs.readJson(path.join(output, 'mainTemplate.json'));
+      const ui = await fs.readJson(path.join(output, 'createUiDefinition.json'));
+      const view = await fs.readJson(path.join(output, 'viewDefinition.json'));
+      expect(Object.keys(ui.parameters.outputs).sort()).toEqual(Object.keys(main.parameters).sort());
+      expect(main.resources).toHaveLength(1);
+      expect(view.views[0].kind).toBe('Overview');
+      expect((await runTemplateTests(templateDir, { templateType: 'web-app' })).passed).toBe(true);
+    });
+
+    it('should import the generator from the published package outside this repository', async () => {
+      const templateDir = path.join(workDir, 'vm');
+      await scaffoldTemplate({ type: 'vm', templateDir });
+
+      const test = await fs.readFile(path.join(templateDir, 'tests', 'vm.test.ts'), 'utf8');
+      expect(test).toContain(`import { assertTemplateTests } from '${GENERATOR_PACKAGE}/dist/core/template-tests'`);
+      expect(test).toContain("assertTemplateTests(path.resolve(__dirname, '..'), { templateType: 'vm' })");
+    });
+
+    it('should refuse invalid types and non-empty directories', async () => {
+      await expect(scaffoldTemplate({ type: 'Web_App', templateDir: path.join(workDir, 'x') }))
+        .rejects.toThrow(ValidationError);
+
+      await fs.outputFile(path.join(workDir, 'vm', 'existing.txt'), '');
+      await expect(scaffoldTemplate({ type: 'vm', templateDir: path.join(workDir, 'vm') }))
+        .rejects.toThrow(FileSystemError);
+    });
+  });
+
+  describe('registerTemplateInSource', () => {
+    const metadata = {
+      type: 'vm',
+      name: 'Virtual Machine',
+      description: 'VM managed application',
+      version: '1.0.0',
+      templatePath: 'vm'
+    };
+
+    it('should add the entry to getTemplates() with a path relative to the plugin module', async () => {
+      const pluginFile = path.join(workDir, 'plugin', 'src', 'index.ts');
+      await fs.outputFile(pluginFile, [
+        'export default {',
+        '  getTemplates() {',
+        '    return [',
+        "      { type: 'web', templatePath: 'templates/web' } // ] in a comment",
+        '    ];',
+        '  }',
+        '};',
+        ''
+      ].join('\n'));
+
+      const entry = await registerTemplateInSource(pluginFile, {
+        ...metadata,
+        templatePath: path.join(workDir, 'plugin', 'templates', 'vm')
+      });
+      const source = await fs.readFile(pluginFile, 'utf8');
+
+      expect(entry.templatePath).toBe('../templates/vm');
+      expect(source).toContain("templatePath: '../templates/vm'");
+      expect(source.indexOf("type: 'vm'")).toBeGreaterThan(source.indexOf("type: 'web'"));
+      await expect(registerTemplateInSource(pluginFile, metadata)).rejects.toThrow(ValidationError);
+    });
+
+    it('should add the entry to a TemplateMetadata array', async () => {
+      const listFile = path.join(workDir, 'templates.ts');
+      await fs.outputFile(listFile, 'export const TEMPLATES: TemplateMetadata[] = [];\n');
+
+      await registerTemplateInSource(listFile, { ...metadata, templatePath: path.join(workDir, 'vm') });
+
+      expect(await fs.readFile(listFile, 'utf8')).toContain("templatePath: 'vm'");
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Template Test Harness Tests
+ *
+ * Tests `azmp template test`: test cases in tests/<case>/ are rendered
+ * deterministically and compared with their expected/ outputs. The bundled
+ * storage template's cases run through the same harness plugins use.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  assertTemplateTests,
+  formatTemplateTestFailures,
+  listTemplateTestCases,
+  runTemplateTests,
+  UPDATE_SNAPSHOTS_ENV
+} from '../core/template-tests';
+import { AppConfig } from '../config/app-config';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+import { IPlugin } from '../core/plugin';
+import { ValidationError } from '../utils/error-handler';
+
+describe('Template Test Harness', () => {
+  describe('storage template', () => {
+    it('should render every test case as expected', async () => {
+      const result = await assertTemplateTests(path.join(AppConfig.getTemplatesDir(), 'storage'), { templateType: 'storage' });
+
+      expect(result.cases.map(testCase => testCase.name)).toEqual(['default', 'locale-de', 'locale-fr', 'premium-data-protection']);
+    });
+  });
+
+  describe('runTemplateTests', () => {
+    let templateDir: string;
+    const expectedFile = (...parts: string[]) => path.join(templateDir, 'tests', 'basic', 'expected', ...parts);
+
+    beforeEach(async () => {
+      templateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-template-tests-'));
+      await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+        type: 'app',
+        version: '1.2.0',
+        files: [{ source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' }],
+        parameters: { tier: { type: 'string', default: 'Basic', allowedValues: ['Basic', 'Premium'] } }
+      });
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'),
+        '{ "publisher": "{{publisher}}", "tier": "{{tier}}", "name": "{{uniqueString "app"}}" }');
+      await fs.outputJson(path.join(templateDir, 'tests', 'basic', 'input.json'), { publisher: 'Acme' });
+      await fs.outputJson(path.join(templateDir, 'tests', 'premium', 'input.json'), { parameters: { tier: 'Premium' } });
+      await fs.ensureDir(path.join(templateDir, 'tests', 'notes'));
+    });
+
+    afterEach(async () => {
+      delete process.env[UPDATE_SNAPSHOTS_ENV];
+      await fs.remove(templateDir);
+    });
+
+    it('should list the directories with an input.json as test cases', async () => {
+      expect(await listTemplateTestCases(templateDir)).toEqual(['basic', 'premium']);
+    });
+
+    it('should write the expected outputs with update and then pass', async () => {
+      const first = await runTemplateTests(templateDir);
+      expect(first.templateType).toBe('app');
+      expect(first.passed).toBe(false);
+      expect(first.cases[0].files).toEqual([{ output: 'mainTemplate.json', status: 'missing' }]);
+
+      await runTemplateTests(templateDir, { update: true });
+      const expected = await fs.readJson(expectedFile('mainTemplate.json'));
+      expect(expected.publisher).toBe('Acme');
+      expect(expected.name).toMatch(/^app[a-z0-9]+$/);
+
+      const second = await runTemplateTests(templateDir);
+      expect(second.passed).toBe(true);
+      expect(second.cases.map(testCase => testCase.files[0].status)).toEqual(['match', 'match']);
+    });
+
+    it('should report changed and no longer rendered outputs', async () => {
+      await runTemplateTests(templateDir, { update: true });
+      const expected = await fs.readFile(expectedFile('mainTemplate.json'), 'utf8');
+      await fs.writeFile(expectedFile('mainTemplate.json'), expected.replace('Acme', 'Other'));
+      await fs.outputFile(expectedFile('old.json'), '{}');
+
+      const result = await runTemplateTests(templateDir, { cases: ['basic'] });
+
+      expect(result.cases).toHaveLength(1);
+      expect(result.cases[0].files.map(file => `${file.output} ${file.status}`)).toEqual([
+        'mainTemplate.json changed',
+        'old.json unexpected'
+      ]);
+      const failures = formatTemplateTestFailures(result);
+      expect(failures[0]).toBe('basic: mainTemplate.json differs from expected/mainTemplate.json');
+      expect(failures).toContain('  -    "publisher": "Other",');
+      expect(failures).toContain('  +    "publisher": "Acme",');
+      expect(failures[failures.length - 1]).toBe('basic: expected/old.json is no longer rendered');
+
+      await runTemplateTests(templateDir, { update: true });
+      expect(await fs.pathExists(expectedFile('old.json'))).toBe(false);
+      expect((await runTemplateTests(templateDir)).passed).toBe(true);
+    });
+
+    it('should fail cases whose inputs cannot be rendered', async () => {
+      await fs.outputJson(path.join(templateDir, 'tests', 'premium', 'input.json'), { parameters: { tier: 'Gold' } });
+
+      const result = await runTemplateTests(templateDir, { cases: ['premium'], update: true });
+
+      expect(result.passed).toBe(false);
+      expect(result.cases[0].error).toContain('tier must be one of');
+      await expect(runTemplateTests(templateDir, { cases: ['missing'] })).rejects.toThrow(ValidationError);
+    });
+
+    it('should render with the helpers of the template\'s plugin', async () => {
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{ "size": "{{vmSize tier}}" }');
+      const plugin: IPlugin = {
+        metadata: { id: 'vm-plugin', name: 'VM', description: 'VM templates', version: '2.0.0' },
+        getHandlebarsHelpers: () => ({ vmSize: (tier: string) => (tier === 'Premium' ? 'D4s' : 'B2s') })
+      };
+
+      await runTemplateTests(templateDir, { plugin, update: true });
+
+      expect(await fs.readJson(expectedFile('mainTemplate.json'))).toEqual({ size: 'B2s' });
+    });
+
+    it('should throw the differences from assertTemplateTests unless updating snapshots', async () => {
+      await expect(assertTemplateTests(templateDir)).rejects.toThrow(/Template tests of app failed[\s\S]*basic: mainTemplate.json has no expected output/);
+
+      process.env[UPDATE_SNAPSHOTS_ENV] = '1';
+      await expect(assertTemplateTests(templateDir)).resolves.toMatchObject({ passed: true, updated: true });
+
+      delete process.env[UPDATE_SNAPSHOTS_ENV];
+      await expect(assertTemplateTests(templateDir)).resolves.toMatchObject({ passed: true, updated: false });
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Template Watcher Tests
+ *
+ * Tests watch-mode rendering: which sources a change re-renders, writing only
+ * changed outputs, and the compact diff printed after each save.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { describeOutputChange, diffLines } from '../core/output-diff';
+import { selectChangedSources, TemplateWatchSession } from '../core/template-watcher';
+import { TemplateGenerator } from '../core/generator';
+import { TemplateRegistry } from '../core/template-registry';
+import { TEMPLATE_MANIFEST_FILE } from '../core/template-manifest';
+
+describe('Template Watch Mode', () => {
+  let workDir: string;
+  let templateDir: string;
+  let output: string;
+  let generator: TemplateGenerator;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-watch-'));
+    templateDir = path.join(workDir, 'sample');
+    output = path.join(workDir, 'output');
+    await fs.outputJson(path.join(templateDir, TEMPLATE_MANIFEST_FILE), {
+      files: [
+        { source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' },
+        { source: 'viewDefinition.json.hbs', output: 'viewDefinition.json' }
+      ]
+    });
+    await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{\n  "name": "{{name}}",\n  "tags": {{> tags}}\n}');
+    await fs.outputFile(path.join(templateDir, 'viewDefinition.json.hbs'), '{\n  "kind": "Overview"\n}');
+    await fs.outputFile(path.join(templateDir, 'partials', 'tags.hbs'), '{ "Publisher": "{{publisher}}" }');
+
+    const registry = new TemplateRegistry();
+    registry.registerTemplate({
+      type: 'sample',
+      name: 'Sample',
+      description: 'Sample template',
+      version: '1.0.0',
+      templatePath: templateDir
+    });
+    generator = new TemplateGenerator(registry);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  describe('diffLines', () => {
+    it('should return hunks with context around each change', () => {
+      const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].join('\n');
+      const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+
+      expect(diffLines(before, after)).toEqual([
+        '@@ -1,3 +1,3 @@', ' a', '+B', '-b', ' c',
+        '@@ -7,1 +7,2 @@', ' g', '+h'
+      ]);
+    });
+
+    it('should return nothing for equal content', () => {
+      expect(diffLines('same', 'same')).toEqual([]);
+    });
+  });
+
+  describe('describeOutputChange', () => {
+    it('should summarise new files and truncate long diffs', () => {
+      expect(describeOutputChange({ output: 'a.json', content: '{\n}' })).toEqual(['(new file, 2 lines)']);
+
+      const previous = Array.from({ length: 30 }, (_, index) => `line ${index}`).join('\n');
+      const content = Array.from({ length: 30 }, (_, index) => `changed ${index}`).join('\n');
+      const lines = describeOutputChange({ output: 'a.json', previous, content }, 5);
+
+      expect(lines).toHaveLength(6);
+      expect(lines[5]).toMatch(/^\.\.\. \d+ more lines$/);
+    });
+  });
+
+  describe('selectChangedSources', () => {
+    const layers = { baseDir: '/t/base', overlayDir: '/t/overlay' };
+
+    it('should map changed sources of any layer to their relative path', () => {
+      expect(selectChangedSources(['/t/overlay/viewDefinition.json.hbs', '/t/base/nested/a.json.hbs'], layers))
+        .toEqual(['nested/a.json.hbs', 'viewDefinition.json.hbs']);
+    });
+
+    it('should require a full render for partials, the manifest and unknown files', () => {
+      expect(selectChangedSources(['/t/base/partials/tags.hbs'], layers)).toBeUndefined();
+      expect(selectChangedSources(['/t/overlay/template.manifest.json'], layers)).toBeUndefined();
+      expect(selectChangedSources(['/elsewhere/azmp.config.json'], layers)).toBeUndefined();
+    });
+  });
+
+  describe('Generation', () => {
+    it('should render only the selected sources and write only changed outputs', async () => {
+      const config = { type: 'sample', publisher: 'Acme', name: 'App', output };
+      await generator.generateTemplate(config);
+      const viewPath = path.join(output, 'viewDefinition.json');
+      await fs.writeFile(viewPath, 'stale');
+
+      await fs.outputFile(path.join(templateDir, 'mainTemplate.json.hbs'), '{\n  "name": "{{name}}-v2"\n}');
+      const result = await generator.generateTemplate({
+        ...config,
+        sources: ['mainTemplate.json.hbs'],
+        writeChangedOnly: true
+      });
+
+      expect(result.files.map(file => file.output)).toEqual(['mainTemplate.json']);
+      expect(result.changes?.map(change => change.output)).toEqual(['mainTemplate.json']);
+      expect(JSON.parse(result.changes?.[0].previous ?? '')).toEqual({ name: 'App', tags: { Publisher: 'Acme' } });
+      expect(JSON.parse(result.changes?.[0].content ?? '')).toEqual({ name: 'App-v2' });
+      expect(await fs.readFile(viewPath, 'utf8')).toBe('stale');
+
+      const unchanged = await generator.generateTemplate({ ...config, sources: ['mainTemplate.json.hbs'], writeChangedOnly: true });
+      expect(unchanged.changes).toEqual([]);
+    });
+  });
+
+  describe('TemplateWatchSession', () => {
+    it('should re-render after a change and report the changed outputs', async () => {
+      const session = new TemplateWatchSession({
+        generator,
+        loadConfig: async () => ({ type: 'sample', publisher: 'Acme', name: 'App', output })
+      });
+      expect((await session.render())?.map(change => change.output)).toEqual(['mainTemplate.json', 'viewDefinition.json']);
+
+      await fs.outputFile(path.join(templateDir, 'partials', 'tags.hbs'), '{ "Owner": "{{publisher}}" }');
+      const changes = await session.render([path.join(templateDir, 'partials', 'tags.hbs')]);
+
+      expect(changes?.map(change => change.output)).toEqual(['mainTemplate.json']);
+      expect(await fs.readJson(path.join(output, 'mainTemplate.json'))).toEqual({ name: 'App', tags: { Owner: 'Acme' } });
+      session.close();
+    });
+
+    it('should watch the template tree and re-render what a save changes', async () => {
+      const waitFor = async (check: () => Promise<boolean>): Promise<void> => {
+        const deadline = Date.now() + 5000;
+        while (!await check()) {
+          if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for the watch session to re-render');
+          }
+          await new Promise(resolve => setTimeout(resolve, 25));
+        }
+      };
+      const readOutput = (file: string) => fs.readFile(path.join(output, file), 'utf8').catch(() => '');
+      const session = new TemplateWatchSession({
+        generator,
+        debounceMs: 50,
+        loadConfig: async () => ({ type: 'sample', publisher: 'Acme', name: 'App', output })
+      });
+      const render = jest.spyOn(session, 'render');
+      await session.start();
+
+      try {
+        // A burst of saves re-renders once, and only the saved source
+        const sourcePath = path.join(templateDir, 'viewDefinition.json.hbs');
+        await fs.writeFile(sourcePath, '{\n  "kind": "Metrics"\n}');
+        await fs.writeFile(sourcePath, '{\n  "kind": "Associations"\n}');
+        await waitFor(async () => (await readOutput('viewDefinition.json')).includes('Associations'));
+        await waitFor(async () => render.mock.calls.length === 2);
+        expect(render.mock.calls[1][0]).toEqual([sourcePath]);
+
+        // Directories created while watching are watched too
+        await fs.outputFile(path.join(templateDir, 'nestedtemplates', 'extra.json.hbs'), '{ "name": "{{name}}" }');
+        await waitFor(async () => (await readOutput('nestedtemplates/extra.json')).includes('App'));
+        await fs.writeFile(path.join(templateDir, 'nestedtemplates', 'extra.json.hbs'), '{ "name": "{{name}}-v2" }');
+        await waitFor(async () => (await readOutput('nestedtemplates/extra.json')).includes('App-v2'));
+      } finally {
+        session.close();
+      }
+    });
+
+    it('should keep running when a render fails', async () => {
+      const session = new TemplateWatchSession({
+        generator,
+        loadConfig: async () => ({ type: 'sample', publisher: 'Acme', name: 'App', output })
+      });
+      await session.render();
+
+      const sourcePath = path.join(templateDir, 'viewDefinition.json.hbs');
+      await fs.outputFile(sourcePath, '{ "kind": ');
+      expect(await session.render([sourcePath])).toBeUndefined();
+
+      await fs.outputFile(sourcePath, '{ "kind": "Metrics" }');
+      expect((await session.render([sourcePath]))?.map(change => change.output)).toEqual(['viewDefinition.json']);
+      session.close();
+    });
+  });
+});
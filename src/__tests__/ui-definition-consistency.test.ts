@@ -0,0 +1,160 @@
+/**
+ * createUiDefinition Consistency Tests
+ *
+ * Tests the offline check `azmp validate` runs between the parameters of a
+ * mainTemplate and the outputs of its createUiDefinition.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { checkPackageConsistency, checkUiDefinitionConsistency } from '../core/ui-definition-consistency';
+import { ValidationError } from '../utils/error-handler';
+
+const mainTemplate = {
+  parameters: {
+    location: { type: 'string', defaultValue: '[resourceGroup().location]' },
+    prefix: { type: 'string' },
+    adminPassword: { type: 'securestring' },
+    nodeCount: { type: 'int' },
+    retentionDays: { type: 'int', defaultValue: 7 },
+    httpsOnly: { type: 'bool', defaultValue: true },
+    tier: { type: 'string', defaultValue: 'Hot' },
+    settings: { type: 'object' },
+    tags: { type: 'object', defaultValue: {} }
+  },
+  resources: []
+};
+
+const uiDefinition = {
+  parameters: {
+    basics: [{ name: 'prefix', type: 'Microsoft.Common.TextBox' }],
+    steps: [
+      {
+        name: 'settings',
+        elements: [
+          { name: 'adminPassword', type: 'Microsoft.Common.PasswordBox' },
+          { name: 'nodeCount', type: 'Microsoft.Common.TextBox' },
+          {
+            name: 'retention',
+            type: 'Microsoft.Common.Section',
+            elements: [{ name: 'days', type: 'Microsoft.Common.Slider' }]
+          },
+          { name: 'httpsOnly', type: 'Microsoft.Common.CheckBox' },
+          {
+            name: 'tier',
+            type: 'Microsoft.Common.DropDown',
+            constraints: { allowedValues: [{ label: 'Hot', value: 'Hot' }, { label: 'Cool', value: 'Cool' }] }
+          },
+          { name: 'settings', type: 'Microsoft.Common.TextBox' }
+        ]
+      }
+    ],
+    outputs: {
+      location: '[location()]',
+      prefix: "[basics('prefix')]",
+      adminPassword: "[steps('settings').adminPassword]",
+      nodeCount: "[int(steps('settings').nodeCount)]",
+      retentionDays: "[steps('settings').retention.days]",
+      httpsOnly: "[steps('settings').httpsOnly]",
+      tier: "[steps('settings').tier]",
+      settings: "[parse(steps('settings').settings)]",
+      tags: { owner: 'ops' }
+    }
+  }
+};
+
+/**
+ * uiDefinition with its outputs replaced
+ */
+function withOutputs(outputs: Record<string, unknown>) {
+  return { parameters: { ...uiDefinition.parameters, outputs } };
+}
+
+/**
+ * Outputs of uiDefinition without one of them
+ */
+function outputsWithout(name: string): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(uiDefinition.parameters.outputs).filter(([output]) => output !== name));
+}
+
+describe('createUiDefinition Consistency', () => {
+  it('should accept outputs that produce every parameter with the right type', () => {
+    expect(checkUiDefinitionConsistency(mainTemplate, uiDefinition)).toEqual([]);
+  });
+
+  it('should report missing outputs, unknown parameters and unknown elements', () => {
+    const issues = checkUiDefinitionConsistency(mainTemplate, withOutputs({
+      ...outputsWithout('prefix'),
+      Prefixes: "[basics('prefix')]",
+      tier: "[steps('settings').accessTier]",
+      httpsOnly: "[steps('security').httpsOnly]"
+    }));
+
+    expect(issues).toEqual([
+      { code: 'unknown-element', parameter: 'httpsOnly', message: "Output 'httpsOnly' reads steps('security'), which does not exist" },
+      { code: 'unknown-element', parameter: 'tier', message: "Output 'tier' reads steps('settings').accessTier, which does not exist" },
+      { code: 'unknown-parameter', parameter: 'Prefixes', message: "Output 'Prefixes' targets a parameter mainTemplate does not declare" },
+      { code: 'missing-output', parameter: 'prefix', message: "Parameter 'prefix' has no default and no createUiDefinition output" }
+    ]);
+  });
+
+  it('should report outputs of another type than their parameters', () => {
+    const issues = checkUiDefinitionConsistency(mainTemplate, withOutputs({
+      ...uiDefinition.parameters.outputs,
+      nodeCount: "[steps('settings').nodeCount]",
+      retentionDays: "[string(steps('settings').retention.days)]",
+      httpsOnly: "[equals(steps('settings').tier, 'Hot')]",
+      tier: 5,
+      settings: "[steps('settings').settings]",
+      tags: "[parse('{}')]"
+    }));
+
+    expect(issues.map(issue => `${issue.code}: ${issue.message}`)).toEqual([
+      "type-mismatch: Output 'nodeCount' produces string but parameter 'nodeCount' is int",
+      "type-mismatch: Output 'retentionDays' produces string but parameter 'retentionDays' is int",
+      "type-mismatch: Output 'tier' produces int but parameter 'tier' is string",
+      "type-mismatch: Output 'settings' produces string but parameter 'settings' is object"
+    ]);
+  });
+
+  it('should require location to be wired to location()', () => {
+    expect(checkUiDefinitionConsistency(mainTemplate, withOutputs({
+      ...uiDefinition.parameters.outputs, location: '[resourceGroup().location]'
+    }))).toEqual([
+      { code: 'location', parameter: 'location', message: 'Output \'location\' must be [location()], not "[resourceGroup().location]"' }
+    ]);
+
+    expect(checkUiDefinitionConsistency(mainTemplate, withOutputs(outputsWithout('location')))).toEqual([
+      { code: 'location', parameter: 'location', message: 'Parameter \'location\' is not wired to [location()]' }
+    ]);
+  });
+
+  describe('checkPackageConsistency', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-consistency-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(workDir);
+    });
+
+    it('should check the bundled storage template', async () => {
+      const expected = path.join(__dirname, '../templates/storage/tests/default/expected');
+
+      const report = await checkPackageConsistency(path.join(expected, 'mainTemplate.json'));
+
+      expect(report).toMatchObject({ parameters: 16, outputs: 16, issues: [] });
+    });
+
+    it('should skip directories without both files and reject invalid JSON', async () => {
+      await fs.writeJson(path.join(workDir, 'mainTemplate.json'), mainTemplate);
+      expect(await checkPackageConsistency(workDir)).toBeUndefined();
+
+      await fs.writeFile(path.join(workDir, 'createUiDefinition.json'), '{ "parameters": ');
+      await expect(checkPackageConsistency(workDir)).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * createUiDefinition Generator Tests
+ *
+ * Tests deriving createUiDefinition elements, steps and outputs from the
+ * parameters of a rendered mainTemplate, and tuning them with metadata.ui
+ * hints and an overrides file.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  generateUiDefinition,
+  loadUiDefinitionOverrides,
+  UI_DEFINITION_SCHEMA_URL
+} from '../core/ui-definition-generator';
+import { ValidationError } from '../utils/error-handler';
+
+interface Element {
+  name: string;
+  type: string;
+  [field: string]: unknown;
+}
+
+interface Step {
+  name: string;
+  label: string;
+  elements: Element[];
+}
+
+/**
+ * Steps, basics and outputs of a generated createUiDefinition
+ */
+function generate(parameters: Record<string, unknown>, options: Parameters<typeof generateUiDefinition>[1] = {}) {
+  const result = generateUiDefinition({ parameters, resources: [] }, options);
+  const ui = result.uiDefinition.parameters as { basics: Element[]; steps: Step[]; outputs: Record<string, string> };
+  return { ...result, ...ui };
+}
+
+describe('createUiDefinition Generator', () => {
+  it('should choose an element for each parameter type and wire the outputs', () => {
+    const { steps, outputs, skipped, uiDefinition } = generate({
+      location: { type: 'string', defaultValue: '[resourceGroup().location]' },
+      prefix: { type: 'string', minLength: 3, maxLength: 11, metadata: { description: 'Name prefix' } },
+      tier: { type: 'string', defaultValue: 'Hot', allowedValues: ['Hot', 'Cool'] },
+      sku: { type: 'string', defaultValue: 'Standard_LRS', allowedValues: ['Standard_LRS', 'Standard_GRS', 'Standard_ZRS', 'Premium_LRS'] },
+      httpsOnly: { type: 'bool', defaultValue: true },
+      retentionDays: { type: 'int', defaultValue: 7, minValue: 0, maxValue: 365 },
+      nodeCount: { type: 'int' },
+      adminPassword: { type: 'secureString' },
+      settings: { type: 'object' },
+      tags: { type: 'object', defaultValue: {} },
+      accountName: { type: 'string', defaultValue: "[concat('sa', uniqueString(resourceGroup().id))]" },
+      _artifactsLocation: { type: 'string', defaultValue: '[deployment().properties.templateLink.uri]' }
+    });
+
+    expect(uiDefinition.$schema).toBe(UI_DEFINITION_SCHEMA_URL);
+    expect(steps.map(step => step.name)).toEqual(['settings']);
+    const elements = Object.fromEntries(steps[0].elements.map(element => [element.name, element]));
+    expect(Object.values(elements).map(element => `${element.name}: ${element.type}`)).toEqual([
+      'prefix: Microsoft.Common.TextBox',
+      'tier: Microsoft.Common.OptionsGroup',
+      'sku: Microsoft.Common.DropDown',
+      'httpsOnly: Microsoft.Common.CheckBox',
+      'retentionDays: Microsoft.Common.Slider',
+      'nodeCount: Microsoft.Common.TextBox',
+      'adminPassword: Microsoft.Common.PasswordBox',
+      'settings: Microsoft.Common.TextBox'
+    ]);
+    expect(elements.prefix).toMatchObject({
+      label: 'Prefix',
+      toolTip: 'Name prefix',
+      constraints: { required: true, regex: '^[\\s\\S]{3,11}$', validationMessage: 'Enter 3-11 characters' }
+    });
+    expect(elements.tier).toMatchObject({
+      defaultValue: 'Hot',
+      constraints: { required: false, allowedValues: [{ label: 'Hot', value: 'Hot' }, { label: 'Cool', value: 'Cool' }] }
+    });
+    expect(elements.httpsOnly.defaultValue).toBe(true);
+    expect(elements.retentionDays).toMatchObject({ min: 0, max: 365, defaultValue: 7 });
+    expect(elements.adminPassword.label).toEqual({ password: 'Admin Password', confirmPassword: 'Confirm admin password' });
+    expect(outputs).toEqual({
+      location: '[location()]',
+      prefix: "[steps('settings').prefix]",
+      tier: "[steps('settings').tier]",
+      sku: "[steps('settings').sku]",
+      httpsOnly: "[steps('settings').httpsOnly]",
+      retentionDays: "[steps('settings').retentionDays]",
+      nodeCount: "[int(steps('settings').nodeCount)]",
+      adminPassword: "[steps('settings').adminPassword]",
+      settings: "[parse(steps('settings').settings)]"
+    });
+    expect(skipped).toEqual(['tags', 'accountName', '_artifactsLocation']);
+  });
+
+  it('should collect every parameter of the storage template that needs a value', async () => {
+    const expected = path.join(__dirname, '../templates/storage/tests/default/expected/mainTemplate.json');
+    const template = await fs.readJson(expected);
+
+    const result = generateUiDefinition(template);
+
+    expect([...result.parameters, ...result.skipped].sort()).toEqual(Object.keys(template.parameters).sort());
+    for (const name of result.skipped) {
+      expect(template.parameters[name].defaultValue).toBeDefined();
+    }
+  });
+
+  it('should group and tune elements with metadata hints and overrides', () => {
+    const { basics, steps, outputs, skipped } = generate({
+      prefix: { type: 'string', metadata: { ui: { step: 'basics', label: 'Resource prefix' } } },
+      minimumTlsVersion: { type: 'string', defaultValue: 'TLS1_2', allowedValues: ['TLS1_0', 'TLS1_2'], metadata: { ui: { step: 'security' } } },
+      publicAccess: { type: 'bool', defaultValue: false, metadata: { ui: { step: 'security', element: { visible: false } } } },
+      applicationName: { type: 'string', defaultValue: 'app' },
+      accountName: { type: 'string', defaultValue: "[concat('sa', uniqueString(resourceGroup().id))]" }
+    }, {
+      defaultStepLabel: 'Application',
+      basics: [{ name: 'introduction', type: 'Microsoft.Common.TextBlock' }],
+      overrides: {
+        steps: { security: { label: 'Security', bladeTitle: 'Security settings' } },
+        parameters: {
+          minimumTlsVersion: { control: 'DropDown' },
+          publicAccess: { element: { toolTip: 'Allow anonymous reads' }, output: "[not(steps('security').publicAccess)]" },
+          applicationName: { exclude: true },
+          accountName: { step: 'naming' }
+        }
+      }
+    });
+
+    expect(basics).toEqual([
+      { name: 'introduction', type: 'Microsoft.Common.TextBlock' },
+      { name: 'prefix', type: 'Microsoft.Common.TextBox', label: 'Resource prefix', constraints: { required: true } }
+    ]);
+    expect(steps.map(step => `${step.name} (${step.label})`)).toEqual(['security (Security)', 'naming (Naming)']);
+    expect(steps[0]).toMatchObject({ bladeTitle: 'Security settings' });
+    expect(steps[0].elements.map(element => element.type)).toEqual(['Microsoft.Common.DropDown', 'Microsoft.Common.CheckBox']);
+    expect(steps[0].elements[1]).toMatchObject({ visible: false, toolTip: 'Allow anonymous reads' });
+    expect(steps[1].elements[0]).toMatchObject({ name: 'accountName', constraints: { required: true } });
+    expect(steps[1].elements[0].defaultValue).toBeUndefined();
+    expect(outputs).toEqual({
+      prefix: "[basics('prefix')]",
+      minimumTlsVersion: "[steps('security').minimumTlsVersion]",
+      publicAccess: "[not(steps('security').publicAccess)]",
+      accountName: "[steps('naming').accountName]"
+    });
+    expect(skipped).toEqual(['applicationName']);
+  });
+
+  it('should reject invalid hints and overrides', async () => {
+    expect(() => generateUiDefinition({
+      parameters: { size: { type: 'string', metadata: { ui: { control: 'Toggle' } } } }
+    }, { overrides: { parameters: { sizes: { exclude: true } } } })).toThrow(ValidationError);
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-uidef-test-'));
+    try {
+      const file = path.join(workDir, 'overrides.json');
+      await fs.writeJson(file, { steps: [], parameters: { size: { exclude: 'yes', element: 'x' } } });
+
+      await expect(loadUiDefinitionOverrides(file)).rejects.toMatchObject({
+        details: ['steps must be an object', 'parameters.size.exclude must be a boolean', 'parameters.size.element must be an object']
+      });
+    } finally {
+      await fs.remove(workDir);
+    }
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * viewDefinition Views Tests
+ *
+ * Tests the views declared in template manifests and azmp.config.json:
+ * validation against the viewDefinition schema kinds, config views replacing
+ * the manifest's, and rendering into viewDefinition.json.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateGenerator } from '../core/generator';
+import {
+  resolveViewDefinitionViews,
+  validateViewDefinitionViews,
+  ViewDefinitionView
+} from '../core/view-definition';
+import { getConfigManager } from '../utils/config-manager';
+import { ValidationError } from '../utils/error-handler';
+
+const metricsView: ViewDefinitionView = {
+  kind: 'Metrics',
+  properties: {
+    displayName: 'Metrics',
+    charts: [{
+      displayName: 'Transactions',
+      chartType: 'Bar',
+      metrics: [{ name: 'Transactions', namespace: 'Microsoft.Storage/storageAccounts', aggregationType: 'sum' }]
+    }]
+  }
+};
+
+const configViews: ViewDefinitionView[] = [
+  {
+    kind: 'Overview',
+    properties: { header: '{{name}} by {{publisher}}', commands: [{ displayName: 'Rotate keys', path: 'rotateKeys' }] }
+  },
+  metricsView,
+  {
+    kind: 'CustomResources',
+    properties: {
+      displayName: 'Users',
+      resourceType: 'users',
+      columns: [{ key: 'name', displayName: 'Name' }, { key: 'properties.role', displayName: 'Role', optional: true }]
+    }
+  },
+  { kind: 'Associations', properties: { displayName: 'Tagged VMs', targetResourceType: 'Microsoft.Compute/virtualMachines' } }
+];
+
+describe('viewDefinition Views', () => {
+  describe('validateViewDefinitionViews', () => {
+    it('should accept every schema kind', () => {
+      expect(validateViewDefinitionViews(configViews)).toEqual([]);
+    });
+
+    it('should report views that do not match their kind', () => {
+      const errors = validateViewDefinitionViews([
+        { kind: 'Overview', properties: { commands: [{ displayName: 'Restart' }] } },
+        { kind: 'Overview', properties: {} },
+        {
+          kind: 'Metrics',
+          properties: {
+            charts: [
+              { displayName: 'Usage', chartType: 'Pie', metrics: [{ name: 'UsedCapacity', aggregationType: 'Average' }] },
+              { displayName: 'Empty', metrics: [] }
+            ]
+          }
+        },
+        { kind: 'CustomResources', properties: { resourceType: 'Microsoft.Storage/storageAccounts' } },
+        { kind: 'Associations', properties: {} },
+        { kind: 'Properties', properties: {} }
+      ]);
+
+      expect(errors).toEqual([
+        'views[0].properties.commands[0].path must be a non-empty string',
+        'views[2].properties.charts[0].chartType must be one of: Bar, Line, Area, Scatter',
+        'views[2].properties.charts[0].metrics[0].namespace must be a non-empty string',
+        'views[2].properties.charts[0].metrics[0].aggregationType must be one of: none, sum, min, max, avg, unique, percentile, count',
+        'views[2].properties.charts[1].metrics must be a non-empty array',
+        "views[3].properties.resourceType must be a resource type of the application's custom provider, not 'Microsoft.Storage/storageAccounts'",
+        'views[4].properties.targetResourceType must be a non-empty string',
+        'views[5].kind must be one of: Overview, Metrics, CustomResources, Associations',
+        'views may contain one Overview (found 2)'
+      ]);
+      expect(validateViewDefinitionViews({}, 'templates.storage.views')).toEqual(['templates.storage.views must be an array']);
+    });
+  });
+
+  it('should replace the manifest views with the config views', () => {
+    const manifestViews: ViewDefinitionView[] = [{ kind: 'Overview', properties: { header: '{{name}}' } }];
+
+    expect(resolveViewDefinitionViews(manifestViews, undefined, 'storage')).toBe(manifestViews);
+    expect(resolveViewDefinitionViews(manifestViews, [metricsView], 'storage')).toEqual([metricsView]);
+    expect(resolveViewDefinitionViews(undefined, undefined, 'storage')).toEqual([]);
+    expect(() => resolveViewDefinitionViews(manifestViews, [{ kind: 'Associations' }], 'storage')).toThrow(ValidationError);
+    expect(getConfigManager().validateConfig({
+      templates: { storage: { views: [{ kind: 'Metrics', properties: { charts: [] } }] as unknown as ViewDefinitionView[] } }
+    }).errors).toEqual(['templates.storage.views[0].properties.charts must be a non-empty array']);
+  });
+
+  describe('generation', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-views-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(workDir);
+    });
+
+    const generate = (views?: ViewDefinitionView[]) => new TemplateGenerator().generateTemplate({
+      type: 'storage', publisher: 'Contoso', name: 'Team Files', output: workDir, seed: 'views', quiet: true, views
+    });
+
+    it('should render the manifest views with the template context', async () => {
+      await generate();
+
+      const viewDefinition = await fs.readJson(path.join(workDir, 'viewDefinition.json'));
+      expect(viewDefinition.views.map((view: ViewDefinitionView) => view.kind))
+        .toEqual(['Overview', 'Metrics']);
+      expect(viewDefinition.views[0].properties.header).toBe('Team Files - Storage Account Overview');
+    });
+
+    it('should render config views in place of the manifest views', async () => {
+      await generate(configViews);
+
+      const viewDefinition = await fs.readJson(path.join(workDir, 'viewDefinition.json'));
+      expect(viewDefinition.views).toEqual([
+        { ...configViews[0], properties: { ...configViews[0].properties, header: 'Team Files by Contoso' } },
+        ...configViews.slice(1)
+      ]);
+      const record = await fs.readJson(path.join(workDir, '.azmp/generation.json'));
+      expect(record.views).toEqual(configViews);
+    });
+
+    it('should fail before rendering on invalid config views', async () => {
+      await expect(generate([{ kind: 'Overview', properties: { commands: [{}] } }] as unknown as ViewDefinitionView[]))
+        .rejects.toMatchObject({
+          message: "Invalid viewDefinition views for template 'storage'",
+          details: [
+            'templates.storage.views[0].properties.commands[0].displayName must be a non-empty string',
+            'templates.storage.views[0].properties.commands[0].path must be a non-empty string'
+          ]
+        });
+      expect(await fs.pathExists(path.join(workDir, 'viewDefinition.json'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { Command } from 'commander';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { ErrorHandler, ValidationError } from '../../utils/error-handler';
+import { getLogger } from '../../utils/logger';
+import { SecurityValidation } from '../../utils/security-validation';
+import { AppConfig } from '../../config/app-config';
+import { getConfigManager, resolveConfigPath, toConfigPath, updateConfigFile } from '../../utils/config-manager';
+import {
+  ApiVersionCatalog,
+  buildApiVersionCatalogFromSpecs,
+  getProjectCatalogPath,
+  loadApiVersionCatalog,
+  mergeApiVersionCatalogs,
+  PROJECT_CATALOG_FILE,
+  writeApiVersionCatalog
+} from '../../core/api-version-catalog';
+import { DEFAULT_CONFIG_FILE } from '../../core/local-templates';
+import { ApiVersionFinding, checkApiVersions } from '../../core/api-version-check';
+
+const logger = getLogger();
+
+function describeFinding(finding: ApiVersionFinding): string {
+  const location = chalk.gray(finding.path);
+  const resource = `${finding.resourceType}@${finding.apiVersion}`;
+  switch (finding.status) {
+    case 'outdated':
+      return chalk.red(`  ✗ ${resource}`) + chalk.gray(` → ${finding.latest}  `) + location;
+    case 'preview':
+      return chalk.yellow(`  ⚠ ${resource}`) + chalk.gray(` preview (latest stable: ${finding.latest})  `) + location;
+    case 'unknown-version':
+      return chalk.yellow(`  ? ${resource}`) + chalk.gray(` not in the catalog (latest: ${finding.latest})  `) + location;
+    case 'unknown-type':
+      return chalk.yellow(`  ? ${resource}`) + chalk.gray('  resource type not in the catalog  ') + location;
+    default:
+      return chalk.green(`  ✓ ${resource}  `) + location;
+  }
+}
+
+/**
+ * Catalog to check against: --catalog, else the one generation renders from
+ * (apiVersionCatalog of the config file, or the one shipped with the generator)
+ */
+function resolveCatalogPath(catalog: string | undefined): string {
+  const configManager = getConfigManager();
+  return catalog ? path.resolve(catalog) : getProjectCatalogPath(configManager.getConfig(), configManager.getConfigPath());
+}
+
+function describeCatalog(catalog: ApiVersionCatalog): string {
+  return `${Object.keys(catalog.resourceTypes).length} resource types, ${catalog.source}` +
+    (catalog.updated ? `, updated ${catalog.updated}` : '');
+}
+
+export const apiversionsCommand = new Command('apiversions')
+  .description('Check and refresh the API versions of ARM resource types')
+  .addCommand(
+    new Command('check')
+      .description('Flag outdated apiVersions in existing ARM templates')
+      .argument('<path>', 'Output directory, template directory or template file')
+      .option('--catalog <file>', 'API version catalog (default: apiVersionCatalog of azmp.config.json, else the catalog shipped with azmp)')
+      .option('--json', 'Print the findings as JSON')
+      .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp apiversions check ./output')}
+    Checks mainTemplate.json and the nested templates of a generated application
+
+  ${chalk.cyan('$ azmp apiversions check ./legacy/azuredeploy.json --json')}
+    Checks one template, with machine-readable output for CI
+
+Findings:
+  ✗ outdated         A newer version is in the catalog (exit code 1)
+  ⚠ preview          A preview newer than every stable version
+  ? unknown-version  Not in the catalog and newer than its versions
+  ? unknown-type     The resource type is not in the catalog
+
+Resources, child resources and the inline templates of nested deployments are
+checked; apiVersions given as template expressions are skipped.
+
+Exit codes:
+  0  No outdated apiVersions
+  1  Outdated apiVersions found, or an error
+`)
+      .action(async (target: string, options: { catalog?: string; json?: boolean }) => {
+        const stopTimer = logger.startTimer('apiversions check');
+        logger.debug('Starting apiversions check', 'apiversions', { target, options });
+
+        if (!options.json) {
+          console.log(chalk.blue('🔎 Checking apiVersions...'));
+        }
+
+        const { catalog, result } = await ErrorHandler.handleAsync(
+          async () => {
+            if (!SecurityValidation.validateFilePath(target)) {
+              throw new ValidationError('Invalid template path', ['Path must be a safe relative path']);
+            }
+            const catalog = loadApiVersionCatalog(resolveCatalogPath(options.catalog));
+            return { catalog, result: await checkApiVersions(target, catalog) };
+          },
+          'apiversions check'
+        );
+
+        const outdated = result.findings.filter(finding => finding.status === 'outdated');
+        if (options.json) {
+          console.log(JSON.stringify({ catalog: { source: catalog.source, updated: catalog.updated }, ...result }, null, 2));
+        } else {
+          console.log(chalk.gray('  Catalog:'), describeCatalog(catalog));
+          let file: string | undefined;
+          for (const finding of result.findings) {
+            if (finding.file !== file) {
+              file = finding.file;
+              console.log(chalk.bold(`\n  ${file}`));
+            }
+            console.log(describeFinding(finding));
+          }
+
+          const warnings = result.findings.filter(finding => finding.status !== 'current' && finding.status !== 'outdated');
+          if (result.files.length === 0) {
+            console.log(chalk.yellow('\n⚠️  No ARM templates found'));
+          } else if (outdated.length === 0) {
+            console.log(chalk.green(`\n✅ ${result.findings.length} apiVersion(s) in ${result.files.length} template(s), none outdated`) +
+              (warnings.length > 0 ? chalk.yellow(` (${warnings.length} warning(s))`) : ''));
+          } else {
+            console.log(chalk.red(`\n❌ ${outdated.length} of ${result.findings.length} apiVersion(s) outdated`));
+          }
+        }
+
+        stopTimer();
+        process.exit(outdated.length === 0 ? 0 : 1);
+      })
+  )
+  .addCommand(
+    new Command('refresh')
+      .description('Rebuild the API version catalog from a local clone of azure-rest-api-specs')
+      .argument('<specsDir>', 'Clone of https://github.com/Azure/azure-rest-api-specs (or its specification/ directory)')
+      .option('-o, --output <file>', `Catalog file to write (default: apiVersionCatalog of azmp.config.json, else ./${PROJECT_CATALOG_FILE})`)
+      .option('--replace', 'Drop resource types the specs do not contain (default: keep them)')
+      .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ git clone --depth 1 https://github.com/Azure/azure-rest-api-specs ../specs')}
+  ${chalk.cyan('$ azmp apiversions refresh ../specs')}
+    Updates the project catalog latestApiVersion renders from: ./${PROJECT_CATALOG_FILE},
+    registered as apiVersionCatalog in azmp.config.json
+
+  ${chalk.cyan('$ azmp apiversions refresh ../specs/specification/storage -o catalogs/storage.json')}
+    Refreshes the storage types only, into a separate catalog file
+    (check templates against it with azmp apiversions check --catalog)
+
+Notes:
+  • No network access is needed; only the local specs are read
+  • Each OpenAPI file in resource-manager/.../stable/<version> and
+    .../preview/<version> adds its version to the resource types it can create
+  • Without --replace, types the specs do not contain keep their catalog entries,
+    so a sparse checkout of a few services is enough; a new catalog file starts
+    from the shipped catalog
+  • The shipped catalog is never written: it is replaced on every install of azmp.
+    Without --output, the catalog is registered in the config file found (created
+    as ./${DEFAULT_CONFIG_FILE} if there is none), so azmp create renders from it
+`)
+      .action(async (specsDir: string, options: { output?: string; replace?: boolean }) => {
+        const stopTimer = logger.startTimer('apiversions refresh');
+        logger.debug('Starting apiversions refresh', 'apiversions', { specsDir, options });
+
+        console.log(chalk.blue(`📚 Reading API specs from ${specsDir}...`));
+
+        const configManager = getConfigManager();
+        const configPath = configManager.getConfigPath() ?? DEFAULT_CONFIG_FILE;
+        const configured = configManager.getConfig()?.apiVersionCatalog;
+
+        const { catalogPath, catalog, refreshedTypes, registered } = await ErrorHandler.handleAsync(
+          async () => {
+            // The project's catalog: the shipped one is replaced on every install
+            const catalogPath = options.output
+              ? path.resolve(options.output)
+              : configured ? resolveConfigPath(configPath, configured) : path.resolve(path.dirname(configPath), PROJECT_CATALOG_FILE);
+            const refreshed = await buildApiVersionCatalogFromSpecs(specsDir);
+            // A new catalog file starts from the shipped catalog
+            const basePath = await fs.pathExists(catalogPath) ? catalogPath : AppConfig.getApiVersionCatalogPath();
+            const catalog = options.replace ? refreshed : mergeApiVersionCatalogs(loadApiVersionCatalog(basePath), refreshed);
+            await writeApiVersionCatalog(catalogPath, catalog);
+
+            let registered: string | undefined;
+            if (!options.output && !configured) {
+              const entryPath = toConfigPath(configPath, catalogPath);
+              await updateConfigFile(configPath, config => ({ ...config, apiVersionCatalog: entryPath }));
+              registered = entryPath;
+            }
+            return { catalogPath, catalog, refreshedTypes: Object.keys(refreshed.resourceTypes).length, registered };
+          },
+          'apiversions refresh'
+        );
+
+        console.log(chalk.green(`✅ Wrote ${catalogPath}`));
+        console.log(chalk.gray(`  ${refreshedTypes} resource type(s) from the specs; catalog: ${describeCatalog(catalog)}`));
+        if (registered) {
+          console.log(chalk.green(`✅ Registered apiVersionCatalog in ${configPath}`), chalk.gray(`(${registered})`));
+        } else if (!configured || resolveConfigPath(configPath, configured) !== catalogPath) {
+          console.log(chalk.gray(`  Render from it by setting "apiVersionCatalog" in ${DEFAULT_CONFIG_FILE}`));
+        }
+        stopTimer();
+      })
+  );
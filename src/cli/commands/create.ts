@@ -1,23 +1,163 @@
 import { Command } from 'commander';
+import * as path from 'path';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { TemplateGenerator } from '../../core/generator';
+import { GenerationResult, TemplateConfig, TemplateGenerator } from '../../core/generator';
+import { TemplateWatchSession } from '../../core/template-watcher';
+import { templateRegistry } from '../../core/template-registry';
+import { registerBuiltInTemplates } from '../../core/builtin-templates';
+import { TemplateManifest } from '../../core/template-manifest';
+import { OUTPUT_FORMATS, OutputFormat } from '../../core/bicep-decompiler';
+import { DEFAULT_LOCALE, isValidLocale } from '../../core/template-locales';
+import { loadLayeredManifest, resolveTemplateLayers } from '../../core/template-overlay';
+import {
+  checkParameterValue,
+  coerceParameterValue,
+  getParameterType,
+  parseSetArguments,
+  resolveParameterValues
+} from '../../core/parameter-model';
 import { SecurityValidation, ValidationError } from '../../utils/security-validation';
 import { ErrorHandler, TemplateGenerationError, ValidationError as CliValidationError } from '../../utils/error-handler';
 import { getLogger } from '../../utils/logger';
-import { getConfigManager } from '../../utils/config-manager';
+import { AzmpConfig, getConfigManager, resolveConfigPath } from '../../utils/config-manager';
 import { createProgress } from '../../utils/progress';
 
 const logger = getLogger();
 
+/**
+ * List registered template types for help and error output
+ * Plugins are loaded before the CLI parses arguments, so plugin templates are included
+ */
+function describeAvailableTypes(): string {
+  registerBuiltInTemplates();
+  const types = templateRegistry.getTemplateTypes();
+  return types.length > 0 ? types.join(', ') : 'none';
+}
+
+/**
+ * Collect repeated option values (e.g. --set a=1 --set b=2)
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Split --set values between composed template types
+ * "vm.size=..." goes to vm only; unprefixed names go to every type that declares them
+ *
+ * @throws ValidationError if an unprefixed name is declared by none of the types
+ */
+function splitSetArguments(
+  values: Record<string, string>,
+  manifests: Record<string, TemplateManifest>
+): Record<string, Record<string, string>> {
+  const split: Record<string, Record<string, string>> = Object.fromEntries(Object.keys(manifests).map(type => [type, {}]));
+  const unknown: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const separator = key.indexOf('.');
+    const prefix = separator > 0 ? key.substring(0, separator) : '';
+    if (prefix in split) {
+      split[prefix][key.substring(separator + 1)] = value;
+      continue;
+    }
+    const declaring = Object.keys(manifests).filter(type => manifests[type].parameters?.[key] !== undefined);
+    declaring.forEach(type => { split[type][key] = value; });
+    if (declaring.length === 0) {
+      unknown.push(`${key}: not declared by ${Object.keys(manifests).join(', ')} (use <type>.<name>=value)`);
+    }
+  }
+  if (unknown.length > 0) {
+    throw new CliValidationError('Unknown template parameter', unknown);
+  }
+  return split;
+}
+
+/**
+ * Print the names a composed run renamed, shared or dropped
+ */
+function printComposition(result: GenerationResult): void {
+  const report = result.composition;
+  if (!report) {
+    return;
+  }
+  console.log(chalk.blue('🧩 Composed from:'), report.types
+    .map(type => `${type} (${report.namespaces[type]}_*)`).join(', '));
+  if (report.collisions.length > 0) {
+    console.log(chalk.blue('   Name collisions:'));
+    report.collisions.forEach(collision => console.log(chalk.gray(
+      `  • ${collision.kind} '${collision.name}' (${collision.types.join(', ')}): ${collision.resolution}`)));
+  }
+  if (report.rewired.length > 0) {
+    console.log(chalk.blue('   Rewired dependsOn:'));
+    report.rewired.forEach(entry => console.log(chalk.gray(
+      `  • ${entry.type}: ${entry.resource}: ${entry.from} → ${entry.to}`)));
+  }
+  report.warnings.forEach(warning => console.log(chalk.yellow(`  ⚠️  ${warning}`)));
+}
+
+/**
+ * Prompt for every parameter declared in the manifest, pre-filled with its current value
+ * Answers left empty for parameters without a value stay unset
+ */
+async function promptForParameters(
+  manifest: TemplateManifest,
+  current: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const questions = Object.entries(manifest.parameters ?? {}).map(([name, definition]) => {
+    const message = `${definition.description ?? name} (${name}):`;
+    const type = getParameterType(definition);
+    const validate = (input: unknown) => {
+      if (input === '' && current[name] === undefined) return true;
+      try {
+        const problems = checkParameterValue(name, definition, coerceParameterValue(name, definition, input));
+        return problems.length > 0 ? problems[0] : true;
+      } catch (error) {
+        return (error as CliValidationError).details?.[0] ?? (error as Error).message;
+      }
+    };
+
+    if (definition.allowedValues) {
+      return {
+        type: 'list',
+        name,
+        message,
+        choices: definition.allowedValues.map(value => ({ name: String(value), value })),
+        default: current[name]
+      };
+    }
+    if (type === 'bool') {
+      return { type: 'confirm', name, message, default: current[name] === true };
+    }
+    const currentText = current[name] === undefined ? undefined
+      : typeof current[name] === 'string' ? current[name] as string : JSON.stringify(current[name]);
+    return { type: 'input', name, message, default: currentText, validate };
+  });
+
+  const answers: Record<string, unknown> = await inquirer.prompt(questions);
+  return Object.fromEntries(Object.entries(answers).filter(([, value]) => value !== ''));
+}
+
 export const createCommand = new Command('create')
   .description('Create a new managed application package')
-  .argument('<type>', 'Application type (currently only "storage" is supported)')
+  .argument('[type]', 'Application type (any registered template type, e.g. "storage")')
   .option('-p, --publisher <name>', 'Publisher name for the marketplace')
   .option('-n, --name <name>', 'Application name')
   .option('-o, --output <dir>', 'Output directory', './output')
   .option('-c, --config <path>', 'Path to azmp.config.json file')
-  .addHelpText('after', `
+  .option('--seed <value>', 'Derive generated names from publisher, name and this seed (implies --deterministic)')
+  .option('--deterministic', 'Render byte-identical output for identical inputs')
+  .option('--set <key=value>', 'Set a template parameter (repeatable)', collect, [])
+  .option('-i, --interactive', 'Prompt for every template parameter')
+  .option('--inline-linked-templates', 'Inline linked templates (nestedtemplates/) into mainTemplate.json')
+  .option('--format <format>', `Main template format: ${OUTPUT_FORMATS.join(', ')} (bicep writes main.bicep instead of mainTemplate.json)`, 'arm')
+  .option('--locale <locale>', `Locale of the resource strings rendered by {{t}} (default: ${DEFAULT_LOCALE}; e.g. de, fr)`)
+  .option('--templates-dir <dir>', 'Project templates directory; <dir>/<type> overrides files of the template')
+  .option('-w, --watch', 'Re-render changed outputs whenever template, overlay or config files change')
+  .option('--compose <types>', 'Compose several template types into one application (comma-separated, e.g. storage,vm)')
+  .addHelpText('after', () => `
+Available types: ${describeAvailableTypes()}
+
 Examples:
   ${chalk.cyan('$ azmp create storage --publisher "My Company Inc." --name "Storage Solution"')}
     Creates a storage managed application with the specified publisher and name
@@ -31,22 +171,134 @@ Examples:
   ${chalk.cyan('$ azmp create storage')}
     Creates a storage app and prompts for missing information
 
+  ${chalk.cyan('$ azmp create storage -p "Acme Corp" -n "Enterprise Storage" --seed release-1')}
+    Creates a reproducible storage app (same inputs and seed give identical files)
+
+  ${chalk.cyan('$ azmp create storage -p "Acme Corp" -n "Secure Storage" --set minimumTlsVersion=TLS1_2 --set blobSoftDeleteDays=30')}
+    Creates a storage app with parameter defaults set to your baseline
+
+  ${chalk.cyan('$ azmp create storage -p "Acme Corp" -n "Enterprise Storage" --inline-linked-templates')}
+    Creates a single-file mainTemplate.json with linked templates inlined as deployments
+
+  ${chalk.cyan('$ azmp create storage -p "Acme Corp" -n "Enterprise Storage" --templates-dir ./templates')}
+    Uses ./templates/storage/createUiDefinition.json.hbs (and any other file there) instead of the built-in file
+
+  ${chalk.cyan('$ azmp create storage -p "Acme Corp" -n "Enterprise Storage" --templates-dir ./templates --watch')}
+    Re-renders on every save and prints a compact diff of the changed outputs (Ctrl+C to stop)
+
+  ${chalk.cyan('$ azmp create --compose storage,vm -p "Acme Corp" -n "Storage and VM" --set vm.vmSize=Standard_D2s_v5')}
+    Composes the storage and vm templates into one application
+
+  ${chalk.cyan('$ azmp create storage -p "Acme Corp" -n "Enterprise Storage" --format both')}
+    Writes main.bicep for review next to mainTemplate.json
+
+  ${chalk.cyan('$ azmp create storage -p "Acme Corp" -n "Enterprise Storage" --locale de -o ./output-de')}
+    Renders the createUiDefinition labels, tooltips and messages in German
+
 Notes:
   • Publisher name: 1-100 characters, alphanumeric with spaces, dots, hyphens, underscores
   • Application name: 1-64 characters, alphanumeric with spaces, dots, hyphens, underscores
   • Output directory will be created if it doesn't exist
-  • Generated files: mainTemplate.json, createUiDefinition.json, viewDefinition.json
+  • Every .hbs file in the template directory is rendered; subfolders such as nestedtemplates/ are kept
+  • Files in <templatesDir>/<type> (config templatesDir or --templates-dir) override or add to the template's files
   • Config file settings can be overridden by CLI options
+  • Deterministic mode omits the generation timestamp unless SOURCE_DATE_EPOCH is set
+  • Parameters are declared (with types and ranges) in template.manifest.json
+  • latestApiVersion renders from the config apiVersionCatalog (written by azmp apiversions refresh),
+    else from the catalog shipped with azmp
+  • Parameter precedence: manifest default < config templates.<type>.parameters < --set < prompts
+  • --compose namespaces each template's parameters, variables and outputs (storage_sku, vm_sku);
+    location and _artifactsLocation stay shared. Collisions and rewired dependsOn are reported.
+    Use --set <type>.<name>=value for a parameter of one of the composed types
+  • --format bicep converts mainTemplate.json to main.bicep in-process (no Bicep CLI needed);
+    linked templates become modules. azmp package still ships the ARM JSON Partner Center needs
+  • --locale picks the resource strings in the template's locales/<locale>.json; strings a
+    locale does not define fall back to ${DEFAULT_LOCALE} (azmp template lint lists them)
 `)
-  .action(async (type: string, options: { publisher?: string; name?: string; output: string; config?: string }) => {
+  .action(async (type: string | undefined, options: {
+    publisher?: string;
+    name?: string;
+    output: string;
+    config?: string;
+    seed?: string;
+    deterministic?: boolean;
+    set: string[];
+    interactive?: boolean;
+    inlineLinkedTemplates?: boolean;
+    format: string;
+    locale?: string;
+    templatesDir?: string;
+    watch?: boolean;
+    compose?: string;
+  }) => {
     const stopTimer = logger.startTimer('create command');
     
     console.log(chalk.blue('🚀 Creating managed application package...'));
     logger.debug('Starting create command', 'create', { type, options });
 
+    // Composed types follow the type argument, if one was given
+    const requestedTypes = [type ?? '', ...(options.compose ?? '').split(',')]
+      .map(entry => entry.toLowerCase().trim())
+      .filter((entry, index, all) => entry !== '' && all.indexOf(entry) === index);
+
+    // Enhanced input validation
+    if (requestedTypes.length === 0) {
+      logger.error('Application type is required', 'create');
+      console.error(chalk.red('❌ Error: Application type is required'));
+      console.log(chalk.gray('Usage: azmp create <type> [options]'));
+      console.log(chalk.blue(`Available types: ${describeAvailableTypes()}`));
+      process.exit(1);
+    }
+    if (options.compose !== undefined && requestedTypes.length < 2) {
+      console.error(chalk.red('❌ Error: --compose needs at least two template types'));
+      process.exit(1);
+    }
+    if (options.compose !== undefined && options.watch) {
+      console.error(chalk.red('❌ Error: --watch cannot be combined with --compose'));
+      process.exit(1);
+    }
+    const format = options.format.toLowerCase().trim() as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      console.error(chalk.red('❌ Error: Unsupported format:'), options.format);
+      console.log(chalk.gray(`Formats: ${OUTPUT_FORMATS.join(', ')}`));
+      process.exit(1);
+    }
+    const locale = options.locale?.trim();
+    if (locale !== undefined && !isValidLocale(locale)) {
+      console.error(chalk.red('❌ Error: Invalid locale:'), options.locale);
+      console.log(chalk.gray(`Locales are language codes such as ${DEFAULT_LOCALE}, de or de-CH`));
+      process.exit(1);
+    }
+
+    // Validate and normalize types against the template registry
+    const normalizedType = requestedTypes[0];
+    const composeTypes = options.compose !== undefined ? requestedTypes : undefined;
+    logger.debug(`Normalized type: ${normalizedType}`, 'create', { composeTypes });
+    
+    registerBuiltInTemplates();
+    for (const requestedType of requestedTypes) {
+      if (!templateRegistry.hasTemplate(requestedType)) {
+        logger.error(`Unsupported application type: ${requestedType}`, 'create');
+        console.error(chalk.red('❌ Unsupported application type:'), requestedType);
+        console.log(chalk.gray(`Available types: ${describeAvailableTypes()}`));
+        console.log(chalk.blue('\n💡 Example:'));
+        console.log(chalk.blue('   azmp create storage --publisher "My Company" --name "My App"'));
+        process.exit(1);
+      }
+    }
+
     // Load config file if specified or found
     const configManager = getConfigManager();
-    let configDefaults: { publisher?: string; name?: string; output?: string } = {};
+    let configDefaults: {
+      publisher?: string;
+      name?: string;
+      output?: string;
+      seed?: string;
+      deterministic?: boolean;
+      templates?: AzmpConfig['templates'];
+      templatesDir?: string;
+      apiVersionCatalog?: string;
+    } = {};
     
     try {
       const config = await configManager.loadConfig(options.config);
@@ -65,8 +317,20 @@ Notes:
         // Extract defaults from config
         configDefaults = {
           publisher: config.publisher,
-          name: config.templates?.storage?.name,
-          output: config.defaultOutputDir || options.output
+          name: config.templates?.[normalizedType]?.name,
+          output: config.defaultOutputDir || options.output,
+          seed: config.generation?.seed,
+          deterministic: config.generation?.deterministic,
+          // Per-type location and parameter defaults
+          templates: config.templates,
+          // templatesDir is relative to the config file
+          templatesDir: config.templatesDir
+            ? path.resolve(path.dirname(configManager.getConfigPath() ?? '.'), config.templatesDir)
+            : undefined,
+          // Written by azmp apiversions refresh; latestApiVersion renders from it
+          apiVersionCatalog: config.apiVersionCatalog
+            ? resolveConfigPath(configManager.getConfigPath(), config.apiVersionCatalog)
+            : undefined
         };
         
         logger.debug('Config defaults extracted', 'create', configDefaults);
@@ -80,33 +344,14 @@ Notes:
     const mergedOptions = {
       publisher: options.publisher || configDefaults.publisher,
       name: options.name || configDefaults.name,
-      output: options.output
+      output: options.output,
+      seed: options.seed ?? configDefaults.seed,
+      deterministic: options.deterministic ?? configDefaults.deterministic,
+      templatesDir: options.templatesDir ? path.resolve(options.templatesDir) : configDefaults.templatesDir
     };
     
     logger.debug('Merged options', 'create', { cli: options, config: configDefaults, merged: mergedOptions });
 
-    // Enhanced input validation
-    if (!type || typeof type !== 'string') {
-      logger.error('Application type is required', 'create');
-      console.error(chalk.red('❌ Error: Application type is required'));
-      console.log(chalk.gray('Usage: azmp create <type> [options]'));
-      console.log(chalk.blue('Available types: storage, vm, webapp'));
-      process.exit(1);
-    }
-
-    // Validate and normalize type
-    const normalizedType = type.toLowerCase().trim();
-    logger.debug(`Normalized type: ${normalizedType}`, 'create');
-    
-    if (normalizedType !== 'storage') {
-      logger.error(`Unsupported application type: ${type}`, 'create');
-      console.error(chalk.red('❌ Unsupported application type:'), type);
-      console.log(chalk.gray('Currently only "storage" is supported'));
-      console.log(chalk.blue('\n💡 Example:'));
-      console.log(chalk.blue('   azmp create storage my-storage-app'));
-      process.exit(1);
-    }
-
     // Validate output directory path for security
     logger.debug('Validating output path', 'create', { outputPath: mergedOptions.output });
     if (!SecurityValidation.validateFilePath(mergedOptions.output)) {
@@ -172,19 +417,147 @@ Notes:
       }
     ]);
 
-    const config = {
+    // Collect template parameter values and validate them before rendering
+    const prompted: Record<string, Record<string, unknown>> = {};
+    const loadManifest = async (templateType: string, templatesDir: string | undefined): Promise<TemplateManifest> => {
+      const resolved = templateRegistry.resolveTemplate(templateType);
+      return resolved
+        ? loadLayeredManifest(await resolveTemplateLayers(resolved.templateDir, templatesDir, templateType))
+        : { files: [] };
+    };
+    const collectParameters = async (
+      templateType: string,
+      manifest: TemplateManifest,
+      defaults: { location?: string; parameters?: Record<string, unknown> },
+      setValues: Record<string, string>,
+      interactive: boolean
+    ): Promise<Record<string, unknown>> => {
+      const supplied: Record<string, unknown> = {
+        // The config file's template location is the default for a declared location parameter
+        ...(defaults.location && manifest.parameters?.location ? { location: defaults.location } : {}),
+        ...defaults.parameters,
+        ...setValues,
+        ...prompted[templateType]
+      };
+      const values = resolveParameterValues(manifest, supplied, templateType);
+      logger.debug('Template parameters resolved', 'create', { templateType, supplied, values });
+
+      if (interactive && manifest.parameters) {
+        prompted[templateType] = await promptForParameters(manifest, values);
+        Object.assign(supplied, prompted[templateType]);
+        resolveParameterValues(manifest, supplied, templateType);
+      }
+      return supplied;
+    };
+    // A composed run keeps the values of each template type under its type
+    const collectAllParameters = async (
+      templates: AzmpConfig['templates'] | undefined,
+      templatesDir: string | undefined,
+      interactive: boolean
+    ): Promise<Record<string, unknown>> => {
+      if (!composeTypes) {
+        return collectParameters(normalizedType, await loadManifest(normalizedType, templatesDir),
+          templates?.[normalizedType] ?? {}, parseSetArguments(options.set), interactive);
+      }
+      const manifests: Record<string, TemplateManifest> = {};
+      for (const composeType of composeTypes) {
+        manifests[composeType] = await loadManifest(composeType, templatesDir);
+      }
+      const setValues = splitSetArguments(parseSetArguments(options.set), manifests);
+      const parameters: Record<string, unknown> = {};
+      for (const composeType of composeTypes) {
+        if (interactive) {
+          console.log(chalk.blue(`\n${composeType} parameters:`));
+        }
+        parameters[composeType] = await collectParameters(composeType, manifests[composeType],
+          templates?.[composeType] ?? {}, setValues[composeType], interactive);
+      }
+      return parameters;
+    };
+    const parameters = await ErrorHandler.handleAsync(
+      () => collectAllParameters(configDefaults.templates, mergedOptions.templatesDir, options.interactive === true),
+      'template parameters'
+    );
+
+    const config: TemplateConfig = {
       type: normalizedType,
       publisher: mergedOptions.publisher || answers.publisher,
       name: mergedOptions.name || answers.name,
-      output: mergedOptions.output
+      output: mergedOptions.output,
+      seed: mergedOptions.seed,
+      deterministic: mergedOptions.deterministic,
+      parameters,
+      views: composeTypes ? undefined : configDefaults.templates?.[normalizedType]?.views,
+      inlineLinkedTemplates: options.inlineLinkedTemplates,
+      format: format === 'arm' ? undefined : format,
+      locale,
+      templatesDir: mergedOptions.templatesDir,
+      apiVersionCatalog: configDefaults.apiVersionCatalog,
+      compose: composeTypes
     };
 
     logger.debug('Final configuration', 'create', config);
     console.log(chalk.green('✅ Configuration:'));
-    console.log(chalk.gray('  Type:'), config.type);
+    console.log(chalk.gray('  Type:'), composeTypes ? composeTypes.join(' + ') : config.type);
     console.log(chalk.gray('  Publisher:'), config.publisher);
     console.log(chalk.gray('  Name:'), config.name);
     console.log(chalk.gray('  Output:'), config.output);
+    if (config.format) {
+      console.log(chalk.gray('  Format:'), config.format);
+    }
+    if (config.locale) {
+      console.log(chalk.gray('  Locale:'), config.locale);
+    }
+    if (config.apiVersionCatalog) {
+      console.log(chalk.gray('  API versions:'), config.apiVersionCatalog);
+    }
+    if (config.deterministic || config.seed !== undefined) {
+      console.log(chalk.gray('  Deterministic:'), config.seed !== undefined ? `yes (seed: ${config.seed})` : 'yes');
+    }
+    if (Object.keys(parameters).length > 0) {
+      console.log(chalk.gray('  Parameters:'));
+      const entries = composeTypes
+        ? Object.entries(parameters).flatMap(([composeType, values]) =>
+          Object.entries(values as Record<string, unknown>).map(([key, value]) => [`${composeType}.${key}`, value] as const))
+        : Object.entries(parameters);
+      entries.forEach(([key, value]) => {
+        console.log(chalk.gray(`    ${key} =`), typeof value === 'string' ? value : JSON.stringify(value));
+      });
+    }
+
+    if (options.watch) {
+      // Publisher, name and output stay as resolved; parameters, templatesDir and the catalog follow config file edits
+      const configFile = configManager.getConfigPath() ?? undefined;
+      const session = new TemplateWatchSession({
+        generator: new TemplateGenerator(),
+        configFile,
+        loadConfig: async () => {
+          if (!configFile) {
+            return config;
+          }
+          const reloaded = await configManager.loadConfig(configFile);
+          const templatesDir = options.templatesDir
+            ? path.resolve(options.templatesDir)
+            : reloaded?.templatesDir ? path.resolve(path.dirname(configFile), reloaded.templatesDir) : undefined;
+          return {
+            ...config,
+            templatesDir,
+            apiVersionCatalog: reloaded?.apiVersionCatalog ? resolveConfigPath(configFile, reloaded.apiVersionCatalog) : undefined,
+            parameters: await collectAllParameters(reloaded?.templates, templatesDir, false),
+            views: composeTypes ? undefined : reloaded?.templates?.[normalizedType]?.views
+          };
+        }
+      });
+
+      console.log(chalk.blue('👀 Watch mode: re-rendering on changes (Ctrl+C to stop)'));
+      process.once('SIGINT', () => {
+        session.close();
+        stopTimer();
+        process.exit(0);
+      });
+      await session.start();
+      return;
+    }
 
     // Generate templates using the template engine
     logger.info('Starting template generation', 'create');
@@ -195,16 +568,24 @@ Notes:
         progress.start('Generating templates from Handlebars...', 'create');
         const generator = new TemplateGenerator();
         
-        progress.update('Creating mainTemplate.json...', 'create');
-        await generator.generateTemplate(config);
+        progress.update('Rendering template files...', 'create');
+        const result = await generator.generateTemplate(config);
 
         progress.succeed('Templates generated successfully!');
         logger.success('Templates generated successfully', 'create');
         console.log(chalk.green('🎉 Success! Managed application package created.'));
         console.log(chalk.blue('📁 Generated files:'));
-        console.log(chalk.gray('  • mainTemplate.json'));
-        console.log(chalk.gray('  • createUiDefinition.json'));
-        console.log(chalk.gray('  • viewDefinition.json'));
+        result.files.forEach(file => console.log(chalk.gray(`  • ${file.output}`)));
+        if (result.overlay) {
+          console.log(chalk.blue(`🧩 From overlay ${result.overlay.overlayDir}:`));
+          result.overlay.overridden.forEach(file => console.log(chalk.gray(`  • ${file} (overrides template file)`)));
+          result.overlay.added.forEach(file => console.log(chalk.gray(`  • ${file} (added)`)));
+        }
+        printComposition(result);
+        if (result.inlined && result.inlined.length > 0) {
+          console.log(chalk.blue('🔗 Inlined into mainTemplate.json:'));
+          result.inlined.forEach(output => console.log(chalk.gray(`  • ${output}`)));
+        }
         console.log(chalk.yellow('💡 Next: Run'), chalk.cyan(`azmp validate ${config.output}`));
         
         stopTimer();
@@ -0,0 +1,140 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ErrorHandler, ValidationError } from '../../utils/error-handler';
+import { getLogger } from '../../utils/logger';
+import { SecurityValidation } from '../../utils/security-validation';
+import { registerBuiltInTemplates } from '../../core/builtin-templates';
+import { diffOutputDirectory, PackageDiffResult } from '../../core/package-diff';
+import { FileDiff, formatDiffValue, SemanticChange } from '../../core/semantic-diff';
+import { describeRecordedTemplates } from '../../core/generation-record';
+import { AppConfig } from '../../config/app-config';
+
+const logger = getLogger();
+
+/**
+ * Exit codes of `azmp diff`
+ */
+export const DIFF_EXIT_CODES = {
+  identical: 0,
+  different: 1,
+  error: 2
+} as const;
+
+function describeChange(change: SemanticChange): string {
+  const target = change.path ? `${change.key} → ${change.path}` : change.key;
+  switch (change.kind) {
+    case 'added':
+      return chalk.green(`      + ${target}`) + (change.path ? chalk.gray(` = ${formatDiffValue(change.after)}`) : '');
+    case 'removed':
+      return chalk.red(`      - ${target}`) + (change.path ? chalk.gray(` (was ${formatDiffValue(change.before)})`) : '');
+    default:
+      return chalk.yellow(`      ~ ${target}`) + (change.before !== undefined || change.after !== undefined
+        ? chalk.gray(`: ${formatDiffValue(change.before)} → ${formatDiffValue(change.after)}`)
+        : '');
+  }
+}
+
+function printFileDiff(file: FileDiff): void {
+  switch (file.status) {
+    case 'added':
+      console.log(chalk.green(`  + ${file.file}`), chalk.gray('(missing; a fresh render creates it)'));
+      return;
+    case 'removed':
+      console.log(chalk.red(`  - ${file.file}`), chalk.gray('(no longer produced by a fresh render)'));
+      return;
+    case 'unchanged':
+      return;
+  }
+
+  console.log(chalk.yellow(`  ~ ${file.file}`));
+  let section: string | undefined;
+  for (const change of file.changes) {
+    if (change.section !== section) {
+      section = change.section;
+      console.log(chalk.bold(`    ${section}`));
+    }
+    console.log(describeChange(change));
+  }
+}
+
+function printDiff(outputDir: string, diff: PackageDiffResult): void {
+  const { record } = diff;
+  console.log(chalk.gray('  Output:'), outputDir);
+  console.log(chalk.gray('  Template:'), describeRecordedTemplates(record));
+  console.log(chalk.gray('  Generated with:'), `v${record.generatorVersion}`, chalk.gray(`(now v${AppConfig.getGeneratorVersion()})`));
+  if (!record.deterministic) {
+    console.log(chalk.yellow('⚠️  The output was not generated deterministically; generated names and timestamps'));
+    console.log(chalk.yellow('   differ on every render. Use --seed with azmp create for comparable output.'));
+  }
+  console.log();
+
+  if (diff.identical) {
+    console.log(chalk.green('✅ No differences: a fresh render matches the output directory'));
+    return;
+  }
+
+  diff.files.forEach(printFileDiff);
+  const differing = diff.files.filter(file => file.status !== 'unchanged');
+  const changeCount = differing.reduce((count, file) => count + Math.max(file.changes.length, 1), 0);
+  console.log(chalk.yellow(`\n${differing.length} file(s) differ, ${changeCount} difference(s)`));
+}
+
+export const diffCommand = new Command('diff')
+  .description('Compare an output directory with a fresh render of its recorded inputs')
+  .argument('<outputDir>', 'Output directory of an earlier azmp create run')
+  .option('--json', 'Print the differences as JSON')
+  .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp diff ./output')}
+    Shows what regenerating ./output with this generator version would change
+
+  ${chalk.cyan('$ azmp diff ./output --json > diff.json')}
+    Machine-readable differences for CI
+
+How it works:
+  • azmp create records its inputs in <outputDir>/.azmp/generation.json
+  • azmp diff re-renders from that record into a temporary directory
+  • Files are compared semantically: parameters, variables, resources (by type/name)
+    and outputs of ARM templates; UI elements and outputs of createUiDefinition.json;
+    other JSON by property path. Formatting and key order are ignored
+
+Exit codes:
+  0  No differences
+  1  Differences found
+  2  Error (e.g. no generation record)
+`)
+  .action(async (outputDir: string, options: { json?: boolean }) => {
+    const stopTimer = logger.startTimer('diff command');
+    logger.debug('Starting diff command', 'diff', { outputDir, options });
+
+    if (!options.json) {
+      console.log(chalk.blue('🔍 Comparing with a fresh render...'));
+    }
+
+    try {
+      if (!SecurityValidation.validateFilePath(outputDir)) {
+        throw new ValidationError('Invalid output directory path', ['Path must be a safe relative path']);
+      }
+
+      registerBuiltInTemplates();
+      const diff = await diffOutputDirectory(outputDir);
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          outputDir,
+          generatorVersion: AppConfig.getGeneratorVersion(),
+          recordedGeneratorVersion: diff.record.generatorVersion,
+          identical: diff.identical,
+          files: diff.files.filter(file => file.status !== 'unchanged')
+        }, null, 2));
+      } else {
+        printDiff(outputDir, diff);
+      }
+
+      stopTimer();
+      process.exit(diff.identical ? DIFF_EXIT_CODES.identical : DIFF_EXIT_CODES.different);
+    } catch (error) {
+      ErrorHandler.report(error, 'diff');
+      process.exit(DIFF_EXIT_CODES.error);
+    }
+  });
@@ -0,0 +1,109 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import chalk from 'chalk';
+import { ErrorHandler, ValidationError } from '../../utils/error-handler';
+import { getLogger } from '../../utils/logger';
+import { SecurityValidation } from '../../utils/security-validation';
+import { getConfigManager } from '../../utils/config-manager';
+import { importArmTemplate } from '../../core/template-import';
+import { addLocalTemplateToConfig, DEFAULT_CONFIG_FILE } from '../../core/local-templates';
+import { templateRegistry } from '../../core/template-registry';
+import { registerBuiltInTemplates } from '../../core/builtin-templates';
+
+const logger = getLogger();
+
+export const importCommand = new Command('import')
+  .description('Import an existing ARM template as a local template type')
+  .argument('<template>', 'ARM template to import (e.g. azuredeploy.json)')
+  .requiredOption('-t, --type <type>', 'Template type to create (lowercase, e.g. "web-app")')
+  .option('-o, --output <dir>', 'Directory to create the template in (default: ./templates/<type>)')
+  .option('-p, --publisher <name>', 'Publisher name used in the template; occurrences become {{publisher}}')
+  .option('-n, --name <name>', 'Application name used in the template; occurrences become {{name}}')
+  .option('-c, --config <path>', `Config file to register the type in (default: the config file found, else ./${DEFAULT_CONFIG_FILE})`)
+  .option('--no-register', 'Create the template directory without registering the type')
+  .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp import ./azuredeploy.json --type web-app')}
+    Creates ./templates/web-app and registers it in azmp.config.json
+
+  ${chalk.cyan('$ azmp import ./azuredeploy.json -t web-app -p "Contoso" -n "Contoso Web"')}
+    Also replaces "Contoso" and "Contoso Web" in the template with {{publisher}} and {{name}}
+
+  ${chalk.cyan('$ azmp create web-app --publisher "Acme" --name "Acme Web"')}
+    Renders the imported type like any other
+
+Generated files:
+  • template.manifest.json          Files, and the literal parameter defaults as typed parameters
+  • mainTemplate.json.hbs           The template, with {{ escaped and the defaults rendered from the manifest
+  • createUiDefinition.json.hbs     Generated from the parameters like azmp template uidef does
+  • viewDefinition.json.hbs         Overview view
+  • tests/default/                  Test case and its expected outputs (azmp template test)
+
+Notes:
+  • The type is registered as templates.<type>.path in the config file, relative to it;
+    azmp loads local types from the config file found in the working directory
+  • Parameters with expression defaults (and objects or arrays with defaults) are left
+    out of createUiDefinition so the template's defaults apply
+  • Linked templates are not imported; copy them into the template directory and add
+    them to the manifest
+`)
+  .action(async (template: string, options: {
+    type: string;
+    output?: string;
+    publisher?: string;
+    name?: string;
+    config?: string;
+    register: boolean;
+  }) => {
+    const stopTimer = logger.startTimer('import');
+    const type = options.type.toLowerCase().trim();
+    const templateDir = options.output ?? path.join('templates', type);
+    logger.debug('Starting import', 'import', { template, options, templateDir });
+
+    console.log(chalk.blue(`📥 Importing ${template} as template type '${type}'...`));
+
+    const result = await ErrorHandler.handleAsync(
+      async () => {
+        if (!SecurityValidation.validateFilePath(template) || !SecurityValidation.validateFilePath(templateDir)) {
+          throw new ValidationError('Invalid path', ['Paths must be safe relative paths']);
+        }
+        registerBuiltInTemplates();
+        if (templateRegistry.hasTemplate(type)) {
+          throw new ValidationError(`Template type '${type}' already exists`, [
+            `Registered types: ${templateRegistry.getTemplateTypes().join(', ')}`
+          ]);
+        }
+        return importArmTemplate({
+          templateFile: template,
+          type,
+          templateDir,
+          publisher: options.publisher,
+          name: options.name
+        });
+      },
+      'template import'
+    );
+
+    console.log(chalk.green(`✅ Created ${templateDir}`));
+    result.files.forEach(file => console.log(chalk.gray(`  • ${file}`)));
+    if (result.manifestParameters.length > 0) {
+      console.log(chalk.gray('  Manifest parameters:'), result.manifestParameters.join(', '));
+    }
+    console.log(chalk.gray('  createUiDefinition outputs:'), result.uiParameters.join(', ') || 'none');
+    result.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+
+    if (options.register) {
+      const configPath = options.config ?? getConfigManager().getConfigPath() ?? DEFAULT_CONFIG_FILE;
+      const entryPath = await ErrorHandler.handleAsync(
+        () => addLocalTemplateToConfig(configPath, type, templateDir),
+        'template registration'
+      );
+      console.log(chalk.green(`✅ Registered '${type}' in ${configPath}`), chalk.gray(`(path: ${entryPath})`));
+    }
+
+    console.log(chalk.yellow('\n💡 Next:'));
+    console.log(chalk.gray('  • Review the labels and constraints in createUiDefinition.json.hbs'));
+    console.log(chalk.gray(`  • Render it: azmp create ${type} --publisher "<publisher>" --name "<name>"`));
+    console.log(chalk.gray(`  • After editing, run the template tests: azmp template test ${templateDir.split(path.sep).join('/')} --update`));
+    stopTimer();
+  });
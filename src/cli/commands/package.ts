@@ -4,10 +4,14 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import archiver from 'archiver';
 import { SecurityValidation, ValidationError } from '../../utils/security-validation';
-import { ErrorHandler, FileSystemError } from '../../utils/error-handler';
+import { ErrorHandler, FileSystemError, ValidationError as CliValidationError } from '../../utils/error-handler';
 import { getLogger } from '../../utils/logger';
 import { getConfigManager } from '../../utils/config-manager';
 import { createProgress } from '../../utils/progress';
+import { templateRegistry } from '../../core/template-registry';
+import { registerBuiltInTemplates } from '../../core/builtin-templates';
+import { loadTemplateManifest, getRequiredOutputs } from '../../core/template-manifest';
+import { listPackageEntries, readPackagedTemplateType, writePackageProvenance } from '../../core/package-provenance';
 
 const logger = getLogger();
 
@@ -15,6 +19,7 @@ export const packageCommand = new Command('package')
   .description('Package managed application for marketplace submission')
   .argument('<path>', 'Path to managed application directory')
   .option('-o, --output <file>', 'Output zip file name', 'managed-app-package.zip')
+  .option('-t, --type <type>', 'Template type the package was generated from (default: the type in .azmp/generation.json, else storage)')
   .option('-c, --config <path>', 'Path to azmp.config.json file')
   .addHelpText('after', `
 Examples:
@@ -27,6 +32,9 @@ Examples:
   ${chalk.cyan('$ azmp package ./output --config ./azmp.config.json')}
     Packages using settings from config file
 
+  ${chalk.cyan('$ azmp package ./output --type storage')}
+    Checks the required files of the storage template (for outputs without a generation record)
+
   ${chalk.cyan('$ azmp package ./output --verbose')}
     Packages with detailed debug information
 
@@ -36,11 +44,21 @@ Package contents:
   • createUiDefinition.json - UI definition for Azure Portal
   • viewDefinition.json - View definition for managed app
   • Any nested templates (if applicable)
+  The .azmp/ directory (generation record used by azmp diff) and main.bicep
+  are not included. An output created with --format bicep is packaged with the
+  mainTemplate.json main.bicep was converted from; after editing main.bicep,
+  compile it first (bicep build main.bicep --outfile mainTemplate.json).
+
+Provenance:
+  A sidecar <name>.provenance.json is written next to the ZIP with the SHA-256
+  of the ZIP and of every packaged file, the generation record (generator,
+  template and plugin versions, inputs, seed) and whether each file is still
+  as generated.
 
 Requirements:
   • Source directory must exist
-  • mainTemplate.json must be present
-  • createUiDefinition.json must be present
+  • Every non-optional file in the template's manifest must be present
+    (for storage: mainTemplate.json and createUiDefinition.json)
   • Templates should be validated before packaging
 
 Next steps after packaging:
@@ -48,7 +66,7 @@ Next steps after packaging:
   2. Create or update your marketplace offer
   3. Submit for certification and publish
 `)
-  .action(async (sourcePath: string, options: { output: string; config?: string }) => {
+  .action(async (sourcePath: string, options: { output: string; type?: string; config?: string }) => {
     const stopTimer = logger.startTimer('package command');
     
     console.log(chalk.blue('📦 Packaging for Azure Marketplace...'));
@@ -115,10 +133,24 @@ Next steps after packaging:
         // Check for required files
         progress.update('Checking required files...', 'package');
         logger.debug('Checking for required files', 'package');
-        const requiredFiles = ['mainTemplate.json', 'createUiDefinition.json'];
+        registerBuiltInTemplates();
+        const templateType = options.type ?? await readPackagedTemplateType(sourcePath) ?? 'storage';
+        logger.debug('Template type', 'package', { type: templateType });
+        const resolved = templateRegistry.resolveTemplate(templateType.toLowerCase().trim());
+        if (!resolved) {
+          progress.fail(`Unknown template type: ${templateType}`);
+          throw new CliValidationError(`Unknown template type: ${templateType}`, [
+            `Available types: ${templateRegistry.getTemplateTypes().join(', ')}`
+          ]);
+        }
+        const manifest = await loadTemplateManifest(resolved.templateDir);
+        const requiredFiles = getRequiredOutputs(manifest);
+        logger.debug('Required files from manifest', 'package', { type: templateType, requiredFiles });
+        const entries = await listPackageEntries(sourcePath);
+        logger.debug('Packaged files', 'package', { entries });
         for (const file of requiredFiles) {
           const filePath = path.join(sourcePath, file);
-          if (!await fs.pathExists(filePath)) {
+          if (!entries.some(entry => entry.name === file)) {
             progress.fail(`Required file missing: ${file}`);
             logger.error(`Required file missing: ${file}`, 'package', { filePath });
             throw new FileSystemError(`Required file missing: ${file}`, filePath);
@@ -148,7 +180,13 @@ Next steps after packaging:
         });
 
         archive.pipe(output);
-        archive.directory(sourcePath, false);
+        // The generation record is bookkeeping for azmp diff, not part of the offer
+        for (const entry of entries) {
+          archive.file(entry.path, { name: entry.name });
+        }
+        if (entries.some(entry => entry.compiled)) {
+          console.log(chalk.gray('  mainTemplate.json: the ARM JSON main.bicep was generated from'));
+        }
         
         progress.update('Compressing files...', 'package');
         logger.debug('Finalizing archive', 'package');
@@ -173,6 +211,11 @@ Next steps after packaging:
         logger.debug('Package size', 'package', { sizeKB });
         console.log(chalk.gray('📊 Size:'), `${sizeKB} KB`);
 
+        // Sidecar tying the ZIP to its generation run, for audits
+        const provenancePath = await writePackageProvenance(sourcePath, packageFileName);
+        logger.debug('Provenance written', 'package', { provenancePath });
+        console.log(chalk.gray('🔏 Provenance:'), provenancePath);
+
         console.log(chalk.yellow('💡 Next: Upload to Azure Partner Center'));
         
         stopTimer();
@@ -0,0 +1,113 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import chalk from 'chalk';
+import { ErrorHandler, ValidationError } from '../../utils/error-handler';
+import { getLogger } from '../../utils/logger';
+import { SecurityValidation } from '../../utils/security-validation';
+import { getConfigManager } from '../../utils/config-manager';
+import { parseSetArguments } from '../../core/parameter-model';
+import {
+  DEFAULT_PROFILE,
+  generateParameterFiles,
+  PARAMETER_MATRIX_MODES,
+  ParameterMatrixMode
+} from '../../core/parameter-files';
+
+const logger = getLogger();
+
+/**
+ * Collect repeated option values (e.g. --profile a --profile b,c)
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, ...value.split(',').map(item => item.trim()).filter(item => item.length > 0)];
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export const paramsCommand = new Command('params')
+  .description('Generate deployment parameter files for generated packages')
+  .addCommand(
+    new Command('generate')
+      .description('Write azuredeploy.parameters.json files for named profiles or a test matrix')
+      .argument('<dir>', 'Generated package directory (with mainTemplate.json)')
+      .option('--profile <names>', `Profiles from parameterProfiles in azmp.config.json (repeatable or comma-separated; default: ${DEFAULT_PROFILE})`, collect, [])
+      .option('--matrix <mode>', `Write a test matrix instead of one file per profile: ${PARAMETER_MATRIX_MODES.join(', ')}`)
+      .option('--set <key=value>', 'Set a parameter value in every file (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+      .option('-o, --output <dir>', 'Directory to write the parameter files to (default: <dir>-parameters)')
+      .option('-c, --config <path>', 'Path to azmp.config.json file')
+      .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp params generate ./output --set storageAccountNamePrefix=azmptest --set applicationName=azmp-test')}
+    Writes ./output-parameters/azuredeploy.parameters.json with the template defaults
+
+  ${chalk.cyan('$ azmp params generate ./output --profile default,locked-down')}
+    Writes azuredeploy.parameters.json and azuredeploy.parameters.locked-down.json
+
+  ${chalk.cyan('$ azmp params generate ./output --matrix pairwise')}
+    Writes azuredeploy.parameters.pairwise-01.json, ... covering every pair of values
+
+Profiles (azmp.config.json):
+  "parameterProfiles": {
+    "default": { "storageAccountNamePrefix": "azmptest", "applicationName": "azmp-test" },
+    "locked-down": { "publicNetworkAccess": "Disabled", "allowSharedKeyAccess": false }
+  }
+
+Notes:
+  • Values are checked against the mainTemplate parameters (type, allowedValues,
+    minValue/maxValue, minLength/maxLength); parameters without a default need one
+  • Literal defaults are written out; expression defaults (location) and
+    _artifactsLocation are left to the deployment
+  • The pairwise matrix varies allowedValues, bools and ints with minValue and
+    maxValue (the bounds and the default); parameters set in the profile or with
+    --set keep their value in every file
+  • The files are written next to the package, not into it, so azmp package
+    does not pick them up
+`)
+      .action(async (dir: string, options: {
+        profile: string[];
+        matrix?: string;
+        set: string[];
+        output?: string;
+        config?: string;
+      }) => {
+        const stopTimer = logger.startTimer('params generate');
+        const outputDir = options.output ?? `${dir.replace(/[\\/]+$/, '')}-parameters`;
+        logger.debug('Starting params generate', 'params', { dir, options, outputDir });
+
+        console.log(chalk.blue(`🧾 Generating parameter files for ${dir}...`));
+
+        const result = await ErrorHandler.handleAsync(
+          async () => {
+            if (!SecurityValidation.validateFilePath(dir) || !SecurityValidation.validateFilePath(outputDir)) {
+              throw new ValidationError('Invalid path', ['Paths must be safe relative paths']);
+            }
+            const matrix = options.matrix?.toLowerCase().trim() as ParameterMatrixMode | undefined;
+            if (matrix !== undefined && !PARAMETER_MATRIX_MODES.includes(matrix)) {
+              throw new ValidationError(`Unsupported matrix: ${options.matrix}`, [`Supported: ${PARAMETER_MATRIX_MODES.join(', ')}`]);
+            }
+            const config = await getConfigManager().loadConfig(options.config);
+            return generateParameterFiles({
+              packageDir: dir,
+              outputDir,
+              profiles: config?.parameterProfiles,
+              names: options.profile,
+              set: parseSetArguments(options.set),
+              matrix
+            });
+          },
+          'parameter file generation'
+        );
+
+        if (result.factors.length > 0) {
+          console.log(chalk.gray(`  Varied parameters (${result.factors.length}):`));
+          result.factors.forEach(factor =>
+            console.log(chalk.gray(`    • ${factor.name}:`), factor.values.map(describeValue).join(', ')));
+          console.log(chalk.gray(`  ${result.pairs} value pairs covered by ${result.files.length} file(s)`));
+        }
+        console.log(chalk.green(`✅ Wrote ${result.files.length} parameter file(s) to ${outputDir}`));
+        result.files.forEach(file => console.log(chalk.gray(`  • ${path.join(outputDir, file.file)}`)));
+        stopTimer();
+      })
+  );
@@ -0,0 +1,447 @@
+import { Command } from 'commander';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { ErrorHandler, ValidationError } from '../../utils/error-handler';
+import { getLogger } from '../../utils/logger';
+import { SecurityValidation } from '../../utils/security-validation';
+import { formatTemplateMetadata, registerTemplateInSource, scaffoldTemplate } from '../../core/template-scaffold';
+import { formatLintIssue, lintTemplateDirectory, TemplateLintResult } from '../../core/template-lint';
+import {
+  formatTemplateTestFailures,
+  runTemplateTests,
+  TEMPLATE_TESTS_DIR,
+  TEST_INPUT_FILE,
+  TemplateTestResult
+} from '../../core/template-tests';
+import { TemplateGenerator } from '../../core/generator';
+import { TemplateMetadata } from '../../core/plugin';
+import { templateRegistry } from '../../core/template-registry';
+import { registerBuiltInTemplates } from '../../core/builtin-templates';
+import { MAIN_TEMPLATE_OUTPUT } from '../../core/linked-templates';
+import { JSON_OUTPUT_INDENT } from '../../core/render-validation';
+import {
+  BASICS_STEP,
+  DEFAULT_UI_STEP,
+  generateUiDefinition,
+  loadUiDefinitionOverrides,
+  UI_CONTROLS
+} from '../../core/ui-definition-generator';
+
+const logger = getLogger();
+
+/**
+ * Ask whether to register a new template in a plugin (only on a terminal)
+ *
+ * @returns Plugin source file, or undefined to skip registration
+ */
+async function promptForRegistration(type: string): Promise<string | undefined> {
+  if (!process.stdin.isTTY) {
+    return undefined;
+  }
+  const answers: { register: boolean; file?: string } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'register',
+      message: `Register '${type}' in a plugin's getTemplates()?`,
+      default: false
+    },
+    {
+      type: 'input',
+      name: 'file',
+      message: 'Plugin source file:',
+      when: (current: { register: boolean }) => current.register,
+      validate: (input: string) => (input.trim() ? true : 'Enter the path of the plugin source file')
+    }
+  ]);
+  return answers.register ? answers.file?.trim() : undefined;
+}
+
+/**
+ * A template named on the command line: a registered type or a template directory
+ */
+interface TemplateTarget {
+  label: string;
+  templateDir: string;
+
+  /** Registered template type (undefined for directories) */
+  templateType?: string;
+
+  /** Plugin that provides a registered type */
+  pluginId?: string;
+}
+
+/**
+ * Resolve command line templates (all registered template types when none are given)
+ */
+async function resolveTemplateTargets(targets: string[]): Promise<TemplateTarget[]> {
+  registerBuiltInTemplates();
+  const names = targets.length > 0 ? targets : templateRegistry.getTemplateTypes();
+
+  const resolved: TemplateTarget[] = [];
+  for (const name of names) {
+    const template = templateRegistry.resolveTemplate(name);
+    if (template) {
+      resolved.push({ label: name, templateDir: template.templateDir, templateType: name, pluginId: template.pluginId });
+      continue;
+    }
+
+    if (!SecurityValidation.validateFilePath(name)) {
+      throw new ValidationError('Invalid template directory path', ['Path must be a safe relative path']);
+    }
+    if (!await fs.pathExists(name) || !(await fs.stat(name)).isDirectory()) {
+      throw new ValidationError(`Unknown template type or directory: ${name}`, [
+        `Available types: ${templateRegistry.getTemplateTypes().join(', ') || 'none'}`
+      ]);
+    }
+    resolved.push({ label: name, templateDir: name });
+  }
+  return resolved;
+}
+
+function printTestResult(label: string, result: TemplateTestResult): void {
+  const baseDir = path.relative(process.cwd(), result.templateDir) || '.';
+  console.log(chalk.bold(`\n${label}`), chalk.gray(`(${baseDir})`));
+  if (result.cases.length === 0) {
+    console.log(chalk.yellow(`  ⚠️  No test cases (add ${TEMPLATE_TESTS_DIR}/<case>/${TEST_INPUT_FILE})`));
+    return;
+  }
+
+  for (const testCase of result.cases) {
+    const differing = testCase.files.filter(file => file.status !== 'match');
+    if (testCase.error) {
+      console.log(chalk.red(`  ❌ ${testCase.name}`), chalk.gray(testCase.error.split('\n').join('\n     ')));
+    } else if (result.updated && differing.length > 0) {
+      console.log(chalk.yellow(`  📝 ${testCase.name}`), chalk.gray(`(${differing.length} expected output(s) updated)`));
+    } else if (testCase.passed) {
+      console.log(chalk.green(`  ✅ ${testCase.name}`), chalk.gray(`(${testCase.files.length} output(s))`));
+    } else {
+      console.log(chalk.red(`  ❌ ${testCase.name}`));
+      formatTemplateTestFailures({ ...result, cases: [testCase] })
+        .forEach(line => console.log(chalk.gray(`     ${line}`)));
+    }
+  }
+}
+
+function printLintResult(label: string, result: TemplateLintResult): void {
+  const baseDir = path.relative(process.cwd(), result.templateDir) || '.';
+  console.log(chalk.bold(`\n${label}`), chalk.gray(`(${baseDir}, ${result.files.length} file(s))`));
+  if (!result.variablesChecked) {
+    console.log(chalk.yellow('  ⚠️  The manifest declares no parameters; variables were not checked'));
+  }
+  if (result.issues.length === 0) {
+    console.log(chalk.green('  ✅ No issues'));
+    return;
+  }
+  result.issues.forEach(issue => console.log(chalk.red(`  ${formatLintIssue(issue, baseDir)}`)));
+}
+
+export const templateCommand = new Command('template')
+  .description('Author template types')
+  .addCommand(
+    new Command('new')
+      .description('Scaffold a new template type')
+      .argument('<type>', 'Template type (lowercase, e.g. "vm" or "web-app")')
+      .option('-o, --output <dir>', 'Directory to create the template in (default: ./templates/<type>)')
+      .option('-n, --name <name>', 'Human-readable template name')
+      .option('-d, --description <text>', 'What the template deploys')
+      .option('--register <file>', 'Add a TemplateMetadata entry to this plugin source file (its getTemplates() list)')
+      .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp template new vm')}
+    Creates ./templates/vm with a complete template skeleton
+
+  ${chalk.cyan('$ azmp template new vm -o ./plugins/azmp-plugin-vm/templates/vm --register ./plugins/azmp-plugin-vm/src/index.ts')}
+    Creates the template inside a plugin and adds it to the plugin's getTemplates()
+
+  ${chalk.cyan('$ azmp template new web-app -o src/templates/web-app --register src/core/builtin-templates.ts')}
+    Adds a built-in template type to the generator
+
+Generated files:
+  • template.manifest.json          Files and typed parameters (location, resourceNamePrefix)
+  • mainTemplate.json.hbs           location parameter, one resource and outputs
+  • createUiDefinition.json.hbs     basics, a settings step and outputs wired to the parameters
+  • viewDefinition.json.hbs         Overview view
+  • tests/default/input.json        Test case inputs (publisher, name, parameters)
+  • tests/default/expected/         The outputs the test case renders
+  • tests/<type>.test.ts            Jest test running the template tests (azmp template test)
+
+Notes:
+  • Without --register you are asked whether to register the type (on a terminal);
+    otherwise the TemplateMetadata entry is printed to paste into getTemplates()
+  • templatePath is written relative to the plugin module's directory
+    (the built-in templates directory for BUILT_IN_TEMPLATES)
+`)
+      .action(async (type: string, options: {
+        output?: string;
+        name?: string;
+        description?: string;
+        register?: string;
+      }) => {
+        const stopTimer = logger.startTimer('template new');
+        const templateDir = options.output ?? path.join('templates', type);
+        logger.debug('Starting template new', 'template', { type, options, templateDir });
+
+        console.log(chalk.blue(`🧱 Scaffolding template type '${type}'...`));
+
+        const result = await ErrorHandler.handleAsync(
+          async () => {
+            if (!SecurityValidation.validateFilePath(templateDir)) {
+              throw new ValidationError('Invalid template directory path', ['Path must be a safe relative path']);
+            }
+            return scaffoldTemplate({
+              type,
+              templateDir,
+              name: options.name,
+              description: options.description
+            });
+          },
+          'template scaffolding'
+        );
+
+        console.log(chalk.green(`✅ Created ${templateDir}`));
+        result.files.forEach(file => console.log(chalk.gray(`  • ${file}`)));
+
+        const registration = options.register ?? await promptForRegistration(type);
+        if (registration) {
+          const entry = await ErrorHandler.handleAsync(
+            () => registerTemplateInSource(registration, result.metadata),
+            'template registration'
+          );
+          console.log(chalk.green(`✅ Registered '${type}' in ${registration}`), chalk.gray(`(templatePath: ${entry.templatePath})`));
+        } else {
+          const entry: TemplateMetadata = { ...result.metadata, templatePath: type };
+          console.log(chalk.blue('\n📋 Add this entry to your plugin\'s getTemplates() (templatePath relative to the plugin module):'));
+          console.log(chalk.gray(formatTemplateMetadata(entry, '  ')));
+        }
+
+        console.log(chalk.yellow('\n💡 Next:'));
+        console.log(chalk.gray('  • Replace the placeholder resource in mainTemplate.json.hbs'));
+        console.log(chalk.gray(`  • Run the template tests: azmp template test ${templateDir.split(path.sep).join('/')}`));
+        console.log(chalk.gray('    (accept intended output changes with --update)'));
+        stopTimer();
+      })
+  )
+  .addCommand(
+    new Command('lint')
+      .description('Check Handlebars sources for unknown helpers, variables and partials, unbalanced blocks and JSON-breaking conditionals')
+      .argument('[targets...]', 'Template types or template directories (default: all registered types)')
+      .option('--json', 'Print the issues as JSON')
+      .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp template lint')}
+    Lints every registered template type
+
+  ${chalk.cyan('$ azmp template lint storage ./templates/vm')}
+    Lints a registered type and a template directory
+
+Checks:
+  • unbalanced-block   {{#if}} never closed, or closed by {{/each}}
+  • syntax             Other Handlebars parse errors
+  • unknown-helper     Not a built-in helper or a helper of a loaded plugin
+  • unknown-variable   Not a parameter declared in template.manifest.json or a
+                       generator value (publisher, name, armSchemaUrl, ...)
+  • unknown-partial    Not in the template's partials/ or provided by its plugin
+  • unknown-resource-type
+                       A latestApiVersion resource type missing from the API
+                       version catalog (azmp apiversions)
+  • invalid-json       A .json output does not parse with the parameter defaults
+  • json-conditional   A .json output does not parse when an {{#if}}/{{#unless}}
+                       condition is true or false
+
+Variables inside {{#each}} and {{#with}} blocks are not checked. Partials may
+also use the hash arguments their callers pass ({{> tags purpose="..."}}).
+
+Exit codes:
+  0  No issues
+  1  Issues found, or an error
+`)
+      .action(async (targets: string[], options: { json?: boolean }) => {
+        const stopTimer = logger.startTimer('template lint');
+        logger.debug('Starting template lint', 'template', { targets, options });
+
+        if (!options.json) {
+          console.log(chalk.blue('🔎 Linting template sources...'));
+        }
+
+        const results = await ErrorHandler.handleAsync(
+          async () => {
+            const linted: { label: string; result: TemplateLintResult }[] = [];
+            for (const target of await resolveTemplateTargets(targets)) {
+              const pluginId = target.pluginId;
+              const result = await lintTemplateDirectory(target.templateDir, {
+                templateType: target.templateType,
+                helpers: pluginId ? templateRegistry.getPluginHelpers(pluginId) : {},
+                partials: pluginId ? templateRegistry.getPluginPartials(pluginId) : {}
+              });
+              linted.push({ label: target.label, result });
+            }
+            return linted;
+          },
+          'template lint'
+        );
+
+        const issueCount = results.reduce((count, entry) => count + entry.result.issues.length, 0);
+        if (options.json) {
+          console.log(JSON.stringify(results.map(({ label, result }) => ({ template: label, ...result })), null, 2));
+        } else {
+          results.forEach(({ label, result }) => printLintResult(label, result));
+          console.log(issueCount === 0
+            ? chalk.green(`\n✅ ${results.length} template(s) checked, no issues`)
+            : chalk.red(`\n❌ ${issueCount} issue(s) in ${results.length} template(s)`));
+        }
+
+        stopTimer();
+        process.exit(issueCount === 0 ? 0 : 1);
+      })
+  )
+  .addCommand(
+    new Command('test')
+      .description('Render the test cases of template types and compare them with their expected outputs')
+      .argument('[targets...]', 'Template types or template directories (default: all registered types with test cases)')
+      .option('-u, --update', 'Write the rendered outputs as the new expected outputs')
+      .option('-c, --case <names>', 'Only run these test cases (comma-separated)')
+      .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp template test')}
+    Runs the test cases of every registered template type
+
+  ${chalk.cyan('$ azmp template test storage --case default')}
+    Runs one test case of a registered type
+
+  ${chalk.cyan('$ azmp template test ./templates/vm --update')}
+    Accepts the current outputs of a template directory as expected
+
+Test cases:
+  <template>/tests/<case>/input.json    Run inputs: publisher, name, seed, parameters
+  <template>/tests/<case>/expected/     Outputs the case must render, byte for byte
+
+Each case renders deterministically (seeded with the case name unless input.json
+sets a seed). Plugin jest suites can run the same harness with
+assertTemplateTests() from ${chalk.cyan('@hoiltd/azure-marketplace-generator/dist/core/template-tests')}.
+
+Exit codes:
+  0  All cases match (or were updated)
+  1  Differences found, or an error
+`)
+      .action(async (targets: string[], options: { update?: boolean; case?: string }) => {
+        const stopTimer = logger.startTimer('template test');
+        logger.debug('Starting template test', 'template', { targets, options });
+
+        console.log(chalk.blue(options.update ? '📝 Updating expected template outputs...' : '🧪 Running template tests...'));
+        const cases = options.case?.split(',').map(name => name.trim()).filter(Boolean);
+
+        const results = await ErrorHandler.handleAsync(
+          async () => {
+            const tested: { label: string; result: TemplateTestResult }[] = [];
+            for (const target of await resolveTemplateTargets(targets)) {
+              const result = await runTemplateTests(target.templateDir, {
+                templateType: target.templateType,
+                // Registered types render with their plugin's helpers and partials
+                generator: target.templateType ? new TemplateGenerator() : undefined,
+                cases,
+                update: options.update
+              });
+              if (targets.length > 0 || result.cases.length > 0) {
+                tested.push({ label: target.label, result });
+              }
+            }
+            return tested;
+          },
+          'template test'
+        );
+
+        results.forEach(({ label, result }) => printTestResult(label, result));
+        const caseCount = results.reduce((count, entry) => count + entry.result.cases.length, 0);
+        const failed = results.reduce((count, entry) => count + entry.result.cases.filter(testCase => !testCase.passed).length, 0);
+        if (failed > 0) {
+          console.log(chalk.red(`\n❌ ${failed} of ${caseCount} test case(s) failed`));
+          console.log(chalk.gray('   Accept intended changes with --update'));
+        } else {
+          console.log(chalk.green(`\n✅ ${caseCount} test case(s) ${options.update ? 'updated' : 'passed'}`));
+        }
+
+        stopTimer();
+        process.exit(failed === 0 ? 0 : 1);
+      })
+  )
+  .addCommand(
+    new Command('uidef')
+      .description('Generate a createUiDefinition from the parameters of a rendered mainTemplate')
+      .argument('<mainTemplate>', `Rendered ${MAIN_TEMPLATE_OUTPUT} (or an output directory containing one)`)
+      .option('-o, --output <file>', 'File to write (default: print to stdout)')
+      .option('--overrides <file>', 'Step settings and per-parameter hints (JSON)')
+      .option('--step-label <label>', `Label of the "${DEFAULT_UI_STEP}" step`)
+      .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp template uidef ./output -o ./output/createUiDefinition.json')}
+    Replaces the createUiDefinition of a generated application
+
+  ${chalk.cyan('$ azmp template uidef ./output/mainTemplate.json --overrides ui-overrides.json')}
+    Prints a createUiDefinition tuned by an overrides file
+
+Elements:
+  allowedValues (up to 3)     OptionsGroup      allowedValues       DropDown
+  bool                        CheckBox          int with bounds     Slider
+  securestring                PasswordBox       object, array       TextBox (JSON)
+  string, int                 TextBox (regex from minLength/maxLength, whole numbers)
+
+Hints (a parameter's metadata.ui, or "parameters" in the overrides file):
+  step      Step to put the element in ("${BASICS_STEP}" for the basics blade; default "${DEFAULT_UI_STEP}")
+  control   ${UI_CONTROLS.join(', ')}
+  label     Element label (default: the parameter name in words)
+  exclude   Leave the parameter out; the template's default applies
+  element   Fields merged into the element (visible, toolTip, constraints...)
+  output    Output expression to use instead of the generated one
+
+The overrides file can also set step fields: { "steps": { "security": { "label": "Security" } } }.
+location comes from the basics blade; parameters with expression defaults, and
+objects or arrays with defaults, are left out unless a hint places them.
+`)
+      .action(async (mainTemplate: string, options: { output?: string; overrides?: string; stepLabel?: string }) => {
+        const stopTimer = logger.startTimer('template uidef');
+        logger.debug('Starting template uidef', 'template', { mainTemplate, options });
+
+        const result = await ErrorHandler.handleAsync(
+          async () => {
+            if (!SecurityValidation.validateFilePath(mainTemplate)) {
+              throw new ValidationError('Invalid template path', ['Path must be a safe relative path']);
+            }
+            const templateFile = await fs.pathExists(mainTemplate) && (await fs.stat(mainTemplate)).isDirectory()
+              ? path.join(mainTemplate, MAIN_TEMPLATE_OUTPUT)
+              : mainTemplate;
+            let template: unknown;
+            try {
+              template = await fs.readJson(templateFile);
+            } catch (error) {
+              throw new ValidationError(`Cannot read ${templateFile}`, [(error as Error).message]);
+            }
+            if (!template || typeof template !== 'object' || Array.isArray(template)) {
+              throw new ValidationError(`Not an ARM template: ${templateFile}`);
+            }
+            return generateUiDefinition(template as Record<string, unknown>, {
+              overrides: options.overrides ? await loadUiDefinitionOverrides(options.overrides) : undefined,
+              defaultStepLabel: options.stepLabel
+            });
+          },
+          'createUiDefinition generation'
+        );
+
+        const content = JSON.stringify(result.uiDefinition, null, JSON_OUTPUT_INDENT) + '\n';
+        const outputFile = options.output;
+        if (!outputFile) {
+          process.stdout.write(content);
+          stopTimer();
+          return;
+        }
+
+        await ErrorHandler.handleAsync(() => fs.outputFile(outputFile, content, 'utf8'), 'createUiDefinition write');
+        console.log(chalk.green(`✅ Wrote ${outputFile}`));
+        console.log(chalk.gray('  Outputs:'), result.parameters.join(', ') || 'none');
+        if (result.skipped.length > 0) {
+          console.log(chalk.gray('  Left to their template defaults:'), result.skipped.join(', '));
+        }
+        stopTimer();
+      })
+  );
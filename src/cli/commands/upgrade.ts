@@ -0,0 +1,96 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ErrorHandler, ValidationError } from '../../utils/error-handler';
+import { getLogger } from '../../utils/logger';
+import { SecurityValidation } from '../../utils/security-validation';
+import { registerBuiltInTemplates } from '../../core/builtin-templates';
+import { FileUpgrade, upgradeOutputDirectory } from '../../core/package-upgrade';
+import { formatDiffValue } from '../../core/semantic-diff';
+
+const logger = getLogger();
+
+const ACTION_LABELS: Record<FileUpgrade['action'], (file: string) => string> = {
+  unchanged: file => chalk.gray(`  = ${file}`),
+  updated: file => chalk.green(`  ↑ ${file}`) + chalk.gray(' (updated from the new template)'),
+  kept: file => chalk.blue(`  ✎ ${file}`) + chalk.gray(' (hand edits kept)'),
+  merged: file => chalk.green(`  ⇄ ${file}`) + chalk.gray(' (hand edits merged with template changes)'),
+  added: file => chalk.green(`  + ${file}`) + chalk.gray(' (added by the new template)'),
+  removed: file => chalk.red(`  - ${file}`) + chalk.gray(' (removed by the new template)'),
+  conflict: file => chalk.red(`  ✖ ${file}`) + chalk.gray(' (conflicts; current values kept)')
+};
+
+export const upgradeCommand = new Command('upgrade')
+  .description('Upgrade generated output to the current template version, keeping hand edits')
+  .argument('<outputDir>', 'Output directory of an earlier azmp create run')
+  .option('--dry-run', 'Show what would change without writing files')
+  .addHelpText('after', `
+Examples:
+  ${chalk.cyan('$ azmp upgrade ./output --dry-run')}
+    Shows which files would be updated, merged or conflict
+
+  ${chalk.cyan('$ azmp upgrade ./output')}
+    Upgrades ./output in place
+
+How it works:
+  • azmp create records its inputs and a copy of the rendered files in <outputDir>/.azmp/
+  • azmp upgrade re-renders the recorded inputs with the current template
+  • Each JSON file is merged per JSON path from three versions: the recorded render (base),
+    the file on disk (your edits) and the fresh render (template changes)
+  • Values changed on both sides are conflicts: the file keeps your value and the conflict
+    is written with markers to <outputDir>/.azmp/upgrade-conflicts.txt
+  • Run ${chalk.cyan('azmp diff <outputDir>')} afterwards to review the remaining differences
+
+Exit codes:
+  0  Upgraded without conflicts
+  1  Conflicts to resolve, or an error
+`)
+  .action(async (outputDir: string, options: { dryRun?: boolean }, command: Command) => {
+    const stopTimer = logger.startTimer('upgrade command');
+    // --dry-run is also a global option; accept it before or after the command name
+    const dryRun = options.dryRun === true || command.optsWithGlobals().dryRun === true;
+    logger.debug('Starting upgrade command', 'upgrade', { outputDir, dryRun });
+
+    console.log(chalk.blue(`⬆️  Upgrading generated output${dryRun ? ' (dry run)' : ''}...`));
+
+    const result = await ErrorHandler.handleAsync(
+      async () => {
+        if (!SecurityValidation.validateFilePath(outputDir)) {
+          throw new ValidationError('Invalid output directory path', ['Path must be a safe relative path']);
+        }
+        registerBuiltInTemplates();
+        return upgradeOutputDirectory(outputDir, { dryRun });
+      },
+      'upgrade'
+    );
+
+    console.log(chalk.gray('  Output:'), outputDir);
+    console.log(chalk.gray('  Generator:'), `v${result.fromVersion} → v${result.toVersion}`);
+    console.log();
+    result.files.forEach(file => console.log(ACTION_LABELS[file.action](file.file)));
+
+    const conflicted = result.files.filter(file => file.conflicts.length > 0);
+    if (conflicted.length > 0) {
+      console.log(chalk.red(`\n⚠️  ${result.conflictCount} conflict(s):`));
+      for (const file of conflicted) {
+        for (const conflict of file.conflicts) {
+          console.log(chalk.red(`  ${file.file}: ${conflict.path}`));
+          console.log(chalk.gray(`    current:  ${formatDiffValue(conflict.current)}`));
+          console.log(chalk.gray(`    base:     ${formatDiffValue(conflict.base)}`));
+          console.log(chalk.gray(`    incoming: ${formatDiffValue(conflict.incoming)}`));
+        }
+      }
+      if (result.reportPath) {
+        console.log(chalk.yellow(`\n📋 Conflict markers written to ${result.reportPath}`));
+      }
+      console.log(chalk.blue('💡 Resolve each conflict in the files above, then run azmp diff to check the result'));
+    } else if (dryRun) {
+      console.log(chalk.green('\n✅ No conflicts; run without --dry-run to apply the upgrade'));
+    } else {
+      console.log(chalk.green('\n✅ Upgrade complete'));
+    }
+
+    stopTimer();
+    if (conflicted.length > 0) {
+      process.exit(1);
+    }
+  });
@@ -1,19 +1,75 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import * as fs from 'fs-extra';
 import { ArmTtkValidator } from '../../core/validator';
 import { SecurityValidation, ValidationError } from '../../utils/security-validation';
-import { ErrorHandler, ArmTtkError } from '../../utils/error-handler';
+import { ErrorHandler, ArmTtkError, ValidationError as CliValidationError } from '../../utils/error-handler';
 import { getLogger } from '../../utils/logger';
 import { getConfigManager } from '../../utils/config-manager';
 import { createProgress } from '../../utils/progress';
+import {
+  getGenerationRecordPath,
+  describeRecordedTemplates,
+  IntegrityReport,
+  readGenerationRecord,
+  verifyGenerationRecord
+} from '../../core/generation-record';
+import { checkPackageConsistency, ConsistencyReport } from '../../core/ui-definition-consistency';
 
 const logger = getLogger();
 
+/**
+ * Print the provenance of a generated directory and check its outputs against the recorded hashes
+ *
+ * @returns Integrity report, or undefined if the path has no generation record
+ */
+async function checkProvenance(templatePath: string): Promise<IntegrityReport | undefined> {
+  if (!await fs.pathExists(getGenerationRecordPath(templatePath))) {
+    logger.debug('No generation record', 'validate', { templatePath });
+    return undefined;
+  }
+
+  const record = await readGenerationRecord(templatePath);
+  const report = await verifyGenerationRecord(templatePath, record);
+  const plugin = record.plugin ? `, plugin ${record.plugin.id} v${record.plugin.version}` : '';
+  console.log(chalk.blue('\n🔏 Provenance:'),
+    `${describeRecordedTemplates(record)}, generator v${record.generatorVersion}${plugin}`);
+  if (report.verified.length > 0) {
+    console.log(chalk.green(`   ✓ ${report.verified.length} output(s) match their recorded SHA-256`));
+  }
+  report.modified.forEach(file => console.log(chalk.yellow(`   ⚠ Modified since generation: ${file}`)));
+  report.missing.forEach(file => console.log(chalk.yellow(`   ⚠ Missing: ${file}`)));
+  return report;
+}
+
+/**
+ * Check the createUiDefinition outputs against the mainTemplate parameters and print a summary
+ *
+ * @returns Report, or undefined if the path lacks mainTemplate.json or createUiDefinition.json
+ */
+async function checkConsistency(templatePath: string): Promise<ConsistencyReport | undefined> {
+  const report = await checkPackageConsistency(templatePath);
+  if (!report) {
+    logger.debug('No mainTemplate.json and createUiDefinition.json pair', 'validate', { templatePath });
+    console.log(chalk.gray('\n🔗 createUiDefinition consistency: skipped (needs mainTemplate.json and createUiDefinition.json)'));
+    return undefined;
+  }
+
+  console.log(chalk.blue('\n🔗 createUiDefinition consistency:'),
+    `${report.outputs} output(s) for ${report.parameters} mainTemplate parameter(s)`);
+  if (report.issues.length === 0) {
+    console.log(chalk.green('   ✓ Outputs match the mainTemplate parameters'));
+  }
+  return report;
+}
+
 export const validateCommand = new Command('validate')
   .description('🔍 Validate managed application package with ARM-TTK')
   .argument('<path>', 'Path to managed application directory or template file')
   .option('--save-report <file>', 'Save validation report to file')
   .option('-c, --config <path>', 'Path to azmp.config.json file')
+  .option('--require-integrity', 'Fail if outputs were changed since generation (see .azmp/generation.json)')
+  .option('--offline', 'Run only the checks that need no ARM-TTK (provenance, createUiDefinition consistency)')
   .addHelpText('after', `
 Examples:
   ${chalk.cyan('$ azmp validate ./output')}
@@ -28,6 +84,12 @@ Examples:
   ${chalk.cyan('$ azmp validate ./output --verbose')}
     Validates with detailed debug information
 
+  ${chalk.cyan('$ azmp validate ./output --require-integrity')}
+    Also fails if any generated file no longer matches its recorded SHA-256
+
+  ${chalk.cyan('$ azmp validate ./output --offline')}
+    Checks createUiDefinition against mainTemplate without ARM-TTK
+
 What gets validated:
   • ARM template syntax and structure
   • createUiDefinition.json format and controls
@@ -35,19 +97,31 @@ What gets validated:
   • Azure Resource Manager best practices
   • Marketplace compliance requirements
   • Template parameters and outputs
+  • Integrity: outputs are checked against the hashes in .azmp/generation.json
+    (modified files are reported; --require-integrity makes them an error)
+  • Consistency (without ARM-TTK): every mainTemplate parameter without a default
+    is produced by a createUiDefinition output, every output targets a declared
+    parameter and reads an existing element, output types match the parameter
+    types, and location is wired to [location()]
 
 Prerequisites:
-  • ARM-TTK must be installed: ${chalk.yellow('npm run install-arm-ttk')}
+  • ARM-TTK must be installed (except with --offline): ${chalk.yellow('npm run install-arm-ttk')}
   • PowerShell must be available on the system
   • Template files must exist in the specified directory
 `)
-  .action(async (templatePath: string, options: { saveReport?: string; config?: string }) => {
+  .action(async (templatePath: string, options: {
+    saveReport?: string;
+    config?: string;
+    requireIntegrity?: boolean;
+    offline?: boolean;
+  }) => {
     const stopTimer = logger.startTimer('validate command');
     
     console.log(chalk.blue('🔍 Azure Marketplace Generator - Template Validation'));
     console.log(chalk.blue('='.repeat(60)));
     console.log(chalk.gray('  Template path:'), templatePath);
-    console.log(chalk.gray('  ARM-TTK integration:'), chalk.green('Enhanced PowerShell wrapper'));
+    console.log(chalk.gray('  ARM-TTK integration:'),
+      options.offline ? chalk.yellow('Skipped (--offline)') : chalk.green('Enhanced PowerShell wrapper'));
     
     logger.debug('Starting validate command', 'validate', { templatePath, options });
 
@@ -113,6 +187,42 @@ Prerequisites:
       }
     }
 
+    await ErrorHandler.handleAsync(
+      async () => {
+        const integrity = await checkProvenance(templatePath);
+        if (options.requireIntegrity) {
+          if (!integrity) {
+            throw new CliValidationError('No generation record to verify', [`Expected ${getGenerationRecordPath(templatePath)}`]);
+          }
+          const changed = [
+            ...integrity.modified.map(file => `${file}: modified since generation`),
+            ...integrity.missing.map(file => `${file}: missing`)
+          ];
+          if (changed.length > 0) {
+            throw new CliValidationError('Outputs do not match their generation record', changed);
+          }
+        }
+      },
+      'provenance check'
+    );
+
+    await ErrorHandler.handleAsync(
+      async () => {
+        const consistency = await checkConsistency(templatePath);
+        if (consistency && consistency.issues.length > 0) {
+          throw new CliValidationError('createUiDefinition outputs do not match mainTemplate parameters',
+            consistency.issues.map(issue => issue.message));
+        }
+      },
+      'consistency check'
+    );
+
+    if (options.offline) {
+      console.log(chalk.green('\n✅ Offline checks passed'), chalk.gray('(run without --offline for the ARM-TTK tests)'));
+      stopTimer();
+      return;
+    }
+
     await ErrorHandler.handleAsync(
       async () => {
         logger.info('Starting ARM-TTK validation', 'validate');
@@ -6,11 +6,19 @@ import { createCommand } from './commands/create';
 import { validateCommand } from './commands/validate';
 import { packageCommand } from './commands/package';
 import { configCommand } from './commands/config';
+import { diffCommand } from './commands/diff';
+import { upgradeCommand } from './commands/upgrade';
+import { templateCommand } from './commands/template';
+import { apiversionsCommand } from './commands/apiversions';
+import { importCommand } from './commands/import';
+import { paramsCommand } from './commands/params';
 import { setupGlobalErrorHandlers } from '../utils/error-handler';
 import { getLogger } from '../utils/logger';
-import { getConfigManager } from '../utils/config-manager';
+import { AzmpConfig, getConfigManager } from '../utils/config-manager';
 import { pluginLoader } from '../core/plugin-loader';
 import { commandRegistrar } from '../core/command-registrar';
+import { registerBuiltInTemplates } from '../core/builtin-templates';
+import { registerLocalTemplates } from '../core/local-templates';
 import * as packageJson from '../../package.json';
 
 // Setup global error handlers for uncaught exceptions and signals
@@ -77,6 +85,12 @@ program.addCommand(createCommand);
 program.addCommand(validateCommand);
 program.addCommand(packageCommand);
 program.addCommand(configCommand);
+program.addCommand(diffCommand);
+program.addCommand(upgradeCommand);
+program.addCommand(templateCommand);
+program.addCommand(apiversionsCommand);
+program.addCommand(importCommand);
+program.addCommand(paramsCommand);
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
@@ -85,10 +99,16 @@ if (!process.argv.slice(2).length) {
   console.log(chalk.gray('Generate Azure Storage marketplace solutions\n'));
 
   console.log(chalk.bold('Commands:'));
-  console.log(chalk.green('  create storage             ') + chalk.gray('Create storage managed application'));
+  console.log(chalk.green('  create <type>              ') + chalk.gray('Create managed application (e.g. storage)'));
   console.log(chalk.blue('  validate <path>            ') + chalk.gray('Validate ARM templates'));
   console.log(chalk.yellow('  package <path>             ') + chalk.gray('Package for marketplace'));
   console.log(chalk.magenta('  config <command>           ') + chalk.gray('Manage configuration file'));
+  console.log(chalk.cyan('  diff <outputDir>           ') + chalk.gray('Compare output with a fresh render'));
+  console.log(chalk.cyan('  upgrade <outputDir>        ') + chalk.gray('Upgrade output, keeping hand edits'));
+  console.log(chalk.magenta('  template <command>         ') + chalk.gray('Author template types (new, lint, test)'));
+  console.log(chalk.magenta('  apiversions <command>      ') + chalk.gray('Check and refresh resource API versions'));
+  console.log(chalk.magenta('  import <template>          ') + chalk.gray('Import an ARM template as a template type'));
+  console.log(chalk.magenta('  params <command>           ') + chalk.gray('Generate deployment parameter files'));
 
   console.log(chalk.bold('\n📖 Quick Start:'));
   console.log(chalk.gray('  1.'), chalk.cyan('azmp create storage --publisher "My Company" --name "My App"'));
@@ -121,15 +141,27 @@ program.exitOverride((err) => {
   throw err;
 });
 
+/**
+ * Load the configuration file, if any
+ */
+async function loadConfig(): Promise<AzmpConfig | null> {
+  try {
+    return await getConfigManager().loadConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to load configuration: ${message}`, 'cli');
+    console.warn(chalk.yellow('⚠️  Configuration could not be loaded, continuing without it'));
+    return null;
+  }
+}
+
 /**
  * Load plugins from configuration
  * This runs before program.parse() so plugin commands are available
  */
-async function loadPlugins(): Promise<void> {
+async function loadPlugins(config: AzmpConfig | null): Promise<void> {
   try {
-    // Load configuration
     const configManager = getConfigManager();
-    const config = await configManager.loadConfig();
     
     // Skip if no config or no plugins defined
     if (!config || !config.plugins || config.plugins.length === 0) {
@@ -184,10 +216,35 @@ async function loadPlugins(): Promise<void> {
   }
 }
 
+/**
+ * Register the local template types of the configuration (templates.<type>.path)
+ * Registered after plugins, so local types cannot claim built-in or plugin types
+ */
+async function loadLocalTemplates(config: AzmpConfig | null): Promise<void> {
+  const configPath = getConfigManager().getConfigPath();
+  if (!config || !configPath) {
+    return;
+  }
+
+  const { registered, errors } = await registerLocalTemplates(config, configPath);
+  if (registered.length > 0) {
+    logger.debug(`Registered local template type(s): ${registered.join(', ')}`, 'cli');
+  }
+  if (errors.length > 0) {
+    logger.warn('Local template types skipped', 'cli', { errors });
+    console.warn(chalk.yellow('⚠️  Local template types skipped:'));
+    errors.forEach(err => console.warn(chalk.yellow(`   • ${err}`)));
+  }
+}
+
 // Load plugins asynchronously, then parse CLI
 (async () => {
   try {
-    await loadPlugins();
+    // Built-in templates first so plugin templates cannot claim their types
+    registerBuiltInTemplates();
+    const config = await loadConfig();
+    await loadPlugins(config);
+    await loadLocalTemplates(config);
     program.parse();
   } catch (err: unknown) {
     const errorMessage = err instanceof Error ? err.message : String(err);
@@ -1,5 +1,6 @@
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import * as packageJson from '../../package.json';
 
 export class AppConfig {
   private static instance: AppConfig;
@@ -17,6 +18,14 @@ export class AppConfig {
     return path.join(__dirname, '..', 'templates');
   }
 
+  public static getApiVersionCatalogPath(): string {
+    return path.join(__dirname, '..', 'data', 'api-versions.json');
+  }
+
+  public static getGeneratorVersion(): string {
+    return packageJson.version;
+  }
+
   public static getPackagesDir(): string {
     return './packages';
   }
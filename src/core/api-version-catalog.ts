@@ -0,0 +1,404 @@
+/**
+ * API Version Catalog
+ *
+ * The stable and preview API versions of each ARM resource type, shipped with
+ * the generator in `data/api-versions.json`. The `latestApiVersion` helper
+ * renders from it, `azmp apiversions check` compares existing templates with
+ * it, and `azmp apiversions refresh` rebuilds it offline from a local clone of
+ * https://github.com/Azure/azure-rest-api-specs.
+ *
+ * The shipped catalog is replaced on every install, so a refreshed catalog
+ * lives in the project: `refresh` writes `api-versions.json` and registers it
+ * as `apiVersionCatalog` in azmp.config.json, which generation and `check`
+ * read in place of the shipped one.
+ *
+ * @example
+ * ```json
+ * {
+ *   "source": "azure-rest-api-specs",
+ *   "updated": "2025-10-01",
+ *   "resourceTypes": {
+ *     "Microsoft.Storage/storageAccounts": {
+ *       "stable": ["2024-01-01", "2023-05-01"],
+ *       "preview": ["2020-08-01-preview"]
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AppConfig } from '../config/app-config';
+import { AzmpConfig, resolveConfigPath } from '../utils/config-manager';
+import { ValidationError } from '../utils/error-handler';
+import { suggestion } from '../utils/suggestion';
+
+/**
+ * Catalog file `azmp apiversions refresh` writes next to the config file
+ */
+export const PROJECT_CATALOG_FILE = 'api-versions.json';
+
+/**
+ * API versions of one resource type, newest first
+ */
+export interface ApiVersionEntry {
+  stable: string[];
+  preview: string[];
+}
+
+/**
+ * Contents of an API version catalog file
+ */
+export interface ApiVersionCatalog {
+  /** Where the versions came from ("curated" or "azure-rest-api-specs") */
+  source: string;
+
+  /** Date of the last refresh (YYYY-MM-DD) */
+  updated: string;
+
+  /** Entries keyed by fully qualified resource type (Microsoft.Storage/storageAccounts/blobServices) */
+  resourceTypes: Record<string, ApiVersionEntry>;
+}
+
+/**
+ * How an apiVersion compares with the catalog
+ * - current: the version latestApiVersion renders
+ * - outdated: a newer version is in the catalog
+ * - preview: a preview newer than every stable version
+ * - unknown-version: not in the catalog and newer than its versions
+ * - unknown-type: the resource type is not in the catalog
+ */
+export type ApiVersionStatus = 'current' | 'outdated' | 'preview' | 'unknown-version' | 'unknown-type';
+
+/**
+ * Status of an apiVersion and the version the catalog recommends
+ */
+export interface ApiVersionClassification {
+  status: ApiVersionStatus;
+  latest?: string;
+}
+
+const API_VERSION_PATTERN = /^(\d{4}-\d{2}-\d{2})(-[a-z]+)?$/i;
+
+const catalogCache = new Map<string, ApiVersionCatalog>();
+
+/**
+ * Check whether a version is a preview (or alpha, beta, privatepreview) version
+ */
+export function isPreviewApiVersion(version: string): boolean {
+  return API_VERSION_PATTERN.exec(version)?.[2] !== undefined;
+}
+
+/**
+ * Compare two API versions by date; a stable version is newer than a preview of the same date
+ *
+ * @returns Negative if a is older than b, zero if equal, positive if a is newer
+ */
+export function compareApiVersions(a: string, b: string): number {
+  const left = API_VERSION_PATTERN.exec(a);
+  const right = API_VERSION_PATTERN.exec(b);
+  const dates = (left?.[1] ?? a).localeCompare(right?.[1] ?? b);
+  if (dates !== 0) {
+    return dates;
+  }
+  return Number(left?.[2] === undefined) - Number(right?.[2] === undefined);
+}
+
+/**
+ * Versions sorted newest first, without duplicates
+ */
+function sortVersions(versions: Iterable<string>): string[] {
+  return Array.from(new Set(versions)).sort((a, b) => compareApiVersions(b, a));
+}
+
+/**
+ * Check the structure of a parsed catalog
+ */
+function validateCatalog(catalog: unknown, source: string): ApiVersionCatalog {
+  const value = (catalog ?? {}) as Partial<ApiVersionCatalog>;
+  const resourceTypes = value.resourceTypes;
+  if (typeof resourceTypes !== 'object' || resourceTypes === null || Array.isArray(resourceTypes)) {
+    throw new ValidationError(`Invalid API version catalog: ${source}`, ['resourceTypes must be an object keyed by resource type']);
+  }
+
+  const errors: string[] = [];
+  for (const [resourceType, entry] of Object.entries(resourceTypes)) {
+    for (const channel of ['stable', 'preview'] as const) {
+      const versions = entry?.[channel];
+      if (!Array.isArray(versions) || versions.some(version => typeof version !== 'string' || !API_VERSION_PATTERN.test(version))) {
+        errors.push(`${resourceType}.${channel} must be an array of API versions (YYYY-MM-DD[-preview])`);
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid API version catalog: ${source}`, errors);
+  }
+  return { source: value.source ?? 'unknown', updated: value.updated ?? '', resourceTypes };
+}
+
+/**
+ * Load an API version catalog (cached per file; helpers need it synchronously)
+ *
+ * @param catalogPath Catalog file (default: the catalog shipped with the generator)
+ * @returns The catalog
+ * @throws ValidationError if the file cannot be read or is not a catalog
+ */
+export function loadApiVersionCatalog(catalogPath: string = AppConfig.getApiVersionCatalogPath()): ApiVersionCatalog {
+  const resolved = path.resolve(catalogPath);
+  const cached = catalogCache.get(resolved);
+  if (cached) {
+    return cached;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = fs.readJsonSync(resolved);
+  } catch (error) {
+    throw new ValidationError(`Invalid API version catalog: ${resolved}`, [(error as Error).message]);
+  }
+  const catalog = validateCatalog(parsed, resolved);
+  catalogCache.set(resolved, catalog);
+  return catalog;
+}
+
+/**
+ * Catalog a project renders from: its apiVersionCatalog setting, else the shipped catalog
+ *
+ * @param config Loaded config file (null without one)
+ * @param configPath Path of the config file (the setting is relative to it)
+ * @returns Absolute catalog path
+ */
+export function getProjectCatalogPath(config: AzmpConfig | null, configPath: string | null): string {
+  return config?.apiVersionCatalog
+    ? resolveConfigPath(configPath, config.apiVersionCatalog)
+    : AppConfig.getApiVersionCatalogPath();
+}
+
+/**
+ * Write a catalog file (resource types and versions sorted) and drop its cached copy
+ *
+ * @param catalogPath Catalog file
+ * @param catalog Catalog to write
+ */
+export async function writeApiVersionCatalog(catalogPath: string, catalog: ApiVersionCatalog): Promise<void> {
+  const resourceTypes: Record<string, ApiVersionEntry> = {};
+  for (const resourceType of Object.keys(catalog.resourceTypes).sort()) {
+    const entry = catalog.resourceTypes[resourceType];
+    resourceTypes[resourceType] = { stable: sortVersions(entry.stable), preview: sortVersions(entry.preview) };
+  }
+  await fs.outputFile(catalogPath, JSON.stringify({ ...catalog, resourceTypes }, null, 4) + '\n', 'utf8');
+  catalogCache.delete(path.resolve(catalogPath));
+}
+
+/**
+ * Find the entry of a resource type (ARM resource types are case-insensitive)
+ *
+ * @returns The catalog's spelling of the type and its versions, or undefined
+ */
+export function findApiVersionEntry(
+  catalog: ApiVersionCatalog,
+  resourceType: string
+): { resourceType: string; entry: ApiVersionEntry } | undefined {
+  if (catalog.resourceTypes[resourceType]) {
+    return { resourceType, entry: catalog.resourceTypes[resourceType] };
+  }
+  const lower = resourceType.toLowerCase();
+  const match = Object.keys(catalog.resourceTypes).find(candidate => candidate.toLowerCase() === lower);
+  return match ? { resourceType: match, entry: catalog.resourceTypes[match] } : undefined;
+}
+
+/**
+ * Latest API version of a resource type: the newest stable version, or the
+ * newest preview if the type has no stable version
+ *
+ * @param catalog API version catalog
+ * @param resourceType Fully qualified resource type
+ * @param includePreview Also consider preview versions newer than the latest stable one
+ * @returns The version, or undefined if the type is not in the catalog
+ */
+export function getLatestApiVersion(
+  catalog: ApiVersionCatalog,
+  resourceType: string,
+  includePreview: boolean = false
+): string | undefined {
+  const found = findApiVersionEntry(catalog, resourceType);
+  if (!found) {
+    return undefined;
+  }
+  const { stable, preview } = found.entry;
+  if (includePreview) {
+    return sortVersions([...stable, ...preview])[0];
+  }
+  return sortVersions(stable)[0] ?? sortVersions(preview)[0];
+}
+
+/**
+ * Explain that a resource type is missing from the catalog
+ *
+ * @returns Message with the closest catalog type, if any
+ */
+export function describeUnknownResourceType(catalog: ApiVersionCatalog, resourceType: string): string {
+  return `Resource type '${resourceType}' is not in the API version catalog` +
+    suggestion(resourceType, Object.keys(catalog.resourceTypes));
+}
+
+/**
+ * Compare an apiVersion used for a resource type with the catalog
+ *
+ * @param catalog API version catalog
+ * @param resourceType Fully qualified resource type
+ * @param apiVersion Version used in a template
+ * @returns Status and the version latestApiVersion would render
+ */
+export function classifyApiVersion(
+  catalog: ApiVersionCatalog,
+  resourceType: string,
+  apiVersion: string
+): ApiVersionClassification {
+  const found = findApiVersionEntry(catalog, resourceType);
+  const latest = getLatestApiVersion(catalog, resourceType);
+  if (!found || !latest) {
+    return { status: 'unknown-type' };
+  }
+  if (apiVersion.toLowerCase() === latest.toLowerCase()) {
+    return { status: 'current', latest };
+  }
+  if (compareApiVersions(apiVersion, latest) < 0) {
+    return { status: 'outdated', latest };
+  }
+
+  const known = [...found.entry.stable, ...found.entry.preview].some(version => version.toLowerCase() === apiVersion.toLowerCase());
+  return { status: known && isPreviewApiVersion(apiVersion) ? 'preview' : 'unknown-version', latest };
+}
+
+/**
+ * Merge a refreshed catalog into an existing one: versions of the same type
+ * are combined, types the refresh did not see are kept
+ *
+ * @param base Existing catalog
+ * @param refreshed Catalog built from the specs
+ * @returns Merged catalog with the refreshed source and date
+ */
+export function mergeApiVersionCatalogs(base: ApiVersionCatalog, refreshed: ApiVersionCatalog): ApiVersionCatalog {
+  const resourceTypes = { ...base.resourceTypes };
+  for (const [resourceType, entry] of Object.entries(refreshed.resourceTypes)) {
+    const existing = findApiVersionEntry(base, resourceType);
+    if (existing) {
+      delete resourceTypes[existing.resourceType];
+    }
+    resourceTypes[existing?.resourceType ?? resourceType] = {
+      stable: sortVersions([...entry.stable, ...existing?.entry.stable ?? []]),
+      preview: sortVersions([...entry.preview, ...existing?.entry.preview ?? []])
+    };
+  }
+  return { source: refreshed.source, updated: refreshed.updated, resourceTypes };
+}
+
+/**
+ * Resource type of an ARM operation path that identifies a resource:
+ * /subscriptions/{id}/resourceGroups/{rg}/providers/Microsoft.Storage/storageAccounts/{name}/blobServices/{name}
+ * gives Microsoft.Storage/storageAccounts/blobServices. Collection and action
+ * paths (.../listKeys) give undefined.
+ */
+export function resourceTypeFromPath(operationPath: string): string | undefined {
+  const index = operationPath.toLowerCase().lastIndexOf('/providers/');
+  if (index < 0) {
+    return undefined;
+  }
+  const segments = operationPath.substring(index + '/providers/'.length).split('/').filter(segment => segment.length > 0);
+  const [namespace, ...rest] = segments;
+  if (!/^[A-Za-z][A-Za-z0-9]*(\.[A-Za-z0-9]+)+$/.test(namespace ?? '') || rest.length === 0 || rest.length % 2 !== 0) {
+    return undefined;
+  }
+
+  const types = rest.filter((_, position) => position % 2 === 0);
+  if (types.some(type => type.startsWith('{'))) {
+    return undefined;
+  }
+  return [namespace, ...types].join('/');
+}
+
+/**
+ * Version directories of the specs tree: .../{stable|preview}/<version>
+ */
+async function findVersionDirs(dir: string, found: { dir: string; version: string }[]): Promise<void> {
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || ['examples', 'data-plane', 'node_modules', '.git'].includes(entry.name)) {
+      continue;
+    }
+    const entryPath = path.join(dir, entry.name);
+    if (['stable', 'preview'].includes(path.basename(dir)) && API_VERSION_PATTERN.test(entry.name)) {
+      found.push({ dir: entryPath, version: entry.name });
+    } else {
+      await findVersionDirs(entryPath, found);
+    }
+  }
+}
+
+/**
+ * Build a catalog from a local clone of azure-rest-api-specs
+ *
+ * Every OpenAPI file in a resource-manager `stable/<version>` or
+ * `preview/<version>` directory contributes its version to each resource
+ * type it can create (paths with a PUT operation).
+ *
+ * @param specsDir Clone of azure-rest-api-specs, or its specification/ directory (a sparse checkout is fine)
+ * @param updated Refresh date (default: today)
+ * @returns Catalog of the types found
+ * @throws ValidationError if the directory holds no resource-manager specs
+ */
+export async function buildApiVersionCatalogFromSpecs(
+  specsDir: string,
+  updated: string = new Date().toISOString().substring(0, 10)
+): Promise<ApiVersionCatalog> {
+  if (!await fs.pathExists(specsDir)) {
+    throw new ValidationError(`Specs directory not found: ${specsDir}`, [
+      'Clone https://github.com/Azure/azure-rest-api-specs (a sparse checkout of specification/<service> is enough)'
+    ]);
+  }
+
+  const versionDirs: { dir: string; version: string }[] = [];
+  await findVersionDirs(path.resolve(specsDir), versionDirs);
+
+  // Keyed case-insensitively; the first spelling seen is kept
+  const types = new Map<string, { resourceType: string; stable: Set<string>; preview: Set<string> }>();
+  for (const { dir, version } of versionDirs) {
+    const channel = isPreviewApiVersion(version) || path.basename(path.dirname(dir)) === 'preview' ? 'preview' : 'stable';
+    for (const file of (await fs.readdir(dir)).filter(name => name.endsWith('.json')).sort()) {
+      let spec: { paths?: Record<string, Record<string, unknown>>; 'x-ms-paths'?: Record<string, Record<string, unknown>> };
+      try {
+        spec = await fs.readJson(path.join(dir, file));
+      } catch {
+        continue;
+      }
+      for (const [operationPath, operations] of Object.entries({ ...spec.paths, ...spec['x-ms-paths'] })) {
+        const resourceType = operations && typeof operations === 'object' && 'put' in operations
+          ? resourceTypeFromPath(operationPath.split('?')[0])
+          : undefined;
+        if (!resourceType) {
+          continue;
+        }
+        const key = resourceType.toLowerCase();
+        const entry = types.get(key) ?? { resourceType, stable: new Set<string>(), preview: new Set<string>() };
+        entry[channel].add(version);
+        types.set(key, entry);
+      }
+    }
+  }
+
+  if (types.size === 0) {
+    throw new ValidationError(`No resource-manager API specs found in ${specsDir}`, [
+      'Expected OpenAPI files in specification/<service>/resource-manager/<Namespace>/{stable|preview}/<version>/'
+    ]);
+  }
+
+  const resourceTypes: Record<string, ApiVersionEntry> = {};
+  for (const entry of types.values()) {
+    resourceTypes[entry.resourceType] = { stable: sortVersions(entry.stable), preview: sortVersions(entry.preview) };
+  }
+  return { source: 'azure-rest-api-specs', updated, resourceTypes };
+}
@@ -0,0 +1,179 @@
+/**
+ * API Version Check
+ *
+ * Compares the apiVersion of every resource in existing ARM templates (a
+ * generated output directory, or hand-written templates) with the API version
+ * catalog: top-level and child resources, and the inline templates of nested
+ * deployments. Used by `azmp apiversions check`.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ApiVersionCatalog, ApiVersionStatus, classifyApiVersion } from './api-version-catalog';
+import { GENERATION_RECORD_DIR } from './generation-record';
+import { FileSystemError } from '../utils/error-handler';
+
+/**
+ * An apiVersion found in a template
+ */
+export interface ApiVersionFinding {
+  /** Template file, relative to the checked directory */
+  file: string;
+
+  /** JSON path of the resource (resources[1].resources[0]) */
+  path: string;
+
+  resourceType: string;
+  apiVersion: string;
+  status: ApiVersionStatus;
+
+  /** Version the catalog recommends */
+  latest?: string;
+}
+
+/**
+ * Result of checking a directory
+ */
+export interface ApiVersionCheckResult {
+  /** ARM templates checked, relative to the checked directory */
+  files: string[];
+
+  /** One finding per resource with a literal type and apiVersion */
+  findings: ApiVersionFinding[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * ARM template expressions ("[parameters('x')]") cannot be checked
+ */
+function isLiteral(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && !value.startsWith('[');
+}
+
+/**
+ * Resources of a template or parent resource: an array, or an object keyed
+ * by symbolic name (languageVersion 2.0)
+ */
+function resourceEntries(resources: unknown, basePath: string): [string, JsonObject][] {
+  if (Array.isArray(resources)) {
+    return resources.flatMap((resource, index) =>
+      isObject(resource) ? [[`${basePath}[${index}]`, resource] as [string, JsonObject]] : []);
+  }
+  if (isObject(resources)) {
+    return Object.entries(resources).flatMap(([name, resource]) =>
+      isObject(resource) ? [[`${basePath}.${name}`, resource] as [string, JsonObject]] : []);
+  }
+  return [];
+}
+
+/**
+ * Collect the resources of a template with their fully qualified types
+ */
+function collectResources(
+  resources: unknown,
+  basePath: string,
+  parentType: string | undefined,
+  found: { path: string; resourceType: string; apiVersion: unknown }[]
+): void {
+  for (const [resourcePath, resource] of resourceEntries(resources, basePath)) {
+    if (!isLiteral(resource.type)) {
+      continue;
+    }
+    // Child resources name their type relative to the parent (blobServices)
+    const resourceType = parentType && !resource.type.includes('.') ? `${parentType}/${resource.type}` : resource.type;
+    found.push({ path: resourcePath, resourceType, apiVersion: resource.apiVersion });
+
+    collectResources(resource.resources, `${resourcePath}.resources`, resourceType, found);
+    const properties = resource.properties;
+    if (isObject(properties) && isObject(properties.template)) {
+      collectResources(properties.template.resources, `${resourcePath}.properties.template.resources`, undefined, found);
+    }
+  }
+}
+
+/**
+ * Check the apiVersions of one parsed template
+ *
+ * @param template Parsed ARM template
+ * @param file File name reported in the findings
+ * @param catalog API version catalog
+ * @returns One finding per resource with a literal type and apiVersion
+ */
+export function checkTemplateApiVersions(template: unknown, file: string, catalog: ApiVersionCatalog): ApiVersionFinding[] {
+  if (!isObject(template)) {
+    return [];
+  }
+  const resources: { path: string; resourceType: string; apiVersion: unknown }[] = [];
+  collectResources(template.resources, 'resources', undefined, resources);
+
+  return resources
+    .filter((resource): resource is { path: string; resourceType: string; apiVersion: string } => isLiteral(resource.apiVersion))
+    .map(resource => ({
+      file,
+      path: resource.path,
+      resourceType: resource.resourceType,
+      apiVersion: resource.apiVersion,
+      ...classifyApiVersion(catalog, resource.resourceType, resource.apiVersion)
+    }));
+}
+
+/**
+ * JSON files below a directory, relative to it with forward slashes
+ */
+async function listJsonFiles(dir: string, relativeDir: string = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true })) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory() && ![GENERATION_RECORD_DIR, 'node_modules', '.git'].includes(entry.name)) {
+      files.push(...await listJsonFiles(dir, relativePath));
+    } else if (entry.isFile() && entry.name.endsWith('.json')) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Check the apiVersions of the ARM templates in a directory (or a single template file)
+ *
+ * JSON files without a resources section (createUiDefinition.json,
+ * viewDefinition.json, parameter files) and files that do not parse are skipped.
+ *
+ * @param target Directory or template file
+ * @param catalog API version catalog
+ * @returns Checked templates and findings
+ * @throws FileSystemError if the target does not exist
+ */
+export async function checkApiVersions(target: string, catalog: ApiVersionCatalog): Promise<ApiVersionCheckResult> {
+  if (!await fs.pathExists(target)) {
+    throw new FileSystemError(`Path not found: ${target}`, target);
+  }
+
+  const isFile = (await fs.stat(target)).isFile();
+  const baseDir = isFile ? path.dirname(target) : target;
+  const candidates = isFile ? [path.basename(target)] : await listJsonFiles(target);
+
+  const result: ApiVersionCheckResult = { files: [], findings: [] };
+  for (const file of candidates) {
+    let template: unknown;
+    try {
+      template = await fs.readJson(path.join(baseDir, file));
+    } catch {
+      continue;
+    }
+    if (!isObject(template) || template.resources === undefined) {
+      continue;
+    }
+    result.files.push(file);
+    result.findings.push(...checkTemplateApiVersions(template, file, catalog));
+  }
+  return result;
+}
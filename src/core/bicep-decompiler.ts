@@ -0,0 +1,1028 @@
+/**
+ * Bicep Decompiler
+ *
+ * `azmp create --format bicep` converts the rendered mainTemplate.json into
+ * main.bicep in-process, without the Bicep CLI. The conversion covers the
+ * constructs the templates of this generator use: parameters (constraints
+ * become decorators), variables, resources with conditions, child resources
+ * and dependsOn, outputs, metadata and template expressions. Expressions
+ * become Bicep expressions with symbolic references: `resourceId()` and
+ * `reference()` of a resource declared in the template become
+ * `storageAccount.id` and `storageAccount.properties`, `concat()` and
+ * `format()` become string interpolation. Deployments of linked templates
+ * (`_artifactsLocation`) become modules of the rendered JSON file.
+ *
+ * Loops (`copy`), user-defined functions and inline nested templates with
+ * inner expression scope cannot be converted and are reported together.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import { getLinkedTemplatePath } from './linked-templates';
+import { TemplateGenerationError } from '../utils/error-handler';
+
+/**
+ * Output path of the converted main template
+ */
+export const BICEP_MAIN_OUTPUT = 'main.bicep';
+
+/**
+ * Output formats of `azmp create --format`
+ * - arm: mainTemplate.json
+ * - bicep: main.bicep (the ARM JSON is kept for packaging only)
+ * - both: mainTemplate.json and main.bicep
+ */
+export const OUTPUT_FORMATS = ['arm', 'bicep', 'both'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Result of a conversion
+ */
+export interface BicepDecompileResult {
+  /** Bicep source */
+  content: string;
+
+  /** Entries that were dropped, such as dependsOn entries naming no resource of the template */
+  warnings: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Parsed ARM template expression
+ */
+type Expression =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'call'; name: string; args: Expression[] }
+  | { kind: 'property'; target: Expression; name: string }
+  | { kind: 'index'; target: Expression; index: Expression };
+
+type CallExpression = Extract<Expression, { kind: 'call' }>;
+
+/**
+ * A string built from literal text and expressions, as in a concat() or a resource name
+ */
+type StringPart = string | Expression;
+
+/**
+ * Bicep source of an expression and the precedence of its outermost operator
+ */
+interface Emitted {
+  text: string;
+  precedence: number;
+}
+
+const Precedence = {
+  ternary: 0,
+  or: 1,
+  and: 2,
+  equality: 3,
+  relational: 4,
+  additive: 5,
+  multiplicative: 6,
+  unary: 7,
+  primary: 8
+} as const;
+
+/**
+ * ARM functions that are Bicep operators
+ */
+const OPERATORS: Record<string, { operator: string; precedence: number }> = {
+  equals: { operator: '==', precedence: Precedence.equality },
+  greater: { operator: '>', precedence: Precedence.relational },
+  greaterorequals: { operator: '>=', precedence: Precedence.relational },
+  less: { operator: '<', precedence: Precedence.relational },
+  lessorequals: { operator: '<=', precedence: Precedence.relational },
+  add: { operator: '+', precedence: Precedence.additive },
+  sub: { operator: '-', precedence: Precedence.additive },
+  mul: { operator: '*', precedence: Precedence.multiplicative },
+  div: { operator: '/', precedence: Precedence.multiplicative },
+  mod: { operator: '%', precedence: Precedence.multiplicative },
+  and: { operator: '&&', precedence: Precedence.and },
+  or: { operator: '||', precedence: Precedence.or }
+};
+
+/**
+ * Bicep functions of the az namespace; ARM function names are case-insensitive, Bicep's are not
+ */
+const AZ_FUNCTIONS = [
+  'deployment', 'environment', 'extensionResourceId', 'list', 'listKeys', 'managementGroup',
+  'managementGroupResourceId', 'pickZones', 'providers', 'reference', 'resourceGroup', 'resourceId',
+  'subscription', 'subscriptionResourceId', 'tenant', 'tenantResourceId'
+];
+
+/**
+ * Bicep functions of the sys namespace
+ */
+const SYS_FUNCTIONS = [
+  'any', 'array', 'base64', 'base64ToJson', 'base64ToString', 'bool', 'coalesce', 'concat', 'contains',
+  'dataUri', 'dataUriToString', 'dateTimeAdd', 'dateTimeFromEpoch', 'dateTimeToEpoch', 'empty', 'endsWith',
+  'filter', 'first', 'flatten', 'format', 'guid', 'indexOf', 'int', 'intersection', 'items', 'join', 'json',
+  'last', 'lastIndexOf', 'length', 'map', 'max', 'min', 'newGuid', 'objectKeys', 'padLeft', 'range', 'reduce',
+  'replace', 'shallowMerge', 'skip', 'sort', 'split', 'startsWith', 'string', 'substring', 'take', 'toLower',
+  'toObject', 'toUpper', 'trim', 'union', 'uniqueString', 'uri', 'uriComponent', 'uriComponentToString', 'utcNow'
+];
+
+/**
+ * Functions that always return a string
+ */
+const STRING_FUNCTIONS = [
+  'base64', 'datauri', 'format', 'guid', 'newguid', 'padleft', 'replace', 'string', 'substring', 'tolower',
+  'toupper', 'trim', 'uniquestring', 'uri', 'uricomponent', 'utcnow'
+];
+
+const FUNCTION_NAMES = new Map([...AZ_FUNCTIONS, ...SYS_FUNCTIONS].map(name => [name.toLowerCase(), name]));
+
+/**
+ * Identifiers Bicep reserves for its own statements and literals
+ */
+const KEYWORDS = new Set([
+  'as', 'assert', 'existing', 'extension', 'false', 'for', 'func', 'if', 'import', 'in', 'metadata',
+  'module', 'null', 'output', 'param', 'provider', 'resource', 'targetScope', 'true', 'type', 'using', 'var', 'with'
+]);
+
+const DEPLOYMENTS_TYPE = 'microsoft.resources/deployments';
+
+/**
+ * Members of a resource that are not written as resource properties
+ */
+const RESOURCE_MEMBERS = new Set(['type', 'apiversion', 'name', 'condition', 'dependson', 'resources', 'comments', 'copy']);
+
+/**
+ * A resource or module of the template, with its symbolic name
+ */
+interface DeclaredResource {
+  symbol: string;
+  /** Fully qualified type */
+  type: string;
+  resource: JsonObject;
+  /** Full name (parent/child for child resources) */
+  nameParts: StringPart[];
+  /** Symbol of the parent of a child resource */
+  parent?: string;
+  /** Name relative to the parent */
+  relativeName?: StringPart[];
+  /** Linked template path of a deployment written as a module */
+  module?: string;
+}
+
+interface DecompileContext {
+  parameters: Map<string, string>;
+  /** Parameters of type string or securestring (lower case) */
+  stringParameters: Set<string>;
+  variables: Map<string, string>;
+  resources: DeclaredResource[];
+  /** Every declared symbol */
+  symbols: Set<string>;
+  errors: string[];
+  warnings: string[];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
+
+/**
+ * Parse an ARM template expression (the text between the outer brackets)
+ *
+ * @throws Error if the expression is malformed
+ */
+function parseExpression(source: string): Expression {
+  let position = 0;
+  const syntaxError = (message: string) => new Error(`${message} at position ${position} of [${source}]`);
+  const skipSpace = () => {
+    while (position < source.length && /\s/.test(source[position])) {
+      position++;
+    }
+  };
+
+  const parsePrimary = (): Expression => {
+    skipSpace();
+    if (source[position] === "'") {
+      let value = '';
+      position++;
+      for (;;) {
+        if (position >= source.length) {
+          throw syntaxError('Unterminated string');
+        }
+        if (source[position] === "'") {
+          // '' is an escaped quote
+          if (source[position + 1] !== "'") {
+            position++;
+            return { kind: 'string', value };
+          }
+          position++;
+        }
+        value += source[position++];
+      }
+    }
+
+    const number = /^-?\d+/.exec(source.slice(position));
+    if (number) {
+      position += number[0].length;
+      return { kind: 'number', value: Number(number[0]) };
+    }
+
+    const name = /^[A-Za-z_][\w.]*/.exec(source.slice(position));
+    if (!name) {
+      throw syntaxError('Unexpected character');
+    }
+    position += name[0].length;
+    skipSpace();
+    if (source[position] !== '(') {
+      throw syntaxError(`Expected ( after ${name[0]}`);
+    }
+    position++;
+    const args: Expression[] = [];
+    skipSpace();
+    if (source[position] === ')') {
+      position++;
+      return { kind: 'call', name: name[0], args };
+    }
+    for (;;) {
+      args.push(parseAccess());
+      skipSpace();
+      const separator = source[position++];
+      if (separator === ')') {
+        return { kind: 'call', name: name[0], args };
+      }
+      if (separator !== ',') {
+        position--;
+        throw syntaxError('Expected , or )');
+      }
+    }
+  };
+
+  const parseAccess = (): Expression => {
+    let expression = parsePrimary();
+    for (;;) {
+      skipSpace();
+      if (source[position] === '.') {
+        position++;
+        skipSpace();
+        const name = /^[A-Za-z_$][\w$]*/.exec(source.slice(position));
+        if (!name) {
+          throw syntaxError('Expected a property name');
+        }
+        position += name[0].length;
+        expression = { kind: 'property', target: expression, name: name[0] };
+      } else if (source[position] === '[') {
+        position++;
+        const index = parseAccess();
+        skipSpace();
+        if (source[position] !== ']') {
+          throw syntaxError('Expected ]');
+        }
+        position++;
+        expression = { kind: 'index', target: expression, index };
+      } else {
+        return expression;
+      }
+    }
+  };
+
+  const expression = parseAccess();
+  skipSpace();
+  if (position < source.length) {
+    throw syntaxError('Unexpected text');
+  }
+  return expression;
+}
+
+function isExpressionString(value: string): boolean {
+  return value.startsWith('[') && !value.startsWith('[[') && value.endsWith(']');
+}
+
+/**
+ * Parse a template string value: an expression, or a literal ("[[" escapes a leading bracket)
+ */
+function parseValue(value: string, context: DecompileContext): Expression {
+  if (!isExpressionString(value)) {
+    return { kind: 'string', value: value.startsWith('[[') ? value.substring(1) : value };
+  }
+  try {
+    return parseExpression(value.substring(1, value.length - 1));
+  } catch (error) {
+    context.errors.push((error as Error).message);
+    return { kind: 'string', value };
+  }
+}
+
+function escapeBicepText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\$\{/g, '\\${')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+function bicepString(value: string): string {
+  return `'${escapeBicepText(value)}'`;
+}
+
+function primary(text: string): Emitted {
+  return { text, precedence: Precedence.primary };
+}
+
+function wrap(emitted: Emitted, minimum: number): string {
+  return emitted.precedence < minimum ? `(${emitted.text})` : emitted.text;
+}
+
+function describeCall(call: CallExpression): string {
+  return `${call.name}()`;
+}
+
+/**
+ * Literal text and expressions of a string-valued expression, with nested concat() flattened
+ */
+function stringParts(expression: Expression): StringPart[] {
+  if (expression.kind === 'string') {
+    return [expression.value];
+  }
+  if (expression.kind === 'call' && expression.name.toLowerCase() === 'concat') {
+    return expression.args.flatMap(stringParts);
+  }
+  return [expression];
+}
+
+/**
+ * Merge adjacent literal text and drop empty text
+ */
+function normalizeParts(parts: StringPart[]): StringPart[] {
+  const normalized: StringPart[] = [];
+  for (const part of parts) {
+    const last = normalized[normalized.length - 1];
+    if (typeof part === 'string' && typeof last === 'string') {
+      normalized[normalized.length - 1] = last + part;
+    } else if (part !== '') {
+      normalized.push(part);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Bicep string of literal text and expressions
+ *
+ * @param bare Write a single expression without interpolation (for values known to be strings)
+ */
+function emitParts(parts: StringPart[], context: DecompileContext, bare: boolean = false): Emitted {
+  const normalized = normalizeParts(parts);
+  if (bare && normalized.length === 1 && typeof normalized[0] !== 'string') {
+    return emitExpression(normalized[0], context);
+  }
+  const text = normalized
+    .map(part => (typeof part === 'string' ? escapeBicepText(part) : `\${${emitExpression(part, context).text}}`))
+    .join('');
+  return primary(`'${text}'`);
+}
+
+/**
+ * Comparable form of a string: equal keys name the same resource
+ */
+function partsKey(parts: StringPart[], context: DecompileContext): string {
+  return JSON.stringify(normalizeParts(parts)
+    .map(part => (typeof part === 'string' ? part : { expression: emitExpression(part, context).text })));
+}
+
+/**
+ * Resource declared under the full name given by resourceId(type, name...) arguments
+ */
+function findResourceById(args: Expression[], context: DecompileContext): DeclaredResource | undefined {
+  const [type, ...names] = args;
+  if (!type || type.kind !== 'string' || !type.value.includes('/') || names.length === 0) {
+    return undefined;
+  }
+  const parts = names.flatMap((name, index) => (index === 0 ? stringParts(name) : ['/', ...stringParts(name)]));
+  const key = partsKey(parts, context);
+  return context.resources.find(resource =>
+    resource.type.toLowerCase() === type.value.toLowerCase() && partsKey(resource.nameParts, context) === key);
+}
+
+/**
+ * Resource referred to by a resourceId() expression or by its name
+ */
+function findResource(expression: Expression, context: DecompileContext): DeclaredResource | undefined {
+  if (expression.kind === 'call' && expression.name.toLowerCase() === 'resourceid') {
+    return findResourceById(expression.args, context);
+  }
+  const key = partsKey(stringParts(expression), context);
+  const matches = context.resources.filter(resource => partsKey(resource.nameParts, context) === key);
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * reference(...).outputs.<name>.value of a module: <module>.outputs.<name>
+ */
+function emitModuleOutput(expression: Expression, context: DecompileContext): Emitted | undefined {
+  if (expression.kind !== 'property' || expression.name !== 'value') {
+    return undefined;
+  }
+  const output = expression.target;
+  if (output.kind !== 'property' || output.target.kind !== 'property' || output.target.name !== 'outputs') {
+    return undefined;
+  }
+  const reference = output.target.target;
+  if (reference.kind !== 'call' || reference.name.toLowerCase() !== 'reference' || reference.args.length === 0) {
+    return undefined;
+  }
+  const resource = findResource(reference.args[0], context);
+  return resource?.module ? primary(`${resource.symbol}.outputs.${output.name}`) : undefined;
+}
+
+function emitCall(call: CallExpression, context: DecompileContext): Emitted {
+  const name = call.name.toLowerCase();
+  const args = call.args;
+  const emitArgs = () => args.map(arg => emitExpression(arg, context).text).join(', ');
+
+  if (name.includes('.')) {
+    context.errors.push(`User-defined function ${describeCall(call)} cannot be converted`);
+    return primary(`${call.name}(${emitArgs()})`);
+  }
+
+  switch (name) {
+    case 'parameters':
+    case 'variables': {
+      const declared = name === 'parameters' ? context.parameters : context.variables;
+      const [arg] = args;
+      if (args.length !== 1 || arg.kind !== 'string') {
+        context.errors.push(`${describeCall(call)} with a computed name cannot be converted`);
+        return primary(`${call.name}(${emitArgs()})`);
+      }
+      const symbol = declared.get(arg.value.toLowerCase());
+      if (!symbol) {
+        context.errors.push(`${call.name}('${arg.value}') is not declared`);
+        return primary(arg.value);
+      }
+      return primary(symbol);
+    }
+    case 'true':
+    case 'false':
+    case 'null':
+      if (args.length === 0) {
+        return primary(name);
+      }
+      break;
+    case 'not':
+      if (args.length === 1) {
+        return { text: `!${wrap(emitExpression(args[0], context), Precedence.unary)}`, precedence: Precedence.unary };
+      }
+      break;
+    case 'if':
+      if (args.length === 3) {
+        const [condition, whenTrue, whenFalse] = args.map(arg => emitExpression(arg, context));
+        return {
+          text: `${wrap(condition, Precedence.or)} ? ${wrap(whenTrue, Precedence.or)} : ${wrap(whenFalse, Precedence.or)}`,
+          precedence: Precedence.ternary
+        };
+      }
+      break;
+    case 'concat':
+      // Arrays are concatenated by concat() too; one string argument makes it a string
+      if (args.some(arg => isStringExpression(arg, context))) {
+        return emitParts(args.flatMap(stringParts), context);
+      }
+      break;
+    case 'format': {
+      const parts = formatParts(args);
+      if (parts) {
+        return emitParts(parts, context);
+      }
+      break;
+    }
+    case 'createarray':
+      return primary(`[${emitArgs()}]`);
+    case 'createobject': {
+      const entries: string[] = [];
+      for (let index = 0; index + 1 < args.length; index += 2) {
+        const key = args[index];
+        const value = emitExpression(args[index + 1], context).text;
+        entries.push(key.kind === 'string' ? `${objectKey(key.value)}: ${value}` : `'\${${emitExpression(key, context).text}}': ${value}`);
+      }
+      return primary(entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}');
+    }
+    case 'resourceid': {
+      const resource = findResourceById(args, context);
+      if (resource && !resource.module) {
+        return primary(`${resource.symbol}.id`);
+      }
+      break;
+    }
+    case 'reference': {
+      const resource = args.length > 0 ? findResource(args[0], context) : undefined;
+      if (resource && !resource.module) {
+        const full = args.length > 2 && args[2].kind === 'string' && args[2].value.toLowerCase() === 'full';
+        return primary(full ? resource.symbol : `${resource.symbol}.properties`);
+      }
+      if (resource?.module) {
+        context.errors.push(`reference() of module ${resource.symbol} is only supported as .outputs.<name>.value`);
+      }
+      break;
+    }
+    case 'copyindex':
+      context.errors.push('copyIndex() cannot be converted (copy loops are not supported)');
+      break;
+  }
+
+  const operator = OPERATORS[name];
+  if (operator && args.length >= 2 && (args.length === 2 || name === 'and' || name === 'or')) {
+    return args.slice(1).reduce<Emitted>((left, arg) => ({
+      text: `${wrap(left, operator.precedence)} ${operator.operator} ${wrap(emitExpression(arg, context), operator.precedence + 1)}`,
+      precedence: operator.precedence
+    }), emitExpression(args[0], context));
+  }
+
+  // A declared symbol of the same name hides the function
+  const functionName = FUNCTION_NAMES.get(name) ?? call.name;
+  const namespace = AZ_FUNCTIONS.includes(functionName) ? 'az' : 'sys';
+  const qualified = context.symbols.has(functionName) ? `${namespace}.${functionName}` : functionName;
+  return primary(`${qualified}(${emitArgs()})`);
+}
+
+/**
+ * Whether an expression is known to be a string: literal text, a string parameter or a string function
+ */
+function isStringExpression(expression: Expression, context: DecompileContext): boolean {
+  if (expression.kind === 'string') {
+    return true;
+  }
+  if (expression.kind !== 'call') {
+    return false;
+  }
+  const name = expression.name.toLowerCase();
+  const [arg] = expression.args;
+  if (name === 'parameters' && arg?.kind === 'string') {
+    return context.stringParameters.has(arg.value.toLowerCase());
+  }
+  if (name === 'concat') {
+    return expression.args.some(item => isStringExpression(item, context));
+  }
+  return STRING_FUNCTIONS.includes(name);
+}
+
+/**
+ * Literal text and arguments of format('{0}-{1}', a, b), or undefined for format specifiers
+ */
+function formatParts(args: Expression[]): StringPart[] | undefined {
+  const [format, ...values] = args;
+  if (!format || format.kind !== 'string') {
+    return undefined;
+  }
+  const parts: StringPart[] = [];
+  const pattern = /\{\{|\}\}|\{(\d+)\}|[{}]/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(format.value)) !== null) {
+    parts.push(format.value.substring(last, match.index));
+    last = match.index + match[0].length;
+    if (match[0] === '{{' || match[0] === '}}') {
+      parts.push(match[0][0]);
+    } else if (match[1] !== undefined && Number(match[1]) < values.length) {
+      parts.push(values[Number(match[1])]);
+    } else {
+      return undefined;
+    }
+  }
+  parts.push(format.value.substring(last));
+  return parts;
+}
+
+function emitExpression(expression: Expression, context: DecompileContext): Emitted {
+  switch (expression.kind) {
+    case 'string':
+      return primary(bicepString(expression.value));
+    case 'number':
+      return expression.value < 0
+        ? { text: String(expression.value), precedence: Precedence.unary }
+        : primary(String(expression.value));
+    case 'call':
+      return emitCall(expression, context);
+    case 'property': {
+      const moduleOutput = emitModuleOutput(expression, context);
+      if (moduleOutput) {
+        return moduleOutput;
+      }
+      const target = wrap(emitExpression(expression.target, context), Precedence.primary);
+      return primary(isIdentifier(expression.name) ? `${target}.${expression.name}` : `${target}[${bicepString(expression.name)}]`);
+    }
+    case 'index':
+      return primary(`${wrap(emitExpression(expression.target, context), Precedence.primary)}[${emitExpression(expression.index, context).text}]`);
+  }
+}
+
+function objectKey(key: string): string {
+  return isIdentifier(key) ? key : bicepString(key);
+}
+
+/**
+ * Bicep value of a template value; nested lines are indented below indent
+ */
+function emitValue(value: unknown, indent: string, context: DecompileContext): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : `json('${value}')`;
+  }
+  if (typeof value === 'string') {
+    return emitExpression(parseValue(value, context), context).text;
+  }
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? '[]'
+      : `[\n${value.map(item => inner + emitValue(item, inner, context)).join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value as JsonObject);
+  return entries.length === 0
+    ? '{}'
+    : `{\n${entries.map(([key, item]) => `${inner}${objectKey(key)}: ${emitValue(item, inner, context)}`).join('\n')}\n${indent}}`;
+}
+
+/**
+ * Decorator, qualified with sys. when a declared symbol has its name
+ */
+function decorator(name: string, argument: string | undefined, context: DecompileContext): string {
+  const qualified = context.symbols.has(name) ? `sys.${name}` : name;
+  return `@${qualified}(${argument ?? ''})`;
+}
+
+/**
+ * Bicep type of an ARM parameter or output type, and whether it is secure
+ */
+function bicepType(type: unknown, owner: string, context: DecompileContext): { type: string; secure: boolean } {
+  const normalized = typeof type === 'string' ? type.toLowerCase() : '';
+  switch (normalized) {
+    case 'string':
+    case 'int':
+    case 'bool':
+    case 'array':
+    case 'object':
+      return { type: normalized, secure: false };
+    case 'securestring':
+      return { type: 'string', secure: true };
+    case 'secureobject':
+      return { type: 'object', secure: true };
+    default:
+      context.errors.push(`${owner}: type ${JSON.stringify(type)} cannot be converted`);
+      return { type: 'object', secure: false };
+  }
+}
+
+/**
+ * Decorators for a description and the remaining metadata
+ */
+function metadataDecorators(metadata: unknown, context: DecompileContext): string[] {
+  if (!isObject(metadata)) {
+    return [];
+  }
+  const { description, ...rest } = metadata;
+  const decorators: string[] = [];
+  if (typeof description === 'string') {
+    decorators.push(decorator('description', bicepString(description), context));
+  }
+  if (Object.keys(rest).length > 0) {
+    decorators.push(decorator('metadata', emitValue(rest, '', context), context));
+  }
+  return decorators;
+}
+
+function emitParameter(name: string, definition: unknown, context: DecompileContext): string {
+  if (!isObject(definition)) {
+    context.errors.push(`Parameter ${name} must be an object`);
+    return '';
+  }
+  const { type, secure } = bicepType(definition.type, `Parameter ${name}`, context);
+  const lines = metadataDecorators(definition.metadata, context);
+  if (secure) {
+    lines.push(decorator('secure', undefined, context));
+  }
+  if (Array.isArray(definition.allowedValues)) {
+    lines.push(decorator('allowed', emitValue(definition.allowedValues, '', context), context));
+  }
+  for (const constraint of ['minValue', 'maxValue', 'minLength', 'maxLength']) {
+    if (definition[constraint] !== undefined) {
+      lines.push(decorator(constraint, emitValue(definition[constraint], '', context), context));
+    }
+  }
+  const defaultValue = definition.defaultValue !== undefined ? ` = ${emitValue(definition.defaultValue, '', context)}` : '';
+  lines.push(`param ${context.parameters.get(name.toLowerCase())} ${type}${defaultValue}`);
+  return lines.join('\n');
+}
+
+function emitOutput(name: string, definition: unknown, context: DecompileContext): string {
+  if (!isObject(definition)) {
+    context.errors.push(`Output ${name} must be an object`);
+    return '';
+  }
+  if (!isIdentifier(name) || KEYWORDS.has(name)) {
+    context.errors.push(`Output ${name}: the name is not a valid Bicep identifier`);
+  }
+  if (definition.copy !== undefined) {
+    context.errors.push(`Output ${name}: copy loops are not supported`);
+  }
+  if (definition.condition !== undefined) {
+    context.errors.push(`Output ${name}: conditional outputs are not supported`);
+  }
+  const { type, secure } = bicepType(definition.type, `Output ${name}`, context);
+  const lines = metadataDecorators(definition.metadata, context);
+  if (secure) {
+    lines.push(decorator('secure', undefined, context));
+  }
+  lines.push(`output ${name} ${type} = ${emitValue(definition.value, '', context)}`);
+  return lines.join('\n');
+}
+
+/**
+ * Symbol for a resource: the last segment of its type, singular ("storageAccounts" → "storageAccount")
+ */
+function resourceSymbolBase(type: string, module: string | undefined): string {
+  if (module) {
+    const file = module.split('/').pop()?.replace(/\.json$/i, '') ?? 'linked';
+    return `${file}Deployment`;
+  }
+  const segment = type.split('/').pop() ?? 'resource';
+  const singular = segment.endsWith('ies')
+    ? `${segment.slice(0, -3)}y`
+    : segment.endsWith('s') && !segment.endsWith('ss') ? segment.slice(0, -1) : segment;
+  return singular.charAt(0).toLowerCase() + singular.slice(1);
+}
+
+/**
+ * Claim a unique symbol, avoiding keywords and (for resources) function names
+ */
+function claimSymbol(base: string, context: DecompileContext, suffix: string, avoidFunctions: boolean): string {
+  const sanitized = base.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(\d)/, '_$1');
+  const reserved = (candidate: string) => context.symbols.has(candidate) || KEYWORDS.has(candidate) ||
+    (avoidFunctions && FUNCTION_NAMES.has(candidate.toLowerCase()));
+  let symbol = reserved(sanitized) ? `${sanitized}${suffix}` : sanitized;
+  for (let counter = 2; reserved(symbol); counter++) {
+    symbol = `${sanitized}${suffix}${counter}`;
+  }
+  context.symbols.add(symbol);
+  return symbol;
+}
+
+/**
+ * Declare every resource of the template, child resources after their parent
+ */
+function declareResources(
+  resources: unknown,
+  parent: DeclaredResource | undefined,
+  context: DecompileContext,
+  location: string
+): void {
+  if (resources === undefined) {
+    return;
+  }
+  if (!Array.isArray(resources)) {
+    context.errors.push(`${location}: resources keyed by symbolic name (languageVersion 2.0) are not supported`);
+    return;
+  }
+  resources.forEach((resource, index) => {
+    const resourceLocation = `${location}[${index}]`;
+    if (!isObject(resource) || typeof resource.type !== 'string' || typeof resource.name !== 'string') {
+      context.errors.push(`${resourceLocation}: a resource needs a type and a name`);
+      return;
+    }
+    if (resource.copy !== undefined) {
+      context.errors.push(`${resourceLocation} (${resource.type}): copy loops are not supported`);
+    }
+    const type = parent && !resource.type.includes('.') ? `${parent.type}/${resource.type}` : resource.type;
+    const nameParts = stringParts(parseValue(resource.name, context));
+    const module = moduleTemplatePath(type, resource, resourceLocation, context);
+    const declared: DeclaredResource = parent
+      ? { symbol: '', type, resource, nameParts: [...parent.nameParts, '/', ...nameParts], parent: parent.symbol, relativeName: nameParts }
+      : { symbol: '', type, resource, nameParts };
+    if (module) {
+      declared.module = module;
+    }
+    declared.symbol = claimSymbol(resourceSymbolBase(type, module), context, 'Resource', true);
+    context.resources.push(declared);
+    declareResources(resource.resources, declared, context, `${resourceLocation}.resources`);
+  });
+}
+
+/**
+ * Linked template of a deployment that becomes a module, if it is one
+ */
+function moduleTemplatePath(type: string, resource: JsonObject, location: string, context: DecompileContext): string | undefined {
+  if (type.toLowerCase() !== DEPLOYMENTS_TYPE || !isObject(resource.properties)) {
+    return undefined;
+  }
+  const properties = resource.properties;
+  const scope = isObject(properties.expressionEvaluationOptions) ? properties.expressionEvaluationOptions.scope : undefined;
+  if (isObject(properties.template) && typeof scope === 'string' && scope.toLowerCase() === 'inner') {
+    context.errors.push(`${location}: inline nested templates with inner expression scope cannot be converted ` +
+      '(generate without --inline-linked-templates; linked templates become Bicep modules)');
+    return undefined;
+  }
+  return isObject(properties.templateLink) ? getLinkedTemplatePath(properties.templateLink.uri) : undefined;
+}
+
+/**
+ * Flattened child resources ("parent/child" names) get their parent as a parent property
+ */
+function linkParents(context: DecompileContext): void {
+  for (const declared of context.resources) {
+    const segments = declared.type.split('/');
+    if (declared.parent || declared.module || segments.length < 3) {
+      continue;
+    }
+    const parts = normalizeParts(declared.nameParts);
+    const split = parts.map(part => (typeof part === 'string' ? part.lastIndexOf('/') : -1))
+      .reduce((found, slash, index) => (slash >= 0 ? index : found), -1);
+    if (split < 0) {
+      continue;
+    }
+    const text = parts[split] as string;
+    const slash = text.lastIndexOf('/');
+    const parentParts = [...parts.slice(0, split), text.substring(0, slash)];
+    const relativeName = [text.substring(slash + 1), ...parts.slice(split + 1)];
+    const parentType = segments.slice(0, -1).join('/').toLowerCase();
+    const key = partsKey(parentParts, context);
+    const parent = context.resources.find(candidate =>
+      candidate !== declared && candidate.type.toLowerCase() === parentType && partsKey(candidate.nameParts, context) === key);
+    if (parent) {
+      declared.parent = parent.symbol;
+      declared.relativeName = relativeName;
+    }
+  }
+}
+
+/**
+ * Symbols of the dependsOn entries of a resource (the parent is implied)
+ */
+function resolveDependencies(declared: DeclaredResource, context: DecompileContext): string[] {
+  const dependsOn = declared.resource.dependsOn;
+  if (!Array.isArray(dependsOn)) {
+    return [];
+  }
+  const symbols: string[] = [];
+  for (const entry of dependsOn) {
+    const target = typeof entry === 'string' ? findResource(parseValue(entry, context), context) : undefined;
+    if (!target) {
+      context.warnings.push(`${declared.symbol}: dropped dependsOn ${JSON.stringify(entry)} (no resource of the template has that name)`);
+    } else if (target.symbol !== declared.parent && target !== declared && !symbols.includes(target.symbol)) {
+      symbols.push(target.symbol);
+    }
+  }
+  return symbols;
+}
+
+function emitResource(declared: DeclaredResource, context: DecompileContext): string {
+  const resource = declared.resource;
+  const lines: string[] = [];
+  if (typeof resource.comments === 'string') {
+    lines.push(...resource.comments.split('\n').map(line => `// ${line}`));
+  }
+  const condition = resource.condition !== undefined ? `if (${emitValue(resource.condition, '', context)}) ` : '';
+  const body: Array<[string, string]> = [];
+  const dependencies = resolveDependencies(declared, context);
+
+  if (declared.module) {
+    lines.push(`module ${declared.symbol} ${bicepString(declared.module)} = ${condition}{`);
+    body.push(['name', emitParts(declared.nameParts, context, true).text]);
+    const properties = resource.properties as JsonObject;
+    const parameters = isObject(properties.parameters) ? properties.parameters : {};
+    const params: JsonObject = {};
+    for (const [name, parameter] of Object.entries(parameters)) {
+      if (!isObject(parameter) || !('value' in parameter)) {
+        context.errors.push(`${declared.symbol}: parameter ${name} of a linked template must be given as a value`);
+        continue;
+      }
+      params[name] = parameter.value;
+    }
+    if (Object.keys(params).length > 0) {
+      body.push(['params', emitValue(params, '  ', context)]);
+    }
+    for (const member of ['resourceGroup', 'subscriptionId']) {
+      if (resource[member] !== undefined) {
+        context.errors.push(`${declared.symbol}: deployments to another ${member === 'resourceGroup' ? 'resource group' : 'subscription'} are not supported`);
+      }
+    }
+  } else {
+    lines.push(`resource ${declared.symbol} ${bicepString(`${declared.type}@${String(resource.apiVersion)}`)} = ${condition}{`);
+    if (declared.parent && declared.relativeName) {
+      body.push(['parent', declared.parent]);
+      body.push(['name', emitParts(declared.relativeName, context, true).text]);
+    } else {
+      body.push(['name', emitParts(declared.nameParts, context, true).text]);
+    }
+    for (const [member, value] of Object.entries(resource)) {
+      if (!RESOURCE_MEMBERS.has(member.toLowerCase())) {
+        body.push([objectKey(member), emitValue(value, '  ', context)]);
+      }
+    }
+  }
+
+  if (dependencies.length > 0) {
+    body.push(['dependsOn', `[\n${dependencies.map(symbol => `    ${symbol}`).join('\n')}\n  ]`]);
+  }
+  lines.push(...body.map(([key, value]) => `  ${key}: ${value}`), '}');
+  return lines.join('\n');
+}
+
+/**
+ * Bicep targetScope of a template's $schema (undefined for resource group deployments)
+ */
+function targetScope(schema: unknown): string | undefined {
+  const scopes: Record<string, string> = {
+    subscriptionDeploymentTemplate: 'subscription',
+    managementGroupDeploymentTemplate: 'managementGroup',
+    tenantDeploymentTemplate: 'tenant'
+  };
+  const match = typeof schema === 'string' ? Object.keys(scopes).find(name => schema.includes(name)) : undefined;
+  return match ? scopes[match] : undefined;
+}
+
+/**
+ * Convert an ARM template to Bicep
+ *
+ * @param template Parsed ARM template (mainTemplate.json)
+ * @returns Bicep source and the entries that were dropped
+ * @throws TemplateGenerationError listing every construct that cannot be converted
+ */
+export function decompileToBicep(template: unknown): BicepDecompileResult {
+  if (!isObject(template)) {
+    throw new TemplateGenerationError('Cannot convert to Bicep: the template is not a JSON object');
+  }
+  const context: DecompileContext = {
+    parameters: new Map(),
+    stringParameters: new Set(),
+    variables: new Map(),
+    resources: [],
+    symbols: new Set(),
+    errors: [],
+    warnings: []
+  };
+
+  if (template.languageVersion !== undefined || template.definitions !== undefined) {
+    context.errors.push('languageVersion 2.0 templates (definitions, symbolic resources) are not supported');
+  }
+  if (Array.isArray(template.functions) && template.functions.length > 0) {
+    context.errors.push('User-defined functions are not supported');
+  }
+
+  // Parameters keep their names: they are the deployment's interface
+  const parameters = isObject(template.parameters) ? template.parameters : {};
+  for (const name of Object.keys(parameters)) {
+    if (!isIdentifier(name) || KEYWORDS.has(name)) {
+      context.errors.push(`Parameter ${name}: the name is not a valid Bicep identifier`);
+    }
+    context.parameters.set(name.toLowerCase(), name);
+    context.symbols.add(name);
+    const definition = parameters[name];
+    if (isObject(definition) && typeof definition.type === 'string' && ['string', 'securestring'].includes(definition.type.toLowerCase())) {
+      context.stringParameters.add(name.toLowerCase());
+    }
+  }
+  const variables = isObject(template.variables) ? template.variables : {};
+  for (const name of Object.keys(variables)) {
+    if (name === 'copy') {
+      context.errors.push('Variable copy loops are not supported');
+      continue;
+    }
+    context.variables.set(name.toLowerCase(), claimSymbol(name, context, 'Var', false));
+  }
+  declareResources(template.resources, undefined, context, 'resources');
+  linkParents(context);
+
+  const sections: string[][] = [];
+  const scope = targetScope(template.$schema);
+  if (scope) {
+    sections.push([`targetScope = ${bicepString(scope)}`]);
+  }
+  const metadata = isObject(template.metadata) ? template.metadata : {};
+  sections.push(Object.entries(metadata).flatMap(([name, value]) =>
+    (isIdentifier(name) ? [`metadata ${name} = ${emitValue(value, '', context)}`] : [])));
+  sections.push(Object.entries(parameters).map(([name, definition]) => emitParameter(name, definition, context)));
+  sections.push(Object.entries(variables).filter(([name]) => name !== 'copy')
+    .map(([name, value]) => `var ${context.variables.get(name.toLowerCase())} = ${emitValue(value, '', context)}`));
+  sections.push(context.resources.map(declared => emitResource(declared, context)));
+  const outputs = isObject(template.outputs) ? template.outputs : {};
+  sections.push(Object.entries(outputs).map(([name, definition]) => emitOutput(name, definition, context)));
+
+  if (context.errors.length > 0) {
+    throw new TemplateGenerationError('Cannot convert mainTemplate.json to Bicep', undefined, Array.from(new Set(context.errors)));
+  }
+
+  // Declarations with decorators or bodies are separated by blank lines
+  const content = sections
+    .filter(section => section.length > 0)
+    .map(section => section.join(section.some(statement => statement.includes('\n')) ? '\n\n' : '\n'))
+    .join('\n\n');
+  return { content: `${content}\n`, warnings: context.warnings };
+}
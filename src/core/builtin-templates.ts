@@ -0,0 +1,40 @@
+/**
+ * Built-in Template Types
+ *
+ * Template types shipped with the generator. They are registered in the
+ * template registry before plugins load, so plugin templates cannot shadow them.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import { TemplateMetadata } from './plugin';
+import { TemplateRegistry, templateRegistry } from './template-registry';
+
+/**
+ * Templates bundled in src/templates
+ */
+export const BUILT_IN_TEMPLATES: TemplateMetadata[] = [
+  {
+    type: 'storage',
+    name: 'Azure Storage',
+    description: 'Storage account managed application with security and data protection settings',
+    version: '3.1.0',
+    templatePath: 'storage',
+    tags: ['storage', 'security', 'data-protection']
+  }
+];
+
+/**
+ * Register the built-in templates with a registry
+ * Templates that are already registered are skipped, so this is safe to call repeatedly
+ *
+ * @param registry Registry to register with (defaults to the global registry)
+ */
+export function registerBuiltInTemplates(registry: TemplateRegistry = templateRegistry): void {
+  for (const template of BUILT_IN_TEMPLATES) {
+    if (!registry.hasTemplate(template.type)) {
+      registry.registerTemplate(template);
+    }
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * Generation Record
+ *
+ * Every full generation run writes its provenance to `.azmp/generation.json`
+ * in the output directory: the inputs it was rendered from (including the
+ * seed), the generator, template and plugin versions, the helper set, and a
+ * SHA-256 hash of every output. Auditors can trace a package back to its
+ * source with it, and `azmp validate` reports outputs that no longer match
+ * their hash. `azmp diff` re-renders
+ * from that record to show what a fresh render would change, even after
+ * the generated files were edited by hand or the generator was upgraded.
+ * A copy of the rendered files is kept in `.azmp/base/` as the common
+ * ancestor for `azmp upgrade`'s three-way merge. A `--format bicep` run keeps
+ * the ARM JSON it converted to main.bicep in `.azmp/compiled/` for packaging.
+ *
+ * The `.azmp/` directory is bookkeeping only and is left out of packages.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+import { TemplateConfig } from './generator';
+import { OUTPUT_FORMATS, OutputFormat } from './bicep-decompiler';
+import { ViewDefinitionView } from './view-definition';
+
+/**
+ * Bookkeeping directory inside an output directory
+ */
+export const GENERATION_RECORD_DIR = '.azmp';
+
+/**
+ * Record file name inside GENERATION_RECORD_DIR
+ */
+export const GENERATION_RECORD_FILE = 'generation.json';
+
+/**
+ * Directory inside GENERATION_RECORD_DIR holding the files as rendered
+ */
+export const GENERATION_BASE_DIR = 'base';
+
+/**
+ * Directory inside GENERATION_RECORD_DIR holding the ARM JSON of a bicep-only run
+ */
+export const GENERATION_COMPILED_DIR = 'compiled';
+
+/**
+ * A plugin and its version
+ */
+export interface PluginVersion {
+  id: string;
+  version: string;
+}
+
+/**
+ * A template type of a composed run and its version
+ */
+export interface ComposedTemplate {
+  type: string;
+  templateVersion: string;
+  /** Plugin that provides the template (omitted for built-in templates) */
+  plugin?: PluginVersion;
+}
+
+/**
+ * Everything about a run that is not part of its config
+ */
+export interface GenerationProvenance {
+  /** Generator version */
+  generatorVersion: string;
+
+  /** Version of the rendered template (TemplateMetadata.version) */
+  templateVersion: string;
+
+  /** Plugin that provides the template (undefined for built-in templates) */
+  plugin?: PluginVersion;
+
+  /** Every plugin registered for the run */
+  plugins: PluginVersion[];
+
+  /** Template types of a composed run, in composition order */
+  compose?: ComposedTemplate[];
+
+  /** Names of the Handlebars helpers available to the templates */
+  helpers: string[];
+
+  /** Rendered outputs and their content */
+  outputs: Array<{ output: string; content: string }>;
+
+  /** Timestamp rendered into the output */
+  generatedAt?: string;
+}
+
+/**
+ * Inputs, versions and outputs of a generation run
+ */
+export interface GenerationRecord {
+  /** Generator version that rendered the output */
+  generatorVersion: string;
+
+  /** Template type (the first template type of a composed run) */
+  type: string;
+
+  /** Template types of a composed run, in composition order */
+  compose?: ComposedTemplate[];
+
+  /** Version of the rendered template */
+  templateVersion: string;
+
+  /** Plugin that provides the template (omitted for built-in templates) */
+  plugin?: PluginVersion;
+
+  /** Every plugin registered for the run */
+  plugins: PluginVersion[];
+
+  /** Names of the Handlebars helpers available to the templates */
+  helpers: string[];
+
+  /** Publisher name */
+  publisher: string;
+
+  /** Application name */
+  name: string;
+
+  /** Seed of a deterministic run */
+  seed?: string;
+
+  /** Whether suffixes were derived from the inputs instead of random */
+  deterministic: boolean;
+
+  /** Parameter values supplied to the run (before defaults were applied; per template type if composed) */
+  parameters: Record<string, unknown>;
+
+  /** viewDefinition views from azmp.config.json that replaced the manifest's */
+  views?: ViewDefinitionView[];
+
+  /** Locale of the resource strings (omitted for runs without --locale) */
+  locale?: string;
+
+  /** Whether linked templates were inlined into mainTemplate.json */
+  inlineLinkedTemplates?: boolean;
+
+  /** Output format (omitted for ARM JSON) */
+  format?: OutputFormat;
+
+  /** Project templates directory, relative to the output directory */
+  templatesDir?: string;
+
+  /** API version catalog of the project, relative to the output directory (omitted for the shipped catalog) */
+  apiVersionCatalog?: string;
+
+  /** Timestamp rendered into the output (omitted for deterministic runs without SOURCE_DATE_EPOCH) */
+  generatedAt?: string;
+
+  /** Output files, relative to the output directory */
+  files: string[];
+
+  /** SHA-256 (hex) of each output file as rendered */
+  sha256: Record<string, string>;
+}
+
+/**
+ * Outputs whose content no longer matches the generation record
+ */
+export interface IntegrityReport {
+  /** Outputs that match their recorded hash */
+  verified: string[];
+
+  /** Outputs changed since generation */
+  modified: string[];
+
+  /** Outputs that no longer exist */
+  missing: string[];
+}
+
+/**
+ * SHA-256 of a file's content (hex)
+ */
+export function sha256(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Path of the generation record of an output directory
+ */
+export function getGenerationRecordPath(outputDir: string): string {
+  return path.join(outputDir, GENERATION_RECORD_DIR, GENERATION_RECORD_FILE);
+}
+
+/**
+ * Directory holding the files of an output directory as they were rendered
+ */
+export function getGenerationBaseDir(outputDir: string): string {
+  return path.join(outputDir, GENERATION_RECORD_DIR, GENERATION_BASE_DIR);
+}
+
+/**
+ * Directory holding the ARM JSON of a bicep-only run (see GENERATION_COMPILED_DIR)
+ */
+export function getGenerationCompiledDir(outputDir: string): string {
+  return path.join(outputDir, GENERATION_RECORD_DIR, GENERATION_COMPILED_DIR);
+}
+
+/**
+ * Describe a generation run
+ *
+ * @param config Generation config of the run
+ * @param provenance Versions, helpers and outputs of the run
+ */
+export function createGenerationRecord(config: TemplateConfig, provenance: GenerationProvenance): GenerationRecord {
+  const outputs = [...provenance.outputs].sort((a, b) => a.output.localeCompare(b.output));
+  // Relative, so the output directory can be moved together with the project
+  const relativeToOutput = (target: string | undefined): string | undefined => (target
+    ? path.relative(path.resolve(config.output), path.resolve(target)).split(path.sep).join('/')
+    : undefined);
+
+  // Built in reading order; undefined members are dropped when the record is written
+  return {
+    generatorVersion: provenance.generatorVersion,
+    type: config.type,
+    compose: provenance.compose,
+    templateVersion: provenance.templateVersion,
+    plugin: provenance.plugin,
+    plugins: provenance.plugins,
+    publisher: config.publisher,
+    name: config.name,
+    seed: config.seed,
+    deterministic: config.deterministic === true || config.seed !== undefined,
+    parameters: config.parameters ?? {},
+    views: config.views,
+    locale: config.locale,
+    inlineLinkedTemplates: config.inlineLinkedTemplates ? true : undefined,
+    format: config.format && config.format !== 'arm' ? config.format : undefined,
+    templatesDir: relativeToOutput(config.templatesDir),
+    apiVersionCatalog: relativeToOutput(config.apiVersionCatalog),
+    generatedAt: provenance.generatedAt,
+    helpers: [...provenance.helpers].sort(),
+    files: outputs.map(entry => entry.output),
+    sha256: Object.fromEntries(outputs.map(entry => [entry.output, sha256(entry.content)]))
+  };
+}
+
+/**
+ * Write the generation record of an output directory
+ */
+export async function writeGenerationRecord(outputDir: string, record: GenerationRecord): Promise<void> {
+  const recordPath = getGenerationRecordPath(outputDir);
+  await fs.ensureDir(path.dirname(recordPath));
+  await fs.writeFile(recordPath, JSON.stringify(record, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Keep the rendered files as the base of later upgrades
+ *
+ * @param outputDir Output directory
+ * @param files Rendered outputs and their content
+ * @param replace Remove base files of outputs that were not rendered (false for partial renders)
+ */
+export async function writeGenerationBase(
+  outputDir: string,
+  files: Array<{ output: string; content: string }>,
+  replace: boolean = true
+): Promise<void> {
+  const baseDir = getGenerationBaseDir(outputDir);
+  if (replace) {
+    await fs.emptyDir(baseDir);
+  }
+  for (const file of files) {
+    await fs.outputFile(path.join(baseDir, file.output), file.content, 'utf8');
+  }
+}
+
+/**
+ * Keep the ARM JSON a bicep-only run converted, which is not written to the output directory
+ *
+ * @param outputDir Output directory
+ * @param files ARM templates and their content (none removes the directory)
+ */
+export async function writeGenerationCompiled(
+  outputDir: string,
+  files: Array<{ output: string; content: string }>
+): Promise<void> {
+  const compiledDir = getGenerationCompiledDir(outputDir);
+  await fs.remove(compiledDir);
+  for (const file of files) {
+    await fs.outputFile(path.join(compiledDir, file.output), file.content, 'utf8');
+  }
+}
+
+/**
+ * Read the generation record of an output directory
+ *
+ * @param outputDir Output directory of an earlier run
+ * @returns The record
+ * @throws FileSystemError if the directory has no record
+ * @throws ValidationError if the record is malformed
+ */
+export async function readGenerationRecord(outputDir: string): Promise<GenerationRecord> {
+  const recordPath = getGenerationRecordPath(outputDir);
+  if (!await fs.pathExists(recordPath)) {
+    throw new FileSystemError(
+      `No generation record found; regenerate the output with this version of azmp create`,
+      recordPath
+    );
+  }
+
+  let record: Partial<GenerationRecord>;
+  try {
+    record = JSON.parse(await fs.readFile(recordPath, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(`Invalid generation record: ${recordPath}`, [(error as Error).message]);
+  }
+
+  const errors: string[] = [];
+  for (const key of ['generatorVersion', 'type', 'publisher', 'name'] as const) {
+    if (typeof record[key] !== 'string' || record[key] === '') {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+  if (!Array.isArray(record.files) || record.files.some(file => typeof file !== 'string')) {
+    errors.push('files must be an array of strings');
+  }
+  if (typeof record.sha256 !== 'object' || record.sha256 === null ||
+      Object.values(record.sha256).some(hash => typeof hash !== 'string')) {
+    errors.push('sha256 must map output files to hashes');
+  }
+  if (record.parameters !== undefined &&
+      (typeof record.parameters !== 'object' || record.parameters === null || Array.isArray(record.parameters))) {
+    errors.push('parameters must be an object');
+  }
+  if (record.compose !== undefined &&
+      (!Array.isArray(record.compose) || record.compose.some(entry => typeof entry?.type !== 'string'))) {
+    errors.push('compose must be an array of template types');
+  }
+  if (record.views !== undefined && !Array.isArray(record.views)) {
+    errors.push('views must be an array');
+  }
+  if (record.locale !== undefined && typeof record.locale !== 'string') {
+    errors.push('locale must be a string');
+  }
+  if (record.apiVersionCatalog !== undefined && typeof record.apiVersionCatalog !== 'string') {
+    errors.push('apiVersionCatalog must be a string');
+  }
+  if (record.format !== undefined && !OUTPUT_FORMATS.includes(record.format)) {
+    errors.push(`format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid generation record: ${recordPath}`, errors);
+  }
+
+  return {
+    ...record,
+    templateVersion: record.templateVersion ?? '',
+    plugins: record.plugins ?? [],
+    helpers: record.helpers ?? [],
+    deterministic: record.deterministic === true,
+    parameters: record.parameters ?? {}
+  } as GenerationRecord;
+}
+
+/**
+ * Check the outputs of a directory against the hashes of its generation record
+ *
+ * @param outputDir Output directory
+ * @param record Its generation record
+ * @returns Verified, modified and missing outputs
+ */
+export async function verifyGenerationRecord(outputDir: string, record: GenerationRecord): Promise<IntegrityReport> {
+  const report: IntegrityReport = { verified: [], modified: [], missing: [] };
+  for (const file of record.files) {
+    const filePath = path.join(outputDir, file);
+    if (!await fs.pathExists(filePath)) {
+      report.missing.push(file);
+    } else if (sha256(await fs.readFile(filePath)) === record.sha256[file]) {
+      report.verified.push(file);
+    } else {
+      report.modified.push(file);
+    }
+  }
+  return report;
+}
+
+/**
+ * Template types and versions of a record: "storage v3.1.0", or "storage v3.1.0 + vm v2.0.0" if composed
+ */
+export function describeRecordedTemplates(record: GenerationRecord): string {
+  const describe = (type: string, version: string) => (version ? `${type} v${version}` : type);
+  return record.compose
+    ? record.compose.map(entry => describe(entry.type, entry.templateVersion)).join(' + ')
+    : describe(record.type, record.templateVersion);
+}
+
+/**
+ * Generation config that re-renders a recorded run
+ *
+ * @param record Generation record
+ * @param outputDir Directory the record was read from (templatesDir and apiVersionCatalog are relative to it)
+ * @param output Where to render
+ */
+export function recordToConfig(record: GenerationRecord, outputDir: string, output: string): TemplateConfig {
+  const config: TemplateConfig = {
+    type: record.type,
+    publisher: record.publisher,
+    name: record.name,
+    output,
+    deterministic: record.deterministic,
+    parameters: record.parameters
+  };
+  if (record.seed !== undefined) {
+    config.seed = record.seed;
+  }
+  if (record.inlineLinkedTemplates) {
+    config.inlineLinkedTemplates = true;
+  }
+  if (record.format) {
+    config.format = record.format;
+  }
+  if (record.views) {
+    config.views = record.views;
+  }
+  if (record.locale) {
+    config.locale = record.locale;
+  }
+  if (record.compose) {
+    config.compose = record.compose.map(entry => entry.type);
+  }
+  if (record.templatesDir) {
+    config.templatesDir = path.resolve(outputDir, record.templatesDir);
+  }
+  if (record.apiVersionCatalog) {
+    config.apiVersionCatalog = path.resolve(outputDir, record.apiVersionCatalog);
+  }
+  return config;
+}
@@ -1,15 +1,165 @@
-import Handlebars from 'handlebars';
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
 import chalk from 'chalk';
+import { TemplateRegistry, templateRegistry } from './template-registry';
+import { registerBuiltInTemplates } from './builtin-templates';
+import { collectTemplateFiles, TemplateManifest, TemplateManifestFile } from './template-manifest';
+import { resolveParameterValues } from './parameter-model';
+import { loadTemplatePartials } from './template-partials';
+import {
+  buildOverlayReport,
+  getLayerDirs,
+  loadLayeredManifest,
+  OverlayReport,
+  resolveLayeredFile,
+  resolveTemplateLayers,
+  TemplateLayers
+} from './template-overlay';
+import { OutputChange } from './output-diff';
+import {
+  ComposedTemplate,
+  createGenerationRecord,
+  PluginVersion,
+  readGenerationRecord,
+  writeGenerationBase,
+  writeGenerationCompiled,
+  writeGenerationRecord
+} from './generation-record';
+import { CompositionPart, CompositionReport, composeTemplates } from './template-composition';
 import { AppConfig } from '../config/app-config';
+import { TemplateGenerationError } from '../utils/error-handler';
+import { satisfiesMinimumVersion } from '../utils/version';
+import { pinnedGenerationDate } from './seed';
+import { createHandlebarsEnvironment, HandlebarsEnvironment } from './handlebars-environment';
+import { loadApiVersionCatalog } from './api-version-catalog';
+import {
+  excerptRegion,
+  formatJsonOutput,
+  formatRegion,
+  isJsonOutput,
+  JsonSyntaxError,
+  mapOutputOffsetToSource,
+  parseRenderedJson,
+  SourceRegion
+} from './render-validation';
+import { inlineLinkedTemplates, MAIN_TEMPLATE_OUTPUT } from './linked-templates';
+import { BICEP_MAIN_OUTPUT, BicepDecompileResult, decompileToBicep, OutputFormat } from './bicep-decompiler';
+import { UI_DEFINITION_SCHEMA_URL } from './ui-definition-generator';
+import { renderViewText, resolveViewDefinitionViews, ViewDefinitionView } from './view-definition';
+import { DEFAULT_LOCALE, loadTemplateLocales, selectLocale } from './template-locales';
 
 export interface TemplateConfig {
   type: string;
   publisher: string;
   name: string;
   output: string;
-  // Add more config as needed
+  /** Derive generated suffixes from publisher, name and this seed (implies deterministic) */
+  seed?: string;
+  /** Render byte-identical output for identical inputs */
+  deterministic?: boolean;
+  /** Values for the parameters declared in the template manifest (strings are coerced); keyed by type when composing */
+  parameters?: Record<string, unknown>;
+  /** viewDefinition views replacing the views declared in the template manifest (not used when composing) */
+  views?: ViewDefinitionView[];
+  /** Locale of the resource strings rendered by {{t "key"}} (default: en) */
+  locale?: string;
+  /** Compose these template types into one application (type is the first of them) */
+  compose?: string[];
+  /** Inline templates linked through _artifactsLocation into mainTemplate.json */
+  inlineLinkedTemplates?: boolean;
+  /** Write mainTemplate.json (arm, the default), main.bicep converted from it (bicep), or both */
+  format?: OutputFormat;
+  /** Project templates directory; files in <templatesDir>/<type> override the template's files */
+  templatesDir?: string;
+  /** API version catalog latestApiVersion renders from (default: the catalog shipped with azmp) */
+  apiVersionCatalog?: string;
+  /** Render only these sources (relative to the template directory); other outputs are left as they are */
+  sources?: string[];
+  /** Only write outputs whose content changed, and report the changes */
+  writeChangedOnly?: boolean;
+  /** Suppress progress output (used when rendering for comparison) */
+  quiet?: boolean;
+}
+
+/**
+ * A file written by the generator
+ */
+export interface GeneratedFile {
+  /** Handlebars source, relative to the template directory */
+  source: string;
+  /** Output path, relative to the output directory */
+  output: string;
+  /** Whether the source came from the templatesDir overlay */
+  overlay?: boolean;
+}
+
+/**
+ * Result of a generation run
+ */
+export interface GenerationResult {
+  outputDir: string;
+  files: GeneratedFile[];
+  /** Linked templates inlined into mainTemplate.json (not written separately) */
+  inlined?: string[];
+  /** Files taken from the templatesDir overlay */
+  overlay?: OverlayReport;
+  /** Outputs whose content changed (with writeChangedOnly) */
+  changes?: OutputChange[];
+  /** Collisions and rewired dependencies of a composed run */
+  composition?: CompositionReport;
+}
+
+/**
+ * A file rendered in memory, before it is written
+ */
+interface RenderedFile {
+  file: TemplateManifestFile;
+  content: string;
+  /** Whether the source came from the overlay */
+  overlay?: boolean;
+  /** Parsed content of JSON outputs */
+  json?: unknown;
+}
+
+/**
+ * Build the Handlebars context shared by every file of a template
+ *
+ * @param config Generation config (its parameters and views are not included)
+ * @param parameterValues Resolved parameter values
+ * @param templateVersion Version of the rendered template
+ * @param views Resolved viewDefinition views
+ * @returns Render context
+ */
+export function buildRenderContext(
+  config: TemplateConfig,
+  parameterValues: Record<string, unknown>,
+  templateVersion: string,
+  views: ViewDefinitionView[] = []
+): Record<string, unknown> {
+  // A seed on its own is enough to request deterministic output
+  const deterministic = config.deterministic === true || config.seed !== undefined;
+  const runConfig: Partial<TemplateConfig> = { ...config };
+  delete runConfig.parameters;
+  delete runConfig.views;
+
+  return {
+    // Resolved parameter values (reserved keys below always win)
+    ...parameterValues,
+    ...runConfig,
+    deterministic,
+    seed: deterministic ? config.seed ?? '' : undefined,
+    // Trade Secret: Add current date for metadata (pinned or omitted in deterministic mode)
+    generatedDate: deterministic ? pinnedGenerationDate() : new Date().toISOString(),
+    // Versions for the _generator metadata of the rendered files
+    generatorVersion: AppConfig.getGeneratorVersion(),
+    templateVersion,
+    // Trade Secret: Add schema URLs (required for marketplace)
+    armSchemaUrl: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    uiSchemaUrl: UI_DEFINITION_SCHEMA_URL,
+    views,
+    locale: config.locale ?? DEFAULT_LOCALE
+  };
 }
 
 /**
@@ -21,121 +171,494 @@ export interface TemplateConfig {
  * - Data Protection (5): blobSoftDeleteDays, containerSoftDeleteDays, enableVersioning,
  *                        changeFeedEnabled, lastAccessTimeTrackingEnabled
  * Total: 16 parameters
+ *
+ * Their types, constraints and defaults are declared in the storage
+ * template.manifest.json and can be overridden through TemplateConfig.parameters.
  */
 export class TemplateGenerator {
-  private templateDir: string;
+  private registry: TemplateRegistry;
 
-  constructor() {
-    this.templateDir = AppConfig.getTemplatesDir();
-    this.registerHelpers();
+  constructor(registry: TemplateRegistry = templateRegistry) {
+    this.registry = registry;
+    registerBuiltInTemplates(this.registry);
   }
 
-  private registerHelpers() {
-    // Custom Handlebars helpers for ARM templates
+  /**
+   * Resolve the directories a template type is rendered from
+   *
+   * @param config Generation config (type and templatesDir are used)
+   * @returns The template directory and its overlay, if any
+   * @throws TemplateGenerationError if the type is unknown or its directory is missing
+   */
+  async resolveLayers(config: Pick<TemplateConfig, 'type' | 'templatesDir'>): Promise<TemplateLayers> {
+    const resolved = this.registry.resolveTemplate(config.type);
+    if (!resolved) {
+      const available = this.registry.getTemplateTypes().join(', ') || 'none';
+      throw new TemplateGenerationError(
+        `Unknown template type: ${config.type} (available: ${available})`,
+        config.type
+      );
+    }
 
-    // Generate unique string (Trade Secret: Azure requires unique resource names)
-    Handlebars.registerHelper('uniqueString', (prefix: string) => {
-      const suffix = Math.random().toString(36).substring(2, 8);
-      return `${prefix}${suffix}`;
-    });
+    const templatePath = resolved.templateDir;
+    if (!await fs.pathExists(templatePath)) {
+      throw new TemplateGenerationError(`Template directory not found: ${templatePath}`, config.type);
+    }
 
-    // Generate storage account name (Trade Secret: Must be lowercase, no special chars)
-    Handlebars.registerHelper('storageAccountName', (prefix: string) => {
-      const cleanPrefix = prefix.toLowerCase().replace(/[^a-z0-9]/g, '');
-      const suffix = Math.random().toString(36).substring(2, 8);
-      return `${cleanPrefix}${suffix}`.substring(0, 24); // Max 24 chars for storage accounts
-    });
+    // Files in <templatesDir>/<type> take precedence over the template's own files
+    return resolveTemplateLayers(templatePath, config.templatesDir, config.type);
+  }
 
-    // Latest API version helper
-    Handlebars.registerHelper('latestApiVersion', (resourceType: string) => {
-      // Updated fallback API versions (latest as of October 2025)
-      const fallbackVersions: { [key: string]: string } = {
-        'Microsoft.Storage/storageAccounts': '2023-05-01',
-        'Microsoft.Storage/storageAccounts/fileServices': '2023-05-01',
-        'Microsoft.EventGrid/systemTopics': '2023-12-15-preview',
-        'Microsoft.EventGrid/systemTopics/eventSubscriptions': '2023-12-15-preview',
-        'Microsoft.Compute/virtualMachines': '2024-03-01',
-        'Microsoft.Web/sites': '2023-12-01',
-        'Microsoft.KeyVault/vaults': '2023-07-01',
-        'Microsoft.Sql/servers': '2023-08-01-preview',
-        'Microsoft.Resources/deployments': '2022-09-01',
-        'Microsoft.ManagedIdentity/userAssignedIdentities': '2023-01-31',
-        'Microsoft.OperationalInsights/workspaces': '2023-09-01',
-        'Microsoft.Network/networkSecurityGroups': '2023-09-01'
-      };
+  async generateTemplate(config: TemplateConfig): Promise<GenerationResult> {
+    if (config.compose) {
+      return this.generateComposedTemplate(config);
+    }
+
+    const log = config.quiet ? () => undefined : console.log;
+    log(chalk.blue('🎨 Generating templates from Handlebars...'));
 
-      return fallbackVersions[resourceType] || '2023-05-01';
+    const layers = await this.resolveLayers(config);
+    const resolved = this.registry.resolveTemplate(config.type);
+    const pluginId = resolved?.pluginId;
+    const overlay = await buildOverlayReport(layers);
+    if (overlay) {
+      log(chalk.gray(`  Using template overlay: ${overlay.overlayDir}`));
+    }
+
+    const manifest = await loadLayeredManifest(layers);
+    this.checkGeneratorVersion(manifest, config.type);
+
+    // Validate parameter values before anything is written
+    const parameterValues = resolveParameterValues(manifest, config.parameters, config.type);
+    const views = resolveViewDefinitionViews(manifest.views, config.views, config.type);
+    const locales = await loadTemplateLocales(getLayerDirs(layers));
+    const locale = selectLocale(locales, config.locale, config.type);
+    if (config.locale && Object.keys(locales).length === 0) {
+      log(chalk.yellow(`⚠️  Template '${config.type}' has no resource strings; locale '${config.locale}' does not apply`));
+    }
+    if (locale.fallbacks.length > 0) {
+      log(chalk.yellow(`⚠️  ${locale.fallbacks.length} resource string(s) missing for locale '${locale.locale}', ` +
+        `rendered from ${DEFAULT_LOCALE}: ${locale.fallbacks.join(', ')}`));
+    }
+
+    if (config.apiVersionCatalog) {
+      loadApiVersionCatalog(config.apiVersionCatalog);
+    }
+
+    // Ensure output directory exists
+    await fs.ensureDir(config.output);
+
+    const context = buildRenderContext(config, parameterValues, resolved?.metadata.version ?? '', views);
+    let rendered: RenderedFile[] = [];
+
+    // Each run renders in its own environment: built-in helpers, the template's
+    // partials, and the helpers of the plugin that provides the template
+    const env = createHandlebarsEnvironment({
+      helpers: pluginId ? this.registry.getPluginHelpers(pluginId) : {},
+      partials: await this.collectPartials(getLayerDirs(layers), pluginId, config.type),
+      locale,
+      apiVersionCatalog: config.apiVersionCatalog
     });
+    context.views = this.renderViews(env, views, context, config.type);
 
-    // Secure parameter helper (Trade Secret: All passwords must use @secure())
-    Handlebars.registerHelper('secureParam', (paramName: string) => {
-      return `"${paramName}": {
-      "type": "securestring",
-      "metadata": {
-        "description": "${paramName} (secure parameter)"
+    // Inlining needs every linked template, so a source selection only applies without it
+    const selected = config.sources && !config.inlineLinkedTemplates
+      ? new Set(config.sources.map(source => source.replace(/\\/g, '/')))
+      : undefined;
+
+    // Manifest entries first, then every other .hbs file in the directory tree
+    for (const file of await collectTemplateFiles(getLayerDirs(layers), manifest)) {
+      if (selected && !selected.has(file.source.replace(/\\/g, '/'))) {
+        continue;
       }
-    }`;
-    });
+      const sourcePath = await resolveLayeredFile(layers, file.source);
 
-    // Storage account blobServices API version helper
-    Handlebars.registerHelper('blobServicesApiVersion', () => {
-      return '2023-05-01';
-    });
+      if (!sourcePath) {
+        if (file.optional) {
+          log(chalk.yellow(`⚠️  Optional template file not found, skipping: ${file.source}`));
+          continue;
+        }
+        throw new TemplateGenerationError(`Required template file not found: ${file.source}`, config.type);
+      }
+
+      const entry = await this.renderFile(env, sourcePath, context, file, config.type);
+      entry.overlay = layers.overlayDir !== undefined && sourcePath.startsWith(layers.overlayDir + path.sep);
+      rendered.push(entry);
+    }
+
+    let inlined: string[] | undefined;
+    if (config.inlineLinkedTemplates) {
+      inlined = this.inlineLinkedTemplates(rendered, log);
+      rendered = rendered.filter(entry => !inlined?.includes(entry.file.output));
+    }
+
+    // main.bicep is converted from the rendered mainTemplate.json
+    let compiled: string | undefined;
+    const main = rendered.find(entry => entry.file.output === MAIN_TEMPLATE_OUTPUT);
+    if (main && config.format && config.format !== 'arm') {
+      const bicep: RenderedFile = {
+        file: { source: main.file.source, output: BICEP_MAIN_OUTPUT },
+        content: this.convertToBicep(main.content, config.type, log),
+        overlay: main.overlay
+      };
+      if (config.format === 'bicep') {
+        compiled = main.content;
+      }
+      rendered.splice(rendered.indexOf(main), config.format === 'bicep' ? 1 : 0, bicep);
+    }
+
+    const files: GeneratedFile[] = [];
+    const changes: OutputChange[] = [];
+    for (const entry of rendered) {
+      const outputPath = path.join(config.output, entry.file.output);
+      if (config.writeChangedOnly) {
+        const previous = await fs.pathExists(outputPath) ? await fs.readFile(outputPath, 'utf8') : undefined;
+        if (previous === entry.content) {
+          continue;
+        }
+        changes.push(previous === undefined
+          ? { output: entry.file.output, content: entry.content }
+          : { output: entry.file.output, previous, content: entry.content });
+      }
+      await fs.ensureDir(path.dirname(outputPath));
+      await fs.writeFile(outputPath, entry.content, 'utf8');
+      files.push(entry.overlay
+        ? { source: entry.file.source, output: entry.file.output, overlay: true }
+        : { source: entry.file.source, output: entry.file.output });
+      log(chalk.gray(`  Generated: ${entry.file.output}${entry.overlay ? ' (overlay)' : ''}`));
+    }
+
+    // A partial render leaves the other outputs, and so the record, as they are
+    if (!selected) {
+      await writeGenerationRecord(config.output, createGenerationRecord(config, {
+        generatorVersion: AppConfig.getGeneratorVersion(),
+        templateVersion: resolved?.metadata.version ?? '',
+        plugin: this.getPluginVersion(pluginId),
+        plugins: this.registry.getAllPlugins().map(plugin => ({ id: plugin.metadata.id, version: plugin.metadata.version })),
+        helpers: Object.keys(env.helpers),
+        outputs: rendered.map(entry => ({ output: entry.file.output, content: entry.content })),
+        generatedAt: context.generatedDate as string | undefined
+      }));
+    }
+    await writeGenerationBase(
+      config.output,
+      rendered.map(entry => ({ output: entry.file.output, content: entry.content })),
+      !selected
+    );
+    if (compiled !== undefined || !selected) {
+      await writeGenerationCompiled(config.output, compiled !== undefined ? [{ output: MAIN_TEMPLATE_OUTPUT, content: compiled }] : []);
+    }
+
+    log(chalk.green('✅ Templates generated successfully!'));
+    const result: GenerationResult = { outputDir: config.output, files };
+    if (inlined) {
+      result.inlined = inlined;
+    }
+    if (overlay) {
+      result.overlay = overlay;
+    }
+    if (config.writeChangedOnly) {
+      result.changes = changes;
+    }
+    return result;
   }
 
-  async generateTemplate(config: TemplateConfig): Promise<void> {
-    console.log(chalk.blue('🎨 Generating templates from Handlebars...'));
+  /**
+   * Render each template type of config.compose on its own and compose the results
+   * A composed run always renders every output (sources is ignored)
+   */
+  private async generateComposedTemplate(config: TemplateConfig): Promise<GenerationResult> {
+    const log = config.quiet ? () => undefined : console.log;
+    const types = config.compose ?? [];
+    log(chalk.blue(`🧩 Composing ${types.join(' + ')}...`));
+
+    const parameters = config.parameters ?? {};
+    const unknownTypes = Object.keys(parameters).filter(type => !types.includes(type));
+    if (unknownTypes.length > 0) {
+      throw new TemplateGenerationError(
+        `Parameters given for template types that are not composed: ${unknownTypes.join(', ')}`,
+        types.join('+')
+      );
+    }
 
-    const templatePath = path.join(this.templateDir, config.type);
+    const renderRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-compose-'));
+    try {
+      const parts: CompositionPart[] = [];
+      const templates: ComposedTemplate[] = [];
+      const helpers = new Set<string>();
+      const sources = new Map<string, string[]>();
+      let generatedAt: string | undefined;
 
-    if (!await fs.pathExists(templatePath)) {
-      throw new Error(`Template not found for type: ${config.type}`);
+      for (const [index, type] of types.entries()) {
+        const partDir = path.join(renderRoot, String(index));
+        const result = await this.generateTemplate({
+          ...config,
+          type,
+          compose: undefined,
+          format: undefined,
+          parameters: parameters[type] as Record<string, unknown> | undefined,
+          views: undefined,
+          output: partDir,
+          sources: undefined,
+          writeChangedOnly: false,
+          quiet: true
+        });
+        const record = await readGenerationRecord(partDir);
+        parts.push({
+          type,
+          outputs: await Promise.all(record.files.map(async output =>
+            ({ output, content: await fs.readFile(path.join(partDir, output), 'utf8') })))
+        });
+        templates.push(record.plugin
+          ? { type, templateVersion: record.templateVersion, plugin: record.plugin }
+          : { type, templateVersion: record.templateVersion });
+        record.helpers.forEach(helper => helpers.add(helper));
+        result.files.forEach(file => sources.set(file.output, [...sources.get(file.output) ?? [], `${type}:${file.source}`]));
+        generatedAt = generatedAt ?? record.generatedAt;
+      }
+
+      const composition = composeTemplates(parts);
+      composition.report.warnings.forEach(warning => log(chalk.yellow(`⚠️  ${warning}`)));
+
+      // The parts render ARM JSON; main.bicep is converted from the composed mainTemplate.json
+      let compiled: string | undefined;
+      const main = composition.outputs.find(entry => entry.output === MAIN_TEMPLATE_OUTPUT);
+      if (main && config.format && config.format !== 'arm') {
+        const bicep = { output: BICEP_MAIN_OUTPUT, content: this.convertToBicep(main.content, types.join('+'), log) };
+        if (config.format === 'bicep') {
+          compiled = main.content;
+        }
+        composition.outputs.splice(composition.outputs.indexOf(main), config.format === 'bicep' ? 1 : 0, bicep);
+        sources.set(BICEP_MAIN_OUTPUT, sources.get(MAIN_TEMPLATE_OUTPUT) ?? []);
+      }
+
+      await fs.ensureDir(config.output);
+      const files: GeneratedFile[] = [];
+      const changes: OutputChange[] = [];
+      for (const entry of composition.outputs) {
+        const outputPath = path.join(config.output, entry.output);
+        if (config.writeChangedOnly) {
+          const previous = await fs.pathExists(outputPath) ? await fs.readFile(outputPath, 'utf8') : undefined;
+          if (previous === entry.content) {
+            continue;
+          }
+          changes.push(previous === undefined
+            ? { output: entry.output, content: entry.content }
+            : { output: entry.output, previous, content: entry.content });
+        }
+        await fs.outputFile(outputPath, entry.content, 'utf8');
+        files.push({ source: (sources.get(entry.output) ?? []).join(', '), output: entry.output });
+        log(chalk.gray(`  Generated: ${entry.output}`));
+      }
+
+      const resolved = this.registry.resolveTemplate(types[0]);
+      await writeGenerationRecord(config.output, createGenerationRecord({ ...config, type: types[0] }, {
+        generatorVersion: AppConfig.getGeneratorVersion(),
+        templateVersion: templates[0]?.templateVersion ?? '',
+        plugin: this.getPluginVersion(resolved?.pluginId),
+        plugins: this.registry.getAllPlugins().map(plugin => ({ id: plugin.metadata.id, version: plugin.metadata.version })),
+        compose: templates,
+        helpers: Array.from(helpers),
+        outputs: composition.outputs,
+        generatedAt
+      }));
+      await writeGenerationBase(config.output, composition.outputs);
+      await writeGenerationCompiled(config.output, compiled !== undefined ? [{ output: MAIN_TEMPLATE_OUTPUT, content: compiled }] : []);
+
+      log(chalk.green('✅ Templates composed successfully!'));
+      const result: GenerationResult = { outputDir: config.output, files, composition: composition.report };
+      if (config.writeChangedOnly) {
+        result.changes = changes;
+      }
+      return result;
+    } finally {
+      await fs.remove(renderRoot);
     }
+  }
 
-    // Ensure output directory exists
-    await fs.ensureDir(config.output);
+  /**
+   * Replace linked deployments in mainTemplate.json with the rendered linked templates
+   *
+   * @returns Output paths of the inlined templates
+   */
+  private inlineLinkedTemplates(rendered: RenderedFile[], log: (message: string) => void): string[] {
+    const main = rendered.find(entry => entry.file.output === MAIN_TEMPLATE_OUTPUT);
+    if (!main || !main.json || typeof main.json !== 'object') {
+      return [];
+    }
 
-    // Generate the 3 core files
-    await this.generateFile(templatePath, 'mainTemplate.json.hbs', config, 'mainTemplate.json');
-    await this.generateFile(templatePath, 'createUiDefinition.json.hbs', config, 'createUiDefinition.json');
-    await this.generateFile(templatePath, 'viewDefinition.json.hbs', config, 'viewDefinition.json');
+    const linkedTemplates: Record<string, unknown> = {};
+    for (const entry of rendered) {
+      if (entry !== main && entry.json !== undefined) {
+        linkedTemplates[entry.file.output] = entry.json;
+      }
+    }
 
-    // Note: Using inline templates instead of nested templates for ARM-TTK compliance
+    const result = inlineLinkedTemplates(main.json as Record<string, unknown>, linkedTemplates);
+    main.json = result.template;
+    main.content = formatJsonOutput(result.template);
+    result.inlined.forEach(output => log(chalk.gray(`  Inlined into ${MAIN_TEMPLATE_OUTPUT}: ${output}`)));
+    return result.inlined;
+  }
 
-    console.log(chalk.green('✅ Templates generated successfully!'));
+  /**
+   * Convert a rendered mainTemplate.json to main.bicep
+   *
+   * @throws TemplateGenerationError listing the constructs that cannot be converted
+   */
+  private convertToBicep(content: string, templateName: string, log: (message: string) => void): string {
+    let result: BicepDecompileResult;
+    try {
+      result = decompileToBicep(JSON.parse(content));
+    } catch (error) {
+      if (error instanceof TemplateGenerationError) {
+        throw new TemplateGenerationError(error.message, templateName, error.details);
+      }
+      throw error;
+    }
+    result.warnings.forEach(warning => log(chalk.yellow(`⚠️  ${BICEP_MAIN_OUTPUT}: ${warning}`)));
+    return `// Converted from ${MAIN_TEMPLATE_OUTPUT} by azmp create --format bicep\n` +
+      `// Partner Center deploys the ARM JSON; azmp package includes it\n\n${result.content}`;
   }
 
-  private async generateFile(
-    templateDir: string,
-    templateFile: string,
-    config: TemplateConfig,
-    outputFile: string,
-    outputDir?: string
-  ): Promise<void> {
-    const templatePath = path.join(templateDir, templateFile);
-    const outputPath = path.join(outputDir || config.output, outputFile);
+  /**
+   * Partials available to a template: its partials/ directories plus those of its plugin
+   */
+  private async collectPartials(
+    templateDirs: string[],
+    pluginId: string | undefined,
+    templateType: string
+  ): Promise<Record<string, string>> {
+    const partials = await loadTemplatePartials(templateDirs);
+    if (!pluginId) {
+      return partials;
+    }
 
-    if (!await fs.pathExists(templatePath)) {
-      console.log(chalk.yellow(`⚠️  Template file not found: ${templateFile}`));
+    for (const [partialName, partial] of Object.entries(this.registry.getPluginPartials(pluginId))) {
+      if (partialName in partials) {
+        throw new TemplateGenerationError(
+          `Handlebars partial '${partialName}' from plugin '${pluginId}' conflicts with ` +
+          `partials/${partialName}.hbs of template '${templateType}'`,
+          templateType
+        );
+      }
+      partials[partialName] = partial;
+    }
+    return partials;
+  }
+
+  /**
+   * Fail early when a template needs a newer generator
+   */
+  private checkGeneratorVersion(manifest: TemplateManifest, templateType: string): void {
+    if (!manifest.requiredGeneratorVersion) {
       return;
     }
 
-    const templateContent = await fs.readFile(templatePath, 'utf8');
-    const template = Handlebars.compile(templateContent);
+    const generatorVersion = AppConfig.getGeneratorVersion();
+    if (!satisfiesMinimumVersion(generatorVersion, manifest.requiredGeneratorVersion)) {
+      throw new TemplateGenerationError(
+        `Template '${templateType}' requires generator ${manifest.requiredGeneratorVersion} ` +
+        `but this is version ${generatorVersion}`,
+        templateType
+      );
+    }
+  }
+
+  /**
+   * Version of the plugin that provides a template
+   */
+  private getPluginVersion(pluginId: string | undefined): PluginVersion | undefined {
+    const plugin = pluginId ? this.registry.getPlugin(pluginId) : undefined;
+    return plugin ? { id: plugin.metadata.id, version: plugin.metadata.version } : undefined;
+  }
 
-    // Generate context for template
-    const context = {
-      ...config,
-      // Trade Secret: Add current date for metadata
-      generatedDate: new Date().toISOString(),
-      // Trade Secret: Add schema URLs (required for marketplace)
-      armSchemaUrl: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
-      uiSchemaUrl: 'https://schema.management.azure.com/schemas/0.1.2-preview/CreateUIDefinition.MultiVm.json#'
-    };
+  /**
+   * Render the Handlebars expressions in the strings of declared views ({{name}} in a header)
+   */
+  private renderViews(
+    env: HandlebarsEnvironment,
+    views: ViewDefinitionView[],
+    context: Record<string, unknown>,
+    templateType: string
+  ): ViewDefinitionView[] {
+    try {
+      return renderViewText(views, text => env.compile(text, { noEscape: true })(context));
+    } catch (error) {
+      throw new TemplateGenerationError(`Failed to render viewDefinition views: ${(error as Error).message}`, templateType);
+    }
+  }
 
-    const result = template(context);
-    await fs.writeFile(outputPath, result, 'utf8');
+  private async renderFile(
+    env: HandlebarsEnvironment,
+    sourcePath: string,
+    context: Record<string, unknown>,
+    file: TemplateManifestFile,
+    templateType: string
+  ): Promise<RenderedFile> {
+    const templateContent = await fs.readFile(sourcePath, 'utf8');
+    const template = env.compile(templateContent);
 
-    console.log(chalk.gray(`  Generated: ${outputFile}`));
+    let result: string;
+    try {
+      result = template(context);
+    } catch (error) {
+      // Helpers throw for inputs they cannot render (e.g. a resource type missing from the API version catalog)
+      throw new TemplateGenerationError(`Failed to render ${file.source}: ${(error as Error).message}`, templateType);
+    }
+
+    // JSON outputs must parse; they are written pretty-printed
+    if (isJsonOutput(file.output)) {
+      const parsed = parseRenderedJson(result);
+      if ('error' in parsed) {
+        throw this.invalidJsonError(env, parsed.error, templateContent, context, result, file, templateType);
+      }
+      return { file, content: formatJsonOutput(parsed.value), json: parsed.value };
+    }
+
+    return { file, content: result };
   }
-}
\ No newline at end of file
+
+  /**
+   * Describe invalid rendered JSON in terms of the output and the .hbs source that produced it
+   */
+  private invalidJsonError(
+    env: HandlebarsEnvironment,
+    error: JsonSyntaxError,
+    templateContent: string,
+    context: Record<string, unknown>,
+    output: string,
+    file: TemplateManifestFile,
+    templateType: string
+  ): TemplateGenerationError {
+    const details = [`Output: ${file.output}:${error.position.line}:${error.position.column}`];
+
+    // The parser stops after the culprit (e.g. at the '}' following a stray comma),
+    // so also map the last non-whitespace character before the error
+    const previous = output.substring(0, error.offset).search(/\S\s*$/);
+    const offsets = previous >= 0 ? [previous, error.offset] : [error.offset];
+
+    const regions = new Map<string, SourceRegion>();
+    for (const offset of offsets) {
+      const region = mapOutputOffsetToSource(env, templateContent, context, output, offset);
+      if (region) {
+        regions.set(formatRegion(region), region);
+      }
+    }
+
+    if (regions.size === 0) {
+      details.push(`Source: ${file.source} (region could not be determined)`);
+    }
+    for (const [location, region] of regions) {
+      details.push(`Source: ${file.source}:${location}`);
+      details.push(...excerptRegion(templateContent, region));
+    }
+
+    return new TemplateGenerationError(
+      `Rendered ${file.output} is not valid JSON: ${error.message} ` +
+      `(line ${error.position.line}, column ${error.position.column})`,
+      templateType,
+      details
+    );
+  }
+}
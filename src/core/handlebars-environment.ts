@@ -0,0 +1,200 @@
+/**
+ * Handlebars Environment
+ *
+ * Each generation run renders with its own `Handlebars.create()` instance
+ * holding the built-in ARM helpers, the template's partials and the helpers
+ * of the plugin that owns the template. Nothing is registered on the global
+ * Handlebars object, so plugins can be unloaded and one run cannot leak
+ * helpers or partials into the next.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import Handlebars from 'handlebars';
+import { HandlebarsHelper } from './plugin';
+import { deriveSuffix, randomSuffix } from './seed';
+import { artifactsLocationParameters, linkedTemplateUri } from './linked-templates';
+import { describeUnknownResourceType, getLatestApiVersion, loadApiVersionCatalog } from './api-version-catalog';
+import { createResourceStringHelper, LocaleSelection, RESOURCE_STRING_HELPER } from './template-locales';
+
+/**
+ * An isolated Handlebars instance
+ */
+export type HandlebarsEnvironment = typeof Handlebars;
+
+/**
+ * Run settings the helpers read from the root context
+ */
+interface HelperRunContext {
+  publisher?: string;
+  name?: string;
+  seed?: string;
+  deterministic?: boolean;
+}
+
+/**
+ * Suffix for generated names: hashed from the run inputs in deterministic mode, random otherwise
+ */
+function nameSuffix(options: Handlebars.HelperOptions, purpose: string): string {
+  const root = (options?.data?.root ?? {}) as HelperRunContext;
+  if (!root.deterministic) {
+    return randomSuffix();
+  }
+  return deriveSuffix(
+    { publisher: root.publisher ?? '', name: root.name ?? '', seed: root.seed ?? '' },
+    purpose
+  );
+}
+
+/**
+ * Latest API version of a resource type in a catalog (default: the shipped catalog)
+ *
+ * @throws Error if the type is not in the catalog (rather than rendering a guessed version)
+ */
+function catalogApiVersion(resourceType: string, includePreview: boolean, catalogPath?: string): string {
+  const catalog = loadApiVersionCatalog(catalogPath);
+  const version = getLatestApiVersion(catalog, resourceType, includePreview);
+  if (!version) {
+    throw new Error(`${describeUnknownResourceType(catalog, resourceType)}; ` +
+      'hard-code its apiVersion or refresh the catalog (azmp apiversions refresh)');
+  }
+  return version;
+}
+
+/**
+ * Helpers rendering API versions from a catalog (default: the shipped catalog)
+ */
+function createApiVersionHelpers(catalogPath?: string): Record<string, HandlebarsHelper> {
+  return {
+    // Latest API version from the catalog: {{latestApiVersion 'Microsoft.Storage/storageAccounts'}}
+    // The newest stable version (or preview if there is none); preview=true also considers newer previews
+    latestApiVersion: (resourceType: string, options: Handlebars.HelperOptions) => {
+      return catalogApiVersion(resourceType, options?.hash?.preview === true, catalogPath);
+    },
+
+    // Storage account blobServices API version helper
+    blobServicesApiVersion: () => {
+      return catalogApiVersion('Microsoft.Storage/storageAccounts/blobServices', false, catalogPath);
+    }
+  };
+}
+
+/**
+ * Custom Handlebars helpers for ARM templates
+ */
+const BUILT_IN_HELPERS: Record<string, HandlebarsHelper> = {
+  // Generate unique string (Trade Secret: Azure requires unique resource names)
+  uniqueString: (prefix: string, options: Handlebars.HelperOptions) => {
+    const suffix = nameSuffix(options, `uniqueString:${prefix}`);
+    return `${prefix}${suffix}`;
+  },
+
+  // Generate storage account name (Trade Secret: Must be lowercase, no special chars)
+  storageAccountName: (prefix: string, options: Handlebars.HelperOptions) => {
+    const cleanPrefix = prefix.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const suffix = nameSuffix(options, `storageAccountName:${cleanPrefix}`);
+    return `${cleanPrefix}${suffix}`.substring(0, 24); // Max 24 chars for storage accounts
+  },
+
+  // Secure parameter helper (Trade Secret: All passwords must use @secure())
+  secureParam: (paramName: string) => {
+    return `"${paramName}": {
+      "type": "securestring",
+      "metadata": {
+        "description": "${paramName} (secure parameter)"
+      }
+    }`;
+  },
+
+  // Render a value as a JSON literal (parameter defaults in ARM templates)
+  json: (value: unknown) => {
+    return new Handlebars.SafeString(JSON.stringify(value ?? null));
+  },
+
+  // Strict equality, for use as a subexpression: {{#if (eq tier "Premium")}}
+  eq: (left: unknown, right: unknown) => left === right,
+
+  // Parameter definitions for linked templates: {{{artifactsLocationParameters}}},
+  artifactsLocationParameters: () => {
+    const definitions = JSON.stringify(artifactsLocationParameters(), null, 4);
+    return new Handlebars.SafeString(definitions.substring(1, definitions.length - 1).trim());
+  },
+
+  // templateLink URI of a linked template: "uri": "{{linkedTemplateUri 'nestedtemplates/x.json'}}"
+  linkedTemplateUri: (relativePath: string) => {
+    return new Handlebars.SafeString(linkedTemplateUri(relativePath));
+  },
+
+  ...createApiVersionHelpers()
+};
+
+/**
+ * Names plugins cannot use for helpers: the generator's helpers and those
+ * Handlebars itself provides (if, each, with, ...)
+ *
+ * @returns Sorted helper names
+ */
+export function getBuiltInHelperNames(): string[] {
+  const coreHelpers = Object.keys(Handlebars.create().helpers);
+  return Array.from(new Set([...coreHelpers, ...Object.keys(BUILT_IN_HELPERS), RESOURCE_STRING_HELPER])).sort();
+}
+
+/**
+ * Check whether a helper name is taken by a built-in helper
+ *
+ * @param helperName Helper name
+ * @returns True if the name belongs to a built-in helper
+ */
+export function isBuiltInHelper(helperName: string): boolean {
+  return getBuiltInHelperNames().includes(helperName);
+}
+
+/**
+ * Options for building a generation environment
+ */
+export interface HandlebarsEnvironmentOptions {
+  /** Helpers in addition to the built-ins (typically those of the template's plugin) */
+  helpers?: Record<string, HandlebarsHelper>;
+
+  /** Partials keyed by name */
+  partials?: Record<string, string>;
+
+  /** Resource strings rendered by {{t "key"}} */
+  locale?: LocaleSelection;
+
+  /** API version catalog latestApiVersion renders from (default: the catalog shipped with azmp) */
+  apiVersionCatalog?: string;
+}
+
+/**
+ * Create an isolated Handlebars environment for a generation run
+ *
+ * @param options Additional helpers and partials, and the resource strings and API version catalog of the run
+ * @returns Handlebars instance with the built-in helpers, the given helpers and the given partials
+ * @throws Error if a helper would replace a built-in helper
+ */
+export function createHandlebarsEnvironment(options: HandlebarsEnvironmentOptions = {}): HandlebarsEnvironment {
+  const env = Handlebars.create();
+
+  const helpers = options.apiVersionCatalog
+    ? { ...BUILT_IN_HELPERS, ...createApiVersionHelpers(options.apiVersionCatalog) }
+    : BUILT_IN_HELPERS;
+  for (const [helperName, helper] of Object.entries(helpers)) {
+    env.registerHelper(helperName, helper);
+  }
+  env.registerHelper(RESOURCE_STRING_HELPER, createResourceStringHelper(options.locale?.strings ?? {}, options.locale?.locale));
+
+  for (const [helperName, helper] of Object.entries(options.helpers ?? {})) {
+    if (isBuiltInHelper(helperName)) {
+      throw new Error(`Handlebars helper '${helperName}' cannot override the built-in helper`);
+    }
+    env.registerHelper(helperName, helper);
+  }
+
+  for (const [partialName, partial] of Object.entries(options.partials ?? {})) {
+    env.registerPartial(partialName, partial);
+  }
+
+  return env;
+}
@@ -2,14 +2,16 @@
  * Handlebars Helper Registrar
  * 
  * Manages registration of Handlebars helpers from plugins with conflict detection.
- * Ensures helper names follow naming conventions and prevents duplicate registrations.
+ * Ensures helper names follow naming conventions and prevents duplicate registrations
+ * and overrides of built-in helpers. Helpers are only tracked here; generation
+ * adds them to an isolated environment (see handlebars-environment.ts).
  * 
  * @version 3.1.0
  * @since 3.1.0
  */
 
-import * as Handlebars from 'handlebars';
 import { IPlugin, HandlebarsHelper } from './plugin';
+import { isBuiltInHelper } from './handlebars-environment';
 import { getLogger } from '../utils/logger';
 
 const logger = getLogger();
@@ -26,6 +28,7 @@ const HELPER_NAME_PATTERN = /^[a-zA-Z0-9_:.-]+$/;
  */
 export class HelperRegistrar {
   private registeredHelpers: Map<string, string> = new Map(); // helperName -> pluginId
+  private helperFunctions: Map<string, HandlebarsHelper> = new Map(); // helperName -> helper
 
   /**
    * Register Handlebars helpers from a plugin
@@ -79,9 +82,15 @@ export class HelperRegistrar {
    * 
    * @param helperName Helper name to check
    * @param pluginId Plugin ID for error messages
-   * @throws Error if helper name already exists
+   * @throws Error if helper name already exists or belongs to a built-in helper
    */
   private checkConflict(helperName: string, pluginId: string): void {
+    if (isBuiltInHelper(helperName)) {
+      throw new Error(
+        `Helper name conflict: '${helperName}' from plugin '${pluginId}' ` +
+        `conflicts with a built-in helper`
+      );
+    }
     if (this.registeredHelpers.has(helperName)) {
       const existingPlugin = this.registeredHelpers.get(helperName);
       throw new Error(
@@ -92,7 +101,7 @@ export class HelperRegistrar {
   }
 
   /**
-   * Register helper with Handlebars and track registration
+   * Track a helper registration
    * 
    * @param helperName Helper name
    * @param helperFn Helper function
@@ -103,16 +112,50 @@ export class HelperRegistrar {
     helperFn: HandlebarsHelper,
     pluginId: string
   ): void {
-    try {
-      Handlebars.registerHelper(helperName, helperFn);
-      this.registeredHelpers.set(helperName, pluginId);
-      logger.debug(`Registered helper '${helperName}' from plugin '${pluginId}'`, 'helper-registrar');
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
+    if (typeof helperFn !== 'function') {
       throw new Error(
-        `Failed to register helper '${helperName}' from plugin '${pluginId}': ${message}`
+        `Failed to register helper '${helperName}' from plugin '${pluginId}': helper must be a function`
       );
     }
+    this.registeredHelpers.set(helperName, pluginId);
+    this.helperFunctions.set(helperName, helperFn);
+    logger.debug(`Registered helper '${helperName}' from plugin '${pluginId}'`, 'helper-registrar');
+  }
+
+  /**
+   * Remove the helpers registered by a plugin
+   * 
+   * @param pluginId Plugin ID
+   * @returns Names of the removed helpers
+   */
+  public unregister(pluginId: string): string[] {
+    const removed: string[] = [];
+    for (const [helperName, owner] of Array.from(this.registeredHelpers.entries())) {
+      if (owner === pluginId) {
+        this.registeredHelpers.delete(helperName);
+        this.helperFunctions.delete(helperName);
+        removed.push(helperName);
+      }
+    }
+    logger.debug(`Unregistered ${removed.length} helper(s) from plugin '${pluginId}'`, 'helper-registrar');
+    return removed;
+  }
+
+  /**
+   * Get the helpers registered by a plugin
+   * 
+   * @param pluginId Plugin ID
+   * @returns Object mapping helper names to helper functions
+   */
+  public getPluginHelpers(pluginId: string): Record<string, HandlebarsHelper> {
+    const result: Record<string, HandlebarsHelper> = {};
+    for (const [helperName, owner] of this.registeredHelpers.entries()) {
+      const helper = this.helperFunctions.get(helperName);
+      if (owner === pluginId && helper) {
+        result[helperName] = helper;
+      }
+    }
+    return result;
   }
 
   /**
@@ -158,10 +201,9 @@ export class HelperRegistrar {
    * Used primarily for testing
    */
   public clear(): void {
-    // Note: Handlebars doesn't provide unregisterHelper, so we can't remove them
-    // We just clear our tracking map
     this.registeredHelpers.clear();
-    logger.debug('Cleared helper registration tracking', 'helper-registrar');
+    this.helperFunctions.clear();
+    logger.debug('Cleared helper registrations', 'helper-registrar');
   }
 }
 
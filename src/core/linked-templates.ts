@@ -0,0 +1,158 @@
+/**
+ * Linked Templates
+ *
+ * Support for the `_artifactsLocation` / `_artifactsLocationSasToken` pattern:
+ * mainTemplate deploys files such as `nestedtemplates/storageAccount.json`
+ * through `Microsoft.Resources/deployments` resources whose templateLink URI
+ * is built from the artifacts location. For single-file packages, linked
+ * templates can be inlined into the deployment resources instead.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+/**
+ * Output path of the template that deploys the linked templates
+ */
+export const MAIN_TEMPLATE_OUTPUT = 'mainTemplate.json';
+
+export const ARTIFACTS_LOCATION_PARAMETER = '_artifactsLocation';
+export const ARTIFACTS_SAS_TOKEN_PARAMETER = '_artifactsLocationSasToken';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Result of inlining linked templates
+ */
+export interface InlineResult {
+  /** Template with linked deployments replaced by inline content */
+  template: JsonObject;
+  /** Output paths of the templates that were inlined */
+  inlined: string[];
+}
+
+/**
+ * ARM parameter definitions for the artifacts location pattern
+ * The default resolves linked templates next to the deployed mainTemplate
+ */
+export function artifactsLocationParameters(): JsonObject {
+  return {
+    [ARTIFACTS_LOCATION_PARAMETER]: {
+      type: 'string',
+      defaultValue: '[deployment().properties.templateLink.uri]',
+      metadata: {
+        description: 'The base URI where artifacts required by this template are located'
+      }
+    },
+    [ARTIFACTS_SAS_TOKEN_PARAMETER]: {
+      type: 'securestring',
+      defaultValue: '',
+      metadata: {
+        description: 'The sasToken required to access _artifactsLocation'
+      }
+    }
+  };
+}
+
+/**
+ * templateLink URI expression for a linked template
+ *
+ * @param relativePath Output path of the linked template (e.g. "nestedtemplates/storageAccount.json")
+ */
+export function linkedTemplateUri(relativePath: string): string {
+  return `[uri(parameters('${ARTIFACTS_LOCATION_PARAMETER}'), ` +
+    `concat('${relativePath}', parameters('${ARTIFACTS_SAS_TOKEN_PARAMETER}')))]`;
+}
+
+/**
+ * Extract the linked template path from a templateLink URI expression
+ * Accepts the form produced by linkedTemplateUri and the form without a SAS token
+ *
+ * @param uri templateLink.uri value
+ * @returns Relative output path, or undefined if the URI does not use the artifacts location
+ */
+export function getLinkedTemplatePath(uri: unknown): string | undefined {
+  if (typeof uri !== 'string') {
+    return undefined;
+  }
+  const match =
+    /^\[uri\(\s*parameters\('_artifactsLocation'\)\s*,\s*concat\(\s*'([^']+)'\s*,\s*parameters\('_artifactsLocationSasToken'\)\s*\)\s*\)\]$/.exec(uri) ??
+    /^\[uri\(\s*parameters\('_artifactsLocation'\)\s*,\s*'([^']+)'\s*\)\]$/.exec(uri);
+  return match ? match[1].replace(/^\.\//, '') : undefined;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Replace linked deployments in a template's resources, recursing into inlined content
+ */
+function inlineResources(
+  template: JsonObject,
+  linkedTemplates: Record<string, unknown>,
+  inlined: Set<string>,
+  stack: string[]
+): void {
+  const resources = Array.isArray(template.resources) ? template.resources : [];
+
+  for (const resource of resources) {
+    if (!isObject(resource) || resource.type !== 'Microsoft.Resources/deployments' || !isObject(resource.properties)) {
+      continue;
+    }
+    const properties = resource.properties;
+    const linkedPath = isObject(properties.templateLink)
+      ? getLinkedTemplatePath(properties.templateLink.uri)
+      : undefined;
+    if (!linkedPath || !isObject(linkedTemplates[linkedPath]) || stack.includes(linkedPath)) {
+      continue;
+    }
+
+    const content = structuredClone(linkedTemplates[linkedPath]) as JsonObject;
+    inlineResources(content, linkedTemplates, inlined, [...stack, linkedPath]);
+
+    delete properties.templateLink;
+    properties.expressionEvaluationOptions = { scope: 'inner' };
+    properties.template = content;
+    inlined.add(linkedPath);
+  }
+}
+
+/**
+ * Check whether a template uses a parameter outside its parameters section
+ */
+function referencesParameter(template: JsonObject, name: string): boolean {
+  const body = JSON.stringify({ ...template, parameters: undefined });
+  return body.includes(`parameters('${name}')`);
+}
+
+/**
+ * Inline the linked templates deployed by a template
+ * Deployments whose templateLink points at one of the rendered templates get
+ * that template as inline content (with inner expression scope). The artifacts
+ * location parameters are dropped once nothing references them.
+ *
+ * @param template Parsed template (not modified)
+ * @param linkedTemplates Parsed rendered templates keyed by output path
+ * @returns Inlined template and the output paths that were inlined
+ */
+export function inlineLinkedTemplates(
+  template: JsonObject,
+  linkedTemplates: Record<string, unknown>
+): InlineResult {
+  const result = structuredClone(template);
+  const inlined = new Set<string>();
+
+  inlineResources(result, linkedTemplates, inlined, []);
+
+  if (inlined.size > 0 && isObject(result.parameters)) {
+    const parameters = result.parameters;
+    for (const name of [ARTIFACTS_LOCATION_PARAMETER, ARTIFACTS_SAS_TOKEN_PARAMETER]) {
+      if (name in parameters && !referencesParameter(result, name)) {
+        delete parameters[name];
+      }
+    }
+  }
+
+  return { template: result, inlined: [...inlined].sort() };
+}
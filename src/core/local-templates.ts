@@ -0,0 +1,119 @@
+/**
+ * Local Template Types
+ *
+ * Template types that live in a project rather than in the generator or a
+ * plugin: a `templates.<type>.path` entry in azmp.config.json points at the
+ * template directory (relative to the config file), and the type is
+ * registered for `azmp create`, `diff` and `upgrade` like any other.
+ * `azmp import` writes these entries.
+ *
+ * @example
+ * ```json
+ * "templates": {
+ *   "web-app": { "path": "./templates/web-app", "name": "Contoso Web App" }
+ * }
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TemplateMetadata } from './plugin';
+import { TemplateRegistry, templateRegistry } from './template-registry';
+import { loadTemplateManifest, TEMPLATE_MANIFEST_FILE } from './template-manifest';
+import { titleCase } from './template-scaffold';
+import { AzmpConfig, toConfigPath, updateConfigFile } from '../utils/config-manager';
+
+/**
+ * Config file `azmp import` creates when none is found
+ */
+export const DEFAULT_CONFIG_FILE = 'azmp.config.json';
+
+/**
+ * Result of registering the local template types of a config file
+ */
+export interface LocalTemplateRegistration {
+  /** Registered types */
+  registered: string[];
+
+  /** Entries that were skipped, with the reason */
+  errors: string[];
+}
+
+/**
+ * Register the template types declared with a path in azmp.config.json
+ * Entries whose directory is missing, whose manifest is invalid or whose type is
+ * already registered (built-in and plugin types win) are skipped and reported
+ *
+ * @param config Parsed config file
+ * @param configPath Path of the config file (entry paths are relative to it)
+ * @param registry Registry to register with (defaults to the global registry)
+ * @returns Registered types and skipped entries
+ */
+export async function registerLocalTemplates(
+  config: AzmpConfig,
+  configPath: string,
+  registry: TemplateRegistry = templateRegistry
+): Promise<LocalTemplateRegistration> {
+  const result: LocalTemplateRegistration = { registered: [], errors: [] };
+  const configDir = path.dirname(path.resolve(configPath));
+
+  for (const [type, templateConfig] of Object.entries(config.templates ?? {})) {
+    if (templateConfig?.path === undefined) {
+      continue;
+    }
+    const templateDir = path.resolve(configDir, templateConfig.path);
+    if (registry.hasTemplate(type)) {
+      result.errors.push(`templates.${type}: '${type}' is already a registered template type`);
+      continue;
+    }
+    if (!await fs.pathExists(path.join(templateDir, TEMPLATE_MANIFEST_FILE))) {
+      result.errors.push(`templates.${type}: no ${TEMPLATE_MANIFEST_FILE} in ${templateDir}`);
+      continue;
+    }
+
+    try {
+      const manifest = await loadTemplateManifest(templateDir);
+      const metadata: TemplateMetadata = {
+        type,
+        name: titleCase(type),
+        description: `Local template type (${templateConfig.path})`,
+        version: manifest.version ?? '1.0.0',
+        templatePath: templateDir,
+        tags: ['local']
+      };
+      registry.registerTemplate(metadata, templateDir);
+      result.registered.push(type);
+    } catch (error) {
+      result.errors.push(`templates.${type}: ${(error as Error).message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Add or update the `templates.<type>.path` entry of a config file
+ * The file is created when it does not exist; other settings are kept
+ *
+ * @param configPath Config file
+ * @param type Template type
+ * @param templateDir Template directory (stored relative to the config file)
+ * @returns The path as written to the config file
+ * @throws ValidationError if the file is not a JSON object
+ * @throws FileSystemError if the file cannot be written
+ */
+export async function addLocalTemplateToConfig(
+  configPath: string,
+  type: string,
+  templateDir: string
+): Promise<string> {
+  const entryPath = toConfigPath(configPath, templateDir);
+  await updateConfigFile(configPath, config => ({
+    ...config,
+    templates: { ...config.templates, [type]: { ...config.templates?.[type], path: entryPath } }
+  }));
+  return entryPath;
+}
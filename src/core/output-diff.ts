@@ -0,0 +1,133 @@
+/**
+ * Output Diff
+ *
+ * Compact line diffs of generated files, printed by `azmp create --watch`
+ * after each re-render so template authors see what a save changed.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+/**
+ * A generated file whose content changed
+ */
+export interface OutputChange {
+  /** Output path, relative to the output directory */
+  output: string;
+
+  /** Content before the run (undefined for new files) */
+  previous?: string;
+
+  /** Content written by the run */
+  content: string;
+}
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+/**
+ * Line operations turning one list of lines into another (longest common subsequence)
+ */
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  // Common prefix and suffix keep the table small for typical single-edit saves
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < before.length - prefix && suffix < after.length - prefix &&
+         before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = before.slice(0, prefix).map(line => ({ kind: ' ' as const, line }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      ops.push({ kind: '+', line: b[j] });
+      j++;
+    } else {
+      ops.push({ kind: '-', line: a[i] });
+      i++;
+    }
+  }
+  ops.push(...before.slice(before.length - suffix).map(line => ({ kind: ' ' as const, line })));
+  return ops;
+}
+
+/**
+ * Unified-style diff of two texts, with a few lines of context around each change
+ *
+ * @param before Previous content
+ * @param after New content
+ * @param context Unchanged lines shown around each change
+ * @returns Diff lines ("@@ -start,count +start,count @@" headers, then " ", "-" and "+" lines); empty if equal
+ */
+export function diffLines(before: string, after: string, context: number = 1): string[] {
+  if (before === after) {
+    return [];
+  }
+
+  const ops = diffOps(before.split('\n'), after.split('\n'));
+  const changed = ops.map((op, index) => (op.kind === ' ' ? -1 : index)).filter(index => index >= 0);
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  const lines: string[] = [];
+  for (const hunk of hunks) {
+    let oldLine = 1;
+    let newLine = 1;
+    for (let index = 0; index < hunk.start; index++) {
+      if (ops[index].kind !== '+') oldLine++;
+      if (ops[index].kind !== '-') newLine++;
+    }
+    const slice = ops.slice(hunk.start, hunk.end + 1);
+    const oldCount = slice.filter(op => op.kind !== '+').length;
+    const newCount = slice.filter(op => op.kind !== '-').length;
+    lines.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    lines.push(...slice.map(op => `${op.kind}${op.line}`));
+  }
+  return lines;
+}
+
+/**
+ * Compact description of a changed output
+ *
+ * @param change Changed output
+ * @param maxLines Maximum number of diff lines
+ * @returns Diff lines, truncated with a "... N more lines" marker
+ */
+export function describeOutputChange(change: OutputChange, maxLines: number = 20): string[] {
+  if (change.previous === undefined) {
+    return [`(new file, ${change.content.split('\n').length} lines)`];
+  }
+  const lines = diffLines(change.previous, change.content);
+  if (lines.length <= maxLines) {
+    return lines;
+  }
+  return [...lines.slice(0, maxLines), `... ${lines.length - maxLines} more lines`];
+}
@@ -0,0 +1,77 @@
+/**
+ * Package Diff
+ *
+ * Backs `azmp diff`: re-renders an output directory from its generation
+ * record into a temporary directory and compares the result with the files
+ * on disk, so hand edits and the effect of a generator upgrade show up as
+ * semantic differences.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateGenerator } from './generator';
+import { GenerationRecord, readGenerationRecord, recordToConfig } from './generation-record';
+import { diffGeneratedFile, FileDiff } from './semantic-diff';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger();
+
+/**
+ * Result of comparing an output directory with a fresh render
+ */
+export interface PackageDiffResult {
+  /** Record the fresh render was made from */
+  record: GenerationRecord;
+
+  /** Per-file differences, sorted by path (unchanged files included) */
+  files: FileDiff[];
+
+  /** True when no file differs */
+  identical: boolean;
+}
+
+async function readIfExists(filePath: string): Promise<string | undefined> {
+  return await fs.pathExists(filePath) ? fs.readFile(filePath, 'utf8') : undefined;
+}
+
+/**
+ * Compare an output directory with a fresh render of its recorded inputs
+ *
+ * Only generated files are compared: those listed in the record and those a
+ * fresh render produces. Other files in the directory are ignored.
+ *
+ * @param outputDir Output directory of an earlier `azmp create` run
+ * @param generator Generator used for the fresh render
+ * @returns Differences per file
+ * @throws FileSystemError if the directory has no generation record
+ */
+export async function diffOutputDirectory(
+  outputDir: string,
+  generator: TemplateGenerator = new TemplateGenerator()
+): Promise<PackageDiffResult> {
+  const record = await readGenerationRecord(outputDir);
+  const renderDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-diff-'));
+
+  try {
+    const result = await generator.generateTemplate({ ...recordToConfig(record, outputDir, renderDir), quiet: true });
+    const rendered = result.files.map(file => file.output);
+    logger.debug('Rendered from generation record', 'diff', { record, renderDir, rendered });
+
+    const files: FileDiff[] = [];
+    for (const file of Array.from(new Set([...record.files, ...rendered])).sort()) {
+      files.push(diffGeneratedFile(
+        file,
+        await readIfExists(path.join(outputDir, file)),
+        rendered.includes(file) ? await fs.readFile(path.join(renderDir, file), 'utf8') : undefined
+      ));
+    }
+
+    return { record, files, identical: files.every(file => file.status === 'unchanged') };
+  } finally {
+    await fs.remove(renderDir);
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Package Provenance
+ *
+ * `azmp package` writes a sidecar next to the ZIP (`<name>.provenance.json`)
+ * that ties the package to its generation run: the SHA-256 of the ZIP and of
+ * every packaged file, the generation record of the source directory, and
+ * whether each file is still as generated. An auditor holding a marketplace
+ * ZIP can use it to trace every file back to its template and inputs.
+ *
+ * The package contents are decided here too: main.bicep stays out of the
+ * ZIP, and an output generated with `--format bicep` is packaged with the
+ * mainTemplate.json it was converted from.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  GENERATION_RECORD_DIR,
+  GenerationRecord,
+  getGenerationCompiledDir,
+  getGenerationRecordPath,
+  readGenerationRecord,
+  sha256
+} from './generation-record';
+import { BICEP_MAIN_OUTPUT } from './bicep-decompiler';
+import { MAIN_TEMPLATE_OUTPUT } from './linked-templates';
+import { AppConfig } from '../config/app-config';
+import { ValidationError } from '../utils/error-handler';
+
+/**
+ * Suffix replacing `.zip` in the sidecar file name
+ */
+export const PACKAGE_PROVENANCE_SUFFIX = '.provenance.json';
+
+/**
+ * How a packaged file relates to the generation record
+ * - generated: unchanged since generation
+ * - modified: generated, then changed
+ * - added: not produced by the generation run
+ */
+export type PackagedFileOrigin = 'generated' | 'modified' | 'added';
+
+/**
+ * Provenance of a package
+ */
+export interface PackageProvenance {
+  /** ZIP file name */
+  package: string;
+
+  /** SHA-256 (hex) of the ZIP */
+  sha256: string;
+
+  /** Generator version that created the package */
+  packagedWith: string;
+
+  /** Packaged files with their hash and origin, sorted by path */
+  files: Array<{ path: string; sha256: string; origin: PackagedFileOrigin }>;
+
+  /** Generation record of the source directory (null if it has none) */
+  generation: GenerationRecord | null;
+}
+
+/**
+ * A file that goes into a package
+ */
+export interface PackageEntry {
+  /** Path inside the ZIP, with forward slashes */
+  name: string;
+
+  /** File the entry is read from */
+  path: string;
+
+  /** Whether it is the ARM JSON kept by a `--format bicep` run */
+  compiled?: boolean;
+}
+
+/**
+ * Sidecar path of a package: `app.zip` → `app.provenance.json`
+ */
+export function getPackageProvenancePath(packagePath: string): string {
+  return packagePath.replace(/\.zip$/i, '') + PACKAGE_PROVENANCE_SUFFIX;
+}
+
+/**
+ * Files of a source directory that go into a package (the generation record and main.bicep excluded)
+ *
+ * @returns Paths relative to the directory, with forward slashes, sorted
+ */
+export async function listPackagedFiles(sourceDir: string, relativeDir: string = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(path.join(sourceDir, relativeDir), { withFileTypes: true })) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (relativePath === GENERATION_RECORD_DIR || relativePath === BICEP_MAIN_OUTPUT) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      files.push(...await listPackagedFiles(sourceDir, relativePath));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * mainTemplate.json to package for an output generated with `--format bicep`
+ *
+ * The ARM JSON the generator converted is packaged while main.bicep is as
+ * generated. After main.bicep was edited, a mainTemplate.json compiled from
+ * it (newer than main.bicep) is packaged from the source directory instead.
+ *
+ * @param sourceDir Directory to package
+ * @returns Path of the kept ARM JSON, or undefined to package the directory's own mainTemplate.json
+ * @throws ValidationError if main.bicep changed and no mainTemplate.json was compiled from it
+ */
+export async function resolveCompiledMainTemplate(sourceDir: string): Promise<string | undefined> {
+  if (!await fs.pathExists(getGenerationRecordPath(sourceDir))) {
+    return undefined;
+  }
+  const record = await readGenerationRecord(sourceDir);
+  if (record.format !== 'bicep') {
+    return undefined;
+  }
+
+  const bicepPath = path.join(sourceDir, BICEP_MAIN_OUTPUT);
+  const compiledPath = path.join(getGenerationCompiledDir(sourceDir), MAIN_TEMPLATE_OUTPUT);
+  const edited = await fs.pathExists(bicepPath) && sha256(await fs.readFile(bicepPath)) !== record.sha256[BICEP_MAIN_OUTPUT];
+  if (!edited && await fs.pathExists(compiledPath)) {
+    return compiledPath;
+  }
+
+  const mainPath = path.join(sourceDir, MAIN_TEMPLATE_OUTPUT);
+  if (await fs.pathExists(mainPath) &&
+      (!await fs.pathExists(bicepPath) || (await fs.stat(mainPath)).mtimeMs >= (await fs.stat(bicepPath)).mtimeMs)) {
+    return undefined;
+  }
+  throw new ValidationError(
+    edited
+      ? `${BICEP_MAIN_OUTPUT} was edited after generation; Partner Center needs ${MAIN_TEMPLATE_OUTPUT} compiled from it`
+      : `${MAIN_TEMPLATE_OUTPUT} converted to ${BICEP_MAIN_OUTPUT} is missing from ${path.relative(sourceDir, path.dirname(compiledPath))}`,
+    [
+      `Compile it: bicep build ${BICEP_MAIN_OUTPUT} --outfile ${MAIN_TEMPLATE_OUTPUT}`,
+      'Or regenerate the output with azmp create --format bicep'
+    ]
+  );
+}
+
+/**
+ * Template type a source directory was generated from
+ *
+ * @returns The type of its generation record (the first type of a composed run), or undefined if it has none
+ * @throws ValidationError if the record is malformed
+ */
+export async function readPackagedTemplateType(sourceDir: string): Promise<string | undefined> {
+  if (!await fs.pathExists(getGenerationRecordPath(sourceDir))) {
+    return undefined;
+  }
+  return (await readGenerationRecord(sourceDir)).type;
+}
+
+/**
+ * Files that go into the package of a source directory
+ *
+ * @returns Entries sorted by name
+ * @throws ValidationError if a `--format bicep` output has no mainTemplate.json to package
+ */
+export async function listPackageEntries(sourceDir: string): Promise<PackageEntry[]> {
+  const compiledPath = await resolveCompiledMainTemplate(sourceDir);
+  const entries: PackageEntry[] = (await listPackagedFiles(sourceDir))
+    .filter(file => !(compiledPath && file === MAIN_TEMPLATE_OUTPUT))
+    .map(file => ({ name: file, path: path.join(sourceDir, file) }));
+  if (compiledPath) {
+    entries.push({ name: MAIN_TEMPLATE_OUTPUT, path: compiledPath, compiled: true });
+  }
+  return entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/**
+ * Describe a package built from a source directory
+ *
+ * @param sourceDir Directory that was packaged
+ * @param packagePath The ZIP that was written
+ */
+export async function buildPackageProvenance(sourceDir: string, packagePath: string): Promise<PackageProvenance> {
+  const generation = await fs.pathExists(getGenerationRecordPath(sourceDir))
+    ? await readGenerationRecord(sourceDir)
+    : null;
+
+  const files: PackageProvenance['files'] = [];
+  for (const entry of await listPackageEntries(sourceDir)) {
+    const hash = sha256(await fs.readFile(entry.path));
+    const recorded = generation?.sha256[entry.name];
+    files.push({
+      path: entry.name,
+      sha256: hash,
+      origin: entry.compiled ? 'generated' : recorded === undefined ? 'added' : recorded === hash ? 'generated' : 'modified'
+    });
+  }
+
+  return {
+    package: path.basename(packagePath),
+    sha256: sha256(await fs.readFile(packagePath)),
+    packagedWith: AppConfig.getGeneratorVersion(),
+    files,
+    generation
+  };
+}
+
+/**
+ * Write the provenance sidecar of a package
+ *
+ * @returns Path of the sidecar
+ */
+export async function writePackageProvenance(sourceDir: string, packagePath: string): Promise<string> {
+  const provenancePath = getPackageProvenancePath(packagePath);
+  const provenance = await buildPackageProvenance(sourceDir, packagePath);
+  await fs.writeFile(provenancePath, JSON.stringify(provenance, null, 2) + '\n', 'utf8');
+  return provenancePath;
+}
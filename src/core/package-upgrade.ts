@@ -0,0 +1,255 @@
+/**
+ * Package Upgrade
+ *
+ * Backs `azmp upgrade`: moves an output directory to the current generator
+ * and template version without losing hand edits. The recorded inputs are
+ * re-rendered, and each generated file is three-way merged from the recorded
+ * base render (`.azmp/base/`), the file on disk and the fresh render.
+ * Conflicting values keep the file's current value and are written with
+ * conflict markers to `.azmp/upgrade-conflicts.txt`.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateGenerator } from './generator';
+import {
+  getGenerationBaseDir,
+  getGenerationCompiledDir,
+  getGenerationRecordPath,
+  readGenerationRecord,
+  recordToConfig,
+  writeGenerationRecord
+} from './generation-record';
+import { formatConflictReport, MergeConflict, mergeJson, mergeText } from './three-way-merge';
+import { jsonEqual } from './semantic-diff';
+import { formatJsonOutput } from './render-validation';
+import { AppConfig } from '../config/app-config';
+import { FileSystemError } from '../utils/error-handler';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger();
+
+/**
+ * Conflict report file inside GENERATION_RECORD_DIR
+ */
+export const UPGRADE_CONFLICTS_FILE = 'upgrade-conflicts.txt';
+
+/**
+ * What an upgrade did to one file
+ * - unchanged: neither edited by hand nor changed by the template
+ * - updated: taken from the fresh render (the file had no hand edits)
+ * - kept: hand edits kept, nothing to take from the template
+ * - merged: hand edits and template changes combined
+ * - added / removed: file added or removed by the new template
+ * - conflict: merged, but some values changed on both sides
+ */
+export type FileUpgradeAction = 'unchanged' | 'updated' | 'kept' | 'merged' | 'added' | 'removed' | 'conflict';
+
+/**
+ * Upgrade outcome of one file
+ */
+export interface FileUpgrade {
+  /** File path, relative to the output directory */
+  file: string;
+
+  action: FileUpgradeAction;
+
+  /** Values changed both by hand and by the template */
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Result of an upgrade
+ */
+export interface UpgradeResult {
+  /** Generator version the output was rendered with */
+  fromVersion: string;
+
+  /** Generator version it was upgraded to */
+  toVersion: string;
+
+  /** Outcome per file, sorted by path */
+  files: FileUpgrade[];
+
+  /** Total number of conflicts */
+  conflictCount: number;
+
+  /** Conflict report (only when there are conflicts and files were written) */
+  reportPath?: string;
+}
+
+/**
+ * Options for an upgrade
+ */
+export interface UpgradeOptions {
+  /** Generator used for the fresh render */
+  generator?: TemplateGenerator;
+
+  /** Compute the merge without writing anything */
+  dryRun?: boolean;
+}
+
+async function readIfExists(filePath: string): Promise<string | undefined> {
+  return await fs.pathExists(filePath) ? fs.readFile(filePath, 'utf8') : undefined;
+}
+
+/**
+ * Three-way merge of one file
+ *
+ * @returns Merged content (undefined if the file should not exist), action and conflicts
+ */
+function mergeFile(
+  file: string,
+  base: string | undefined,
+  current: string | undefined,
+  incoming: string | undefined
+): { content: string | undefined; upgrade: FileUpgrade } {
+  let content: string | undefined;
+  let conflicts: MergeConflict[];
+  let equals: (a: string | undefined, b: string | undefined) => boolean = (a, b) => a === b;
+
+  const parse = (text: string | undefined): { ok: boolean; value?: unknown } => {
+    if (text === undefined) {
+      return { ok: true };
+    }
+    try {
+      return { ok: true, value: JSON.parse(text) };
+    } catch {
+      return { ok: false };
+    }
+  };
+  const parsed = file.endsWith('.json') ? [parse(base), parse(current), parse(incoming)] : undefined;
+
+  if (parsed && parsed.every(result => result.ok)) {
+    const result = mergeJson(parsed[0].value, parsed[1].value, parsed[2].value);
+    conflicts = result.conflicts;
+    // Write the fresh render verbatim where it wins, otherwise the merged document
+    content = result.value === undefined ? undefined
+      : incoming !== undefined && jsonEqual(result.value, parsed[2].value) ? incoming
+        : current !== undefined && jsonEqual(result.value, parsed[1].value) ? current
+          : formatJsonOutput(result.value);
+    equals = (a, b) => (a === undefined || b === undefined ? a === b : jsonEqual(JSON.parse(a), JSON.parse(b)));
+  } else {
+    // Text files, and JSON that no longer parses, merge as a whole
+    const result = mergeText(base, current, incoming);
+    content = result.value as string | undefined;
+    conflicts = result.conflicts;
+  }
+
+  let action: FileUpgradeAction;
+  if (conflicts.length > 0) {
+    action = 'conflict';
+  } else if (equals(content, current)) {
+    action = equals(current, base) ? 'unchanged' : 'kept';
+  } else if (current === undefined) {
+    action = 'added';
+  } else if (content === undefined) {
+    action = 'removed';
+  } else {
+    action = equals(content, incoming) ? 'updated' : 'merged';
+  }
+
+  return { content, upgrade: { file, action, conflicts } };
+}
+
+/**
+ * Upgrade an output directory to the current generator and template version
+ *
+ * @param outputDir Output directory of an earlier `azmp create` run
+ * @param options Upgrade options
+ * @returns Outcome per file
+ * @throws FileSystemError if the directory has no generation record or base render
+ */
+export async function upgradeOutputDirectory(
+  outputDir: string,
+  options: UpgradeOptions = {}
+): Promise<UpgradeResult> {
+  const record = await readGenerationRecord(outputDir);
+  const baseDir = getGenerationBaseDir(outputDir);
+  if (!await fs.pathExists(baseDir)) {
+    throw new FileSystemError(
+      'No base render recorded; regenerate the output with this version of azmp create before upgrading',
+      baseDir
+    );
+  }
+
+  const generator = options.generator ?? new TemplateGenerator();
+  const renderDir = await fs.mkdtemp(path.join(os.tmpdir(), 'azmp-upgrade-'));
+
+  try {
+    const rendered = (await generator.generateTemplate({
+      ...recordToConfig(record, outputDir, renderDir),
+      quiet: true
+    })).files.map(file => file.output);
+    logger.debug('Rendered from generation record', 'upgrade', { record, renderDir, rendered });
+
+    const files: FileUpgrade[] = [];
+    const writes: Array<{ file: string; content: string | undefined }> = [];
+    for (const file of Array.from(new Set([...record.files, ...rendered])).sort()) {
+      const { content, upgrade } = mergeFile(
+        file,
+        await readIfExists(path.join(baseDir, file)),
+        await readIfExists(path.join(outputDir, file)),
+        rendered.includes(file) ? await fs.readFile(path.join(renderDir, file), 'utf8') : undefined
+      );
+      files.push(upgrade);
+      if (upgrade.action !== 'unchanged' && upgrade.action !== 'kept') {
+        writes.push({ file, content });
+      }
+    }
+
+    const toVersion = AppConfig.getGeneratorVersion();
+    const result: UpgradeResult = {
+      fromVersion: record.generatorVersion,
+      toVersion,
+      files,
+      conflictCount: files.reduce((count, file) => count + file.conflicts.length, 0)
+    };
+    if (options.dryRun) {
+      return result;
+    }
+
+    for (const write of writes) {
+      const filePath = path.join(outputDir, write.file);
+      if (write.content === undefined) {
+        await fs.remove(filePath);
+      } else {
+        await fs.outputFile(filePath, write.content, 'utf8');
+      }
+    }
+
+    // The fresh render is the base of the next upgrade; the record keeps its own project paths
+    const renderedRecord = await readGenerationRecord(renderDir);
+    await writeGenerationRecord(outputDir, {
+      ...renderedRecord,
+      templatesDir: record.templatesDir,
+      apiVersionCatalog: record.apiVersionCatalog
+    });
+    await fs.remove(baseDir);
+    await fs.copy(getGenerationBaseDir(renderDir), baseDir);
+    await fs.remove(getGenerationCompiledDir(outputDir));
+    if (await fs.pathExists(getGenerationCompiledDir(renderDir))) {
+      await fs.copy(getGenerationCompiledDir(renderDir), getGenerationCompiledDir(outputDir));
+    }
+
+    const reportPath = path.join(path.dirname(getGenerationRecordPath(outputDir)), UPGRADE_CONFLICTS_FILE);
+    if (result.conflictCount > 0) {
+      await fs.writeFile(reportPath, formatConflictReport(
+        files.filter(file => file.conflicts.length > 0),
+        { base: `v${record.generatorVersion}`, incoming: `v${toVersion}` }
+      ), 'utf8');
+      result.reportPath = reportPath;
+    } else {
+      await fs.remove(reportPath);
+    }
+
+    logger.debug('Upgrade written', 'upgrade', { outputDir, result });
+    return result;
+  } finally {
+    await fs.remove(renderDir);
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Deployment Parameter Files
+ *
+ * Writes `azuredeploy.parameters.json` files for a generated package, for
+ * deployment tests. Named profiles (`parameterProfiles` in azmp.config.json)
+ * give fixed sets of values; the pairwise matrix derives a set of files in
+ * which every pair of values of any two parameters is deployed at least once,
+ * from the allowedValues of a parameter, both values of a bool and the bounds
+ * of an int. For the storage template that is 15 files instead of the
+ * 110,592 full combinations.
+ *
+ * @example
+ * ```json
+ * "parameterProfiles": {
+ *   "default": { "storageAccountNamePrefix": "azmptest", "applicationName": "azmp-test" },
+ *   "locked-down": { "publicNetworkAccess": "Disabled", "allowSharedKeyAccess": false }
+ * }
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { coerceParameterValue, checkParameterValue, ParameterType } from './parameter-model';
+import { TemplateManifestParameter } from './template-manifest';
+import { MAIN_TEMPLATE_OUTPUT } from './linked-templates';
+import { formatJsonOutput } from './render-validation';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+/**
+ * Schema of deployment parameter files
+ */
+export const DEPLOYMENT_PARAMETERS_SCHEMA_URL = 'https://schema.management.azure.com/schemas/2019-04-01/deploymentParameters.json#';
+
+/**
+ * Profile written to azuredeploy.parameters.json; without a config entry it holds the template defaults only
+ */
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Ways of deriving a set of parameter files from the parameter constraints
+ */
+export const PARAMETER_MATRIX_MODES = ['pairwise'] as const;
+
+export type ParameterMatrixMode = typeof PARAMETER_MATRIX_MODES[number];
+
+/**
+ * A parameter varied by the matrix, with the values it takes (the default first)
+ */
+export interface MatrixFactor {
+  name: string;
+  values: unknown[];
+}
+
+/**
+ * A written parameter file
+ */
+export interface ParameterFile {
+  /** Profile name, or pairwise-01 for a matrix row */
+  name: string;
+
+  /** File path, relative to the output directory */
+  file: string;
+
+  /** Parameter values in the file */
+  values: Record<string, unknown>;
+}
+
+/**
+ * Options for writing parameter files
+ */
+export interface ParameterFileOptions {
+  /** Generated package directory (with mainTemplate.json) */
+  packageDir: string;
+
+  /** Directory to write the parameter files to */
+  outputDir: string;
+
+  /** Named profiles (parameterProfiles in azmp.config.json) */
+  profiles?: Record<string, Record<string, unknown>>;
+
+  /** Profiles to write; with a matrix, the single profile the rows start from (default: default) */
+  names?: string[];
+
+  /** Values from --set, applied to every profile and matrix row */
+  set?: Record<string, string>;
+
+  matrix?: ParameterMatrixMode;
+}
+
+/**
+ * Result of writing parameter files
+ */
+export interface ParameterFileResult {
+  outputDir: string;
+  files: ParameterFile[];
+
+  /** Parameters the matrix varies (empty without a matrix) */
+  factors: MatrixFactor[];
+
+  /** Value pairs the matrix covers */
+  pairs: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * A mainTemplate parameter definition
+ */
+export interface DeploymentParameter {
+  type?: string;
+  defaultValue?: unknown;
+  allowedValues?: unknown[];
+  minValue?: number;
+  maxValue?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/** Parameters Partner Center fills in (_artifactsLocation, _artifactsLocationSasToken) */
+const ARTIFACTS_PARAMETER_PATTERN = /^_artifactsLocation/;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isExpression(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('[') && !value.startsWith('[[');
+}
+
+/**
+ * The definition in parameter model terms (secure types are checked as their plain counterparts)
+ */
+function toParameterDefinition(parameter: DeploymentParameter): TemplateManifestParameter {
+  const type = (parameter.type ?? 'string').toLowerCase().replace(/^secure/, '') as ParameterType;
+  const { allowedValues, minValue, maxValue, minLength, maxLength } = parameter;
+  return { type, allowedValues, minValue, maxValue, minLength, maxLength };
+}
+
+function isSecure(parameter: DeploymentParameter): boolean {
+  return (parameter.type ?? '').toLowerCase().startsWith('secure');
+}
+
+/**
+ * Read the parameters of the mainTemplate in a package directory
+ *
+ * @throws FileSystemError if the directory has no mainTemplate.json
+ * @throws ValidationError if it is not valid JSON
+ */
+export async function readTemplateParameters(packageDir: string): Promise<Record<string, DeploymentParameter>> {
+  const file = path.join(packageDir, MAIN_TEMPLATE_OUTPUT);
+  if (!await fs.pathExists(file)) {
+    throw new FileSystemError(`No ${MAIN_TEMPLATE_OUTPUT} in ${packageDir}`, file);
+  }
+  let template: unknown;
+  try {
+    template = await fs.readJson(file);
+  } catch (error) {
+    throw new ValidationError(`Cannot read ${MAIN_TEMPLATE_OUTPUT}`, [`${file}: ${(error as Error).message}`]);
+  }
+  const parameters = isObject(template) && isObject(template.parameters) ? template.parameters : {};
+  return Object.fromEntries(Object.entries(parameters).filter(([, definition]) => isObject(definition))) as Record<string, DeploymentParameter>;
+}
+
+/**
+ * Resolve the values of one parameter file
+ *
+ * Literal defaults are written out; supplied values are coerced and checked
+ * against the parameter constraints. Parameters with expression defaults are
+ * left to the template unless supplied.
+ *
+ * @param parameters mainTemplate parameters
+ * @param supplied Values keyed by parameter name (profile values, then --set)
+ * @param label Profile name for error messages
+ * @returns Values in parameter order
+ * @throws ValidationError if a value is unknown or invalid, or a parameter without a default has no value
+ */
+export function resolveParameterFileValues(
+  parameters: Record<string, DeploymentParameter>,
+  supplied: Record<string, unknown>,
+  label: string
+): Record<string, unknown> {
+  const errors: string[] = [];
+  for (const name of Object.keys(supplied)) {
+    if (!parameters[name]) {
+      errors.push(`Unknown parameter '${name}'`);
+    }
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [name, parameter] of Object.entries(parameters)) {
+    if (ARTIFACTS_PARAMETER_PATTERN.test(name)) {
+      continue;
+    }
+    if (supplied[name] === undefined) {
+      if (parameter.defaultValue === undefined) {
+        errors.push(`${name} has no default; set it in the profile or with --set ${name}=<value>`);
+      } else if (!isExpression(parameter.defaultValue)) {
+        values[name] = parameter.defaultValue;
+      }
+      continue;
+    }
+
+    const definition = toParameterDefinition(parameter);
+    try {
+      const value = coerceParameterValue(name, definition, supplied[name]);
+      const problems = checkParameterValue(name, definition, value);
+      if (problems.length > 0) {
+        errors.push(...problems);
+      } else {
+        values[name] = value;
+      }
+    } catch (error) {
+      errors.push(...((error as ValidationError).details ?? [(error as Error).message]).map(detail => `${name}: ${detail}`));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid parameters for profile '${label}'`, errors);
+  }
+  return values;
+}
+
+/**
+ * Parameters the matrix varies: allowedValues, bools and ints with both
+ * bounds, except secure parameters and the ones given a value
+ */
+export function getMatrixFactors(parameters: Record<string, DeploymentParameter>, pinned: string[] = []): MatrixFactor[] {
+  const factors: MatrixFactor[] = [];
+  for (const [name, parameter] of Object.entries(parameters)) {
+    if (pinned.includes(name) || isSecure(parameter) || ARTIFACTS_PARAMETER_PATTERN.test(name)) {
+      continue;
+    }
+    const type = (parameter.type ?? 'string').toLowerCase();
+    let values: unknown[] = [];
+    if (Array.isArray(parameter.allowedValues)) {
+      values = parameter.allowedValues;
+    } else if (type === 'bool') {
+      values = [true, false];
+    } else if (type === 'int' && Number.isInteger(parameter.minValue) && Number.isInteger(parameter.maxValue)) {
+      values = [parameter.minValue, parameter.maxValue];
+    }
+
+    // The default first, so the first row stays close to a default deployment
+    const defaultValue = isExpression(parameter.defaultValue) ? undefined : parameter.defaultValue;
+    const keys = new Set(values.map(value => JSON.stringify(value)));
+    if (defaultValue !== undefined && (keys.has(JSON.stringify(defaultValue)) || type === 'int')) {
+      values = [defaultValue, ...values.filter(value => JSON.stringify(value) !== JSON.stringify(defaultValue))];
+    }
+    if (values.length > 1) {
+      factors.push({ name, values });
+    }
+  }
+  return factors;
+}
+
+/**
+ * Rows covering every pair of values of any two factors
+ *
+ * Greedy and deterministic: factors with the most values go first; each row
+ * starts from the first uncovered pair and gives every other factor the value
+ * that covers the most uncovered pairs with the factors already set.
+ *
+ * @param factorLevels Number of values of each factor
+ * @returns Rows of value indexes (in factor order), and the number of pairs covered
+ */
+export function buildPairwiseRows(factorLevels: number[]): { rows: number[][]; pairs: number } {
+  if (factorLevels.length < 2) {
+    return { rows: factorLevels.length === 0 ? [[]] : Array.from({ length: factorLevels[0] }, (_, value) => [value]), pairs: 0 };
+  }
+  const order = factorLevels.map((_, factor) => factor).sort((a, b) => factorLevels[b] - factorLevels[a] || a - b);
+  const levels = order.map(factor => factorLevels[factor]);
+
+  const key = (first: number, firstValue: number, second: number, secondValue: number) =>
+    `${first}:${firstValue}|${second}:${secondValue}`;
+  const uncovered = new Map<string, [number, number, number, number]>();
+  for (let first = 0; first < levels.length; first++) {
+    for (let second = first + 1; second < levels.length; second++) {
+      for (let firstValue = 0; firstValue < levels[first]; firstValue++) {
+        for (let secondValue = 0; secondValue < levels[second]; secondValue++) {
+          uncovered.set(key(first, firstValue, second, secondValue), [first, firstValue, second, secondValue]);
+        }
+      }
+    }
+  }
+  const pairs = uncovered.size;
+
+  const covers = (row: number[], factor: number, value: number): number => row.reduce((count, other, index) =>
+    other < 0 || index === factor ? count
+      : count + (uncovered.has(index < factor ? key(index, other, factor, value) : key(factor, value, index, other)) ? 1 : 0), 0);
+
+  const rows: number[][] = [];
+  for (const [first, firstValue, second, secondValue] of uncovered.values()) {
+    const row = levels.map(() => -1);
+    row[first] = firstValue;
+    row[second] = secondValue;
+    for (let factor = 0; factor < levels.length; factor++) {
+      if (row[factor] >= 0) {
+        continue;
+      }
+      let best = 0;
+      for (let value = 1; value < levels[factor]; value++) {
+        if (covers(row, factor, value) > covers(row, factor, best)) {
+          best = value;
+        }
+      }
+      row[factor] = best;
+    }
+
+    for (let one = 0; one < row.length; one++) {
+      for (let other = one + 1; other < row.length; other++) {
+        uncovered.delete(key(one, row[one], other, row[other]));
+      }
+    }
+    const ordered: number[] = [];
+    order.forEach((factor, index) => { ordered[factor] = row[index]; });
+    rows.push(ordered);
+  }
+  return { rows, pairs };
+}
+
+/**
+ * A deployment parameter file for a set of values
+ */
+export function buildParameterFile(values: Record<string, unknown>): JsonObject {
+  return {
+    $schema: DEPLOYMENT_PARAMETERS_SCHEMA_URL,
+    contentVersion: '1.0.0.0',
+    parameters: Object.fromEntries(Object.entries(values).map(([name, value]) => [name, { value }]))
+  };
+}
+
+/**
+ * File name of a profile's parameter file (the default profile is azuredeploy.parameters.json)
+ */
+export function parameterFileName(name: string): string {
+  return name === DEFAULT_PROFILE ? 'azuredeploy.parameters.json' : `azuredeploy.parameters.${name}.json`;
+}
+
+/**
+ * Write parameter files for named profiles, or for the rows of a matrix
+ *
+ * @returns Written files, and the matrix factors and pairs
+ * @throws FileSystemError if the package has no mainTemplate.json
+ * @throws ValidationError for unknown profiles or invalid values
+ */
+export async function generateParameterFiles(options: ParameterFileOptions): Promise<ParameterFileResult> {
+  const parameters = await readTemplateParameters(options.packageDir);
+  const profiles = options.profiles ?? {};
+  const names = options.names && options.names.length > 0 ? options.names : [DEFAULT_PROFILE];
+
+  const unknown = names.filter(name => name !== DEFAULT_PROFILE && !profiles[name]);
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown parameter profile${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`, [
+      `Profiles in parameterProfiles: ${Object.keys(profiles).join(', ') || 'none'}`
+    ]);
+  }
+  if (options.matrix && names.length > 1) {
+    throw new ValidationError('A matrix starts from a single profile', [`Got: ${names.join(', ')}`]);
+  }
+
+  const supplied = (name: string): Record<string, unknown> => ({ ...profiles[name], ...options.set });
+  const result: ParameterFileResult = { outputDir: options.outputDir, files: [], factors: [], pairs: 0 };
+
+  if (options.matrix) {
+    const base = supplied(names[0]);
+    const values = resolveParameterFileValues(parameters, base, names[0]);
+    result.factors = getMatrixFactors(parameters, Object.keys(base));
+    const { rows, pairs } = buildPairwiseRows(result.factors.map(factor => factor.values.length));
+    result.pairs = pairs;
+    const width = Math.max(2, String(rows.length).length);
+    rows.forEach((row, index) => {
+      const name = `${options.matrix}-${String(index + 1).padStart(width, '0')}`;
+      const rowValues = { ...values };
+      row.forEach((value, factor) => { rowValues[result.factors[factor].name] = result.factors[factor].values[value]; });
+      // Keep the mainTemplate parameter order
+      const ordered = Object.fromEntries(Object.keys(parameters).filter(key => key in rowValues).map(key => [key, rowValues[key]]));
+      result.files.push({ name, file: parameterFileName(name), values: ordered });
+    });
+  } else {
+    for (const name of names) {
+      result.files.push({ name, file: parameterFileName(name), values: resolveParameterFileValues(parameters, supplied(name), name) });
+    }
+  }
+
+  await fs.ensureDir(options.outputDir);
+  for (const file of result.files) {
+    await fs.writeFile(path.join(options.outputDir, file.file), formatJsonOutput(buildParameterFile(file.values)), 'utf-8');
+  }
+  return result;
+}
@@ -0,0 +1,312 @@
+/**
+ * Template Parameter Model
+ *
+ * Typed input parameters declared in a template manifest. Values supplied on
+ * the command line (`--set key=value`), in azmp.config.json or through
+ * interactive prompts are coerced to the declared type and checked against
+ * the declared constraints before anything is rendered.
+ *
+ * @example
+ * ```json
+ * "parameters": {
+ *   "minimumTlsVersion": {
+ *     "type": "string",
+ *     "default": "TLS1_2",
+ *     "allowedValues": ["TLS1_0", "TLS1_1", "TLS1_2"]
+ *   },
+ *   "blobSoftDeleteDays": { "type": "int", "default": 7, "minValue": 0, "maxValue": 365 }
+ * }
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import { ValidationError } from '../utils/error-handler';
+import { TemplateManifest, TemplateManifestParameter } from './template-manifest';
+
+/**
+ * Parameter types, named after their ARM template counterparts
+ */
+export const PARAMETER_TYPES = ['string', 'int', 'bool', 'array', 'object'] as const;
+
+export type ParameterType = typeof PARAMETER_TYPES[number];
+
+/**
+ * Type of a parameter definition (untyped definitions are strings)
+ */
+export function getParameterType(definition: TemplateManifestParameter): ParameterType {
+  return definition.type ?? 'string';
+}
+
+/**
+ * Describe the type of a value in error messages
+ */
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+/**
+ * Check that a value has the JavaScript shape of a parameter type
+ */
+function matchesType(type: ParameterType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'int':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'bool':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+/**
+ * Validate a parameter definition from a manifest
+ *
+ * @param name Parameter name
+ * @param definition Parsed definition
+ * @returns List of problems (empty when valid)
+ */
+export function validateParameterDefinition(name: string, definition: unknown): string[] {
+  const prefix = `parameters.${name}`;
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return [`${prefix} must be an object`];
+  }
+
+  const errors: string[] = [];
+  const candidate = definition as Record<string, unknown>;
+
+  if (candidate.type !== undefined && !PARAMETER_TYPES.includes(candidate.type as ParameterType)) {
+    errors.push(`${prefix}.type must be one of: ${PARAMETER_TYPES.join(', ')}`);
+    return errors;
+  }
+
+  for (const field of ['minValue', 'maxValue', 'minLength', 'maxLength']) {
+    if (candidate[field] !== undefined && !Number.isInteger(candidate[field])) {
+      errors.push(`${prefix}.${field} must be an integer`);
+    }
+  }
+
+  if (candidate.allowedValues !== undefined &&
+      (!Array.isArray(candidate.allowedValues) || candidate.allowedValues.length === 0)) {
+    errors.push(`${prefix}.allowedValues must be a non-empty array`);
+  }
+
+  if (candidate.description !== undefined && typeof candidate.description !== 'string') {
+    errors.push(`${prefix}.description must be a string`);
+  }
+
+  if (candidate.pattern !== undefined) {
+    if (typeof candidate.pattern !== 'string') {
+      errors.push(`${prefix}.pattern must be a string`);
+    } else {
+      try {
+        new RegExp(candidate.pattern);
+      } catch {
+        errors.push(`${prefix}.pattern must be a valid regular expression`);
+      }
+    }
+  }
+
+  if (errors.length === 0 && candidate.default !== undefined) {
+    const typed = candidate as TemplateManifestParameter;
+    errors.push(...checkParameterValue(name, typed, candidate.default).map(error => `${prefix}.default: ${error}`));
+  }
+
+  return errors;
+}
+
+/**
+ * Check a typed value against a parameter definition
+ *
+ * @param name Parameter name
+ * @param definition Parameter definition
+ * @param value Value to check (already coerced)
+ * @returns List of problems (empty when valid)
+ */
+export function checkParameterValue(
+  name: string,
+  definition: TemplateManifestParameter,
+  value: unknown
+): string[] {
+  const type = getParameterType(definition);
+
+  if (!matchesType(type, value)) {
+    return [`${name} must be of type ${type} (got ${describeValue(value)})`];
+  }
+
+  const errors: string[] = [];
+
+  if (definition.allowedValues &&
+      !definition.allowedValues.some(allowed => JSON.stringify(allowed) === JSON.stringify(value))) {
+    errors.push(`${name} must be one of: ${definition.allowedValues.map(allowed => JSON.stringify(allowed)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (definition.minValue !== undefined && value < definition.minValue) {
+      errors.push(`${name} must be at least ${definition.minValue} (got ${value})`);
+    }
+    if (definition.maxValue !== undefined && value > definition.maxValue) {
+      errors.push(`${name} must be at most ${definition.maxValue} (got ${value})`);
+    }
+  }
+
+  if (typeof value === 'string' || Array.isArray(value)) {
+    const unit = typeof value === 'string' ? 'characters' : 'items';
+    if (definition.minLength !== undefined && value.length < definition.minLength) {
+      errors.push(`${name} must have at least ${definition.minLength} ${unit} (got ${value.length})`);
+    }
+    if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+      errors.push(`${name} must have at most ${definition.maxLength} ${unit} (got ${value.length})`);
+    }
+  }
+
+  if (typeof value === 'string' && definition.pattern && !new RegExp(definition.pattern).test(value)) {
+    errors.push(`${name} must match ${definition.pattern}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a value to the declared parameter type
+ * Strings (from --set or prompts) are parsed; other values are returned unchanged
+ *
+ * @param name Parameter name
+ * @param definition Parameter definition
+ * @param value Raw value
+ * @returns Typed value
+ * @throws ValidationError if a string cannot be parsed as the declared type
+ */
+export function coerceParameterValue(
+  name: string,
+  definition: TemplateManifestParameter,
+  value: unknown
+): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const type = getParameterType(definition);
+  const raw = value.trim();
+
+  switch (type) {
+    case 'string':
+      return value;
+    case 'int':
+      if (!/^-?\d+$/.test(raw)) {
+        throw new ValidationError(`Invalid value for parameter '${name}'`, [`'${value}' is not an integer`]);
+      }
+      return Number(raw);
+    case 'bool':
+      if (!/^(true|false)$/i.test(raw)) {
+        throw new ValidationError(`Invalid value for parameter '${name}'`, [`'${value}' is not true or false`]);
+      }
+      return raw.toLowerCase() === 'true';
+    case 'array':
+    case 'object':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new ValidationError(`Invalid value for parameter '${name}'`, [`'${value}' is not valid JSON`]);
+      }
+  }
+}
+
+/**
+ * Parse repeated `--set key=value` arguments
+ *
+ * @param assignments Raw arguments
+ * @returns Object mapping parameter names to raw string values (later assignments win)
+ * @throws ValidationError if an argument is not of the form key=value
+ */
+export function parseSetArguments(assignments: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  const errors: string[] = [];
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    const key = separator > 0 ? assignment.substring(0, separator).trim() : '';
+    if (!key) {
+      errors.push(`'${assignment}' must be of the form key=value`);
+      continue;
+    }
+    values[key] = assignment.substring(separator + 1);
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid --set argument', errors);
+  }
+
+  return values;
+}
+
+/**
+ * Resolve the parameter values for a generation run
+ * Declared defaults are overridden by the supplied values, which are coerced
+ * and validated; all problems are reported together.
+ *
+ * @param manifest Template manifest declaring the parameters
+ * @param supplied Values keyed by parameter name
+ * @param templateType Template type for error messages
+ * @returns Typed values for every parameter that has a default or was supplied
+ * @throws ValidationError if a value is unknown, malformed or out of range
+ */
+export function resolveParameterValues(
+  manifest: TemplateManifest,
+  supplied: Record<string, unknown> = {},
+  templateType: string = manifest.type ?? 'template'
+): Record<string, unknown> {
+  const definitions = manifest.parameters ?? {};
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (definition.default !== undefined) {
+      values[name] = definition.default;
+    }
+  }
+
+  for (const [name, rawValue] of Object.entries(supplied)) {
+    if (rawValue === undefined) {
+      continue;
+    }
+
+    const definition = definitions[name];
+    if (!definition) {
+      errors.push(`Unknown parameter '${name}'`);
+      continue;
+    }
+
+    let value: unknown;
+    try {
+      value = coerceParameterValue(name, definition, rawValue);
+    } catch (error) {
+      errors.push(...((error as ValidationError).details ?? [(error as Error).message]).map(detail => `${name}: ${detail}`));
+      continue;
+    }
+
+    const problems = checkParameterValue(name, definition, value);
+    if (problems.length > 0) {
+      errors.push(...problems);
+      continue;
+    }
+    values[name] = value;
+  }
+
+  if (errors.length > 0) {
+    const declared = Object.keys(definitions);
+    if (errors.some(error => error.startsWith('Unknown parameter'))) {
+      errors.push(`Declared parameters: ${declared.length > 0 ? declared.join(', ') : 'none'}`);
+    }
+    throw new ValidationError(`Invalid parameters for template '${templateType}'`, errors);
+  }
+
+  return values;
+}
@@ -27,6 +27,14 @@ const logger = getLogger();
  */
 const PLUGIN_INIT_TIMEOUT_MS = 5000; // 5 seconds
 
+/**
+ * A resolved plugin module together with the file it was loaded from
+ */
+interface LoadedModule {
+  module: unknown;
+  modulePath: string;
+}
+
 /**
  * Plugin loader with lifecycle management
  */
@@ -63,7 +71,7 @@ export class PluginLoader {
 
       try {
         // Resolve and load module
-        const pluginModule = await this.resolveModule(config.package);
+        const { module: pluginModule, modulePath } = await this.resolveModule(config.package);
         
         // Instantiate plugin
         const plugin = this.instantiatePlugin(pluginModule, config.package);
@@ -77,7 +85,8 @@ export class PluginLoader {
           config: { ...context.config, pluginOptions: config.options ?? {} }
         };
         
-        await this.initializePlugin(plugin, pluginContext);
+        // Plugin template paths are relative to the plugin's own directory
+        await this.initializePlugin(plugin, pluginContext, path.dirname(modulePath));
         
         // Register helpers
         helperRegistrar.register(plugin, plugin.metadata.id);
@@ -118,10 +127,10 @@ export class PluginLoader {
    * Handles both npm packages and local file paths with security validation
    * 
    * @param packageName npm package name or local file path
-   * @returns Loaded module (type is unknown until validated)
+   * @returns Loaded module (type is unknown until validated) and its resolved path
    * @throws Error if module cannot be resolved or loaded
    */
-  private async resolveModule(packageName: string): Promise<unknown> {
+  private async resolveModule(packageName: string): Promise<LoadedModule> {
     logger.debug(`Resolving plugin module: ${packageName}`, 'plugin-loader');
 
     // Determine if this is a local path or npm package
@@ -138,10 +147,10 @@ export class PluginLoader {
    * Load a local plugin module with path traversal protection
    * 
    * @param relativePath Relative or absolute path to plugin
-   * @returns Loaded module (type is unknown until validated)
+   * @returns Loaded module (type is unknown until validated) and its resolved path
    * @throws Error if path is invalid or module cannot be loaded
    */
-  private async loadLocalModule(relativePath: string): Promise<unknown> {
+  private async loadLocalModule(relativePath: string): Promise<LoadedModule> {
     const workspaceRoot = process.cwd();
     
     // Resolve to absolute path
@@ -206,7 +215,7 @@ export class PluginLoader {
       // This works better for local development and built plugins
       const require = createRequire(__filename);
       const module = require(modulePath);
-      return module;
+      return { module, modulePath };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to import local plugin '${modulePath}': ${message}`);
@@ -217,10 +226,10 @@ export class PluginLoader {
    * Load an npm package plugin module
    * 
    * @param packageName npm package name
-   * @returns Loaded module (type is unknown until validated)
+   * @returns Loaded module (type is unknown until validated) and its resolved path
    * @throws Error if package cannot be found or loaded
    */
-  private async loadNpmModule(packageName: string): Promise<unknown> {
+  private async loadNpmModule(packageName: string): Promise<LoadedModule> {
     logger.debug(`Loading npm plugin: ${packageName}`, 'plugin-loader');
     
     try {
@@ -236,7 +245,7 @@ export class PluginLoader {
         // Load using dynamic import
         const fileUrl = `file://${resolvedPath}`;
         const module = await import(fileUrl);
-        return module;
+        return { module, modulePath: resolvedPath };
       } catch {
         // Package not found - provide helpful error
         throw new Error(
@@ -354,11 +363,13 @@ export class PluginLoader {
    * 
    * @param plugin Plugin instance to initialize
    * @param context Plugin context
+   * @param templatesRoot Directory the plugin's template paths are relative to
    * @throws Error if initialization times out or fails
    */
   public async initializePlugin(
     plugin: IPlugin,
-    context: PluginContext
+    context: PluginContext,
+    templatesRoot?: string
   ): Promise<void> {
     const pluginId = plugin.metadata.id;
 
@@ -371,7 +382,7 @@ export class PluginLoader {
 
     try {
       // Register the plugin first to detect conflicts early
-      templateRegistry.registerPlugin(plugin);
+      templateRegistry.registerPlugin(plugin, templatesRoot);
 
       // Initialize with timeout protection
       if (plugin.initialize) {
@@ -516,6 +527,37 @@ export class PluginLoader {
     this.loadedPlugins.clear();
   }
 
+  /**
+   * Unload a plugin
+   * Runs its cleanup and removes its templates, helpers and partials, so later
+   * generation runs no longer see them. Commands already added to the
+   * Commander program stay in place until the process exits.
+   *
+   * @param pluginId Plugin ID
+   * @returns True if the plugin was loaded
+   */
+  public async unloadPlugin(pluginId: string): Promise<boolean> {
+    const plugin = this.loadedPlugins.get(pluginId) ?? templateRegistry.getPlugin(pluginId);
+    if (!plugin) {
+      return false;
+    }
+
+    if (plugin.cleanup) {
+      try {
+        await this.withTimeout(plugin.cleanup(), 2000, `Plugin '${pluginId}' cleanup timed out`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Plugin '${pluginId}' cleanup failed: ${message}`, 'plugin-loader');
+      }
+    }
+
+    templateRegistry.unregisterPlugin(pluginId);
+    helperRegistrar.unregister(pluginId);
+    this.loadedPlugins.delete(pluginId);
+    logger.info(`Plugin '${pluginId}' unloaded`, 'plugin-loader');
+    return true;
+  }
+
   /**
    * Get the number of loaded plugins
    * 
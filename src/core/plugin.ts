@@ -2,7 +2,7 @@
  * Plugin Interface for Azure Marketplace Generator
  * 
  * This interface defines the contract for extending the generator with new template types,
- * custom Handlebars helpers, and additional CLI commands.
+ * custom Handlebars helpers and partials, and additional CLI commands.
  * 
  * @version 3.0.0
  * @since 3.0.0
@@ -89,6 +89,15 @@ export interface IPlugin {
    */
   getHandlebarsHelpers?(): Record<string, HandlebarsHelper>;
 
+  /**
+   * Get Handlebars partials provided by this plugin
+   * Available to the plugin's templates alongside their own partials/ directory
+   * 
+   * @since 3.1.0
+   * @returns Object mapping partial names to Handlebars source
+   */
+  getHandlebarsPartials?(): Record<string, string>;
+
   /**
    * Register custom CLI commands
    * 
@@ -212,6 +221,12 @@ export interface PluginConfig {
  *       myHelper: (value: string) => value.toUpperCase()
  *     };
  *   }
+ * 
+ *   getHandlebarsPartials(): Record<string, string> {
+ *     return {
+ *       costCenterTag: '"CostCenter": "{{costCenter}}"'
+ *     };
+ *   }
  * }
  * ```
  */
@@ -230,6 +245,10 @@ export abstract class BasePlugin implements IPlugin {
     return {};
   }
 
+  getHandlebarsPartials?(): Record<string, string> {
+    return {};
+  }
+
   registerCommands?(_program: Command): void {
     // Default: no commands
   }
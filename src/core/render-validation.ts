@@ -0,0 +1,370 @@
+/**
+ * Rendered Output Validation
+ *
+ * Checks rendered JSON outputs right after rendering and pretty-prints them.
+ * When an output does not parse, the error offset is mapped back to the
+ * Handlebars statement that produced it, so a stray comma inside an
+ * `{{#if}}` block is reported against the .hbs line that contains it.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import Handlebars from 'handlebars';
+
+type HandlebarsProgram = ReturnType<typeof Handlebars.parse>;
+type HandlebarsStatement = HandlebarsProgram['body'][number];
+type HandlebarsPosition = HandlebarsStatement['loc']['start'];
+
+/**
+ * Fields of content and block statements used for mapping
+ */
+interface ContentStatementNode {
+  /** Text after whitespace stripping */
+  value: string;
+  /** Text as written in the source */
+  original: string;
+}
+
+interface BlockStatementNode {
+  program?: HandlebarsProgram;
+  inverse?: HandlebarsProgram;
+}
+
+/**
+ * Indentation of pretty-printed JSON outputs (matches the bundled templates)
+ */
+export const JSON_OUTPUT_INDENT = 4;
+
+/**
+ * 1-based line and column in a text
+ */
+export interface TextPosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Region of a Handlebars source (1-based, end inclusive)
+ */
+export interface SourceRegion {
+  start: TextPosition;
+  end: TextPosition;
+}
+
+/**
+ * A JSON syntax error in rendered output
+ */
+export interface JsonSyntaxError {
+  /** Parser message without position information */
+  message: string;
+  /** Character offset where parsing failed */
+  offset: number;
+  /** Position of the offset */
+  position: TextPosition;
+}
+
+/**
+ * Check whether an output path is rendered as JSON
+ */
+export function isJsonOutput(outputPath: string): boolean {
+  return outputPath.toLowerCase().endsWith('.json');
+}
+
+/**
+ * Convert a character offset to a 1-based line and column
+ */
+export function offsetToPosition(text: string, offset: number): TextPosition {
+  const before = text.substring(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Thrown by the scanner at the first offending character
+ */
+class JsonScanStop {
+  constructor(public readonly offset: number) {}
+}
+
+/**
+ * Find the offset of the first JSON syntax error
+ * Used because JSON.parse does not report a position for every kind of error
+ *
+ * @param text JSON text
+ * @returns Offset of the first offending character (text length for unexpected end), or undefined if valid
+ */
+export function locateJsonSyntaxError(text: string): number | undefined {
+  let i = 0;
+
+  const stop = (): never => {
+    throw new JsonScanStop(i);
+  };
+  const skipWhitespace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i])) i++;
+  };
+  const expect = (char: string) => {
+    if (text[i] !== char) stop();
+    i++;
+  };
+  const scanLiteral = (word: string) => {
+    for (const char of word) expect(char);
+  };
+  const scanString = () => {
+    expect('"');
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '"') {
+        i++;
+        return;
+      }
+      if (char === '\\') {
+        i++;
+        if (text[i] === 'u') {
+          for (let digit = 0; digit < 4; digit++) {
+            i++;
+            if (!/^[0-9a-fA-F]$/.test(text[i] ?? '')) stop();
+          }
+        } else if (i >= text.length || !'"\\/bfnrt'.includes(text[i])) {
+          stop();
+        }
+        i++;
+        continue;
+      }
+      if (char < ' ') stop();
+      i++;
+    }
+    stop();
+  };
+  const scanNumber = () => {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(text.substring(i));
+    if (!match) stop();
+    i += (match as RegExpExecArray)[0].length;
+  };
+  const scanValue = (): void => {
+    skipWhitespace();
+    const char = text[i];
+    if (char === '{') {
+      i++;
+      skipWhitespace();
+      if (text[i] === '}') {
+        i++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        scanString();
+        skipWhitespace();
+        expect(':');
+        scanValue();
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          continue;
+        }
+        expect('}');
+        return;
+      }
+    } else if (char === '[') {
+      i++;
+      skipWhitespace();
+      if (text[i] === ']') {
+        i++;
+        return;
+      }
+      for (;;) {
+        scanValue();
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          continue;
+        }
+        expect(']');
+        return;
+      }
+    } else if (char === '"') {
+      scanString();
+    } else if (char === 't') {
+      scanLiteral('true');
+    } else if (char === 'f') {
+      scanLiteral('false');
+    } else if (char === 'n') {
+      scanLiteral('null');
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      scanNumber();
+    } else {
+      stop();
+    }
+  };
+
+  try {
+    scanValue();
+    skipWhitespace();
+    if (i < text.length) stop();
+    return undefined;
+  } catch (error) {
+    if (error instanceof JsonScanStop) {
+      return error.offset;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse rendered JSON
+ *
+ * @param text Rendered output
+ * @returns Parsed value, or the syntax error
+ */
+export function parseRenderedJson(text: string): { value: unknown } | { error: JsonSyntaxError } {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    const offset = locateJsonSyntaxError(text) ?? text.length;
+    const message = (error as Error).message
+      .replace(/, [\s\S]* is not valid JSON$/, '')
+      .replace(/\s+in JSON at position \d+.*$/, '');
+    return { error: { message, offset, position: offsetToPosition(text, offset) } };
+  }
+}
+
+/**
+ * Pretty-print a parsed JSON output
+ */
+export function formatJsonOutput(value: unknown): string {
+  return `${JSON.stringify(value, null, JSON_OUTPUT_INDENT)}\n`;
+}
+
+/**
+ * Render each statement of a body on its own
+ * The AST is already whitespace-processed, so standalone handling must not run again
+ */
+function renderStatements(
+  env: typeof Handlebars,
+  body: HandlebarsStatement[],
+  context: unknown
+): string[] {
+  return body.map(statement => {
+    const program = { type: 'Program', body: [statement], strip: {}, loc: statement.loc, blockParams: [] };
+    return env.compile(program, { ignoreStandalone: true })(context);
+  });
+}
+
+/**
+ * Move a Handlebars position (1-based line, 0-based column) forward over a piece of text
+ */
+function advance(start: HandlebarsPosition, text: string): TextPosition {
+  const lines = text.split('\n');
+  if (lines.length === 1) {
+    return { line: start.line, column: start.column + text.length + 1 };
+  }
+  return { line: start.line + lines.length - 1, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Region covered by a statement
+ */
+function statementRegion(statement: HandlebarsStatement): SourceRegion {
+  return {
+    start: { line: statement.loc.start.line, column: statement.loc.start.column + 1 },
+    end: { line: statement.loc.end.line, column: statement.loc.end.column }
+  };
+}
+
+/**
+ * Find the statement of a body that rendered an offset, descending into taken branches
+ */
+function mapOffsetInBody(
+  env: typeof Handlebars,
+  body: HandlebarsStatement[],
+  context: unknown,
+  offset: number,
+  expected?: string
+): SourceRegion | undefined {
+  const pieces = renderStatements(env, body, context);
+  if (expected !== undefined && pieces.join('').length !== expected.length) {
+    return undefined;
+  }
+
+  let start = 0;
+  for (let index = 0; index < body.length; index++) {
+    const end = start + pieces[index].length;
+    const isLast = index === body.length - 1;
+    if (offset < end || (isLast && offset === end)) {
+      const statement = body[index];
+      const local = offset - start;
+
+      if (statement.type === 'ContentStatement') {
+        const content = statement as unknown as ContentStatementNode;
+        const lead = Math.max(content.original.indexOf(content.value), 0);
+        const position = advance(statement.loc.start, content.original.substring(0, lead + local));
+        return { start: position, end: position };
+      }
+
+      if (statement.type === 'BlockStatement') {
+        // Descend into the branch that produced the block's output (if/unless/else chains)
+        const block = statement as unknown as BlockStatementNode;
+        for (const branch of [block.program, block.inverse]) {
+          if (!branch) continue;
+          const branchPieces = renderStatements(env, branch.body, context);
+          if (branchPieces.join('') === pieces[index]) {
+            return mapOffsetInBody(env, branch.body, context, local) ?? statementRegion(statement);
+          }
+        }
+      }
+
+      return statementRegion(statement);
+    }
+    start = end;
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the Handlebars source region that rendered an output offset
+ *
+ * @param env Handlebars environment the output was rendered with
+ * @param source Handlebars source
+ * @param context Render context
+ * @param output Rendered output (used to confirm the statements render the same text)
+ * @param offset Offset in the rendered output
+ * @returns Source region, or undefined if the output cannot be reproduced statement by statement
+ */
+export function mapOutputOffsetToSource(
+  env: typeof Handlebars,
+  source: string,
+  context: unknown,
+  output: string,
+  offset: number
+): SourceRegion | undefined {
+  try {
+    return mapOffsetInBody(env, env.parse(source).body, context, offset, output);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format a region as "line:column" or "line:column-line:column"
+ */
+export function formatRegion(region: SourceRegion): string {
+  const start = `${region.start.line}:${region.start.column}`;
+  if (region.start.line === region.end.line && region.start.column === region.end.column) {
+    return start;
+  }
+  return `${start}-${region.end.line}:${region.end.column}`;
+}
+
+/**
+ * Source lines of a region, numbered, with at most maxLines lines
+ */
+export function excerptRegion(source: string, region: SourceRegion, maxLines: number = 5): string[] {
+  const lines = source.split('\n');
+  const last = Math.min(region.end.line, region.start.line + maxLines - 1, lines.length);
+  const excerpt: string[] = [];
+  for (let line = region.start.line; line <= last; line++) {
+    excerpt.push(`${String(line).padStart(5)} | ${lines[line - 1]}`);
+  }
+  return excerpt;
+}
@@ -0,0 +1,61 @@
+/**
+ * Generation Seed
+ *
+ * Derives stable name suffixes for deterministic generation runs, so the same
+ * publisher, application name and seed always render byte-identical output.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Inputs that identify a generation run for suffix derivation
+ */
+export interface SeedInputs {
+  publisher: string;
+  name: string;
+  seed: string;
+}
+
+/**
+ * Derive a lowercase alphanumeric suffix from a hash of the run inputs
+ *
+ * @param inputs Publisher, application name and seed of the run
+ * @param purpose Distinguishes suffixes within one run (e.g. the helper's prefix)
+ * @param length Suffix length (max 12)
+ * @returns Suffix made of [0-9a-z]
+ */
+export function deriveSuffix(inputs: SeedInputs, purpose: string, length: number = 6): string {
+  const digest = crypto
+    .createHash('sha256')
+    .update([inputs.publisher, inputs.name, inputs.seed, purpose].join('\u0000'))
+    .digest();
+  // The low base-36 digits of 64 bits are near uniform; the leading one is always 0-3
+  return digest.readBigUInt64BE(0).toString(36).padStart(12, '0').slice(-length);
+}
+
+/**
+ * Random suffix used when generation is not deterministic
+ *
+ * @param length Suffix length
+ * @returns Suffix made of [0-9a-z]
+ */
+export function randomSuffix(length: number = 6): string {
+  return Math.random().toString(36).substring(2, 2 + length).padEnd(length, '0');
+}
+
+/**
+ * Timestamp for deterministic runs
+ * Honours SOURCE_DATE_EPOCH (reproducible-builds convention); otherwise omitted
+ *
+ * @returns ISO timestamp or undefined
+ */
+export function pinnedGenerationDate(): string | undefined {
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+  if (!epoch || !/^\d+$/.test(epoch)) {
+    return undefined;
+  }
+  return new Date(Number(epoch) * 1000).toISOString();
+}
@@ -0,0 +1,334 @@
+/**
+ * Semantic Diff
+ *
+ * Compares generated files by meaning rather than by line: ARM templates by
+ * parameters, variables, resources (keyed by type and name) and outputs;
+ * createUiDefinition files by UI element and output; other JSON files by
+ * property path. Formatting and key order do not produce differences.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+/**
+ * Kind of a difference
+ */
+export type SemanticChangeKind = 'added' | 'removed' | 'changed';
+
+/**
+ * One difference between two versions of a file
+ */
+export interface SemanticChange {
+  /** Section of the file (parameters, variables, resources, outputs, uiElements, ...) */
+  section: string;
+
+  /** Item within the section (parameter name, "type/name" of a resource, element path, ...) */
+  key: string;
+
+  /** Property path within the item (omitted when the whole item was added, removed or replaced) */
+  path?: string;
+
+  kind: SemanticChangeKind;
+
+  /** Value in the existing file */
+  before?: unknown;
+
+  /** Value in the fresh render */
+  after?: unknown;
+}
+
+/**
+ * Differences of one file
+ */
+export interface FileDiff {
+  /** File path, relative to the output directory */
+  file: string;
+
+  /** added: only in the fresh render; removed: only in the existing output */
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+
+  /** Individual differences (empty for added, removed and unchanged files) */
+  changes: SemanticChange[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const ARM_SECTIONS = ['parameters', 'variables', 'resources', 'outputs'];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDeploymentTemplate(json: unknown): json is JsonObject {
+  return isObject(json) && typeof json.$schema === 'string' && /deploymentTemplate\.json/i.test(json.$schema);
+}
+
+function isCreateUiDefinition(json: unknown): json is JsonObject {
+  return isObject(json) && (
+    json.handler === 'Microsoft.Azure.CreateUIDef' ||
+    (typeof json.$schema === 'string' && /CreateUIDefinition/i.test(json.$schema))
+  );
+}
+
+/**
+ * Deep equality of JSON values (object key order is ignored)
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && jsonEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Key array items by a property when every item has a distinct string value for it
+ */
+function keyedItems(items: unknown[], property: string): Map<string, unknown> | undefined {
+  const keyed = new Map<string, unknown>();
+  for (const item of items) {
+    const key = isObject(item) ? item[property] : undefined;
+    if (typeof key !== 'string' || keyed.has(key)) {
+      return undefined;
+    }
+    keyed.set(key, item);
+  }
+  return keyed;
+}
+
+/**
+ * Property-level differences between two values
+ *
+ * @returns Paths ("a.b", "list[2]", "steps[name=basics]") with their before/after values
+ */
+function diffValues(before: unknown, after: unknown, path: string = ''): Array<Omit<SemanticChange, 'section' | 'key'>> {
+  const join = (segment: string): string => (path ? `${path}${segment.startsWith('[') ? '' : '.'}${segment}` : segment);
+
+  if (jsonEqual(before, after)) {
+    return [];
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: Array<Omit<SemanticChange, 'section' | 'key'>> = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of Array.from(keys).sort()) {
+      if (!(key in after)) {
+        changes.push({ path: join(key), kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: join(key), kind: 'added', after: after[key] });
+      } else {
+        changes.push(...diffValues(before[key], after[key], join(key)));
+      }
+    }
+    return changes;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    // Arrays of named items (UI elements, subnets, ...) are compared by name, not position
+    const keyedBefore = keyedItems(before, 'name');
+    const keyedAfter = keyedItems(after, 'name');
+    if (keyedBefore && keyedAfter) {
+      return diffKeyed(keyedBefore, keyedAfter, name => join(`[name=${name}]`));
+    }
+    if (before.length === after.length) {
+      return before.flatMap((item, i) => diffValues(item, after[i], join(`[${i}]`)));
+    }
+  }
+
+  return [{ path: path || undefined, kind: 'changed', before, after }];
+}
+
+/**
+ * Differences between two keyed collections
+ */
+function diffKeyed(
+  before: Map<string, unknown>,
+  after: Map<string, unknown>,
+  pathOf: (key: string) => string
+): Array<Omit<SemanticChange, 'section' | 'key'>> {
+  const changes: Array<Omit<SemanticChange, 'section' | 'key'>> = [];
+  const keys = new Set([...before.keys(), ...after.keys()]);
+  for (const key of Array.from(keys).sort()) {
+    if (!after.has(key)) {
+      changes.push({ path: pathOf(key), kind: 'removed', before: before.get(key) });
+    } else if (!before.has(key)) {
+      changes.push({ path: pathOf(key), kind: 'added', after: after.get(key) });
+    } else {
+      changes.push(...diffValues(before.get(key), after.get(key), pathOf(key)));
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two collections of named items and report differences per item
+ */
+function diffSection(section: string, before: Map<string, unknown>, after: Map<string, unknown>): SemanticChange[] {
+  const changes: SemanticChange[] = [];
+  const keys = new Set([...before.keys(), ...after.keys()]);
+  for (const key of Array.from(keys).sort()) {
+    if (!after.has(key)) {
+      changes.push({ section, key, kind: 'removed', before: before.get(key) });
+    } else if (!before.has(key)) {
+      changes.push({ section, key, kind: 'added', after: after.get(key) });
+    } else {
+      changes.push(...diffValues(before.get(key), after.get(key)).map(change => ({ section, key, ...change })));
+    }
+  }
+  return changes;
+}
+
+function objectEntries(value: unknown): Map<string, unknown> {
+  return new Map(isObject(value) ? Object.entries(value) : []);
+}
+
+/**
+ * Resources keyed by "type/name" (a numbered suffix keeps duplicates apart)
+ */
+function resourceEntries(value: unknown): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  for (const resource of Array.isArray(value) ? value : []) {
+    const type = isObject(resource) && typeof resource.type === 'string' ? resource.type : '?';
+    const name = isObject(resource) && typeof resource.name === 'string' ? resource.name : '?';
+    let key = `${type}/${name}`;
+    for (let n = 2; entries.has(key); n++) {
+      key = `${type}/${name}#${n}`;
+    }
+    entries.set(key, resource);
+  }
+  return entries;
+}
+
+/**
+ * UI elements keyed by their path through steps and sections ("basics/infoBox", "storageConfig/security/tls")
+ */
+function uiElementEntries(json: unknown): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  const parameters = isObject(json) && isObject(json.parameters) ? json.parameters : {};
+
+  const addElements = (prefix: string, elements: unknown): void => {
+    for (const element of Array.isArray(elements) ? elements : []) {
+      if (!isObject(element) || typeof element.name !== 'string') {
+        continue;
+      }
+      const key = `${prefix}/${element.name}`;
+      const { elements: children, ...properties } = element;
+      entries.set(key, properties);
+      if (children !== undefined) {
+        addElements(key, children);
+      }
+    }
+  };
+
+  addElements('basics', parameters.basics);
+  for (const step of Array.isArray(parameters.steps) ? parameters.steps : []) {
+    if (isObject(step) && typeof step.name === 'string') {
+      const { elements, ...properties } = step;
+      entries.set(step.name, properties);
+      addElements(step.name, elements);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Differences between the remaining top-level properties of two documents
+ */
+function diffRest(section: string, before: JsonObject, after: JsonObject, exclude: string[]): SemanticChange[] {
+  const strip = (json: JsonObject): Map<string, unknown> =>
+    new Map(Object.entries(json).filter(([key]) => !exclude.includes(key)));
+  return diffSection(section, strip(before), strip(after));
+}
+
+/**
+ * Semantic differences between two parsed JSON documents
+ *
+ * @param before Existing document
+ * @param after Freshly rendered document
+ * @returns Differences, grouped by section in document order
+ */
+export function diffJsonDocuments(before: unknown, after: unknown): SemanticChange[] {
+  if (isDeploymentTemplate(before) && isDeploymentTemplate(after)) {
+    return [
+      ...diffSection('parameters', objectEntries(before.parameters), objectEntries(after.parameters)),
+      ...diffSection('variables', objectEntries(before.variables), objectEntries(after.variables)),
+      ...diffSection('resources', resourceEntries(before.resources), resourceEntries(after.resources)),
+      ...diffSection('outputs', objectEntries(before.outputs), objectEntries(after.outputs)),
+      ...diffRest('template', before, after, ARM_SECTIONS)
+    ];
+  }
+
+  if (isCreateUiDefinition(before) && isCreateUiDefinition(after)) {
+    const beforeParameters = isObject(before.parameters) ? before.parameters : {};
+    const afterParameters = isObject(after.parameters) ? after.parameters : {};
+    return [
+      ...diffSection('uiElements', uiElementEntries(before), uiElementEntries(after)),
+      ...diffSection('outputs', objectEntries(beforeParameters.outputs), objectEntries(afterParameters.outputs)),
+      ...diffRest('definition', beforeParameters, afterParameters, ['basics', 'steps', 'outputs']),
+      ...diffRest('document', before, after, ['parameters'])
+    ];
+  }
+
+  if (isObject(before) && isObject(after)) {
+    return diffRest('content', before, after, []);
+  }
+  return jsonEqual(before, after) ? [] : [{ section: 'content', key: '(root)', kind: 'changed', before, after }];
+}
+
+/**
+ * Differences between two versions of a generated file
+ *
+ * @param file File path, relative to the output directory
+ * @param before Existing content (undefined if the file does not exist)
+ * @param after Freshly rendered content (undefined if a fresh render does not produce it)
+ */
+export function diffGeneratedFile(file: string, before: string | undefined, after: string | undefined): FileDiff {
+  if (before === undefined && after === undefined) {
+    return { file, status: 'unchanged', changes: [] };
+  }
+  if (before === undefined) {
+    return { file, status: 'added', changes: [] };
+  }
+  if (after === undefined) {
+    return { file, status: 'removed', changes: [] };
+  }
+
+  let changes: SemanticChange[];
+  if (file.endsWith('.json')) {
+    let beforeJson: unknown;
+    let afterJson: unknown;
+    try {
+      beforeJson = JSON.parse(before);
+      afterJson = JSON.parse(after);
+    } catch (error) {
+      // A hand edit that broke the JSON is still a difference
+      return {
+        file,
+        status: 'changed',
+        changes: [{ section: 'content', key: '(invalid JSON)', kind: 'changed', before: (error as Error).message }]
+      };
+    }
+    changes = diffJsonDocuments(beforeJson, afterJson);
+  } else {
+    const normalize = (text: string): string => text.replace(/\r\n/g, '\n');
+    changes = normalize(before) === normalize(after)
+      ? []
+      : [{ section: 'content', key: '(text)', kind: 'changed' }];
+  }
+
+  return { file, status: changes.length > 0 ? 'changed' : 'unchanged', changes };
+}
+
+/**
+ * Short JSON rendering of a value for terminal output
+ */
+export function formatDiffValue(value: unknown, maxLength: number = 60): string {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text;
+}
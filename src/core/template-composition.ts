@@ -0,0 +1,686 @@
+/**
+ * Template Composition
+ *
+ * `azmp create --compose storage,vm` renders each template type on its own
+ * and composes the results into one managed application. The parameters,
+ * variables and outputs of every mainTemplate.json are namespaced with their
+ * template type (`storage_sku`, `vm_sku`) and every expression referring to
+ * them is rewritten, so the templates cannot see each other's names.
+ * Parameters in SHARED_PARAMETERS stay shared when their definitions agree
+ * apart from their metadata.
+ * createUiDefinition.json steps and basics elements are concatenated (renamed
+ * on collision) and their outputs follow the parameter names;
+ * viewDefinition.json views are concatenated with a single Overview.
+ *
+ * Name collisions and rewired dependsOn entries are reported. Resources
+ * deployed by more than one template, and other files rendered differently
+ * by more than one template, cannot be composed.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import { jsonEqual } from './semantic-diff';
+import { formatJsonOutput } from './render-validation';
+import {
+  ARTIFACTS_LOCATION_PARAMETER,
+  ARTIFACTS_SAS_TOKEN_PARAMETER,
+  MAIN_TEMPLATE_OUTPUT
+} from './linked-templates';
+import { TemplateGenerationError } from '../utils/error-handler';
+
+export const UI_DEFINITION_OUTPUT = 'createUiDefinition.json';
+export const VIEW_DEFINITION_OUTPUT = 'viewDefinition.json';
+
+/**
+ * Parameters kept under their own name when every template declares them alike
+ */
+export const SHARED_PARAMETERS = ['location', ARTIFACTS_LOCATION_PARAMETER, ARTIFACTS_SAS_TOKEN_PARAMETER];
+
+/**
+ * View kinds a viewDefinition may contain only once (the first template's view is kept)
+ */
+export const SINGLE_VIEW_KINDS = ['Overview'];
+
+/**
+ * The rendered outputs of one template type
+ */
+export interface CompositionPart {
+  type: string;
+  outputs: Array<{ output: string; content: string }>;
+}
+
+/**
+ * What a name declared by more than one template became
+ * - shared: the declarations agree and are kept once
+ * - namespaced: each template keeps its own, namespaced copy
+ * - renamed: later templates' copies were renamed with their namespace
+ * - dropped: only the first template's copy is kept
+ */
+export type CollisionResolution = 'shared' | 'namespaced' | 'renamed' | 'dropped';
+
+/**
+ * A name declared by more than one composed template
+ */
+export interface NameCollision {
+  /** What the name identifies */
+  kind: 'parameter' | 'variable' | 'output' | 'basics' | 'step' | 'view' | 'file';
+
+  name: string;
+
+  /** Templates declaring it, in composition order */
+  types: string[];
+
+  resolution: CollisionResolution;
+}
+
+/**
+ * A dependsOn entry that was rewritten for the composed template
+ */
+export interface RewiredDependency {
+  /** Template the resource comes from */
+  type: string;
+
+  /** Resource ("type/name", as composed) */
+  resource: string;
+
+  from: string;
+  to: string;
+}
+
+/**
+ * What composition did besides concatenating
+ */
+export interface CompositionReport {
+  /** Composed template types, in order */
+  types: string[];
+
+  /** Name prefix of each template type */
+  namespaces: Record<string, string>;
+
+  collisions: NameCollision[];
+
+  rewired: RewiredDependency[];
+
+  /** Problems that did not stop the composition (e.g. dependsOn targets that do not exist) */
+  warnings: string[];
+}
+
+/**
+ * Composed outputs and the report
+ */
+export interface CompositionResult {
+  outputs: Array<{ output: string; content: string }>;
+  report: CompositionReport;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Names rewritten in the expressions of one template, per reference function
+ */
+interface Renames {
+  parameters: Map<string, string>;
+  variables: Map<string, string>;
+  outputs: Map<string, string>;
+  steps: Map<string, string>;
+  basics: Map<string, string>;
+}
+
+interface ParsedPart {
+  type: string;
+  namespace: string;
+  files: Map<string, string>;
+  renames: Renames;
+}
+
+const EXPRESSION_REFERENCE = /\b(parameters|variables|outputs|steps|basics)\(\s*'([^']*)'\s*\)/g;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Name prefix of a template type: "storage" → "storage", "web-app" → "webApp"
+ */
+export function getNamespace(type: string): string {
+  return type.replace(/[^A-Za-z0-9]+([A-Za-z0-9])?/g, (_match, next?: string) => (next ? next.toUpperCase() : ''));
+}
+
+/**
+ * Rewrite parameters('x'), variables('x'), outputs('x'), steps('x') and basics('x') in an expression
+ */
+function rewriteString(value: string, renames: Renames): string {
+  // "[[" escapes a literal bracket; anything else not in brackets is not an expression
+  if (!value.startsWith('[') || value.startsWith('[[')) {
+    return value;
+  }
+  return value.replace(EXPRESSION_REFERENCE, (match, fn: keyof Renames, name: string) => {
+    const renamed = renames[fn].get(name);
+    return renamed === undefined ? match : `${fn}('${renamed}')`;
+  });
+}
+
+/**
+ * Rewrite every expression in a JSON value
+ * Inline deployments with inner scope keep their template as is: it has names of its own
+ */
+function rewriteExpressions(value: unknown, renames: Renames): unknown {
+  if (typeof value === 'string') {
+    return rewriteString(value, renames);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => rewriteExpressions(item, renames));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const innerScope = value.type === 'Microsoft.Resources/deployments' && isObject(value.properties) &&
+    isObject(value.properties.expressionEvaluationOptions) &&
+    String(value.properties.expressionEvaluationOptions.scope).toLowerCase() === 'inner';
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+    if (innerScope && key === 'properties' && isObject(item)) {
+      return [key, Object.fromEntries(Object.entries(item).map(([property, content]) =>
+        [property, property === 'template' ? content : rewriteExpressions(content, renames)]))];
+    }
+    return [key, rewriteExpressions(item, renames)];
+  }));
+}
+
+function parseJson(part: ParsedPart, output: string): JsonObject | undefined {
+  const content = part.files.get(output);
+  if (content === undefined) {
+    return undefined;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new TemplateGenerationError(`${output} of template '${part.type}' is not valid JSON`, part.type, [
+      (error as Error).message
+    ]);
+  }
+  if (!isObject(value)) {
+    throw new TemplateGenerationError(`${output} of template '${part.type}' must be a JSON object`, part.type);
+  }
+  return value;
+}
+
+function objectAt(document: JsonObject | undefined, key: string): JsonObject {
+  return document && isObject(document[key]) ? document[key] as JsonObject : {};
+}
+
+function arrayAt(document: JsonObject | undefined, key: string): unknown[] {
+  return document && Array.isArray(document[key]) ? document[key] as unknown[] : [];
+}
+
+/**
+ * Record the names declared by more than one template
+ */
+function findCollisions(
+  kind: NameCollision['kind'],
+  declared: Array<{ type: string; names: string[] }>,
+  resolve: (name: string) => CollisionResolution
+): NameCollision[] {
+  const declaring = new Map<string, string[]>();
+  for (const { type, names } of declared) {
+    for (const name of new Set(names)) {
+      declaring.set(name, [...declaring.get(name) ?? [], type]);
+    }
+  }
+  return Array.from(declaring.entries())
+    .filter(([, types]) => types.length > 1)
+    .map(([name, types]) => ({ kind, name, types, resolution: resolve(name) }));
+}
+
+/**
+ * Check that two templates declare a shared parameter alike: metadata such as
+ * the description differs between templates and does not change the deployment;
+ * any other difference (allowedValues, length or value bounds) does
+ */
+function declaredAlike(definition: unknown, other: unknown): boolean {
+  const withoutMetadata = (value: unknown): unknown => (isObject(value)
+    ? Object.fromEntries(Object.entries(value).filter(([key]) => key !== 'metadata'))
+    : value);
+  return jsonEqual(withoutMetadata(definition), withoutMetadata(other));
+}
+
+/**
+ * Namespace the parameters, variables and outputs of each mainTemplate
+ */
+function planMainTemplateNames(parts: ParsedPart[], mains: JsonObject[], report: CompositionReport): void {
+  const parameters = parts.map((part, index) => ({ type: part.type, names: Object.keys(objectAt(mains[index], 'parameters')) }));
+  const shared = new Set(SHARED_PARAMETERS.filter(name => {
+    const definitions = mains.map(main => objectAt(main, 'parameters')[name]).filter(definition => definition !== undefined);
+    return definitions.every(definition => declaredAlike(definition, definitions[0]));
+  }));
+
+  parts.forEach((part, index) => {
+    for (const name of parameters[index].names) {
+      if (!shared.has(name)) {
+        part.renames.parameters.set(name, `${part.namespace}_${name}`);
+      }
+    }
+    const variables = objectAt(mains[index], 'variables');
+    for (const name of Object.keys(variables)) {
+      if (name !== 'copy') {
+        part.renames.variables.set(name, `${part.namespace}_${name}`);
+      }
+    }
+    // Variables declared through a copy loop
+    for (const loop of Array.isArray(variables.copy) ? variables.copy : []) {
+      if (isObject(loop) && typeof loop.name === 'string') {
+        part.renames.variables.set(loop.name, `${part.namespace}_${loop.name}`);
+      }
+    }
+    for (const name of Object.keys(objectAt(mains[index], 'outputs'))) {
+      part.renames.outputs.set(name, `${part.namespace}_${name}`);
+    }
+  });
+
+  report.collisions.push(
+    ...findCollisions('parameter', parameters, name => (shared.has(name) ? 'shared' : 'namespaced')),
+    ...findCollisions('variable', parts.map(part => ({ type: part.type, names: Array.from(part.renames.variables.keys()) })), () => 'namespaced'),
+    ...findCollisions('output', parts.map(part => ({ type: part.type, names: Array.from(part.renames.outputs.keys()) })), () => 'namespaced')
+  );
+}
+
+/**
+ * Merge a name → value section (parameters, variables, outputs), applying the renames
+ */
+function mergeNamedSection(
+  section: 'parameters' | 'variables' | 'outputs',
+  parts: ParsedPart[],
+  mains: JsonObject[],
+  errors: string[]
+): JsonObject {
+  const merged: JsonObject = {};
+  const copyLoops: unknown[] = [];
+  parts.forEach((part, index) => {
+    const renames = section === 'parameters' ? part.renames.parameters
+      : section === 'variables' ? part.renames.variables : part.renames.outputs;
+    for (const [name, value] of Object.entries(objectAt(mains[index], section))) {
+      if (section === 'variables' && name === 'copy' && Array.isArray(value)) {
+        copyLoops.push(...value.map(loop => {
+          const rewritten = rewriteExpressions(loop, part.renames) as JsonObject;
+          return isObject(loop) && typeof loop.name === 'string'
+            ? { ...rewritten, name: renames.get(loop.name) ?? loop.name }
+            : rewritten;
+        }));
+        continue;
+      }
+      const composedName = renames.get(name) ?? name;
+      const rewritten = rewriteExpressions(value, part.renames);
+      if (composedName in merged) {
+        // Shared parameters are declared alike (the first template's metadata is kept); anything else is a clash of composed names
+        const alike = section === 'parameters' && SHARED_PARAMETERS.includes(composedName)
+          ? declaredAlike(merged[composedName], rewritten)
+          : jsonEqual(merged[composedName], rewritten);
+        if (!alike) {
+          errors.push(`${section}: '${composedName}' of template '${part.type}' clashes with a name of another template`);
+        }
+        continue;
+      }
+      merged[composedName] = rewritten;
+    }
+  });
+  if (copyLoops.length > 0) {
+    merged.copy = copyLoops;
+  }
+  return merged;
+}
+
+/**
+ * Literal resource ID expression for a resource with a literal name
+ * ("sa/default" of a child type becomes its name segments)
+ */
+function resourceIdExpression(type: string, name: string): string {
+  return `[resourceId('${type}', ${name.split('/').map(segment => `'${segment}'`).join(', ')})]`;
+}
+
+function describeResource(resource: JsonObject): string {
+  return `${String(resource.type)}/${String(resource.name)}`;
+}
+
+/**
+ * Merge the resources of every mainTemplate, rewiring dependsOn and detecting collisions
+ */
+function mergeResources(
+  parts: ParsedPart[],
+  mains: JsonObject[],
+  report: CompositionReport,
+  errors: string[]
+): unknown[] {
+  const resources = mains.map(main => arrayAt(main, 'resources').filter(isObject));
+  const literalNames = resources.map(list =>
+    new Set(list.map(resource => resource.name).filter((name): name is string => typeof name === 'string' && !name.startsWith('['))));
+
+  const merged: unknown[] = [];
+  const deployedBy = new Map<string, string>();
+  parts.forEach((part, index) => {
+    for (const resource of resources[index]) {
+      const rewritten = rewriteExpressions(resource, part.renames) as JsonObject;
+      const label = describeResource(rewritten);
+
+      const key = label.toLowerCase();
+      const owner = deployedBy.get(key);
+      if (owner !== undefined && owner !== part.type) {
+        errors.push(`Resource ${label} is deployed by both '${owner}' and '${part.type}'`);
+      }
+      deployedBy.set(key, part.type);
+
+      if (Array.isArray(resource.dependsOn)) {
+        rewritten.dependsOn = resource.dependsOn.map(entry => {
+          if (typeof entry !== 'string') {
+            return entry;
+          }
+          let target = rewriteString(entry, part.renames);
+          if (target === entry && !entry.startsWith('[')) {
+            // A plain name refers to a resource of the same template
+            const own = resources[index].find(candidate =>
+              candidate.name === entry || `${String(candidate.type)}/${String(candidate.name)}` === entry);
+            if (!own) {
+              report.warnings.push(`${part.type}: ${label} depends on '${entry}', which that template does not deploy`);
+            } else if (typeof own.type === 'string' && typeof own.name === 'string' && !own.name.startsWith('[') &&
+                       literalNames.some((names, other) => other !== index && names.has(own.name as string))) {
+              // Another template deploys a resource of the same name: refer to this one by ID
+              target = resourceIdExpression(own.type, own.name);
+            }
+          }
+          if (target !== entry) {
+            report.rewired.push({ type: part.type, resource: label, from: entry, to: target });
+          }
+          return target;
+        });
+      }
+      merged.push(rewritten);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Compose the mainTemplate.json documents
+ */
+function composeMainTemplate(parts: ParsedPart[], report: CompositionReport, errors: string[]): JsonObject {
+  const mains = parts.map(part => {
+    const main = parseJson(part, MAIN_TEMPLATE_OUTPUT);
+    if (!main) {
+      throw new TemplateGenerationError(`Template '${part.type}' does not render ${MAIN_TEMPLATE_OUTPUT}`, part.type);
+    }
+    return main;
+  });
+  planMainTemplateNames(parts, mains, report);
+
+  const functions: unknown[] = [];
+  for (const [index, main] of mains.entries()) {
+    for (const definition of arrayAt(main, 'functions')) {
+      const existing = functions.find(candidate =>
+        isObject(candidate) && isObject(definition) && candidate.namespace === definition.namespace);
+      if (existing === undefined) {
+        functions.push(definition);
+      } else if (!jsonEqual(existing, definition)) {
+        errors.push(`functions: namespace '${String((definition as JsonObject).namespace)}' of template '${parts[index].type}' ` +
+          'differs from another template\'s');
+      }
+    }
+  }
+
+  // The first template's layout, with its metadata marked as composed
+  const composed: JsonObject = {};
+  const keys = new Set([...mains.flatMap(main => Object.keys(main)), 'metadata']);
+  for (const key of keys) {
+    switch (key) {
+    case 'parameters':
+    case 'variables':
+    case 'outputs':
+      composed[key] = mergeNamedSection(key, parts, mains, errors);
+      break;
+    case 'resources':
+      composed[key] = mergeResources(parts, mains, report, errors);
+      break;
+    case 'functions':
+      composed[key] = functions;
+      break;
+    case 'metadata':
+      composed[key] = { ...objectAt(mains[0], 'metadata'), composedFrom: report.types };
+      break;
+    default: {
+      const declaring = mains.filter(main => main[key] !== undefined);
+      composed[key] = declaring[0][key];
+      if (declaring.some(main => !jsonEqual(main[key], declaring[0][key]))) {
+        report.warnings.push(`${MAIN_TEMPLATE_OUTPUT}: '${key}' differs between the templates; using the first`);
+      }
+    }
+    }
+  }
+  return composed;
+}
+
+/**
+ * Concatenate named UI elements (basics elements or steps), renaming later templates' elements on collision
+ *
+ * @param pick Elements of a createUiDefinition's parameters
+ * @param renamesOf Map receiving the renames of a template
+ */
+function planUiNames(
+  kind: 'basics' | 'step',
+  parts: ParsedPart[],
+  uis: Array<JsonObject | undefined>,
+  pick: (ui: JsonObject | undefined) => unknown[],
+  renamesOf: (part: ParsedPart) => Map<string, string>,
+  report: CompositionReport
+): Array<Set<string>> {
+  const taken = new Map<string, unknown>();
+  // Per template: elements that duplicate an identical earlier element and are left out
+  const duplicates = parts.map(() => new Set<string>());
+  const declared: Array<{ type: string; names: string[] }> = [];
+  const resolutions = new Map<string, CollisionResolution>();
+
+  parts.forEach((part, index) => {
+    const names: string[] = [];
+    for (const element of pick(uis[index])) {
+      if (!isObject(element) || typeof element.name !== 'string') {
+        continue;
+      }
+      names.push(element.name);
+      if (!taken.has(element.name)) {
+        taken.set(element.name, element);
+      } else if (jsonEqual(taken.get(element.name), element)) {
+        duplicates[index].add(element.name);
+        resolutions.set(element.name, resolutions.get(element.name) ?? 'shared');
+      } else {
+        renamesOf(part).set(element.name, `${part.namespace}_${element.name}`);
+        resolutions.set(element.name, 'renamed');
+      }
+    }
+    declared.push({ type: part.type, names });
+  });
+
+  report.collisions.push(...findCollisions(kind, declared, name => resolutions.get(name) ?? 'renamed'));
+  return duplicates;
+}
+
+/**
+ * Compose the createUiDefinition.json documents
+ */
+function composeUiDefinition(parts: ParsedPart[], report: CompositionReport, errors: string[]): JsonObject | undefined {
+  const uis = parts.map(part => parseJson(part, UI_DEFINITION_OUTPUT));
+  const first = uis.find(ui => ui !== undefined);
+  if (!first) {
+    return undefined;
+  }
+
+  const parametersOf = (ui: JsonObject | undefined) => objectAt(ui, 'parameters');
+  const sharedBasics = planUiNames('basics', parts, uis, ui => arrayAt(parametersOf(ui), 'basics'),
+    part => part.renames.basics, report);
+  const sharedSteps = planUiNames('step', parts, uis, ui => arrayAt(parametersOf(ui), 'steps'),
+    part => part.renames.steps, report);
+
+  const concatenate = (key: 'basics' | 'steps', duplicates: Array<Set<string>>): unknown[] =>
+    parts.flatMap((part, index) => arrayAt(parametersOf(uis[index]), key)
+      .filter(element => !(isObject(element) && typeof element.name === 'string' && duplicates[index].has(element.name)))
+      .map(element => {
+        const rewritten = rewriteExpressions(element, part.renames);
+        const renamed = isObject(element) && typeof element.name === 'string'
+          ? (key === 'basics' ? part.renames.basics : part.renames.steps).get(element.name)
+          : undefined;
+        return renamed ? { ...(rewritten as JsonObject), name: renamed } : rewritten;
+      }));
+
+  // Outputs are keyed by mainTemplate parameter; a shared parameter takes the first template's value
+  const outputs: JsonObject = {};
+  parts.forEach((part, index) => {
+    for (const [name, value] of Object.entries(objectAt(parametersOf(uis[index]), 'outputs'))) {
+      const composedName = part.renames.parameters.get(name) ?? name;
+      const rewritten = rewriteExpressions(value, part.renames);
+      if (!(composedName in outputs)) {
+        outputs[composedName] = rewritten;
+      } else if (!jsonEqual(outputs[composedName], rewritten)) {
+        if (part.renames.parameters.has(name)) {
+          errors.push(`${UI_DEFINITION_OUTPUT}: output '${composedName}' of template '${part.type}' clashes with another template's`);
+        } else {
+          report.warnings.push(`${UI_DEFINITION_OUTPUT}: output '${name}' of template '${part.type}' ` +
+            'differs from the first template\'s; using the first');
+        }
+      }
+    }
+  });
+
+  const parameters: JsonObject = {};
+  const keys = new Set(uis.flatMap(ui => Object.keys(parametersOf(ui))));
+  for (const key of keys) {
+    if (key === 'basics') {
+      parameters[key] = concatenate('basics', sharedBasics);
+    } else if (key === 'steps') {
+      parameters[key] = concatenate('steps', sharedSteps);
+    } else if (key === 'outputs') {
+      parameters[key] = outputs;
+    } else if (key === 'resourceTypes') {
+      parameters[key] = Array.from(new Set(uis.flatMap(ui => arrayAt(parametersOf(ui), 'resourceTypes'))));
+    } else {
+      // config and anything else: the first template that has it
+      const owner = uis.find(ui => parametersOf(ui)[key] !== undefined);
+      parameters[key] = parametersOf(owner)[key];
+    }
+  }
+  return { ...first, parameters };
+}
+
+/**
+ * Compose the viewDefinition.json documents
+ */
+function composeViewDefinition(parts: ParsedPart[], report: CompositionReport): JsonObject | undefined {
+  const views = parts.map(part => parseJson(part, VIEW_DEFINITION_OUTPUT));
+  const first = views.find(view => view !== undefined);
+  if (!first) {
+    return undefined;
+  }
+
+  const composed: unknown[] = [];
+  const single = new Map<string, string[]>();
+  parts.forEach((part, index) => {
+    for (const view of arrayAt(views[index], 'views')) {
+      const kind = isObject(view) && typeof view.kind === 'string' ? view.kind : undefined;
+      if (kind && SINGLE_VIEW_KINDS.includes(kind)) {
+        const types = single.get(kind) ?? [];
+        single.set(kind, [...types, part.type]);
+        if (types.length > 0) {
+          continue;
+        }
+      }
+      composed.push(rewriteExpressions(view, part.renames));
+    }
+  });
+
+  for (const [kind, types] of single) {
+    if (types.length > 1) {
+      report.collisions.push({ kind: 'view', name: kind, types, resolution: 'dropped' });
+    }
+  }
+  return { ...first, views: composed };
+}
+
+/**
+ * Compose the rendered outputs of several template types into one application
+ *
+ * @param parts Rendered outputs per template type; the first one's layout and settings win
+ * @returns Composed outputs (JSON pretty-printed) and what was renamed, rewired or dropped
+ * @throws TemplateGenerationError if the templates deploy the same resource or otherwise clash
+ */
+export function composeTemplates(parts: CompositionPart[]): CompositionResult {
+  const types = parts.map(part => part.type);
+  const label = types.join('+');
+  if (parts.length < 2) {
+    throw new TemplateGenerationError('Composition needs at least two template types', label);
+  }
+  const repeated = types.filter((type, index) => types.indexOf(type) !== index);
+  if (repeated.length > 0) {
+    throw new TemplateGenerationError(`Template types can only be composed once: ${repeated.join(', ')}`, label);
+  }
+
+  const parsed: ParsedPart[] = parts.map(part => ({
+    type: part.type,
+    namespace: getNamespace(part.type),
+    files: new Map(part.outputs.map(output => [output.output, output.content])),
+    renames: { parameters: new Map(), variables: new Map(), outputs: new Map(), steps: new Map(), basics: new Map() }
+  }));
+  const sameNamespace = parsed.filter((part, index) => parsed.findIndex(other => other.namespace === part.namespace) !== index);
+  if (sameNamespace.length > 0) {
+    throw new TemplateGenerationError(
+      `Template types share a namespace: ${sameNamespace.map(part => `${part.type} (${part.namespace})`).join(', ')}`,
+      label
+    );
+  }
+
+  const report: CompositionReport = {
+    types,
+    namespaces: Object.fromEntries(parsed.map(part => [part.type, part.namespace])),
+    collisions: [],
+    rewired: [],
+    warnings: []
+  };
+  const errors: string[] = [];
+
+  const outputs: CompositionResult['outputs'] = [];
+  outputs.push({ output: MAIN_TEMPLATE_OUTPUT, content: formatJsonOutput(composeMainTemplate(parsed, report, errors)) });
+  const ui = composeUiDefinition(parsed, report, errors);
+  if (ui) {
+    outputs.push({ output: UI_DEFINITION_OUTPUT, content: formatJsonOutput(ui) });
+  }
+  const view = composeViewDefinition(parsed, report);
+  if (view) {
+    outputs.push({ output: VIEW_DEFINITION_OUTPUT, content: formatJsonOutput(view) });
+  }
+
+  // Every other file is copied; one path can only be rendered once
+  const composedFiles = new Set([MAIN_TEMPLATE_OUTPUT, UI_DEFINITION_OUTPUT, VIEW_DEFINITION_OUTPUT]);
+  const copied = new Map<string, { type: string; content: string }>();
+  const fileCollisions = new Map<string, string[]>();
+  for (const part of parts) {
+    for (const file of part.outputs) {
+      if (composedFiles.has(file.output)) {
+        continue;
+      }
+      const existing = copied.get(file.output);
+      if (!existing) {
+        copied.set(file.output, { type: part.type, content: file.content });
+        outputs.push(file);
+        continue;
+      }
+      fileCollisions.set(file.output, [...fileCollisions.get(file.output) ?? [existing.type], part.type]);
+      if (existing.content !== file.content) {
+        errors.push(`${file.output} is rendered differently by '${existing.type}' and '${part.type}'`);
+      }
+    }
+  }
+  for (const [file, fileTypes] of fileCollisions) {
+    report.collisions.push({ kind: 'file', name: file, types: fileTypes, resolution: 'shared' });
+  }
+
+  if (errors.length > 0) {
+    throw new TemplateGenerationError(`Templates ${types.join(', ')} cannot be composed`, label, errors);
+  }
+  return { outputs, report };
+}
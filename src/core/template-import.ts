@@ -0,0 +1,349 @@
+/**
+ * ARM Template Import
+ *
+ * Backs `azmp import <template.json>`: turns a working ARM template (such as
+ * an azuredeploy.json) into a template directory the generator can render.
+ * The template is copied as mainTemplate.json.hbs with its Handlebars
+ * delimiters escaped, occurrences of the given publisher and application
+ * names become {{publisher}} and {{name}}, and literal parameter defaults
+ * become manifest parameters so they can be set per output. The
+ * createUiDefinition comes from the createUiDefinition generator, a default
+ * viewDefinition is added and a test case records the expected outputs.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TemplateMetadata } from './plugin';
+import { validateParameterDefinition } from './parameter-model';
+import {
+  RESERVED_CONTEXT_KEYS,
+  TEMPLATE_MANIFEST_FILE,
+  TemplateManifest,
+  TemplateManifestParameter
+} from './template-manifest';
+import { DEFAULT_FIXTURE, defaultViews, titleCase, validateTemplateType, viewDefinitionSource } from './template-scaffold';
+import { runTemplateTests, TEMPLATE_TESTS_DIR, TEST_EXPECTED_DIR, TEST_INPUT_FILE } from './template-tests';
+import { generateUiDefinition } from './ui-definition-generator';
+import { AppConfig } from '../config/app-config';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+/**
+ * Parameter names usable as Handlebars context keys
+ */
+const CONTEXT_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Options for importing a template
+ */
+export interface ImportOptions {
+  /** ARM template to import */
+  templateFile: string;
+
+  /** Template type to create (e.g. "web-app") */
+  type: string;
+
+  /** Directory to create the template in (must not exist or be empty) */
+  templateDir: string;
+
+  /** Publisher name used in the template; occurrences become {{publisher}} */
+  publisher?: string;
+
+  /** Application name used in the template; occurrences become {{name}} */
+  name?: string;
+
+  /** Template version (default "1.0.0") */
+  version?: string;
+}
+
+/**
+ * Result of importing a template
+ */
+export interface ImportResult {
+  /** Absolute template directory */
+  templateDir: string;
+
+  /** Created files, relative to the template directory */
+  files: string[];
+
+  /** Metadata describing the template (templatePath is the absolute directory) */
+  metadata: TemplateMetadata;
+
+  /** ARM parameters whose defaults became manifest parameters */
+  manifestParameters: string[];
+
+  /** ARM parameters collected by the createUiDefinition */
+  uiParameters: string[];
+
+  /** Things the import could not carry over */
+  warnings: string[];
+}
+
+/**
+ * An ARM template parameter definition
+ */
+interface ArmParameter {
+  type?: string;
+  defaultValue?: unknown;
+  allowedValues?: unknown[];
+  minValue?: number;
+  maxValue?: number;
+  minLength?: number;
+  maxLength?: number;
+  metadata?: { description?: string };
+}
+
+/**
+ * Handlebars expressions to put into a JSON document
+ * JSON.stringify cannot write them directly: values must be unquoted and
+ * literal "{{" in the document has to be escaped first
+ */
+class Placeholders {
+  private sources: string[] = [];
+
+  /** Marker for a whole JSON value (the quotes are replaced too) */
+  value(source: string): string {
+    this.sources.push(source);
+    return `__AZMP_VALUE_${this.sources.length - 1}__`;
+  }
+
+  /** Marker for text inside a JSON string */
+  text(source: string): string {
+    this.sources.push(source);
+    return `__AZMP_TEXT_${this.sources.length - 1}__`;
+  }
+
+  /** Serialize a document as a Handlebars source */
+  render(document: unknown): string {
+    return JSON.stringify(document, null, 4)
+      .replace(/\{\{/g, '\\{{')
+      .replace(/"__AZMP_VALUE_(\d+)__"|__AZMP_TEXT_(\d+)__/g,
+        (_match, value: string | undefined, text: string | undefined) => this.sources[Number(value ?? text)]) + '\n';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read and check the template to import
+ *
+ * @throws FileSystemError if the file does not exist
+ * @throws ValidationError if it is not a resource group ARM template
+ */
+async function readArmTemplate(templateFile: string): Promise<Record<string, unknown>> {
+  if (!await fs.pathExists(templateFile)) {
+    throw new FileSystemError('Template file not found', templateFile);
+  }
+
+  let template: unknown;
+  try {
+    template = JSON.parse(await fs.readFile(templateFile, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(`Invalid ARM template: ${templateFile}`, [(error as Error).message]);
+  }
+
+  const schema = isObject(template) && typeof template.$schema === 'string' ? template.$schema : '';
+  if (!isObject(template) || !/deploymentTemplate\.json#?$/i.test(schema) || template.resources === undefined) {
+    throw new ValidationError(`Not an ARM template: ${templateFile}`, [
+      'Expected a JSON object with a deploymentTemplate.json $schema and resources'
+    ]);
+  }
+  if (/subscriptionDeploymentTemplate|managementGroupDeploymentTemplate|tenantDeploymentTemplate/i.test(schema)) {
+    throw new ValidationError(`Cannot import ${path.basename(templateFile)}: managed applications deploy to a resource group`, [
+      `The template's $schema targets another scope: ${schema}`
+    ]);
+  }
+  return template;
+}
+
+/**
+ * Replace the given names in every string value of a document
+ * The replacements per name are added to counts
+ */
+function replaceLiterals(
+  value: unknown,
+  literals: Array<{ literal: string; marker: string }>,
+  counts: Map<string, number>
+): unknown {
+  if (typeof value === 'string') {
+    let replaced = value;
+    for (const { literal, marker } of literals) {
+      const parts = replaced.split(literal);
+      counts.set(literal, (counts.get(literal) ?? 0) + parts.length - 1);
+      replaced = parts.join(marker);
+    }
+    return replaced;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceLiterals(item, literals, counts));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceLiterals(item, literals, counts)]));
+  }
+  return value;
+}
+
+/**
+ * Manifest parameter for an ARM parameter with a default
+ * Secure parameters, expression defaults that break the declared constraints
+ * and names that clash with the generator's context are not turned into parameters
+ */
+function toManifestParameter(name: string, parameter: ArmParameter): TemplateManifestParameter | undefined {
+  const type = (parameter.type ?? 'string').toLowerCase();
+  if (parameter.defaultValue === undefined || type.startsWith('secure') ||
+      !CONTEXT_KEY_PATTERN.test(name) || RESERVED_CONTEXT_KEYS.includes(name)) {
+    return undefined;
+  }
+
+  const definition: TemplateManifestParameter = {
+    ...(parameter.metadata?.description ? { description: parameter.metadata.description } : {}),
+    type: type as TemplateManifestParameter['type'],
+    default: parameter.defaultValue,
+    ...(parameter.allowedValues ? { allowedValues: parameter.allowedValues } : {}),
+    ...(parameter.minValue !== undefined ? { minValue: parameter.minValue } : {}),
+    ...(parameter.maxValue !== undefined ? { maxValue: parameter.maxValue } : {}),
+    ...(parameter.minLength !== undefined ? { minLength: parameter.minLength } : {}),
+    ...(parameter.maxLength !== undefined ? { maxLength: parameter.maxLength } : {})
+  };
+  return validateParameterDefinition(name, definition).length === 0 ? definition : undefined;
+}
+
+/**
+ * Import an ARM template as a new template type
+ *
+ * @param options Template file, type, directory and the names to parameterise
+ * @returns Created files, the template's metadata and what was derived from the parameters
+ * @throws ValidationError if the type name is invalid or the file is not a resource group ARM template
+ * @throws FileSystemError if the file is missing or the directory exists and is not empty
+ */
+export async function importArmTemplate(options: ImportOptions): Promise<ImportResult> {
+  validateTemplateType(options.type);
+  const templateDir = path.resolve(options.templateDir);
+  if (await fs.pathExists(templateDir) && (await fs.readdir(templateDir)).length > 0) {
+    throw new FileSystemError('Template directory already exists and is not empty', templateDir);
+  }
+  const source = await readArmTemplate(options.templateFile);
+
+  const metadata: TemplateMetadata = {
+    type: options.type,
+    name: titleCase(options.type),
+    description: `Imported from ${path.basename(options.templateFile)}`,
+    version: options.version ?? '1.0.0',
+    templatePath: templateDir
+  };
+  const warnings: string[] = [];
+  const placeholders = new Placeholders();
+
+  // {{publisher}} and {{name}} for the names used in the template, the longer first
+  const literals = [
+    { literal: options.publisher, marker: placeholders.text('{{publisher}}') },
+    { literal: options.name, marker: placeholders.text('{{name}}') }
+  ]
+    .filter((entry): entry is { literal: string; marker: string } => !!entry.literal)
+    .sort((left, right) => right.literal.length - left.literal.length);
+  const counts = new Map<string, number>();
+  const template = replaceLiterals(source, literals, counts) as Record<string, unknown>;
+  for (const { literal } of literals) {
+    if (counts.get(literal) === 0) {
+      warnings.push(`"${literal}" does not occur in the template`);
+    }
+  }
+
+  const sourceMetadata = isObject(template.metadata) ? template.metadata : {};
+  template.metadata = {
+    _generator: {
+      name: 'Azure Marketplace Generator',
+      version: placeholders.text('{{generatorVersion}}'),
+      templateVersion: placeholders.text('{{templateVersion}}')
+    },
+    ...Object.fromEntries(Object.entries(sourceMetadata).filter(([key]) => key !== '_generator')),
+    description: sourceMetadata.description ?? `${placeholders.text('{{name}}')} - Managed Application Main Template`
+  };
+
+  // Literal defaults become manifest parameters, except the ones that contain the publisher
+  // or application name (they keep their {{publisher}} and {{name}})
+  const sourceParameters = isObject(source.parameters) ? source.parameters as Record<string, ArmParameter> : {};
+  const armParameters = isObject(template.parameters) ? template.parameters as Record<string, ArmParameter> : {};
+  const manifestParameters: Record<string, TemplateManifestParameter> = {};
+  for (const [name, parameter] of Object.entries(armParameters)) {
+    const original = sourceParameters[name];
+    const definition = JSON.stringify(original.defaultValue) === JSON.stringify(parameter.defaultValue)
+      ? toManifestParameter(name, original)
+      : undefined;
+    if (definition) {
+      manifestParameters[name] = definition;
+    }
+  }
+
+  // Element defaults of manifest parameters render from the manifest like the template's
+  const ui = generateUiDefinition(template, {
+    schema: placeholders.text('{{uiSchemaUrl}}'),
+    defaultStepLabel: `${metadata.name} Settings`,
+    basics: [{
+      name: 'introduction',
+      type: 'Microsoft.Common.TextBlock',
+      visible: true,
+      options: { text: `${placeholders.text('{{name}}')} by ${placeholders.text('{{publisher}}')}` }
+    }],
+    renderDefault: (name, value, asText) => {
+      if (!(name in manifestParameters)) {
+        return asText ? String(value) : value;
+      }
+      return placeholders.value(asText && typeof value !== 'string' ? `"{{${name}}}"` : `{{json ${name}}}`);
+    }
+  });
+  for (const name of Object.keys(manifestParameters)) {
+    armParameters[name].defaultValue = placeholders.value(`{{json ${name}}}`);
+  }
+
+  const resources = Array.isArray(source.resources) ? source.resources : [];
+  if (resources.some(resource => isObject(resource) && isObject(resource.properties) && resource.properties.templateLink !== undefined)) {
+    warnings.push('Linked templates are not imported: copy them into the template directory and add them to the manifest');
+  }
+
+  const manifest: TemplateManifest = {
+    type: metadata.type,
+    version: metadata.version,
+    requiredGeneratorVersion: `>=${AppConfig.getGeneratorVersion()}`,
+    files: [
+      { source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' },
+      { source: 'createUiDefinition.json.hbs', output: 'createUiDefinition.json' },
+      { source: 'viewDefinition.json.hbs', output: 'viewDefinition.json', optional: true }
+    ],
+    ...(Object.keys(manifestParameters).length > 0 ? { parameters: manifestParameters } : {}),
+    views: defaultViews()
+  };
+
+  const files: Array<[string, string]> = [
+    [TEMPLATE_MANIFEST_FILE, JSON.stringify(manifest, null, 2) + '\n'],
+    ['mainTemplate.json.hbs', placeholders.render(template)],
+    ['createUiDefinition.json.hbs', placeholders.render(ui.uiDefinition)],
+    ['viewDefinition.json.hbs', viewDefinitionSource()],
+    [`${TEMPLATE_TESTS_DIR}/${DEFAULT_FIXTURE}/${TEST_INPUT_FILE}`, JSON.stringify({
+      publisher: options.publisher ?? 'Contoso',
+      name: options.name ?? `Sample ${metadata.name}`
+    }, null, 2) + '\n']
+  ];
+  for (const [file, content] of files) {
+    await fs.outputFile(path.join(templateDir, file), content, 'utf8');
+  }
+
+  // Record the rendered outputs as the expected outputs of the test case
+  const tests = await runTemplateTests(templateDir, { templateType: metadata.type, update: true });
+  const expected = tests.cases.flatMap(testCase => testCase.files.map(file =>
+    `${TEMPLATE_TESTS_DIR}/${testCase.name}/${TEST_EXPECTED_DIR}/${file.output}`
+  ));
+
+  return {
+    templateDir,
+    files: [...files.map(([file]) => file), ...expected],
+    metadata,
+    manifestParameters: Object.keys(manifestParameters),
+    uiParameters: ui.parameters,
+    warnings
+  };
+}
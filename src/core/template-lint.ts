@@ -0,0 +1,742 @@
+/**
+ * Template Lint
+ *
+ * Static checks of a template's Handlebars sources. Handlebars renders a
+ * misspelt variable (`{{publsher}}`) or an argument-less call of a misspelt
+ * helper as an empty string, so such mistakes otherwise only show up in the
+ * generated files. Every source is parsed and checked for:
+ * - blocks that are never closed or are closed by the wrong helper
+ * - helpers that are neither built in nor provided by a loaded plugin
+ * - variables that are neither declared parameters nor generator context values
+ * - partials that neither the template nor its plugin provides
+ * - `latestApiVersion` resource types missing from the API version catalog
+ * - `{{#if}}`/`{{#unless}}` blocks whose output is not valid JSON in one of their branches
+ * - `{{t}}` keys missing from the default locale, and the keys each other locale is missing
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import Handlebars from 'handlebars';
+import { HandlebarsHelper } from './plugin';
+import { helperRegistrar } from './helper-registrar';
+import { createHandlebarsEnvironment, getBuiltInHelperNames, HandlebarsEnvironment } from './handlebars-environment';
+import {
+  collectTemplateFiles,
+  loadTemplateManifest,
+  RESERVED_CONTEXT_KEYS,
+  TEMPLATE_LOCALES_DIR,
+  TEMPLATE_PARTIALS_DIR,
+  TEMPLATE_SOURCE_EXTENSION,
+  TemplateManifest
+} from './template-manifest';
+import { loadTemplatePartials } from './template-partials';
+import {
+  DEFAULT_LOCALE,
+  findMissingResourceStrings,
+  loadTemplateLocales,
+  RESOURCE_STRING_HELPER,
+  selectLocale
+} from './template-locales';
+import { resolveParameterValues } from './parameter-model';
+import { buildRenderContext } from './generator';
+import { isJsonOutput, mapOutputOffsetToSource, offsetToPosition, parseRenderedJson } from './render-validation';
+import { ApiVersionCatalog, describeUnknownResourceType, getLatestApiVersion, loadApiVersionCatalog } from './api-version-catalog';
+import { suggestion } from '../utils/suggestion';
+
+/**
+ * Handlebars AST nodes (the typings only declare them in a global namespace)
+ */
+type HandlebarsVisitor = Handlebars.Visitor;
+type HandlebarsNode = Parameters<HandlebarsVisitor['accept']>[0];
+type HandlebarsExpression = Parameters<HandlebarsVisitor['acceptArray']>[0][number];
+type HandlebarsProgram = Parameters<HandlebarsVisitor['Program']>[0];
+type HandlebarsStatement = HandlebarsProgram['body'][number];
+type HandlebarsBlockStatement = Parameters<HandlebarsVisitor['BlockStatement']>[0];
+type HandlebarsDecoratorBlock = Parameters<HandlebarsVisitor['DecoratorBlock']>[0];
+type HandlebarsPartialStatement = Parameters<HandlebarsVisitor['PartialStatement']>[0];
+type HandlebarsPartialBlockStatement = Parameters<HandlebarsVisitor['PartialBlockStatement']>[0];
+type HandlebarsMustacheStatement = Parameters<HandlebarsVisitor['MustacheStatement']>[0];
+type HandlebarsSubExpression = Parameters<HandlebarsVisitor['SubExpression']>[0];
+type HandlebarsPathExpression = Parameters<HandlebarsVisitor['PathExpression']>[0];
+type HandlebarsStringLiteral = Parameters<HandlebarsVisitor['StringLiteral']>[0];
+type HandlebarsHash = Parameters<HandlebarsVisitor['Hash']>[0];
+
+/**
+ * Kinds of problems the linter reports
+ */
+export type LintRule =
+  | 'syntax'
+  | 'unbalanced-block'
+  | 'unknown-helper'
+  | 'unknown-variable'
+  | 'unknown-partial'
+  | 'unknown-resource-type'
+  | 'invalid-json'
+  | 'json-conditional'
+  | 'unknown-resource-string'
+  | 'missing-resource-string';
+
+/**
+ * A problem found in a Handlebars source
+ */
+export interface LintIssue {
+  /** Source path relative to the template directory */
+  file: string;
+
+  /** 1-based line and column */
+  line: number;
+  column: number;
+
+  rule: LintRule;
+  message: string;
+}
+
+/**
+ * Options for linting a template directory
+ */
+export interface TemplateLintOptions {
+  /** Template type (used for the render context) */
+  templateType?: string;
+
+  /** Helpers of the plugin that provides the template */
+  helpers?: Record<string, HandlebarsHelper>;
+
+  /** Partials contributed by the plugin that provides the template */
+  partials?: Record<string, string>;
+}
+
+/**
+ * Result of linting a template directory
+ */
+export interface TemplateLintResult {
+  templateDir: string;
+
+  /** Sources that were checked, relative to the template directory */
+  files: string[];
+
+  /** Problems, ordered by file and position */
+  issues: LintIssue[];
+
+  /** Whether variables were checked (only when the manifest declares parameters) */
+  variablesChecked: boolean;
+}
+
+/**
+ * What a source may refer to
+ */
+export interface LintModel {
+  /** Helper names that can be called */
+  helpers: Set<string>;
+
+  /** Root context variables, or undefined to skip variable checks */
+  variables?: Set<string>;
+
+  /** Partial names that can be included */
+  partials: Set<string>;
+
+  /** Catalog the resource types passed to latestApiVersion must be in (unchecked without it) */
+  apiVersions?: ApiVersionCatalog;
+
+  /** Resource string keys of the default locale that {{t}} may render (unchecked without it) */
+  resourceStrings?: Set<string>;
+}
+
+/**
+ * How a source includes a partial
+ */
+interface PartialUsage {
+  /** Hash argument names passed by any call */
+  hashKeys: Set<string>;
+
+  /** Whether any call passes its own context object */
+  withContext: boolean;
+}
+
+/**
+ * A block statement or partial block with a body
+ */
+type LintBlock = HandlebarsBlockStatement | HandlebarsPartialBlockStatement | HandlebarsDecoratorBlock;
+
+/**
+ * Helpers whose body renders with a different context
+ */
+const CONTEXT_CHANGING_HELPERS = ['each', 'with'];
+
+/**
+ * Helpers whose blocks are checked for JSON-breaking branches
+ */
+const CONDITIONAL_HELPERS = ['if', 'unless'];
+
+/**
+ * Inputs used for the sample render of JSON outputs
+ */
+const SAMPLE_RUN = { publisher: 'Contoso', name: 'Sample', output: '', seed: 'lint' };
+
+/**
+ * A position found in a source
+ */
+interface LintPosition {
+  line: number;
+  column: number;
+}
+
+function issueAt(file: string, position: LintPosition, rule: LintRule, message: string): LintIssue {
+  return { file, line: position.line, column: position.column, rule, message };
+}
+
+/**
+ * 1-based position of a node (Handlebars columns are 0-based)
+ */
+function nodePosition(node: HandlebarsNode): LintPosition {
+  return { line: node.loc.start.line, column: node.loc.start.column + 1 };
+}
+
+/**
+ * Source text of an expression, for messages
+ */
+function describeExpression(node: HandlebarsNode): string {
+  switch (node.type) {
+    case 'PathExpression':
+      return (node as HandlebarsPathExpression).original;
+    case 'StringLiteral':
+      return JSON.stringify((node as HandlebarsStringLiteral).value);
+    case 'SubExpression': {
+      const sub = node as HandlebarsSubExpression;
+      return `(${[sub.path, ...sub.params].map(describeExpression).join(' ')})`;
+    }
+    default:
+      return String((node as unknown as { original?: unknown }).original);
+  }
+}
+
+/**
+ * Check that every block is closed by its own helper
+ * Handlebars' parser only reports the token where it gave up, often at the end
+ * of the file; this scan names the block that is not closed and where it opened.
+ *
+ * @param source Handlebars source
+ * @param file Source path for the issues
+ * @returns Unbalanced block issues
+ */
+export function checkBlockBalance(source: string, file: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const open: { name: string; tag: string; position: LintPosition }[] = [];
+  const tags = /\{\{~?!--[\s\S]*?--~?\}\}|\{\{~?![\s\S]*?\}\}|\{\{~?\s*(#\*?>?|\^|\/|else\b)\s*([^\s}~()]*)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(source)) !== null) {
+    const [, sigil, name] = match;
+    if (!sigil) {
+      continue; // comment
+    }
+    const position = offsetToPosition(source, match.index);
+
+    if (sigil === 'else' || (sigil === '^' && !name)) {
+      if (open.length === 0) {
+        issues.push(issueAt(file, position, 'unbalanced-block', '{{else}} outside of a block'));
+      }
+      continue;
+    }
+
+    if (sigil !== '/') {
+      open.push({ name, tag: `{{${sigil}${sigil.endsWith('>') ? ' ' : ''}${name}}}`, position });
+      continue;
+    }
+
+    const index = open.map(block => block.name).lastIndexOf(name);
+    if (index < 0) {
+      const innermost = open[open.length - 1];
+      issues.push(issueAt(file, position, 'unbalanced-block', innermost
+        ? `{{/${name}}} does not close an open block (innermost open block: ${innermost.tag} at line ${innermost.position.line})`
+        : `{{/${name}}} has no opening block`));
+      continue;
+    }
+    for (const block of open.splice(index).slice(1)) {
+      issues.push(issueAt(file, block.position, 'unbalanced-block',
+        `${block.tag} is not closed before {{/${name}}} at line ${position.line}`));
+    }
+  }
+
+  for (const block of open) {
+    issues.push(issueAt(file, block.position, 'unbalanced-block', `${block.tag} is never closed`));
+  }
+  return issues;
+}
+
+/**
+ * Turn a Handlebars parse error into an issue
+ */
+function parseErrorIssue(error: Error, file: string): LintIssue {
+  const lines = error.message.split('\n');
+  const lineMatch = /on line (\d+)/.exec(lines[0]) ?? / - (\d+):(\d+)$/.exec(lines[0]);
+  const line = lineMatch ? Number(lineMatch[1]) : 1;
+  const column = lineMatch?.[2] !== undefined ? Number(lineMatch[2]) + 1 : 1;
+  return issueAt(file, { line, column }, 'syntax', `Handlebars parse error: ${lines[lines.length - 1]}`);
+}
+
+/**
+ * Walks a parsed source and reports unknown helpers, variables and partials
+ */
+class ReferenceChecker {
+  readonly issues: LintIssue[] = [];
+
+  /** Partials included by the source, with how they are called */
+  readonly partialUsage = new Map<string, PartialUsage>();
+
+  /** Context-changing blocks entered and their block parameters, innermost last */
+  private scopes: { changesContext: boolean; blockParams: string[] }[] = [];
+
+  constructor(
+    private readonly file: string,
+    private readonly model: LintModel
+  ) {}
+
+  check(program: HandlebarsProgram): void {
+    this.checkBody(program.body);
+  }
+
+  private checkBody(body: HandlebarsStatement[]): void {
+    for (const statement of body) {
+      switch (statement.type) {
+        case 'MustacheStatement':
+          this.checkMustache(statement as HandlebarsMustacheStatement);
+          break;
+        case 'BlockStatement':
+          this.checkBlock(statement as HandlebarsBlockStatement);
+          break;
+        case 'PartialStatement':
+          this.checkPartial(statement as HandlebarsPartialStatement, true);
+          break;
+        case 'PartialBlockStatement': {
+          // The block is the fallback content for a missing partial
+          const partialBlock = statement as HandlebarsPartialBlockStatement;
+          this.checkPartial(partialBlock, false);
+          this.checkBody(partialBlock.program.body);
+          break;
+        }
+        case 'DecoratorBlock':
+          this.checkBody((statement as HandlebarsDecoratorBlock).program.body);
+          break;
+      }
+    }
+  }
+
+  private checkMustache(mustache: HandlebarsMustacheStatement): void {
+    if (mustache.params.length > 0 || mustache.hash) {
+      this.checkHelperCall(mustache.path, mustache.params, mustache.hash);
+    } else if (mustache.path.type === 'PathExpression') {
+      const pathExpression = mustache.path as HandlebarsPathExpression;
+      if (!this.model.helpers.has(pathExpression.original)) {
+        this.checkVariable(pathExpression);
+      }
+    }
+  }
+
+  private checkBlock(block: HandlebarsBlockStatement): void {
+    const name = block.path.type === 'PathExpression' ? (block.path as HandlebarsPathExpression).original : '';
+    const isHelper = block.params.length > 0 || block.hash !== undefined || this.model.helpers.has(name);
+
+    let changesContext = CONTEXT_CHANGING_HELPERS.includes(name);
+    if (isHelper) {
+      this.checkHelperCall(block.path, block.params, block.hash);
+    } else {
+      // {{#section}} without arguments iterates over or enters a context value
+      this.checkExpression(block.path);
+      changesContext = true;
+    }
+
+    if (block.program) {
+      this.scopes.push({ changesContext, blockParams: block.program.blockParams ?? [] });
+      this.checkBody(block.program.body);
+      this.scopes.pop();
+    }
+    if (block.inverse) {
+      this.checkBody(block.inverse.body);
+    }
+  }
+
+  private checkPartial(partial: HandlebarsPartialStatement | HandlebarsPartialBlockStatement, mustExist: boolean): void {
+    partial.params.forEach(param => this.checkExpression(param));
+    partial.hash?.pairs.forEach(pair => this.checkExpression(pair.value));
+
+    let name: string | undefined;
+    if (partial.name.type === 'PathExpression') {
+      name = (partial.name as HandlebarsPathExpression).original;
+    } else if ((partial.name.type as string) === 'StringLiteral') {
+      name = (partial.name as unknown as HandlebarsStringLiteral).value;
+    }
+    if (name === undefined) {
+      return; // dynamic partial name
+    }
+
+    const usage = this.partialUsage.get(name) ?? { hashKeys: new Set<string>(), withContext: false };
+    partial.hash?.pairs.forEach(pair => usage.hashKeys.add(pair.key));
+    usage.withContext = usage.withContext || partial.params.length > 0;
+    this.partialUsage.set(name, usage);
+
+    if (mustExist && !this.model.partials.has(name)) {
+      this.issues.push(issueAt(this.file, nodePosition(partial), 'unknown-partial',
+        `Unknown partial '${name}'${suggestion(name, this.model.partials)}`));
+    }
+  }
+
+  private checkHelperCall(callee: HandlebarsNode, params: HandlebarsExpression[], hash?: HandlebarsHash): void {
+    if (callee.type === 'PathExpression') {
+      const name = (callee as HandlebarsPathExpression).original;
+      if (!this.model.helpers.has(name)) {
+        this.issues.push(issueAt(this.file, nodePosition(callee), 'unknown-helper',
+          `Unknown helper '${name}'${suggestion(name, this.model.helpers)}`));
+      }
+      const [resourceType] = params;
+      if (name === 'latestApiVersion' && this.model.apiVersions && resourceType?.type === 'StringLiteral') {
+        const value = (resourceType as HandlebarsStringLiteral).value;
+        if (!getLatestApiVersion(this.model.apiVersions, value)) {
+          this.issues.push(issueAt(this.file, nodePosition(resourceType), 'unknown-resource-type',
+            describeUnknownResourceType(this.model.apiVersions, value)));
+        }
+      }
+      const [key] = params;
+      if (name === RESOURCE_STRING_HELPER && this.model.resourceStrings && key?.type === 'StringLiteral') {
+        const value = (key as HandlebarsStringLiteral).value;
+        if (!this.model.resourceStrings.has(value)) {
+          this.issues.push(issueAt(this.file, nodePosition(key), 'unknown-resource-string',
+            `Unknown resource string '${value}': not defined in ${TEMPLATE_LOCALES_DIR}/${DEFAULT_LOCALE}.json` +
+            suggestion(value, this.model.resourceStrings)));
+        }
+      }
+    }
+    params.forEach(param => this.checkExpression(param));
+    hash?.pairs.forEach(pair => this.checkExpression(pair.value));
+  }
+
+  private checkExpression(expression: HandlebarsNode): void {
+    if (expression.type === 'SubExpression') {
+      const sub = expression as HandlebarsSubExpression;
+      this.checkHelperCall(sub.path, sub.params, sub.hash);
+    } else if (expression.type === 'PathExpression') {
+      this.checkVariable(expression as HandlebarsPathExpression);
+    }
+  }
+
+  private checkVariable(pathExpression: HandlebarsPathExpression): void {
+    if (!this.model.variables) {
+      return;
+    }
+
+    let name = pathExpression.parts[0];
+    if (pathExpression.data) {
+      // @root.x refers to the root context; @index, @key, ... are block data
+      if (name !== 'root' || pathExpression.parts.length < 2) {
+        return;
+      }
+      name = pathExpression.parts[1];
+    } else {
+      if (name === undefined) {
+        return; // this, .
+      }
+      if (this.scopes.some(scope => scope.blockParams.includes(name))) {
+        return;
+      }
+      const contextDepth = this.scopes.filter(scope => scope.changesContext).length;
+      if (contextDepth - pathExpression.depth !== 0) {
+        return; // inside an {{#each}} or {{#with}} context
+      }
+    }
+
+    if (!this.model.variables.has(name)) {
+      this.issues.push(issueAt(this.file, nodePosition(pathExpression), 'unknown-variable',
+        `Unknown variable '${name}': not a declared parameter or generator value${suggestion(name, this.model.variables)}`));
+    }
+  }
+}
+
+/**
+ * Visit the bodies of a program in a fixed order: each block before its
+ * program, its program before its inverse
+ *
+ * @param body Statements to visit
+ * @param visit Called for every block; returns the statements replacing it, if any
+ */
+function visitBlocks(
+  body: HandlebarsStatement[],
+  visit: (block: LintBlock) => HandlebarsStatement[] | undefined
+): void {
+  for (let index = 0; index < body.length; index++) {
+    const statement = body[index];
+    if (!['BlockStatement', 'PartialBlockStatement', 'DecoratorBlock'].includes(statement.type)) {
+      continue;
+    }
+    const block = statement as LintBlock;
+    const replacement = visit(block);
+    visitBlocks(block.program?.body ?? [], visit);
+    const inverse = (block as HandlebarsBlockStatement).inverse;
+    visitBlocks(inverse?.body ?? [], visit);
+    if (replacement) {
+      body.splice(index, 1, ...replacement);
+      index += replacement.length - 1;
+    }
+  }
+}
+
+function isConditional(block: LintBlock): block is HandlebarsBlockStatement {
+  return block.type === 'BlockStatement' &&
+    block.path.type === 'PathExpression' &&
+    CONDITIONAL_HELPERS.includes((block.path as HandlebarsPathExpression).original) &&
+    block.params.length === 1;
+}
+
+/**
+ * Render a source and check the result is valid JSON, and that it stays valid
+ * when each {{#if}}/{{#unless}} condition is forced to either value
+ * Blocks testing the same condition are forced together.
+ *
+ * @param env Environment with the template's helpers and partials
+ * @param source Handlebars source of a JSON output
+ * @param file Source path for the issues
+ * @param context Sample render context
+ * @returns JSON issues (none when the source cannot be rendered at all)
+ */
+export function checkJsonConditionals(
+  env: HandlebarsEnvironment,
+  source: string,
+  file: string,
+  context: Record<string, unknown>
+): LintIssue[] {
+  let output: string;
+  try {
+    output = env.compile(source)(context);
+  } catch {
+    return []; // missing helpers and partials are reported by the reference checks
+  }
+
+  const baseline = parseRenderedJson(output);
+  if ('error' in baseline) {
+    const region = mapOutputOffsetToSource(env, source, context, output, baseline.error.offset);
+    return [issueAt(file, region?.start ?? { line: 1, column: 1 }, 'invalid-json',
+      `Output is not valid JSON with the parameter defaults: ${baseline.error.message} ` +
+      `(output line ${baseline.error.position.line}, column ${baseline.error.position.column})`)];
+  }
+
+  // Group the conditionals of the source by their condition, in source order
+  const groups = new Map<string, number[]>();
+  const conditionals: HandlebarsBlockStatement[] = [];
+  visitBlocks(env.parse(source).body, block => {
+    if (isConditional(block)) {
+      const condition = describeExpression(block.params[0]);
+      groups.set(condition, [...groups.get(condition) ?? [], conditionals.length]);
+      conditionals.push(block);
+    }
+    return undefined;
+  });
+
+  const issues: LintIssue[] = [];
+  for (const [condition, members] of groups) {
+    const failures: string[] = [];
+    for (const value of [true, false]) {
+      const program = env.parse(source);
+      let counter = 0;
+      visitBlocks(program.body, block => {
+        if (!isConditional(block) || !members.includes(counter++)) {
+          return undefined;
+        }
+        const isUnless = (block.path as HandlebarsPathExpression).original === 'unless';
+        const branch = value !== isUnless ? block.program : block.inverse;
+        return branch?.body ?? [];
+      });
+
+      let rendered: string;
+      try {
+        rendered = env.compile(program, { ignoreStandalone: true })(context);
+      } catch {
+        continue;
+      }
+      const parsed = parseRenderedJson(rendered);
+      if ('error' in parsed) {
+        failures.push(`${value ? 'true' : 'false'} (${parsed.error.message} at output line ${parsed.error.position.line})`);
+      }
+    }
+
+    if (failures.length > 0) {
+      const first = conditionals[members[0]];
+      const others = members.length > 1 ? ` (forced together with ${members.length - 1} other block(s) testing it)` : '';
+      issues.push(issueAt(file, nodePosition(first), 'json-conditional',
+        `Output is not valid JSON when ${condition} is ${failures.join(' or ')}${others}`));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Lint one Handlebars source
+ *
+ * @param source Handlebars source
+ * @param file Source path for the issues
+ * @param model Helpers, variables and partials the source may refer to
+ * @returns Issues, and the partials the source includes
+ */
+export function lintTemplateSource(
+  source: string,
+  file: string,
+  model: LintModel
+): { issues: LintIssue[]; partialUsage: Map<string, PartialUsage> } {
+  const balance = checkBlockBalance(source, file);
+  if (balance.length > 0) {
+    return { issues: balance, partialUsage: new Map() };
+  }
+
+  let program: HandlebarsProgram;
+  try {
+    program = Handlebars.parse(source);
+  } catch (error) {
+    return { issues: [parseErrorIssue(error as Error, file)], partialUsage: new Map() };
+  }
+
+  // Inline partials ({{#*inline "name"}}) can be included by the rest of the source
+  const partials = new Set(model.partials);
+  visitBlocks(program.body, block => {
+    // The typings declare DecoratorBlock with type 'BlockStatement'
+    const param = (block.type as string) === 'DecoratorBlock' ? (block as HandlebarsDecoratorBlock).params[0] : undefined;
+    if (param?.type === 'StringLiteral') {
+      partials.add((param as HandlebarsStringLiteral).value);
+    }
+    return undefined;
+  });
+
+  const checker = new ReferenceChecker(file, { ...model, partials });
+  checker.check(program);
+  return { issues: checker.issues, partialUsage: checker.partialUsage };
+}
+
+/**
+ * Names every template can refer to without declaring them
+ */
+function contextVariables(manifest: TemplateManifest): Set<string> | undefined {
+  if (!manifest.parameters) {
+    return undefined;
+  }
+  return new Set([...RESERVED_CONTEXT_KEYS, ...Object.keys(manifest.parameters)]);
+}
+
+function compareIssues(left: LintIssue, right: LintIssue): number {
+  return left.line - right.line || left.column - right.column;
+}
+
+/**
+ * Lint the Handlebars sources of a template directory
+ *
+ * Helpers are checked against the built-in helpers, the helpers of every
+ * loaded plugin and options.helpers; variables against the parameters the
+ * manifest declares and the values the generator supplies. Partials are
+ * checked like templates, with the hash arguments of their callers as
+ * additional variables. `{{t}}` keys are checked against the default locale,
+ * and every other locale file against the keys of the default locale.
+ *
+ * @param templateDir Template directory
+ * @param options Template type and the helpers and partials of its plugin
+ * @returns Checked files and issues
+ * @throws ValidationError if the manifest, the partial names or the locale files are invalid
+ */
+export async function lintTemplateDirectory(
+  templateDir: string,
+  options: TemplateLintOptions = {}
+): Promise<TemplateLintResult> {
+  const manifest = await loadTemplateManifest(templateDir);
+  const templatePartials = await loadTemplatePartials(templateDir);
+  const pluginPartials = options.partials ?? {};
+  const locales = await loadTemplateLocales(templateDir);
+
+  const model: LintModel = {
+    helpers: new Set([
+      ...getBuiltInHelperNames(),
+      ...helperRegistrar.getAllHelperNames(),
+      ...Object.keys(options.helpers ?? {})
+    ]),
+    variables: contextVariables(manifest),
+    partials: new Set([...Object.keys(templatePartials), ...Object.keys(pluginPartials)]),
+    apiVersions: loadApiVersionCatalog(),
+    resourceStrings: new Set(Object.keys(locales[DEFAULT_LOCALE] ?? {}))
+  };
+
+  const templateType = options.templateType ?? manifest.type ?? path.basename(templateDir);
+  const env = createHandlebarsEnvironment({
+    helpers: options.helpers,
+    partials: { ...pluginPartials, ...templatePartials },
+    locale: selectLocale(locales)
+  });
+  let context: Record<string, unknown> | undefined;
+  try {
+    context = buildRenderContext({ ...SAMPLE_RUN, type: templateType }, resolveParameterValues(manifest, {}, templateType), manifest.version ?? '');
+  } catch {
+    context = undefined; // invalid defaults are reported by manifest validation
+  }
+
+  const files: string[] = [];
+  const issues: LintIssue[] = [];
+  const partialUsage = new Map<string, PartialUsage>();
+
+  for (const file of await collectTemplateFiles(templateDir, manifest)) {
+    const sourcePath = path.join(templateDir, file.source);
+    if (!await fs.pathExists(sourcePath)) {
+      continue;
+    }
+    const source = await fs.readFile(sourcePath, 'utf8');
+    const result = lintTemplateSource(source, file.source, model);
+    files.push(file.source);
+
+    for (const [name, usage] of result.partialUsage) {
+      const merged = partialUsage.get(name) ?? { hashKeys: new Set<string>(), withContext: false };
+      usage.hashKeys.forEach(key => merged.hashKeys.add(key));
+      merged.withContext = merged.withContext || usage.withContext;
+      partialUsage.set(name, merged);
+    }
+
+    const fileIssues = [...result.issues];
+    if (fileIssues.length === 0 && context && isJsonOutput(file.output)) {
+      fileIssues.push(...checkJsonConditionals(env, source, file.source, context));
+    }
+    issues.push(...fileIssues.sort(compareIssues));
+  }
+
+  // Partials see their caller's context plus the hash arguments of the call
+  for (const [name, source] of Object.entries(templatePartials).sort(([left], [right]) => left.localeCompare(right))) {
+    const file = `${TEMPLATE_PARTIALS_DIR}/${name}${TEMPLATE_SOURCE_EXTENSION}`;
+    const usage = partialUsage.get(name);
+    const variables = usage?.withContext || !model.variables
+      ? undefined
+      : new Set([...model.variables, ...usage?.hashKeys ?? []]);
+    files.push(file);
+    issues.push(...lintTemplateSource(source, file, { ...model, variables }).issues.sort(compareIssues));
+  }
+
+  // Other locales fall back to the default locale, so it defines the keys each of them needs
+  const missing = findMissingResourceStrings(locales);
+  for (const locale of Object.keys(locales).sort()) {
+    const file = `${TEMPLATE_LOCALES_DIR}/${locale}.json`;
+    files.push(file);
+    if (missing[locale]) {
+      issues.push(issueAt(file, { line: 1, column: 1 }, 'missing-resource-string',
+        `Locale '${locale}' is missing ${missing[locale].length} resource string(s) of ${DEFAULT_LOCALE}.json: ${missing[locale].join(', ')}`));
+    }
+    const extra = Object.keys(locales[locale]).filter(key => !model.resourceStrings?.has(key));
+    if (extra.length > 0) {
+      issues.push(issueAt(file, { line: 1, column: 1 }, 'unknown-resource-string',
+        `Locale '${locale}' defines resource string(s) missing from ${DEFAULT_LOCALE}.json: ${extra.join(', ')}`));
+    }
+  }
+
+  return { templateDir, files, issues, variablesChecked: model.variables !== undefined };
+}
+
+/**
+ * Format an issue as "file:line:column: message [rule]"
+ *
+ * @param issue Lint issue
+ * @param baseDir Directory the file path is relative to (prefixed when given)
+ */
+export function formatLintIssue(issue: LintIssue, baseDir?: string): string {
+  const file = baseDir ? path.join(baseDir, issue.file) : issue.file;
+  return `${file}:${issue.line}:${issue.column}: ${issue.message} [${issue.rule}]`;
+}
@@ -0,0 +1,249 @@
+/**
+ * Template Locales
+ *
+ * Labels, tooltips and validation messages are resource strings instead of
+ * English literals, so one template source renders localised packages. A
+ * template keeps one JSON file per locale in a `locales/` directory
+ * (`locales/en.json`, `locales/de.json`, ...); nested objects are flattened
+ * to dotted keys. `azmp create --locale de` picks the strings, `{{t "key"}}`
+ * renders one of them, escaped for a JSON string, and `{name}` placeholders
+ * are filled from the hash arguments:
+ *
+ * @example
+ * ```handlebars
+ * "label": "{{t "storageConfig.storageAccountType.label"}}",
+ * "description": "{{t "config.description" name=name publisher=publisher}}",
+ * {{> infoBox name="securityInfo" icon="Info" text=(t "securityConfig.securityInfo.text")}}
+ * ```
+ *
+ * Strings missing from a locale fall back to its language (`de-CH` → `de`)
+ * and then to the default locale, which every localised template must have.
+ * `azmp template lint` reports the keys each locale is missing.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import Handlebars from 'handlebars';
+import { ValidationError } from '../utils/error-handler';
+import { HandlebarsHelper } from './plugin';
+import { TEMPLATE_LOCALES_DIR } from './template-manifest';
+
+/**
+ * Locale rendered when none is requested, and the fallback for missing strings
+ */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Valid locale names: a language, optionally with a region or script (en, de, de-CH, zh-Hans)
+ */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+
+/**
+ * Name of the resource string helper
+ */
+export const RESOURCE_STRING_HELPER = 't';
+
+/**
+ * Resource strings of one locale, keyed by dotted key
+ */
+export type ResourceStrings = Record<string, string>;
+
+/**
+ * Resource strings of a template, keyed by locale
+ */
+export type TemplateLocales = Record<string, ResourceStrings>;
+
+/**
+ * Resource strings selected for a generation run
+ */
+export interface LocaleSelection {
+  /** Requested locale */
+  locale: string;
+
+  /** Strings of the locale merged over its language and the default locale */
+  strings: ResourceStrings;
+
+  /** Locale files the strings came from, most specific first */
+  chain: string[];
+
+  /** Keys rendered from the default locale because the requested locale does not define them */
+  fallbacks: string[];
+}
+
+/**
+ * Check that a locale name can be used for a locale file
+ *
+ * @param locale Locale name
+ * @returns True if the name matches LOCALE_PATTERN
+ */
+export function isValidLocale(locale: string): boolean {
+  return LOCALE_PATTERN.test(locale);
+}
+
+/**
+ * Flatten a parsed locale file to dotted keys
+ */
+function flattenStrings(value: Record<string, unknown>, prefix: string, strings: ResourceStrings, errors: string[], file: string): void {
+  for (const [key, entry] of Object.entries(value)) {
+    const dotted = prefix ? `${prefix}.${key}` : key;
+    if (typeof entry === 'string') {
+      strings[dotted] = entry;
+    } else if (typeof entry === 'object' && entry !== null && !Array.isArray(entry)) {
+      flattenStrings(entry as Record<string, unknown>, dotted, strings, errors, file);
+    } else {
+      errors.push(`${file}: ${dotted} must be a string or an object of strings`);
+    }
+  }
+}
+
+/**
+ * Load the locale files of a template directory
+ *
+ * @param templateDirs Template directory, or the layers of a template with an
+ *                     overlay (strings of later layers replace those of earlier ones)
+ * @returns Resource strings per locale (empty without a locales directory)
+ * @throws ValidationError if a locale file is not valid JSON, is not named
+ *         after a locale, or the default locale is missing
+ */
+export async function loadTemplateLocales(templateDirs: string | string[]): Promise<TemplateLocales> {
+  const locales: TemplateLocales = {};
+  const errors: string[] = [];
+
+  for (const templateDir of Array.isArray(templateDirs) ? templateDirs : [templateDirs]) {
+    const localesDir = path.join(templateDir, TEMPLATE_LOCALES_DIR);
+    if (!await fs.pathExists(localesDir)) {
+      continue;
+    }
+
+    for (const entry of (await fs.readdir(localesDir)).sort()) {
+      if (entry.startsWith('.') || path.extname(entry) !== '.json') {
+        continue;
+      }
+      const file = `${TEMPLATE_LOCALES_DIR}/${entry}`;
+      const locale = path.basename(entry, '.json');
+      if (!isValidLocale(locale)) {
+        errors.push(`${file}: locale files must be named after a locale (${DEFAULT_LOCALE}.json, de.json, de-CH.json)`);
+        continue;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await fs.readFile(path.join(localesDir, entry), 'utf8'));
+      } catch (error) {
+        errors.push(`${file}: ${(error as Error).message}`);
+        continue;
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        errors.push(`${file} must contain an object`);
+        continue;
+      }
+      const strings: ResourceStrings = {};
+      flattenStrings(parsed as Record<string, unknown>, '', strings, errors, file);
+      locales[locale] = { ...locales[locale], ...strings };
+    }
+  }
+
+  if (Object.keys(locales).length > 0 && !locales[DEFAULT_LOCALE]) {
+    errors.push(`${TEMPLATE_LOCALES_DIR}/${DEFAULT_LOCALE}.json is required: it holds the strings other locales fall back to`);
+  }
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid template locales', errors);
+  }
+
+  return locales;
+}
+
+/**
+ * Select the resource strings of a locale
+ *
+ * @param locales Resource strings of the template
+ * @param locale Requested locale (default: DEFAULT_LOCALE)
+ * @param templateType Template type (for error messages)
+ * @returns Strings of the locale, its language and the default locale
+ * @throws ValidationError if the locale name is invalid or the template has neither the locale nor its language
+ */
+export function selectLocale(locales: TemplateLocales, locale: string = DEFAULT_LOCALE, templateType: string = ''): LocaleSelection {
+  if (!isValidLocale(locale)) {
+    throw new ValidationError(`Invalid locale: ${locale}`, [`Locales are language codes such as ${DEFAULT_LOCALE}, de or de-CH`]);
+  }
+  const language = locale.split('-')[0];
+  const chain = Array.from(new Set([locale, language, DEFAULT_LOCALE])).filter(candidate => locales[candidate]);
+
+  if (Object.keys(locales).length > 0 && !locales[locale] && !locales[language]) {
+    throw new ValidationError(`Template '${templateType}' has no resource strings for locale '${locale}'`, [
+      `Available locales: ${Object.keys(locales).sort().join(', ')}`
+    ]);
+  }
+
+  const strings: ResourceStrings = {};
+  for (const candidate of [...chain].reverse()) {
+    Object.assign(strings, locales[candidate]);
+  }
+  const specific = chain.filter(candidate => candidate !== DEFAULT_LOCALE);
+  const fallbacks = specific.length === 0
+    ? []
+    : Object.keys(locales[DEFAULT_LOCALE] ?? {}).filter(key => specific.every(candidate => !(key in locales[candidate])));
+  return { locale, strings, chain, fallbacks };
+}
+
+/**
+ * Keys of the default locale that each other locale does not define
+ *
+ * @param locales Resource strings of the template
+ * @returns Missing keys per locale (locales without missing keys are left out)
+ */
+export function findMissingResourceStrings(locales: TemplateLocales): Record<string, string[]> {
+  const reference = Object.keys(locales[DEFAULT_LOCALE] ?? {});
+  const missing: Record<string, string[]> = {};
+
+  for (const locale of Object.keys(locales).sort()) {
+    if (locale === DEFAULT_LOCALE) {
+      continue;
+    }
+    // A regional locale only needs the strings its language does not have
+    const language = locale.split('-')[0];
+    const keys = reference.filter(key => !(key in locales[locale]) && !(language !== locale && key in (locales[language] ?? {})));
+    if (keys.length > 0) {
+      missing[locale] = keys;
+    }
+  }
+  return missing;
+}
+
+/**
+ * Fill `{name}` placeholders of a resource string
+ *
+ * @param text Resource string
+ * @param values Placeholder values (placeholders without a value are kept)
+ */
+export function formatResourceString(text: string, values: Record<string, unknown>): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    values[name] === undefined || values[name] === null ? placeholder : String(values[name]));
+}
+
+/**
+ * Create the {{t "key"}} helper for a set of resource strings
+ *
+ * @param strings Resource strings of the rendered locale
+ * @param locale Rendered locale (for error messages)
+ * @returns Helper rendering a string escaped for use inside a JSON string
+ */
+export function createResourceStringHelper(strings: ResourceStrings, locale?: string): HandlebarsHelper {
+  return (key: unknown, options: Handlebars.HelperOptions) => {
+    if (typeof key !== 'string') {
+      throw new Error(`{{${RESOURCE_STRING_HELPER}}} needs a resource string key: {{${RESOURCE_STRING_HELPER} "section.label"}}`);
+    }
+    const text = strings[key];
+    if (text === undefined) {
+      const source = locale
+        ? `locale '${locale}' or ${TEMPLATE_LOCALES_DIR}/${DEFAULT_LOCALE}.json`
+        : `${TEMPLATE_LOCALES_DIR}/ (the template has no resource strings)`;
+      throw new Error(`Unknown resource string '${key}': not defined in ${source}`);
+    }
+    const json = JSON.stringify(formatResourceString(text, options.hash ?? {}));
+    return new Handlebars.SafeString(json.substring(1, json.length - 1));
+  };
+}
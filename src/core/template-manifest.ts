@@ -0,0 +1,361 @@
+/**
+ * Template Manifest
+ *
+ * Each template directory declares what it renders in a template.manifest.json:
+ * the Handlebars sources, their output paths, which files are optional, the
+ * input parameters with their defaults, and the generator version it needs.
+ * Sources the manifest does not list are discovered from the directory tree
+ * and rendered to the same relative path; the `partials/` directory holds
+ * Handlebars partials and is never rendered on its own.
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "storage",
+ *   "version": "3.1.0",
+ *   "requiredGeneratorVersion": ">=3.1.0",
+ *   "files": [
+ *     { "source": "mainTemplate.json.hbs", "output": "mainTemplate.json" },
+ *     { "source": "viewDefinition.json.hbs", "output": "viewDefinition.json", "optional": true }
+ *   ],
+ *   "parameters": {
+ *     "enableStaticWebsite": { "type": "bool", "description": "Host a static website", "default": false }
+ *   }
+ * }
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ValidationError } from '../utils/error-handler';
+import { parseVersion } from '../utils/version';
+import { ParameterType, validateParameterDefinition } from './parameter-model';
+import { validateViewDefinitionViews, ViewDefinitionView } from './view-definition';
+
+/**
+ * Manifest file name expected in every template directory
+ */
+export const TEMPLATE_MANIFEST_FILE = 'template.manifest.json';
+
+/**
+ * Context keys supplied by the generator that parameters cannot redefine
+ */
+export const RESERVED_CONTEXT_KEYS = [
+  'type',
+  'publisher',
+  'name',
+  'output',
+  'seed',
+  'deterministic',
+  'generatedDate',
+  'generatorVersion',
+  'templateVersion',
+  'armSchemaUrl',
+  'uiSchemaUrl',
+  'views',
+  'locale'
+];
+
+/**
+ * A file rendered from the template directory
+ */
+export interface TemplateManifestFile {
+  /** Handlebars source, relative to the template directory */
+  source: string;
+
+  /** Output path, relative to the output directory */
+  output: string;
+
+  /** Skip the file (with a warning) when the source is missing */
+  optional?: boolean;
+}
+
+/**
+ * An input parameter made available to the Handlebars context
+ */
+export interface TemplateManifestParameter {
+  /** What the parameter controls */
+  description?: string;
+
+  /** Value type (default "string") */
+  type?: ParameterType;
+
+  /** Value used when no other value is supplied */
+  default?: unknown;
+
+  /** Permitted values */
+  allowedValues?: unknown[];
+
+  /** Inclusive bounds for int parameters */
+  minValue?: number;
+  maxValue?: number;
+
+  /** Inclusive length bounds for string and array parameters */
+  minLength?: number;
+  maxLength?: number;
+
+  /** Regular expression string parameters must match */
+  pattern?: string;
+}
+
+/**
+ * Parsed template.manifest.json
+ */
+export interface TemplateManifest {
+  /** Template type the manifest describes */
+  type?: string;
+
+  /** Template version (semver) */
+  version?: string;
+
+  /** Minimum generator version, "x.y.z" or ">=x.y.z" */
+  requiredGeneratorVersion?: string;
+
+  /** Files to render, in order */
+  files: TemplateManifestFile[];
+
+  /** Input parameters keyed by context name */
+  parameters?: Record<string, TemplateManifestParameter>;
+
+  /** viewDefinition views, available to the templates as `views` */
+  views?: ViewDefinitionView[];
+}
+
+/**
+ * Manifest assumed for template directories that predate manifests
+ * Mirrors the files the generator rendered before manifests existed
+ */
+export const LEGACY_TEMPLATE_MANIFEST: TemplateManifest = {
+  files: [
+    { source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' },
+    { source: 'createUiDefinition.json.hbs', output: 'createUiDefinition.json' },
+    { source: 'viewDefinition.json.hbs', output: 'viewDefinition.json', optional: true }
+  ]
+};
+
+/**
+ * Check that a manifest path stays inside its base directory
+ */
+function isSafeRelativePath(filePath: string): boolean {
+  if (!filePath || path.isAbsolute(filePath) || /^[a-zA-Z]:/.test(filePath)) {
+    return false;
+  }
+  return !filePath.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Validate the structure of a parsed manifest
+ *
+ * @param manifest Parsed manifest content
+ * @returns List of problems (empty when valid)
+ */
+export function validateTemplateManifest(manifest: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+    return ['manifest must be a JSON object'];
+  }
+
+  const candidate = manifest as Record<string, unknown>;
+
+  for (const field of ['type', 'version', 'requiredGeneratorVersion']) {
+    if (candidate[field] !== undefined && typeof candidate[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (typeof candidate.version === 'string' && !parseVersion(candidate.version)) {
+    errors.push(`version '${candidate.version}' is not a valid semantic version`);
+  }
+
+  if (typeof candidate.requiredGeneratorVersion === 'string' &&
+      !parseVersion(candidate.requiredGeneratorVersion.replace(/^>=\s*/, ''))) {
+    errors.push(`requiredGeneratorVersion '${candidate.requiredGeneratorVersion}' must be "x.y.z" or ">=x.y.z"`);
+  }
+
+  if (!Array.isArray(candidate.files) || candidate.files.length === 0) {
+    errors.push('files must be a non-empty array');
+  } else {
+    const outputs = new Set<string>();
+    candidate.files.forEach((file, index) => {
+      const prefix = `files[${index}]`;
+      if (!file || typeof file !== 'object') {
+        errors.push(`${prefix} must be an object`);
+        return;
+      }
+      const entry = file as Record<string, unknown>;
+      if (typeof entry.source !== 'string' || !isSafeRelativePath(entry.source)) {
+        errors.push(`${prefix}.source must be a relative path inside the template directory`);
+      }
+      if (typeof entry.output !== 'string' || !isSafeRelativePath(entry.output)) {
+        errors.push(`${prefix}.output must be a relative path inside the output directory`);
+      } else if (outputs.has(entry.output)) {
+        errors.push(`${prefix}.output '${entry.output}' is declared more than once`);
+      } else {
+        outputs.add(entry.output);
+      }
+      if (entry.optional !== undefined && typeof entry.optional !== 'boolean') {
+        errors.push(`${prefix}.optional must be a boolean`);
+      }
+    });
+  }
+
+  if (candidate.parameters !== undefined) {
+    if (!candidate.parameters || typeof candidate.parameters !== 'object' || Array.isArray(candidate.parameters)) {
+      errors.push('parameters must be an object');
+    } else {
+      for (const [name, definition] of Object.entries(candidate.parameters)) {
+        if (RESERVED_CONTEXT_KEYS.includes(name)) {
+          errors.push(`parameters.${name} uses a reserved context name`);
+        }
+        errors.push(...validateParameterDefinition(name, definition));
+      }
+    }
+  }
+
+  if (candidate.views !== undefined) {
+    errors.push(...validateViewDefinitionViews(candidate.views));
+  }
+
+  return errors;
+}
+
+/**
+ * Load the manifest for a template directory
+ * Directories without a manifest fall back to LEGACY_TEMPLATE_MANIFEST
+ *
+ * @param templateDir Template directory
+ * @returns Parsed and validated manifest
+ * @throws ValidationError if the manifest is not valid JSON or fails validation
+ */
+export async function loadTemplateManifest(templateDir: string): Promise<TemplateManifest> {
+  const manifestPath = path.join(templateDir, TEMPLATE_MANIFEST_FILE);
+
+  if (!await fs.pathExists(manifestPath)) {
+    return LEGACY_TEMPLATE_MANIFEST;
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(`Invalid template manifest: ${manifestPath}`, [(error as Error).message]);
+  }
+
+  const errors = validateTemplateManifest(manifest);
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid template manifest: ${manifestPath}`, errors);
+  }
+
+  return manifest as TemplateManifest;
+}
+
+/**
+ * Get the default value of every declared parameter that has one
+ *
+ * @param manifest Template manifest
+ * @returns Object mapping parameter names to default values
+ */
+export function getParameterDefaults(manifest: TemplateManifest): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  for (const [name, definition] of Object.entries(manifest.parameters ?? {})) {
+    if (definition.default !== undefined) {
+      defaults[name] = definition.default;
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Get the output paths a rendered package must contain
+ *
+ * @param manifest Template manifest
+ * @returns Output paths of all non-optional files
+ */
+export function getRequiredOutputs(manifest: TemplateManifest): string[] {
+  return manifest.files.filter(file => !file.optional).map(file => file.output);
+}
+
+/**
+ * Extension of Handlebars sources in template directories
+ */
+export const TEMPLATE_SOURCE_EXTENSION = '.hbs';
+
+/**
+ * Directory of a template that holds its Handlebars partials
+ */
+export const TEMPLATE_PARTIALS_DIR = 'partials';
+
+/**
+ * Directory of a template that holds its resource strings, one JSON file per locale
+ */
+export const TEMPLATE_LOCALES_DIR = 'locales';
+
+/**
+ * List the Handlebars sources below a template directory
+ * Hidden files and directories and the partials directory are skipped
+ *
+ * @param templateDir Template directory
+ * @returns Source paths relative to the directory, with forward slashes, sorted
+ */
+export async function listTemplateSources(templateDir: string): Promise<string[]> {
+  const sources: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(templateDir, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory() && relativePath === TEMPLATE_PARTIALS_DIR) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile() && entry.name.endsWith(TEMPLATE_SOURCE_EXTENSION)) {
+        sources.push(relativePath);
+      }
+    }
+  };
+
+  await walk('');
+  return sources.sort();
+}
+
+/**
+ * Files a generation run renders: the manifest entries in order, followed by
+ * every other Handlebars source in the directory tree, rendered to the same
+ * relative path without the .hbs extension
+ * Discovered sources whose output is already claimed by a manifest entry are skipped
+ *
+ * @param templateDirs Template directory, or the layers of a template with an overlay
+ * @param manifest Template manifest
+ * @returns Files to render
+ */
+export async function collectTemplateFiles(
+  templateDirs: string | string[],
+  manifest: TemplateManifest
+): Promise<TemplateManifestFile[]> {
+  const files = [...manifest.files];
+  const sources = new Set(files.map(file => file.source.replace(/\\/g, '/')));
+  const outputs = new Set(files.map(file => file.output.replace(/\\/g, '/')));
+
+  const discovered = new Set<string>();
+  for (const templateDir of Array.isArray(templateDirs) ? templateDirs : [templateDirs]) {
+    (await listTemplateSources(templateDir)).forEach(source => discovered.add(source));
+  }
+
+  for (const source of Array.from(discovered).sort()) {
+    const output = source.slice(0, -TEMPLATE_SOURCE_EXTENSION.length);
+    if (!sources.has(source) && !outputs.has(output)) {
+      files.push({ source, output });
+      outputs.add(output);
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,171 @@
+/**
+ * Template Overlays
+ *
+ * A project can override individual files of a registered template without
+ * forking it: files in `<templatesDir>/<type>/` (templatesDir from
+ * azmp.config.json) take precedence over the files of the template with the
+ * same relative path, and files that only exist in the overlay are added.
+ * This covers Handlebars sources, partials and template.manifest.json.
+ *
+ * @example
+ * ```
+ * azmp.config.json            { "templatesDir": "./templates" }
+ * templates/storage/createUiDefinition.json.hbs   replaces the built-in file
+ * templates/storage/partials/infoBox.hbs          replaces the built-in partial
+ * templates/storage/scripts/setup.sh.hbs          adds a file
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { loadTemplateManifest, TEMPLATE_MANIFEST_FILE, TemplateManifest } from './template-manifest';
+
+/**
+ * Directories a template is rendered from
+ */
+export interface TemplateLayers {
+  /** Directory of the registered template */
+  baseDir: string;
+
+  /** Overlay directory for the template type (undefined when there is none) */
+  overlayDir?: string;
+}
+
+/**
+ * Which files of a generation run came from the overlay
+ */
+export interface OverlayReport {
+  /** Overlay directory */
+  overlayDir: string;
+
+  /** Files that replace a file of the template (relative paths) */
+  overridden: string[];
+
+  /** Files that only exist in the overlay (relative paths) */
+  added: string[];
+}
+
+/**
+ * Find the overlay directory of a template type
+ *
+ * @param templatesDir Project templates directory (search path)
+ * @param templateType Template type
+ * @returns Absolute overlay directory, or undefined if templatesDir has no directory for the type
+ */
+export async function findTemplateOverlay(
+  templatesDir: string | undefined,
+  templateType: string
+): Promise<string | undefined> {
+  if (!templatesDir) {
+    return undefined;
+  }
+  const overlayDir = path.resolve(templatesDir, templateType);
+  try {
+    return (await fs.stat(overlayDir)).isDirectory() ? overlayDir : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the layers of a template
+ *
+ * @param baseDir Directory of the registered template
+ * @param templatesDir Project templates directory (search path)
+ * @param templateType Template type
+ */
+export async function resolveTemplateLayers(
+  baseDir: string,
+  templatesDir: string | undefined,
+  templateType: string
+): Promise<TemplateLayers> {
+  const overlayDir = await findTemplateOverlay(templatesDir, templateType);
+  // A templatesDir that contains the built-in template itself is not an overlay
+  if (!overlayDir || path.resolve(baseDir) === overlayDir) {
+    return { baseDir };
+  }
+  return { baseDir, overlayDir };
+}
+
+/**
+ * Layer directories in precedence order: the template first, the overlay last (later layers win)
+ */
+export function getLayerDirs(layers: TemplateLayers): string[] {
+  return layers.overlayDir ? [layers.baseDir, layers.overlayDir] : [layers.baseDir];
+}
+
+/**
+ * Load the manifest of a layered template
+ * An overlay template.manifest.json replaces the template's manifest
+ */
+export async function loadLayeredManifest(layers: TemplateLayers): Promise<TemplateManifest> {
+  if (layers.overlayDir && await fs.pathExists(path.join(layers.overlayDir, TEMPLATE_MANIFEST_FILE))) {
+    return loadTemplateManifest(layers.overlayDir);
+  }
+  return loadTemplateManifest(layers.baseDir);
+}
+
+/**
+ * Find the file a relative path refers to, preferring the overlay
+ *
+ * @param layers Template layers
+ * @param relativePath Path relative to the template directory
+ * @returns Absolute path, or undefined if no layer has the file
+ */
+export async function resolveLayeredFile(
+  layers: TemplateLayers,
+  relativePath: string
+): Promise<string | undefined> {
+  for (const dir of getLayerDirs(layers).reverse()) {
+    const candidate = path.join(dir, relativePath);
+    if (await fs.pathExists(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * List every file below a directory (relative paths with forward slashes, hidden entries skipped)
+ */
+async function listFiles(dir: string, relativeDir: string = ''): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(dir, relativePath));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Describe which files of a layered template come from the overlay
+ *
+ * @param layers Template layers
+ * @returns Report, or undefined when the template has no overlay
+ */
+export async function buildOverlayReport(layers: TemplateLayers): Promise<OverlayReport | undefined> {
+  if (!layers.overlayDir) {
+    return undefined;
+  }
+
+  const report: OverlayReport = { overlayDir: layers.overlayDir, overridden: [], added: [] };
+  for (const file of (await listFiles(layers.overlayDir)).sort()) {
+    if (await fs.pathExists(path.join(layers.baseDir, file))) {
+      report.overridden.push(file);
+    } else {
+      report.added.push(file);
+    }
+  }
+  return report;
+}
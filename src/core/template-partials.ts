@@ -0,0 +1,88 @@
+/**
+ * Template Partials
+ *
+ * Repeated JSON fragments (resource tags, InfoBoxes) live in Handlebars
+ * partials instead of being copied into every file. A template keeps its
+ * partials in a `partials/` directory; plugins can also contribute partials
+ * through `IPlugin.getHandlebarsPartials()`.
+ *
+ * A partial is named after its path below `partials/` without the .hbs
+ * extension, so `partials/ui/infoBox.hbs` is included with `{{> ui/infoBox}}`.
+ * Hash arguments are visible inside the partial next to the template context:
+ *
+ * @example
+ * ```handlebars
+ * "tags": {{> resourceTags purpose="Storage Events Automation"}}
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ValidationError } from '../utils/error-handler';
+import { TEMPLATE_PARTIALS_DIR, TEMPLATE_SOURCE_EXTENSION } from './template-manifest';
+
+/**
+ * Valid partial names: identifiers separated by forward slashes
+ */
+export const PARTIAL_NAME_PATTERN = /^[A-Za-z_][\w-]*(\/[A-Za-z_][\w-]*)*$/;
+
+/**
+ * Check that a partial name can be referenced from a template
+ *
+ * @param name Partial name
+ * @returns True if the name matches PARTIAL_NAME_PATTERN
+ */
+export function isValidPartialName(name: string): boolean {
+  return PARTIAL_NAME_PATTERN.test(name);
+}
+
+/**
+ * Load the partials of a template directory
+ *
+ * @param templateDirs Template directory, or the layers of a template with an
+ *                     overlay (partials of later layers replace those of earlier ones)
+ * @returns Object mapping partial names to their Handlebars source (empty without a partials directory)
+ * @throws ValidationError if a partial file name cannot be used as a partial name
+ */
+export async function loadTemplatePartials(templateDirs: string | string[]): Promise<Record<string, string>> {
+  const partials: Record<string, string> = {};
+  const errors: string[] = [];
+
+  for (const templateDir of Array.isArray(templateDirs) ? templateDirs : [templateDirs]) {
+    const partialsDir = path.join(templateDir, TEMPLATE_PARTIALS_DIR);
+    if (!await fs.pathExists(partialsDir)) {
+      continue;
+    }
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await fs.readdir(path.join(partialsDir, relativeDir), { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) {
+          continue;
+        }
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(relativePath);
+        } else if (entry.isFile() && entry.name.endsWith(TEMPLATE_SOURCE_EXTENSION)) {
+          const name = relativePath.slice(0, -TEMPLATE_SOURCE_EXTENSION.length);
+          if (!isValidPartialName(name)) {
+            errors.push(`${partialsDir}/${relativePath}: partial names must match ${PARTIAL_NAME_PATTERN.source}`);
+            continue;
+          }
+          partials[name] = await fs.readFile(path.join(partialsDir, relativePath), 'utf8');
+        }
+      }
+    };
+
+    await walk('');
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid template partials', errors);
+  }
+
+  return partials;
+}
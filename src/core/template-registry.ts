@@ -14,9 +14,26 @@
  */
 
 import { TemplateMetadata, IPlugin, HandlebarsHelper } from './plugin';
+import { loadTemplateManifest } from './template-manifest';
+import { isBuiltInHelper } from './handlebars-environment';
+import { AppConfig } from '../config/app-config';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 
+/**
+ * A registered template resolved to its location on disk
+ */
+export interface ResolvedTemplate {
+  /** Template metadata as registered */
+  metadata: TemplateMetadata;
+
+  /** Absolute path to the template directory */
+  templateDir: string;
+
+  /** ID of the plugin that provides the template (undefined for built-in templates) */
+  pluginId?: string;
+}
+
 /**
  * Template Registry manages all available template types
  */
@@ -24,27 +41,35 @@ export class TemplateRegistry {
   private templates: Map<string, TemplateMetadata> = new Map();
   private plugins: Map<string, IPlugin> = new Map();
   private helpers: Map<string, { pluginId: string; helper: HandlebarsHelper }> = new Map();
+  private partials: Map<string, { pluginId: string; partial: string }> = new Map();
   private commands: Map<string, string> = new Map(); // commandName -> pluginId
+  private templateRoots: Map<string, string> = new Map(); // templateType -> templates root
+  private templateOwners: Map<string, string> = new Map(); // templateType -> pluginId
 
   /**
    * Register a built-in template
    * 
    * @param metadata Template metadata
+   * @param templatesRoot Directory that metadata.templatePath is relative to
+   *                      (defaults to the built-in templates directory)
    */
-  public registerTemplate(metadata: TemplateMetadata): void {
+  public registerTemplate(metadata: TemplateMetadata, templatesRoot?: string): void {
     if (this.templates.has(metadata.type)) {
       throw new Error(`Template type '${metadata.type}' is already registered`);
     }
     this.templates.set(metadata.type, metadata);
+    this.templateRoots.set(metadata.type, templatesRoot ?? AppConfig.getTemplatesDir());
   }
 
   /**
    * Register a plugin and its templates
    * 
    * @param plugin Plugin instance
-   * @throws Error if plugin ID, template type, helper name, or command name conflicts
+   * @param templatesRoot Directory that the plugin's template paths are relative to
+   *                      (the loader passes the plugin's package directory)
+   * @throws Error if plugin ID, template type, helper name, partial name, or command name conflicts
    */
-  public registerPlugin(plugin: IPlugin): void {
+  public registerPlugin(plugin: IPlugin, templatesRoot?: string): void {
     const pluginId = plugin.metadata.id;
     
     if (this.plugins.has(pluginId)) {
@@ -64,6 +89,11 @@ export class TemplateRegistry {
     // Check for helper name conflicts (BLOCKER FIX)
     const helpers = plugin.getHandlebarsHelpers?.() || {};
     for (const helperName of Object.keys(helpers)) {
+      if (isBuiltInHelper(helperName)) {
+        throw new Error(
+          `Handlebars helper '${helperName}' from plugin '${pluginId}' conflicts with helper from 'built-in'`
+        );
+      }
       if (this.helpers.has(helperName)) {
         const existing = this.helpers.get(helperName);
         const existingPlugin = existing ? existing.pluginId : 'built-in';
@@ -73,18 +103,73 @@ export class TemplateRegistry {
       }
     }
 
+    // Check for partial name conflicts
+    const partials = plugin.getHandlebarsPartials?.() || {};
+    for (const partialName of Object.keys(partials)) {
+      if (this.partials.has(partialName)) {
+        const existing = this.partials.get(partialName);
+        const existingPlugin = existing ? existing.pluginId : 'built-in';
+        throw new Error(
+          `Handlebars partial '${partialName}' from plugin '${pluginId}' conflicts with partial from '${existingPlugin}'`
+        );
+      }
+    }
+
     // Register plugin
     this.plugins.set(pluginId, plugin);
 
     // Register templates
     for (const template of templates) {
       this.templates.set(template.type, template);
+      this.templateRoots.set(template.type, templatesRoot ?? AppConfig.getTemplatesDir());
+      this.templateOwners.set(template.type, pluginId);
     }
 
     // Register helpers
     for (const [helperName, helper] of Object.entries(helpers)) {
       this.helpers.set(helperName, { pluginId, helper });
     }
+
+    // Register partials
+    for (const [partialName, partial] of Object.entries(partials)) {
+      this.partials.set(partialName, { pluginId, partial });
+    }
+  }
+
+  /**
+   * Unregister a plugin together with its templates, helpers, partials and command names
+   * 
+   * @param pluginId Plugin ID
+   * @returns True if the plugin was registered
+   */
+  public unregisterPlugin(pluginId: string): boolean {
+    if (!this.plugins.delete(pluginId)) {
+      return false;
+    }
+
+    for (const [type, owner] of Array.from(this.templateOwners.entries())) {
+      if (owner === pluginId) {
+        this.templates.delete(type);
+        this.templateRoots.delete(type);
+        this.templateOwners.delete(type);
+      }
+    }
+    for (const [name, { pluginId: owner }] of Array.from(this.helpers.entries())) {
+      if (owner === pluginId) {
+        this.helpers.delete(name);
+      }
+    }
+    for (const [name, { pluginId: owner }] of Array.from(this.partials.entries())) {
+      if (owner === pluginId) {
+        this.partials.delete(name);
+      }
+    }
+    for (const [commandName, owner] of Array.from(this.commands.entries())) {
+      if (owner === pluginId) {
+        this.commands.delete(commandName);
+      }
+    }
+    return true;
   }
 
   /**
@@ -97,6 +182,33 @@ export class TemplateRegistry {
     return this.templates.get(type);
   }
 
+  /**
+   * Resolve a template type to its directory on disk
+   * 
+   * Absolute template paths are used as-is; relative paths are resolved against
+   * the templates root the template was registered with.
+   * 
+   * @param type Template type
+   * @returns Resolved template or undefined if not found
+   */
+  public resolveTemplate(type: string): ResolvedTemplate | undefined {
+    const metadata = this.templates.get(type);
+    if (!metadata) {
+      return undefined;
+    }
+
+    const root = this.templateRoots.get(type) ?? AppConfig.getTemplatesDir();
+    const templateDir = path.isAbsolute(metadata.templatePath)
+      ? metadata.templatePath
+      : path.resolve(root, metadata.templatePath);
+
+    return {
+      metadata,
+      templateDir,
+      pluginId: this.templateOwners.get(type)
+    };
+  }
+
   /**
    * Get all registered templates
    * 
@@ -157,6 +269,51 @@ export class TemplateRegistry {
     return result;
   }
 
+  /**
+   * Get the Handlebars helpers contributed by a single plugin
+   * 
+   * @param pluginId Plugin ID
+   * @returns Object mapping helper names to helper functions
+   */
+  public getPluginHelpers(pluginId: string): Record<string, HandlebarsHelper> {
+    const result: Record<string, HandlebarsHelper> = {};
+    for (const [name, { pluginId: owner, helper }] of this.helpers.entries()) {
+      if (owner === pluginId) {
+        result[name] = helper;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get all registered Handlebars partials
+   * 
+   * @returns Map of partial names to Handlebars source
+   */
+  public getAllPartials(): Map<string, string> {
+    const result = new Map<string, string>();
+    for (const [name, { partial }] of this.partials.entries()) {
+      result.set(name, partial);
+    }
+    return result;
+  }
+
+  /**
+   * Get the Handlebars partials contributed by a single plugin
+   * 
+   * @param pluginId Plugin ID
+   * @returns Object mapping partial names to Handlebars source
+   */
+  public getPluginPartials(pluginId: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, { pluginId: owner, partial }] of this.partials.entries()) {
+      if (owner === pluginId) {
+        result[name] = partial;
+      }
+    }
+    return result;
+  }
+
   /**
    * Register a command name to prevent conflicts
    * Called by plugin loader when registering CLI commands
@@ -186,7 +343,8 @@ export class TemplateRegistry {
   }
 
   /**
-   * Validate that a template directory exists
+   * Validate that a template directory exists and provides the files its manifest requires
+   * Directories without a template.manifest.json are checked against the legacy file set
    * 
    * @param templatesDir Base templates directory
    * @param templatePath Relative template path
@@ -205,10 +363,10 @@ export class TemplateRegistry {
       }
 
       // Check for required template files
-      const requiredFiles = [
-        'mainTemplate.json.hbs',
-        'createUiDefinition.json.hbs'
-      ];
+      const manifest = await loadTemplateManifest(fullPath);
+      const requiredFiles = manifest.files
+        .filter(file => !file.optional)
+        .map(file => file.source);
 
       for (const file of requiredFiles) {
         const filePath = path.join(fullPath, file);
@@ -231,7 +389,10 @@ export class TemplateRegistry {
     this.templates.clear();
     this.plugins.clear();
     this.helpers.clear();
+    this.partials.clear();
     this.commands.clear();
+    this.templateRoots.clear();
+    this.templateOwners.clear();
   }
 
   /**
@@ -0,0 +1,460 @@
+/**
+ * Template Scaffold
+ *
+ * Backs `azmp template new <type>`: writes a complete, ARM-TTK-clean template
+ * directory to start a new template type from, whether it ships with the
+ * generator or with a plugin. The skeleton has a manifest with a typed
+ * parameter model, a mainTemplate with a location parameter, one resource
+ * and outputs, a createUiDefinition whose basics, steps and outputs are wired
+ * to the mainTemplate parameters, a viewDefinition rendered from the
+ * manifest's views, a test case with its
+ * expected outputs and a jest test that runs the template test harness.
+ *
+ * The type can then be registered by adding a TemplateMetadata entry to a
+ * plugin's getTemplates() array (or to BUILT_IN_TEMPLATES).
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TemplateMetadata } from './plugin';
+import { TEMPLATE_MANIFEST_FILE, TemplateManifest } from './template-manifest';
+import { runTemplateTests, TEMPLATE_TESTS_DIR, TEST_EXPECTED_DIR, TEST_INPUT_FILE } from './template-tests';
+import { ViewDefinitionView } from './view-definition';
+import { AppConfig } from '../config/app-config';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+/**
+ * npm package that snapshot tests outside the generator import it from
+ */
+export const GENERATOR_PACKAGE = '@hoiltd/azure-marketplace-generator';
+
+/**
+ * Test case created with every new template
+ */
+export const DEFAULT_FIXTURE = 'default';
+
+/**
+ * Allowed template type names: lowercase, starting with a letter, hyphens between words
+ */
+const TEMPLATE_TYPE_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+/**
+ * Options for a new template
+ */
+export interface ScaffoldOptions {
+  /** Template type (e.g. "vm") */
+  type: string;
+
+  /** Directory to create the template in (must not exist or be empty) */
+  templateDir: string;
+
+  /** Human-readable name (defaults to the type in title case) */
+  name?: string;
+
+  /** What the template deploys */
+  description?: string;
+
+  /** Template version (default "1.0.0") */
+  version?: string;
+}
+
+/**
+ * Result of scaffolding a template
+ */
+export interface ScaffoldResult {
+  /** Absolute template directory */
+  templateDir: string;
+
+  /** Created files, relative to the template directory */
+  files: string[];
+
+  /** Metadata describing the template (templatePath is the absolute directory) */
+  metadata: TemplateMetadata;
+}
+
+/**
+ * "web-app" → "Web App"
+ */
+export function titleCase(type: string): string {
+  return type.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Default resource name prefix: the type's letters and digits, 3-10 characters
+ */
+function defaultPrefix(type: string): string {
+  return `${type.replace(/[^a-z0-9]/g, '')}app`.substring(0, 10);
+}
+
+function generatorMetadata(description: string): string {
+  return `    "metadata": {
+        "_generator": {
+            "name": "Azure Marketplace Generator",
+            "version": "{{generatorVersion}}",
+            "templateVersion": "{{templateVersion}}"
+        },
+        "description": ${description}
+    },`;
+}
+
+/**
+ * Default viewDefinition views: an Overview with the application name and publisher
+ */
+export function defaultViews(): ViewDefinitionView[] {
+  return [{
+    kind: 'Overview',
+    properties: {
+      header: '{{name}}',
+      description: 'Managed application by {{publisher}}'
+    }
+  }];
+}
+
+function manifestFor(type: string, version: string): TemplateManifest {
+  return {
+    type,
+    version,
+    requiredGeneratorVersion: `>=${AppConfig.getGeneratorVersion()}`,
+    files: [
+      { source: 'mainTemplate.json.hbs', output: 'mainTemplate.json' },
+      { source: 'createUiDefinition.json.hbs', output: 'createUiDefinition.json' },
+      { source: 'viewDefinition.json.hbs', output: 'viewDefinition.json', optional: true }
+    ],
+    parameters: {
+      location: {
+        type: 'string',
+        description: 'Location for all resources',
+        default: '[resourceGroup().location]'
+      },
+      resourceNamePrefix: {
+        type: 'string',
+        description: 'Prefix for the names of the deployed resources (lowercase letters and numbers)',
+        default: defaultPrefix(type),
+        minLength: 3,
+        maxLength: 10,
+        pattern: '^[a-z][a-z0-9]*$'
+      }
+    },
+    views: defaultViews()
+  };
+}
+
+function mainTemplateSource(): string {
+  return `{
+    "$schema": "{{armSchemaUrl}}",
+    "contentVersion": "1.0.0.0",
+${generatorMetadata('"{{name}} - Managed Application Main Template"')}
+    "parameters": {
+        "location": {
+            "type": "string",
+            "defaultValue": {{json location}},
+            "metadata": {
+                "description": "Location for all resources"
+            }
+        },
+        "resourceNamePrefix": {
+            "type": "string",
+            "defaultValue": {{json resourceNamePrefix}},
+            "minLength": 3,
+            "maxLength": 10,
+            "metadata": {
+                "description": "Prefix for the names of the deployed resources"
+            }
+        }
+    },
+    "variables": {
+        "identityName": "[concat(parameters('resourceNamePrefix'), '-id-', uniqueString(resourceGroup().id))]"
+    },
+    "resources": [
+        {
+            "type": "Microsoft.ManagedIdentity/userAssignedIdentities",
+            "apiVersion": "{{latestApiVersion 'Microsoft.ManagedIdentity/userAssignedIdentities'}}",
+            "name": "[variables('identityName')]",
+            "location": "[parameters('location')]"
+        }
+    ],
+    "outputs": {
+        "identityName": {
+            "type": "string",
+            "value": "[variables('identityName')]"
+        },
+        "identityId": {
+            "type": "string",
+            "value": "[resourceId('Microsoft.ManagedIdentity/userAssignedIdentities', variables('identityName'))]"
+        },
+        "location": {
+            "type": "string",
+            "value": "[parameters('location')]"
+        }
+    }
+}
+`;
+}
+
+function uiDefinitionSource(displayName: string): string {
+  return `{
+    "$schema": "{{uiSchemaUrl}}",
+    "handler": "Microsoft.Azure.CreateUIDef",
+    "version": "0.1.2-preview",
+    "parameters": {
+        "basics": [
+            {
+                "name": "introduction",
+                "type": "Microsoft.Common.TextBlock",
+                "visible": true,
+                "options": {
+                    "text": "{{name}} by {{publisher}}"
+                }
+            }
+        ],
+        "steps": [
+            {
+                "name": "settings",
+                "label": ${JSON.stringify(`${displayName} Settings`)},
+                "subLabel": {
+                    "preValidation": "Configure the application",
+                    "postValidation": "Done"
+                },
+                "bladeTitle": ${JSON.stringify(`${displayName} Settings`)},
+                "elements": [
+                    {
+                        "name": "resourceNamePrefix",
+                        "type": "Microsoft.Common.TextBox",
+                        "label": "Resource Name Prefix",
+                        "defaultValue": {{json resourceNamePrefix}},
+                        "toolTip": "Prefix for the names of the deployed resources",
+                        "constraints": {
+                            "required": true,
+                            "regex": "^[a-z][a-z0-9]{2,9}$",
+                            "validationMessage": "Prefix must be 3-10 characters, lowercase letters and numbers, starting with a letter"
+                        }
+                    }
+                ]
+            }
+        ],
+        "outputs": {
+            "location": "[location()]",
+            "resourceNamePrefix": "[steps('settings').resourceNamePrefix]"
+        }
+    }
+}
+`;
+}
+
+/**
+ * Default viewDefinition: the views declared in the template manifest
+ */
+export function viewDefinitionSource(): string {
+  return `{
+    "$schema": "https://schema.management.azure.com/schemas/viewdefinition/0.0.1-preview/ViewDefinition.json#",
+    "contentVersion": "1.0.0.0",
+${generatorMetadata('"Post-deployment view for {{name}} by {{publisher}}"')}
+    "views": {{json views}}
+}
+`;
+}
+
+/**
+ * Module specifier of a generator module, as imported from a snapshot test
+ * Inside the generator's own tree the import is relative; elsewhere it goes through the npm package
+ */
+function generatorImport(testDir: string, moduleName: string): string {
+  const coreDir = __dirname;
+  const sourceRoot = path.dirname(coreDir);
+  if (testDir.startsWith(sourceRoot + path.sep)) {
+    const relative = path.relative(testDir, path.join(coreDir, moduleName)).split(path.sep).join('/');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  }
+  return `${GENERATOR_PACKAGE}/dist/core/${moduleName}`;
+}
+
+function templateTestSource(metadata: TemplateMetadata, testDir: string): string {
+  return `/**
+ * ${metadata.name} Template Tests
+ *
+ * Renders every test case in this directory (<case>/input.json) deterministically
+ * and compares the outputs with <case>/expected/. After an intended change, accept
+ * the new outputs with \`azmp template test <template directory> --update\`
+ * or by running the tests with AZMP_UPDATE_SNAPSHOTS=1.
+ */
+
+import * as path from 'path';
+import { assertTemplateTests } from '${generatorImport(testDir, 'template-tests')}';
+
+describe('${metadata.type} template', () => {
+  it('should render every test case as expected', async () => {
+    // Pass { plugin } as well when the template uses helpers or partials of its plugin
+    await assertTemplateTests(path.resolve(__dirname, '..'), { templateType: '${metadata.type}' });
+  });
+});
+`;
+}
+
+/**
+ * Check a template type name
+ *
+ * @throws ValidationError if it is not lowercase words joined by hyphens
+ */
+export function validateTemplateType(type: string): void {
+  if (!TEMPLATE_TYPE_PATTERN.test(type)) {
+    throw new ValidationError(`Invalid template type: ${type}`, [
+      'Use lowercase letters and numbers, starting with a letter; separate words with hyphens (e.g. "web-app")'
+    ]);
+  }
+}
+
+/**
+ * Write the skeleton of a new template type
+ *
+ * @param options Type, directory and metadata of the template
+ * @returns Created files and the template's metadata
+ * @throws ValidationError if the type name is invalid
+ * @throws FileSystemError if the directory exists and is not empty
+ */
+export async function scaffoldTemplate(options: ScaffoldOptions): Promise<ScaffoldResult> {
+  validateTemplateType(options.type);
+  const templateDir = path.resolve(options.templateDir);
+  if (await fs.pathExists(templateDir) && (await fs.readdir(templateDir)).length > 0) {
+    throw new FileSystemError('Template directory already exists and is not empty', templateDir);
+  }
+
+  const metadata: TemplateMetadata = {
+    type: options.type,
+    name: options.name ?? titleCase(options.type),
+    description: options.description ?? `${titleCase(options.type)} managed application`,
+    version: options.version ?? '1.0.0',
+    templatePath: templateDir
+  };
+  const testDir = path.join(templateDir, TEMPLATE_TESTS_DIR);
+
+  const files: Array<[string, string]> = [
+    [TEMPLATE_MANIFEST_FILE, JSON.stringify(manifestFor(metadata.type, metadata.version), null, 2) + '\n'],
+    ['mainTemplate.json.hbs', mainTemplateSource()],
+    ['createUiDefinition.json.hbs', uiDefinitionSource(metadata.name)],
+    ['viewDefinition.json.hbs', viewDefinitionSource()],
+    [`${TEMPLATE_TESTS_DIR}/${DEFAULT_FIXTURE}/${TEST_INPUT_FILE}`, JSON.stringify({
+      publisher: 'Contoso',
+      name: `Sample ${metadata.name}`,
+      parameters: { location: 'westeurope' }
+    }, null, 2) + '\n'],
+    [`${TEMPLATE_TESTS_DIR}/${metadata.type}.test.ts`, templateTestSource(metadata, testDir)]
+  ];
+  for (const [file, content] of files) {
+    await fs.outputFile(path.join(templateDir, file), content, 'utf8');
+  }
+
+  // Record the skeleton's outputs as the expected outputs of the test case
+  const tests = await runTemplateTests(templateDir, { templateType: metadata.type, update: true });
+  const expected = tests.cases.flatMap(testCase => testCase.files.map(file =>
+    `${TEMPLATE_TESTS_DIR}/${testCase.name}/${TEST_EXPECTED_DIR}/${file.output}`
+  ));
+
+  return { templateDir, files: [...files.map(([file]) => file), ...expected], metadata };
+}
+
+/**
+ * Directory a registration file's template paths are relative to:
+ * the built-in templates directory for BUILT_IN_TEMPLATES, otherwise the plugin module's directory
+ */
+export function getTemplatesRoot(registrationFile: string, source: string): string {
+  return /\bBUILT_IN_TEMPLATES\b/.test(source) ? AppConfig.getTemplatesDir() : path.dirname(path.resolve(registrationFile));
+}
+
+/**
+ * TypeScript object literal of a TemplateMetadata entry
+ */
+export function formatTemplateMetadata(metadata: TemplateMetadata, indent: string): string {
+  const lines = Object.entries(metadata)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${indent}  ${key}: ${Array.isArray(value)
+      ? `[${value.map(item => `'${item}'`).join(', ')}]`
+      : `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`}`);
+  return `${indent}{\n${lines.join(',\n')}\n${indent}}`;
+}
+
+/**
+ * Index of the bracket closing the array that starts at `open`, skipping strings and comments
+ */
+function findClosingBracket(source: string, open: number): number {
+  let depth = 0;
+  for (let index = open; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\'' || char === '"' || char === '`') {
+      index = source.indexOf(char, index + 1);
+      while (index > 0 && source[index - 1] === '\\') {
+        index = source.indexOf(char, index + 1);
+      }
+      if (index < 0) {
+        return -1;
+      }
+    } else if (source.startsWith('//', index)) {
+      index = source.indexOf('\n', index);
+    } else if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index);
+      index = end < 0 ? -1 : end + 1;
+    } else if (char === '[' || char === '{' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === '}' || char === ')') {
+      depth--;
+      if (depth === 0) {
+        return char === ']' ? index : -1;
+      }
+    }
+    if (index < 0) {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Add a TemplateMetadata entry to the template list of a plugin source file
+ * The list is the array returned by getTemplates() or assigned to a TemplateMetadata[] declaration
+ *
+ * @param registrationFile Plugin (or builtin-templates) source file
+ * @param metadata Entry to add; templatePath is made relative to the file's templates root
+ * @returns The entry as written
+ * @throws FileSystemError if the file is missing
+ * @throws ValidationError if no template list is found or the type is already listed
+ */
+export async function registerTemplateInSource(
+  registrationFile: string,
+  metadata: TemplateMetadata
+): Promise<TemplateMetadata> {
+  if (!await fs.pathExists(registrationFile)) {
+    throw new FileSystemError('Plugin source file not found', registrationFile);
+  }
+  const source = await fs.readFile(registrationFile, 'utf8');
+
+  const list = /getTemplates\s*\([^)]*\)[^{]*\{\s*return\s*\[/.exec(source) ??
+    /TemplateMetadata\[\]\s*=\s*\[/.exec(source) ??
+    /getTemplates\s*(?::[^=]*)?=\s*\([^)]*\)\s*(?::[^=]*)?=>\s*\[/.exec(source);
+  const open = list ? list.index + list[0].length - 1 : -1;
+  const close = open >= 0 ? findClosingBracket(source, open) : -1;
+  if (close < 0) {
+    throw new ValidationError(`No template list found in ${registrationFile}`, [
+      'Expected getTemplates() { return [...] } or a TemplateMetadata[] array'
+    ]);
+  }
+  if (new RegExp(`type:\\s*['"]${metadata.type}['"]`).test(source.substring(open, close))) {
+    throw new ValidationError(`Template type '${metadata.type}' is already listed in ${registrationFile}`);
+  }
+
+  const templatesRoot = getTemplatesRoot(registrationFile, source);
+  const entry: TemplateMetadata = {
+    ...metadata,
+    templatePath: path.relative(templatesRoot, path.resolve(metadata.templatePath)).split(path.sep).join('/')
+  };
+
+  // Indent like the line that opens the list
+  const lineStart = source.lastIndexOf('\n', open) + 1;
+  const indent = /^\s*/.exec(source.substring(lineStart, open))?.[0] ?? '';
+  const before = source.substring(0, close).replace(/\s*$/, '');
+  const separator = before.endsWith('[') || before.endsWith(',') ? '' : ',';
+  const updated = `${before}${separator}\n${formatTemplateMetadata(entry, `${indent}  `)}\n${indent}${source.substring(close)}`;
+  await fs.writeFile(registrationFile, updated, 'utf8');
+  return entry;
+}
@@ -0,0 +1,403 @@
+/**
+ * Template Tests
+ *
+ * Snapshot tests for template types. Each template directory can keep test
+ * cases in `tests/<case>/`: an `input.json` with the run inputs (publisher,
+ * name, seed, parameters) and an `expected/` directory holding the outputs a
+ * deterministic render of those inputs must produce.
+ *
+ * `azmp template test` runs the cases of registered types and template
+ * directories; plugin authors run the same harness from their own jest suites:
+ *
+ * @example
+ * ```typescript
+ * import { assertTemplateTests } from '@hoiltd/azure-marketplace-generator/dist/core/template-tests';
+ *
+ * it('should render every fixture as expected', async () => {
+ *   await assertTemplateTests(path.join(__dirname, '../templates/vm'), { plugin: new VmPlugin() });
+ * });
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { IPlugin, TemplateMetadata } from './plugin';
+import { TemplateConfig, TemplateGenerator } from './generator';
+import { TemplateRegistry } from './template-registry';
+import { loadTemplateManifest } from './template-manifest';
+import { diffLines } from './output-diff';
+import { ValidationError } from '../utils/error-handler';
+
+/**
+ * Directory of a template's test cases, relative to the template directory
+ */
+export const TEMPLATE_TESTS_DIR = 'tests';
+
+/**
+ * Run inputs of a test case, relative to the case directory
+ */
+export const TEST_INPUT_FILE = 'input.json';
+
+/**
+ * Expected outputs of a test case, relative to the case directory
+ */
+export const TEST_EXPECTED_DIR = 'expected';
+
+/**
+ * Environment variable that makes assertTemplateTests rewrite the expected outputs
+ */
+export const UPDATE_SNAPSHOTS_ENV = 'AZMP_UPDATE_SNAPSHOTS';
+
+/**
+ * Contents of a test case's input.json
+ */
+export interface TemplateTestInput {
+  /** Publisher name (default "Contoso") */
+  publisher?: string;
+
+  /** Application name (default "Sample") */
+  name?: string;
+
+  /** Seed of the deterministic render (default: the case name) */
+  seed?: string;
+
+  /** Values for the parameters declared in the template manifest */
+  parameters?: Record<string, unknown>;
+
+  /** Inline linked templates into mainTemplate.json */
+  inlineLinkedTemplates?: boolean;
+
+  /** Locale of the resource strings (default: en) */
+  locale?: string;
+}
+
+/**
+ * How a rendered output compares with the expected output
+ * - match: identical
+ * - changed: the content differs
+ * - missing: rendered, but there is no expected file
+ * - unexpected: an expected file that is no longer rendered
+ */
+export type TemplateTestFileStatus = 'match' | 'changed' | 'missing' | 'unexpected';
+
+/**
+ * Comparison of one output
+ */
+export interface TemplateTestFile {
+  /** Output path, relative to the expected directory */
+  output: string;
+
+  status: TemplateTestFileStatus;
+
+  /** Line diff from the expected to the rendered content (changed files) */
+  diff?: string[];
+}
+
+/**
+ * Result of one test case
+ */
+export interface TemplateTestCaseResult {
+  /** Case directory name */
+  name: string;
+
+  /** Whether every output matched (or the expected outputs were updated) */
+  passed: boolean;
+
+  files: TemplateTestFile[];
+
+  /** Why the case could not be rendered */
+  error?: string;
+}
+
+/**
+ * Result of the test cases of a template
+ */
+export interface TemplateTestResult {
+  templateType: string;
+  templateDir: string;
+  cases: TemplateTestCaseResult[];
+  passed: boolean;
+
+  /** Whether differing expected outputs were rewritten */
+  updated: boolean;
+}
+
+/**
+ * Options for running a template's test cases
+ */
+export interface TemplateTestOptions {
+  /** Template type (default: the manifest's type, else the directory name) */
+  templateType?: string;
+
+  /**
+   * Generator whose registry already provides the template type
+   * Without it, the directory is registered in a fresh registry
+   */
+  generator?: TemplateGenerator;
+
+  /** Plugin that provides the template; its helpers and partials are available when rendering */
+  plugin?: IPlugin;
+
+  /** Run only these cases */
+  cases?: string[];
+
+  /** Write the rendered outputs as the new expected outputs */
+  update?: boolean;
+}
+
+/**
+ * List the test cases of a template: directories below tests/ with an input.json
+ *
+ * @param templateDir Template directory
+ * @returns Case names, sorted
+ */
+export async function listTemplateTestCases(templateDir: string): Promise<string[]> {
+  const testsDir = path.join(templateDir, TEMPLATE_TESTS_DIR);
+  if (!await fs.pathExists(testsDir)) {
+    return [];
+  }
+
+  const cases: string[] = [];
+  for (const entry of await fs.readdir(testsDir, { withFileTypes: true })) {
+    if (entry.isDirectory() && await fs.pathExists(path.join(testsDir, entry.name, TEST_INPUT_FILE))) {
+      cases.push(entry.name);
+    }
+  }
+  return cases.sort();
+}
+
+/**
+ * Files below a directory, relative to it with forward slashes
+ */
+async function listFiles(dir: string, relativeDir: string = ''): Promise<string[]> {
+  if (!await fs.pathExists(path.join(dir, relativeDir))) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true })) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(dir, relativePath));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Generator for a template directory that is not registered anywhere
+ */
+async function createTestGenerator(templateDir: string, templateType: string, plugin?: IPlugin): Promise<TemplateGenerator> {
+  const manifest = await loadTemplateManifest(templateDir);
+  const metadata: TemplateMetadata = {
+    type: templateType,
+    name: templateType,
+    description: `${templateType} template under test`,
+    version: manifest.version ?? plugin?.metadata.version ?? '0.0.0',
+    templatePath: templateDir
+  };
+
+  const registry = new TemplateRegistry();
+  if (plugin) {
+    // Only this template, with the helpers and partials of its plugin
+    registry.registerPlugin({
+      metadata: plugin.metadata,
+      getTemplates: () => [metadata],
+      getHandlebarsHelpers: () => plugin.getHandlebarsHelpers?.() ?? {},
+      getHandlebarsPartials: () => plugin.getHandlebarsPartials?.() ?? {}
+    });
+  } else {
+    registry.registerTemplate(metadata);
+  }
+  return new TemplateGenerator(registry);
+}
+
+/**
+ * Render one test case and compare (or replace) its expected outputs
+ */
+async function runTestCase(
+  generator: TemplateGenerator,
+  templateType: string,
+  caseDir: string,
+  name: string,
+  update: boolean
+): Promise<TemplateTestCaseResult> {
+  const expectedDir = path.join(caseDir, TEST_EXPECTED_DIR);
+  const output = await fs.mkdtemp(path.join(os.tmpdir(), `azmp-test-${templateType}-`));
+
+  try {
+    let input: TemplateTestInput;
+    try {
+      input = await fs.readJson(path.join(caseDir, TEST_INPUT_FILE));
+    } catch (error) {
+      return { name, passed: false, files: [], error: `Invalid ${TEST_INPUT_FILE}: ${(error as Error).message}` };
+    }
+
+    const config: TemplateConfig = {
+      publisher: 'Contoso',
+      name: 'Sample',
+      ...input,
+      type: templateType,
+      seed: input.seed ?? name,
+      output,
+      quiet: true
+    };
+
+    let rendered: string[];
+    try {
+      rendered = (await generator.generateTemplate(config)).files.map(file => file.output.replace(/\\/g, '/'));
+    } catch (error) {
+      const details = (error as ValidationError).details ?? [];
+      return { name, passed: false, files: [], error: [(error as Error).message, ...details].join('\n') };
+    }
+
+    const expected = new Set(await listFiles(expectedDir));
+    const files: TemplateTestFile[] = [];
+    for (const file of rendered.sort()) {
+      const content = await fs.readFile(path.join(output, file), 'utf8');
+      const expectedPath = path.join(expectedDir, file);
+      if (!expected.has(file)) {
+        files.push({ output: file, status: 'missing' });
+      } else {
+        const expectedContent = await fs.readFile(expectedPath, 'utf8');
+        files.push(expectedContent === content
+          ? { output: file, status: 'match' }
+          : { output: file, status: 'changed', diff: diffLines(expectedContent, content) });
+      }
+      if (update) {
+        await fs.outputFile(expectedPath, content, 'utf8');
+      }
+    }
+
+    for (const file of Array.from(expected).filter(file => !rendered.includes(file)).sort()) {
+      files.push({ output: file, status: 'unexpected' });
+      if (update) {
+        await fs.remove(path.join(expectedDir, file));
+      }
+    }
+
+    return { name, passed: update || files.every(file => file.status === 'match'), files };
+  } finally {
+    await fs.remove(output);
+  }
+}
+
+/**
+ * Run the test cases of a template
+ *
+ * Every case is rendered deterministically (seeded with its name unless
+ * input.json sets a seed) and each output is compared byte for byte with
+ * tests/<case>/expected/. With update, the rendered outputs replace the
+ * expected ones and outputs that are no longer rendered are removed.
+ *
+ * @param templateDir Template directory
+ * @param options Type, generator or plugin, case selection and update mode
+ * @returns Per-case comparison
+ * @throws ValidationError if a selected case does not exist
+ */
+export async function runTemplateTests(
+  templateDir: string,
+  options: TemplateTestOptions = {}
+): Promise<TemplateTestResult> {
+  const resolvedDir = path.resolve(templateDir);
+  const manifest = await loadTemplateManifest(resolvedDir);
+  const templateType = options.templateType ?? manifest.type ?? path.basename(resolvedDir);
+
+  const available = await listTemplateTestCases(resolvedDir);
+  const unknown = (options.cases ?? []).filter(name => !available.includes(name));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown test case(s) for ${templateType}: ${unknown.join(', ')}`, [
+      `Available cases: ${available.join(', ') || 'none'} (directories in ${TEMPLATE_TESTS_DIR}/ with an ${TEST_INPUT_FILE})`
+    ]);
+  }
+
+  const generator = options.generator ?? await createTestGenerator(resolvedDir, templateType, options.plugin);
+  const cases: TemplateTestCaseResult[] = [];
+  for (const name of options.cases ?? available) {
+    const caseDir = path.join(resolvedDir, TEMPLATE_TESTS_DIR, name);
+    cases.push(await runTestCase(generator, templateType, caseDir, name, options.update === true));
+  }
+
+  return {
+    templateType,
+    templateDir: resolvedDir,
+    cases,
+    passed: cases.every(result => result.passed),
+    updated: options.update === true
+  };
+}
+
+/**
+ * Describe the failing cases of a run
+ *
+ * @param result Template test result
+ * @param maxDiffLines Diff lines shown per changed output
+ * @returns One line per failure, followed by the diff of changed outputs
+ */
+export function formatTemplateTestFailures(result: TemplateTestResult, maxDiffLines: number = 20): string[] {
+  const lines: string[] = [];
+  for (const testCase of result.cases.filter(entry => !entry.passed)) {
+    if (testCase.error) {
+      lines.push(`${testCase.name}: ${testCase.error}`);
+      continue;
+    }
+    for (const file of testCase.files) {
+      switch (file.status) {
+        case 'changed': {
+          const diff = file.diff ?? [];
+          lines.push(`${testCase.name}: ${file.output} differs from ${TEST_EXPECTED_DIR}/${file.output}`);
+          lines.push(...diff.slice(0, maxDiffLines).map(line => `  ${line}`));
+          if (diff.length > maxDiffLines) {
+            lines.push(`  ... ${diff.length - maxDiffLines} more lines`);
+          }
+          break;
+        }
+        case 'missing':
+          lines.push(`${testCase.name}: ${file.output} has no expected output`);
+          break;
+        case 'unexpected':
+          lines.push(`${testCase.name}: ${TEST_EXPECTED_DIR}/${file.output} is no longer rendered`);
+          break;
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Run a template's test cases and fail when an output differs (for jest and other test runners)
+ * Set AZMP_UPDATE_SNAPSHOTS=1 to rewrite the expected outputs instead.
+ *
+ * @param templateDir Template directory
+ * @param options Type, generator or plugin and case selection
+ * @returns The test result
+ * @throws ValidationError listing the failures, with the diffs in its message
+ */
+export async function assertTemplateTests(
+  templateDir: string,
+  options: Omit<TemplateTestOptions, 'update'> = {}
+): Promise<TemplateTestResult> {
+  const update = ['1', 'true'].includes(process.env[UPDATE_SNAPSHOTS_ENV] ?? '');
+  const result = await runTemplateTests(templateDir, { ...options, update });
+
+  if (result.cases.length === 0) {
+    throw new ValidationError(`No test cases for ${result.templateType}`, [
+      `Add ${TEMPLATE_TESTS_DIR}/<case>/${TEST_INPUT_FILE} to ${result.templateDir}`
+    ]);
+  }
+  if (!result.passed) {
+    const failures = formatTemplateTestFailures(result);
+    throw new ValidationError(
+      `Template tests of ${result.templateType} failed ` +
+      `(run \`azmp template test ${result.templateDir} --update\` or set ${UPDATE_SNAPSHOTS_ENV}=1 to accept the changes):\n` +
+      failures.join('\n'),
+      failures
+    );
+  }
+  return result;
+}
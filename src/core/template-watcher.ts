@@ -0,0 +1,308 @@
+/**
+ * Template Watcher
+ *
+ * Backs `azmp create --watch`: watches the template directory, its overlay
+ * and azmp.config.json, re-renders after each save and prints a compact diff
+ * of the outputs that changed. A saved .hbs source only re-renders its own
+ * output; partials, manifests and the config file affect every output and
+ * trigger a full render. Outputs whose content did not change are not
+ * rewritten, and the rendered JSON checks run on every render.
+ *
+ * Every directory of the template tree gets its own watcher, since recursive
+ * fs.watch is not available on Linux before Node 20; directories created
+ * while watching are picked up as they appear.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { TemplateConfig, TemplateGenerator } from './generator';
+import { TemplateLayers, getLayerDirs } from './template-overlay';
+import { TEMPLATE_MANIFEST_FILE, TEMPLATE_PARTIALS_DIR, TEMPLATE_SOURCE_EXTENSION } from './template-manifest';
+import { describeOutputChange, OutputChange } from './output-diff';
+import { ErrorHandler } from '../utils/error-handler';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger();
+
+/**
+ * Delay after the last file event before re-rendering (editors write in bursts)
+ */
+export const WATCH_DEBOUNCE_MS = 150;
+
+/**
+ * Directories of a tree, the root first (dot directories such as .git are skipped;
+ * a tree removed while it is listed yields what was found)
+ */
+function listDirectories(root: string): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(root, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const dirs = [root];
+  for (const entry of entries) {
+    if (entry.isDirectory() && !entry.name.startsWith('.')) {
+      dirs.push(...listDirectories(path.join(root, entry.name)));
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Sources to re-render for a set of changed files
+ *
+ * @param changedPaths Absolute paths of changed files
+ * @param layers Template layers
+ * @returns Changed sources relative to the template directory, or undefined when
+ *          every output must be re-rendered (partials, manifest, config or unknown files)
+ */
+export function selectChangedSources(changedPaths: string[], layers: TemplateLayers): string[] | undefined {
+  const sources = new Set<string>();
+
+  for (const changedPath of changedPaths) {
+    const relativePath = getLayerDirs(layers)
+      .map(dir => path.relative(dir, changedPath))
+      .find(relative => relative && !relative.startsWith('..') && !path.isAbsolute(relative));
+    if (!relativePath) {
+      return undefined;
+    }
+
+    const source = relativePath.split(path.sep).join('/');
+    if (!source.endsWith(TEMPLATE_SOURCE_EXTENSION) ||
+        source === TEMPLATE_MANIFEST_FILE ||
+        source.startsWith(`${TEMPLATE_PARTIALS_DIR}/`)) {
+      return undefined;
+    }
+    sources.add(source);
+  }
+
+  return Array.from(sources).sort();
+}
+
+/**
+ * Options for a watch session
+ */
+export interface TemplateWatchOptions {
+  /** Generator used for every render */
+  generator: TemplateGenerator;
+
+  /** Builds the generation config; called again whenever the config file changes */
+  loadConfig: () => Promise<TemplateConfig>;
+
+  /** Config file to watch (azmp.config.json) */
+  configFile?: string;
+
+  /** Debounce delay in milliseconds */
+  debounceMs?: number;
+}
+
+/**
+ * Re-renders a template whenever its files change
+ */
+export class TemplateWatchSession {
+  private watchers: fs.FSWatcher[] = [];
+  private treeWatchers = new Map<string, fs.FSWatcher>();
+  private watchedDirs: string[] = [];
+  private watching = false;
+  private pending = new Set<string>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private queue: Promise<void> = Promise.resolve();
+  private config?: TemplateConfig;
+  private layers?: TemplateLayers;
+
+  constructor(private readonly options: TemplateWatchOptions) {}
+
+  /**
+   * Render once and start watching
+   */
+  public async start(): Promise<void> {
+    await this.render();
+    this.watch();
+  }
+
+  /**
+   * Stop watching
+   */
+  public close(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.closeWatchers();
+    this.watchedDirs = [];
+    this.watching = false;
+  }
+
+  private closeWatchers(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+    this.treeWatchers.forEach(watcher => watcher.close());
+    this.treeWatchers.clear();
+  }
+
+  /**
+   * Re-render after files changed and print what changed in the output directory
+   * Errors are printed and the session keeps running.
+   *
+   * @param changedPaths Absolute paths of changed files (omit for a full render)
+   * @returns Changed outputs, or undefined if the render failed
+   */
+  public async render(changedPaths?: string[]): Promise<OutputChange[] | undefined> {
+    try {
+      const configFile = this.options.configFile ? path.resolve(this.options.configFile) : undefined;
+      if (!this.config || (configFile && changedPaths?.includes(configFile))) {
+        this.config = await this.options.loadConfig();
+        this.layers = undefined;
+      }
+      if (!this.layers) {
+        this.layers = await this.options.generator.resolveLayers(this.config);
+      }
+
+      const sources = changedPaths ? selectChangedSources(changedPaths, this.layers) : undefined;
+      const result = await this.options.generator.generateTemplate({
+        ...this.config,
+        sources,
+        writeChangedOnly: true
+      });
+
+      const changes = result.changes ?? [];
+      this.printChanges(changes, sources);
+      return changes;
+    } catch (error) {
+      ErrorHandler.report(error, 'watch render');
+      console.log(chalk.yellow('👀 Waiting for changes...'));
+      return undefined;
+    } finally {
+      // The overlay directory may have appeared or the config may point somewhere else now
+      if (this.watching) {
+        this.watch();
+      }
+    }
+  }
+
+  /**
+   * Directory trees to watch: the template, its overlay (or the
+   * templates directory, so a new overlay is noticed)
+   */
+  private getWatchDirs(): string[] {
+    const dirs: string[] = [];
+    if (this.layers) {
+      dirs.push(...getLayerDirs(this.layers));
+      if (!this.layers.overlayDir && this.config?.templatesDir && fs.pathExistsSync(this.config.templatesDir)) {
+        dirs.push(path.resolve(this.config.templatesDir));
+      }
+    }
+    return dirs;
+  }
+
+  /**
+   * (Re)create the file system watchers when the watched directories changed
+   */
+  private watch(): void {
+    const dirs = this.getWatchDirs();
+    if (this.watching && dirs.join('\n') === this.watchedDirs.join('\n')) {
+      return;
+    }
+
+    this.closeWatchers();
+    this.watchedDirs = dirs;
+    this.watching = true;
+
+    dirs.forEach(dir => this.watchTree(dir));
+
+    // Editors often replace files, so watch the config file's directory
+    if (this.options.configFile) {
+      const configFile = path.resolve(this.options.configFile);
+      this.watchers.push(fs.watch(path.dirname(configFile), (_event, fileName) => {
+        if (fileName && fileName.toString() === path.basename(configFile)) {
+          this.schedule(configFile);
+        }
+      }));
+    }
+
+    logger.debug('Watching template files', 'watch', { dirs, configFile: this.options.configFile });
+  }
+
+  /**
+   * Watch a directory and its subdirectories, one watcher per directory
+   */
+  private watchTree(root: string): void {
+    for (const dir of listDirectories(root)) {
+      if (this.treeWatchers.has(dir)) {
+        continue;
+      }
+      const watcher = fs.watch(dir, (_event, fileName) => {
+        if (!fileName) {
+          return;
+        }
+        const changedPath = path.join(dir, fileName.toString());
+        const stats = fs.statSync(changedPath, { throwIfNoEntry: false });
+        if (stats?.isDirectory()) {
+          this.watchTree(changedPath);
+        } else if (!stats) {
+          this.unwatchTree(changedPath);
+        }
+        this.schedule(changedPath);
+      });
+      watcher.on('error', () => this.unwatchTree(dir));
+      this.treeWatchers.set(dir, watcher);
+    }
+  }
+
+  /**
+   * Stop watching a removed directory and its subdirectories (watched again if they reappear)
+   */
+  private unwatchTree(root: string): void {
+    for (const [dir, watcher] of this.treeWatchers) {
+      if (dir === root || dir.startsWith(root + path.sep)) {
+        watcher.close();
+        this.treeWatchers.delete(dir);
+      }
+    }
+  }
+
+  /**
+   * Collect a changed file and render once the burst of events is over
+   */
+  private schedule(changedPath: string): void {
+    if (path.basename(changedPath).startsWith('.')) {
+      return;
+    }
+    this.pending.add(changedPath);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const changedPaths = Array.from(this.pending);
+      this.pending.clear();
+      this.queue = this.queue.then(async () => {
+        console.log(chalk.blue(`\n🔄 Changed: ${changedPaths.map(changed => path.basename(changed)).join(', ')}`));
+        await this.render(changedPaths);
+      });
+    }, this.options.debounceMs ?? WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Print a compact diff of the changed outputs
+   */
+  private printChanges(changes: OutputChange[], sources?: string[]): void {
+    const scope = sources ? `${sources.length} source(s)` : 'all sources';
+    if (changes.length === 0) {
+      console.log(chalk.gray(`  No output changes (rendered ${scope})`));
+    }
+    for (const change of changes) {
+      console.log(chalk.cyan(`  ${change.previous === undefined ? '+' : '~'} ${change.output}`));
+      for (const line of describeOutputChange(change)) {
+        const color = line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : chalk.gray;
+        console.log(color(`    ${line}`));
+      }
+    }
+    console.log(chalk.yellow('👀 Waiting for changes...'));
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Three-Way Merge
+ *
+ * Merges JSON documents the way version control merges text, but per JSON
+ * path: given the document as originally rendered (base), the document on
+ * disk (current, possibly edited by hand) and a fresh render (incoming), every
+ * value changed on only one side is taken from that side. Values changed
+ * differently on both sides are conflicts; they keep the current value so the
+ * merged document stays valid JSON, and are reported separately.
+ *
+ * Objects merge key by key. Arrays merge item by item when their items can be
+ * identified (resources by type and name, other items by name); any other
+ * array changed on both sides is a conflict as a whole.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import { jsonEqual } from './semantic-diff';
+
+/**
+ * A value changed differently in the current and the incoming document
+ * (undefined means the value does not exist on that side)
+ */
+export interface MergeConflict {
+  /** JSON path of the value ("parameters.sku.defaultValue", "resources[Microsoft.Storage/storageAccounts/sa].sku") */
+  path: string;
+
+  /** Value as originally rendered */
+  base?: unknown;
+
+  /** Value on disk (kept in the merged document) */
+  current?: unknown;
+
+  /** Value of the fresh render */
+  incoming?: unknown;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  /** Merged value (undefined if the value was removed) */
+  value: unknown;
+
+  /** Conflicts, in document order */
+  conflicts: MergeConflict[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return a === undefined || b === undefined ? a === b : jsonEqual(a, b);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Identity of an array item: "type/name" for resources, otherwise its name
+ */
+function itemKey(item: unknown): string | undefined {
+  if (!isObject(item) || typeof item.name !== 'string') {
+    return undefined;
+  }
+  return typeof item.type === 'string' && item.type.includes('/') ? `${item.type}/${item.name}` : item.name;
+}
+
+/**
+ * Key the items of an array, or undefined if some item has no identity or shares it
+ */
+function keyArray(items: unknown[] | undefined): Map<string, unknown> | undefined {
+  const keyed = new Map<string, unknown>();
+  for (const item of items ?? []) {
+    const key = itemKey(item);
+    if (key === undefined || keyed.has(key)) {
+      return undefined;
+    }
+    keyed.set(key, item);
+  }
+  return keyed;
+}
+
+function mergeValue(
+  base: unknown,
+  current: unknown,
+  incoming: unknown,
+  path: string,
+  conflicts: MergeConflict[]
+): unknown {
+  if (same(current, incoming) || same(base, current)) {
+    return incoming;
+  }
+  if (same(base, incoming)) {
+    return current;
+  }
+
+  // Changed on both sides: merge the parts
+  if (isObject(current) && isObject(incoming) && (base === undefined || isObject(base))) {
+    const baseObject = isObject(base) ? base : {};
+    const merged: JsonObject = {};
+    // Keep the key order of the file on disk, new keys after it
+    const keys = new Set([...Object.keys(current), ...Object.keys(incoming), ...Object.keys(baseObject)]);
+    for (const key of keys) {
+      const value = mergeValue(baseObject[key], current[key], incoming[key], joinPath(path, key), conflicts);
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  if (Array.isArray(current) && Array.isArray(incoming) && (base === undefined || Array.isArray(base))) {
+    const baseItems = keyArray(base as unknown[] | undefined);
+    const currentItems = keyArray(current);
+    const incomingItems = keyArray(incoming);
+    if (baseItems && currentItems && incomingItems) {
+      const merged: unknown[] = [];
+      const keys = new Set([...currentItems.keys(), ...incomingItems.keys(), ...baseItems.keys()]);
+      for (const key of keys) {
+        const value = mergeValue(
+          baseItems.get(key),
+          currentItems.get(key),
+          incomingItems.get(key),
+          `${path}[${key}]`,
+          conflicts
+        );
+        if (value !== undefined) {
+          merged.push(value);
+        }
+      }
+      return merged;
+    }
+  }
+
+  conflicts.push({ path: path || '(document)', base, current, incoming });
+  return current;
+}
+
+/**
+ * Three-way merge of JSON values
+ *
+ * @param base Value as originally rendered (undefined if it did not exist)
+ * @param current Value on disk (undefined if it does not exist)
+ * @param incoming Value of the fresh render (undefined if it is no longer rendered)
+ * @returns Merged value and conflicts
+ */
+export function mergeJson(base: unknown, current: unknown, incoming: unknown): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const value = mergeValue(base, current, incoming, '', conflicts);
+  return { value, conflicts };
+}
+
+/**
+ * Three-way merge of whole text files (used for non-JSON outputs)
+ *
+ * @returns Merged text (undefined if the file was removed) and a conflict if both sides changed it
+ */
+export function mergeText(
+  base: string | undefined,
+  current: string | undefined,
+  incoming: string | undefined
+): MergeResult {
+  if (current === incoming || current === base) {
+    return { value: incoming, conflicts: [] };
+  }
+  if (incoming === base) {
+    return { value: current, conflicts: [] };
+  }
+  return { value: current, conflicts: [{ path: '(file)', base, current, incoming }] };
+}
+
+/**
+ * Conflict report in the familiar marker layout, one block per conflicting path
+ *
+ * @param conflicts Conflicts per file
+ * @param labels Labels of the base and incoming side (e.g. generator versions)
+ * @returns Report text
+ */
+export function formatConflictReport(
+  conflicts: Array<{ file: string; conflicts: MergeConflict[] }>,
+  labels: { base: string; incoming: string }
+): string {
+  const show = (value: unknown): string =>
+    value === undefined ? '(absent)' : typeof value === 'string' && !value.includes('\n') ? JSON.stringify(value)
+      : typeof value === 'string' ? value.replace(/\n$/, '') : JSON.stringify(value, null, 2);
+
+  const blocks: string[] = [];
+  for (const entry of conflicts) {
+    for (const conflict of entry.conflicts) {
+      blocks.push([
+        `${entry.file}: ${conflict.path}`,
+        '<<<<<<< current (kept)',
+        show(conflict.current),
+        `||||||| base (${labels.base})`,
+        show(conflict.base),
+        '=======',
+        show(conflict.incoming),
+        `>>>>>>> incoming (${labels.incoming})`
+      ].join('\n'));
+    }
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,383 @@
+/**
+ * createUiDefinition Consistency Check
+ *
+ * Cross-checks the parameters of a mainTemplate with the `outputs` of its
+ * createUiDefinition without deploying anything. A parameter renamed in one
+ * file but not the other otherwise only fails when the portal submits the
+ * deployment. Used by `azmp validate`, which runs it without ARM-TTK.
+ *
+ * | Code                | Problem                                                           |
+ * |---------------------|-------------------------------------------------------------------|
+ * | missing-output      | A parameter without a default is not produced by the outputs     |
+ * | unknown-parameter   | An output targets a parameter the mainTemplate does not declare  |
+ * | unknown-element     | An output reads a step or element that does not exist            |
+ * | type-mismatch       | An output produces a value of another type than the parameter    |
+ * | location            | `location` is not wired to `[location()]`                         |
+ *
+ * Output types are inferred from literals, from the outer function of an
+ * expression (`int()`, `equals()`, `parse()`) and from the element an
+ * expression reads (a CheckBox produces a bool, a Slider an int). Outputs
+ * whose type cannot be inferred are not type-checked.
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { MAIN_TEMPLATE_OUTPUT } from './linked-templates';
+import { UI_DEFINITION_OUTPUT } from './template-composition';
+import { FileSystemError, ValidationError } from '../utils/error-handler';
+
+/**
+ * Kinds of consistency problems
+ */
+export const CONSISTENCY_ISSUE_CODES = ['missing-output', 'unknown-parameter', 'unknown-element', 'type-mismatch', 'location'] as const;
+
+export type ConsistencyIssueCode = typeof CONSISTENCY_ISSUE_CODES[number];
+
+/**
+ * A mismatch between the mainTemplate and the createUiDefinition
+ */
+export interface ConsistencyIssue {
+  code: ConsistencyIssueCode;
+
+  /** mainTemplate parameter or output name */
+  parameter: string;
+
+  message: string;
+}
+
+/**
+ * Result of checking a package directory
+ */
+export interface ConsistencyReport {
+  mainTemplate: string;
+  uiDefinition: string;
+
+  /** Number of mainTemplate parameters */
+  parameters: number;
+
+  /** Number of createUiDefinition outputs */
+  outputs: number;
+
+  issues: ConsistencyIssue[];
+}
+
+/**
+ * Value types after folding secure types into their plain counterparts;
+ * `json` is what `parse()` produces (an object or an array)
+ */
+type ValueType = 'string' | 'int' | 'bool' | 'object' | 'array' | 'json';
+
+type JsonObject = Record<string, unknown>;
+
+const LOCATION_PARAMETER = 'location';
+const LOCATION_OUTPUT = '[location()]';
+
+const FUNCTION_TYPES: Record<string, ValueType> = {
+  ...Object.fromEntries(['int', 'add', 'sub', 'mul', 'div', 'mod', 'length', 'min', 'max', 'indexOf', 'lastIndexOf']
+    .map(name => [name, 'int'])),
+  ...Object.fromEntries(['bool', 'equals', 'not', 'and', 'or', 'greater', 'greaterOrEquals', 'less', 'lessOrEquals',
+    'contains', 'empty', 'startsWith', 'endsWith'].map(name => [name, 'bool'])),
+  ...Object.fromEntries(['string', 'location', 'toLower', 'toUpper', 'substring', 'replace', 'trim', 'guid',
+    'encodeBase64', 'decodeBase64', 'encodeUriComponent', 'decodeUriComponent'].map(name => [name, 'string'])),
+  parse: 'json',
+  split: 'array'
+};
+
+const ELEMENT_TYPES: Record<string, ValueType> = {
+  'Microsoft.Common.TextBox': 'string',
+  'Microsoft.Common.PasswordBox': 'string',
+  'Microsoft.Common.CheckBox': 'bool',
+  'Microsoft.Common.Slider': 'int',
+  'Microsoft.Common.TagsByResource': 'object'
+};
+
+const SECTION_ELEMENT = 'Microsoft.Common.Section';
+const BASICS_SCOPE = 'basics';
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Type of a mainTemplate parameter, or undefined for an unknown type
+ */
+function parameterType(definition: unknown): ValueType | undefined {
+  const type = isObject(definition) && typeof definition.type === 'string' ? definition.type.toLowerCase() : '';
+  switch (type) {
+    case 'string':
+    case 'securestring':
+      return 'string';
+    case 'object':
+    case 'secureobject':
+      return 'object';
+    case 'int':
+    case 'bool':
+    case 'array':
+      return type;
+    default:
+      return undefined;
+  }
+}
+
+function typeOfLiteral(value: unknown): ValueType | undefined {
+  if (typeof value === 'string') {
+    return 'string';
+  }
+  if (typeof value === 'boolean') {
+    return 'bool';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'int' : undefined;
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return isObject(value) ? 'object' : undefined;
+}
+
+/**
+ * Index of the parenthesis closing the one at `open`, skipping quoted strings
+ */
+function closingParenthesis(expression: string, open: number): number {
+  let depth = 0;
+  let quoted = false;
+  for (let index = open; index < expression.length; index++) {
+    const char = expression[index];
+    if (char === "'") {
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      depth++;
+    } else if (!quoted && char === ')' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Elements of a step or the basics, with how outputs refer to them
+ */
+interface ElementScope {
+  label: string;
+  elements: unknown[];
+}
+
+/**
+ * The createUiDefinition blades outputs can read from
+ */
+class UiDefinitionElements {
+  private readonly basics: unknown[];
+  private readonly steps = new Map<string, unknown[]>();
+
+  constructor(uiDefinition: JsonObject) {
+    const parameters = isObject(uiDefinition.parameters) ? uiDefinition.parameters : {};
+    this.basics = Array.isArray(parameters.basics) ? parameters.basics : [];
+    for (const step of Array.isArray(parameters.steps) ? parameters.steps : []) {
+      if (isObject(step) && typeof step.name === 'string') {
+        this.steps.set(step.name, Array.isArray(step.elements) ? step.elements : []);
+      }
+    }
+  }
+
+  /**
+   * The elements `basics('x')` or `steps('name').x` read from
+   */
+  scope(step: string | undefined): ElementScope | undefined {
+    // steps('basics') is an alias of basics()
+    if (step === undefined || step === 'basics') {
+      return { label: BASICS_SCOPE, elements: this.basics };
+    }
+    const elements = this.steps.get(step);
+    return elements ? { label: `steps('${step}')`, elements } : undefined;
+  }
+}
+
+/**
+ * Value type an element reference produces
+ *
+ * @returns The type (undefined when unknown), or the part of the reference
+ *   that does not resolve to an element
+ */
+function resolveElementReference(
+  scope: ElementScope,
+  segments: string[]
+): { type: ValueType | undefined } | { missing: string } {
+  let elements = scope.elements;
+  let reference = scope.label;
+  for (let index = 0; index < segments.length; index++) {
+    const element = elements.find(candidate => isObject(candidate) && candidate.name === segments[index]);
+    reference = index === 0 && scope.label === BASICS_SCOPE ? `basics('${segments[0]}')` : `${reference}.${segments[index]}`;
+    if (!isObject(element)) {
+      return { missing: reference };
+    }
+    if (element.type === SECTION_ELEMENT && index < segments.length - 1) {
+      elements = Array.isArray(element.elements) ? element.elements : [];
+      continue;
+    }
+    // Properties of an element (a CredentialsCombo's password) are not typed
+    return { type: index === segments.length - 1 ? elementType(element) : undefined };
+  }
+  return { type: undefined };
+}
+
+/**
+ * Value type an element produces
+ */
+function elementType(element: JsonObject): ValueType | undefined {
+  const type = typeof element.type === 'string' ? element.type : '';
+  if (ELEMENT_TYPES[type]) {
+    return ELEMENT_TYPES[type];
+  }
+  if (type !== 'Microsoft.Common.DropDown' && type !== 'Microsoft.Common.OptionsGroup') {
+    return undefined;
+  }
+  if (element.multiselect === true) {
+    return 'array';
+  }
+  const constraints = isObject(element.constraints) ? element.constraints : {};
+  if (!Array.isArray(constraints.allowedValues) || constraints.allowedValues.length === 0) {
+    return undefined;
+  }
+  const types = new Set(constraints.allowedValues.map(option => isObject(option) ? typeOfLiteral(option.value) : undefined));
+  return types.size === 1 ? [...types][0] : undefined;
+}
+
+/**
+ * Value type an output produces
+ *
+ * @returns The type (undefined when unknown), or the step or element it
+ *   reads that does not exist
+ */
+function outputType(value: unknown, elements: UiDefinitionElements): { type: ValueType | undefined } | { missing: string } {
+  if (typeof value !== 'string' || !value.startsWith('[') || value.startsWith('[[') || !value.endsWith(']')) {
+    return { type: typeOfLiteral(value) };
+  }
+  const expression = value.slice(1, -1).trim();
+
+  const reference = /^(?:basics\(\s*'([^']*)'\s*\)|steps\(\s*'([^']*)'\s*\)\.([\w.]+))$/.exec(expression);
+  if (reference) {
+    const step = reference[1] === undefined ? reference[2] : undefined;
+    const segments = reference[1] === undefined ? reference[3].split('.') : [reference[1]];
+    const scope = elements.scope(step);
+    return scope ? resolveElementReference(scope, segments) : { missing: `steps('${step}')` };
+  }
+
+  const call = /^(\w+)\s*\(/.exec(expression);
+  if (call && closingParenthesis(expression, call[0].length - 1) === expression.length - 1) {
+    return { type: FUNCTION_TYPES[call[1]] };
+  }
+  return { type: undefined };
+}
+
+function isCompatible(parameter: ValueType, output: ValueType): boolean {
+  return parameter === output || (output === 'json' && (parameter === 'object' || parameter === 'array'));
+}
+
+function describeType(type: ValueType): string {
+  return type === 'json' ? 'parsed JSON' : type;
+}
+
+/**
+ * Check the outputs of a createUiDefinition against the parameters of a mainTemplate
+ *
+ * Parameter names are matched case-insensitively, as ARM does.
+ *
+ * @param mainTemplate Parsed mainTemplate.json
+ * @param uiDefinition Parsed createUiDefinition.json
+ * @returns Issues in output order, followed by parameters without an output
+ */
+export function checkUiDefinitionConsistency(mainTemplate: unknown, uiDefinition: unknown): ConsistencyIssue[] {
+  const parameters = isObject(mainTemplate) && isObject(mainTemplate.parameters) ? mainTemplate.parameters : {};
+  const uiParameters = isObject(uiDefinition) && isObject(uiDefinition.parameters) ? uiDefinition.parameters : {};
+  const outputs = isObject(uiParameters.outputs) ? uiParameters.outputs : {};
+  const elements = new UiDefinitionElements(isObject(uiDefinition) ? uiDefinition : {});
+
+  const parameterNames = new Map(Object.keys(parameters).map(name => [name.toLowerCase(), name]));
+  const wired = new Set<string>();
+  const issues: ConsistencyIssue[] = [];
+
+  for (const [output, value] of Object.entries(outputs)) {
+    const name = parameterNames.get(output.toLowerCase());
+    if (name === undefined) {
+      issues.push({ code: 'unknown-parameter', parameter: output, message: `Output '${output}' targets a parameter mainTemplate does not declare` });
+      continue;
+    }
+    wired.add(name);
+
+    if (name.toLowerCase() === LOCATION_PARAMETER) {
+      if (typeof value !== 'string' || value.replace(/\s/g, '') !== LOCATION_OUTPUT) {
+        issues.push({ code: 'location', parameter: name, message: `Output '${output}' must be ${LOCATION_OUTPUT}, not ${JSON.stringify(value)}` });
+      }
+      continue;
+    }
+
+    const produced = outputType(value, elements);
+    if ('missing' in produced) {
+      issues.push({ code: 'unknown-element', parameter: name, message: `Output '${output}' reads ${produced.missing}, which does not exist` });
+      continue;
+    }
+    const expected = parameterType(parameters[name]);
+    if (expected && produced.type && !isCompatible(expected, produced.type)) {
+      issues.push({
+        code: 'type-mismatch',
+        parameter: name,
+        message: `Output '${output}' produces ${describeType(produced.type)} but parameter '${name}' is ${(parameters[name] as JsonObject).type}`
+      });
+    }
+  }
+
+  for (const [name, definition] of Object.entries(parameters)) {
+    if (wired.has(name)) {
+      continue;
+    }
+    if (!isObject(definition) || definition.defaultValue === undefined) {
+      issues.push({ code: 'missing-output', parameter: name, message: `Parameter '${name}' has no default and no createUiDefinition output` });
+    } else if (name.toLowerCase() === LOCATION_PARAMETER) {
+      issues.push({ code: 'location', parameter: name, message: `Parameter '${name}' is not wired to ${LOCATION_OUTPUT}` });
+    }
+  }
+  return issues;
+}
+
+async function readJsonFile(file: string): Promise<unknown> {
+  try {
+    return await fs.readJson(file);
+  } catch (error) {
+    throw new ValidationError(`Cannot check ${path.basename(file)}`, [`${file}: ${(error as Error).message}`]);
+  }
+}
+
+/**
+ * Check mainTemplate.json against createUiDefinition.json in a package directory
+ *
+ * @param target Package directory, or a file in it (mainTemplate.json)
+ * @returns The report, or undefined if the directory lacks either file
+ * @throws FileSystemError if the target does not exist
+ * @throws ValidationError if either file is not valid JSON
+ */
+export async function checkPackageConsistency(target: string): Promise<ConsistencyReport | undefined> {
+  if (!await fs.pathExists(target)) {
+    throw new FileSystemError(`Path not found: ${target}`, target);
+  }
+  const dir = (await fs.stat(target)).isFile() ? path.dirname(target) : target;
+  const mainTemplatePath = path.join(dir, MAIN_TEMPLATE_OUTPUT);
+  const uiDefinitionPath = path.join(dir, UI_DEFINITION_OUTPUT);
+  if (!await fs.pathExists(mainTemplatePath) || !await fs.pathExists(uiDefinitionPath)) {
+    return undefined;
+  }
+
+  const mainTemplate = await readJsonFile(mainTemplatePath);
+  const uiDefinition = await readJsonFile(uiDefinitionPath);
+  const parameters = isObject(mainTemplate) && isObject(mainTemplate.parameters) ? mainTemplate.parameters : {};
+  const uiParameters = isObject(uiDefinition) && isObject(uiDefinition.parameters) ? uiDefinition.parameters : {};
+  return {
+    mainTemplate: mainTemplatePath,
+    uiDefinition: uiDefinitionPath,
+    parameters: Object.keys(parameters).length,
+    outputs: isObject(uiParameters.outputs) ? Object.keys(uiParameters.outputs).length : 0,
+    issues: checkUiDefinitionConsistency(mainTemplate, uiDefinition)
+  };
+}
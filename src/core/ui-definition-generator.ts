@@ -0,0 +1,461 @@
+/**
+ * createUiDefinition Generator
+ *
+ * Derives a createUiDefinition from the parameters of a rendered
+ * mainTemplate, so the portal experience no longer has to be written to
+ * mirror them by hand. Each parameter gets an element chosen from its type
+ * and constraints, and the outputs map the elements back to the parameters.
+ *
+ * | Parameter                        | Element                                        |
+ * |----------------------------------|------------------------------------------------|
+ * | allowedValues (up to 3)          | Microsoft.Common.OptionsGroup                  |
+ * | allowedValues                    | Microsoft.Common.DropDown                      |
+ * | bool                             | Microsoft.Common.CheckBox                      |
+ * | int with minValue and maxValue   | Microsoft.Common.Slider                        |
+ * | int                              | Microsoft.Common.TextBox (output `int()`)      |
+ * | securestring                     | Microsoft.Common.PasswordBox                   |
+ * | object, array, secureObject      | Microsoft.Common.TextBox (output `parse()`)    |
+ * | string                           | Microsoft.Common.TextBox (regex from lengths)  |
+ *
+ * `location` is taken from the basics blade and `_artifactsLocation*` is left
+ * to Partner Center. Parameters whose defaults are template expressions, and
+ * objects or arrays with defaults, are left out so the template's defaults
+ * apply, unless a hint places them.
+ *
+ * Hints come from `metadata.ui` of a parameter and from an overrides file;
+ * the overrides win:
+ *
+ * @example
+ * ```json
+ * {
+ *   "steps": { "security": { "label": "Security" } },
+ *   "parameters": {
+ *     "minimumTlsVersion": { "step": "security", "control": "DropDown", "label": "Minimum TLS version" },
+ *     "storageAccountNamePrefix": { "step": "basics", "element": { "toolTip": "3-11 lowercase letters" } },
+ *     "applicationName": { "exclude": true }
+ *   }
+ * }
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import * as fs from 'fs-extra';
+import { ValidationError } from '../utils/error-handler';
+
+/**
+ * Schema of createUiDefinition.json
+ */
+export const UI_DEFINITION_SCHEMA_URL = 'https://schema.management.azure.com/schemas/0.1.2-preview/CreateUIDefinition.MultiVm.json#';
+
+/**
+ * Element types the generator chooses from (without the Microsoft.Common. prefix)
+ */
+export const UI_CONTROLS = ['TextBox', 'DropDown', 'OptionsGroup', 'CheckBox', 'Slider', 'PasswordBox'] as const;
+
+export type UiControl = typeof UI_CONTROLS[number];
+
+/**
+ * Step of parameters without a step hint
+ */
+export const DEFAULT_UI_STEP = 'settings';
+
+/**
+ * Step hint that places an element on the basics blade
+ */
+export const BASICS_STEP = 'basics';
+
+/**
+ * Allowed values up to this count are shown as an OptionsGroup, more as a DropDown
+ */
+const OPTIONS_GROUP_MAX = 3;
+
+/**
+ * Parameters Partner Center fills in for templates with linked artifacts
+ */
+const ARTIFACTS_PARAMETER_PATTERN = /^_artifactsLocation/;
+
+/**
+ * Hand-tuning of one parameter's element
+ */
+export interface UiParameterHint {
+  /** Step to put the element in ("basics" for the basics blade; default "settings") */
+  step?: string;
+
+  /** Element type to use instead of the one derived from the parameter */
+  control?: UiControl;
+
+  /** Element label (default: the parameter name in words) */
+  label?: string;
+
+  /** Leave the parameter out; the template's default applies */
+  exclude?: boolean;
+
+  /** Fields merged into the generated element */
+  element?: Record<string, unknown>;
+
+  /** Output expression to use instead of the generated one */
+  output?: string;
+}
+
+/**
+ * Overrides file: step settings and parameter hints
+ */
+export interface UiDefinitionOverrides {
+  /** Fields merged into each step (label, subLabel, bladeTitle...), keyed by step name */
+  steps?: Record<string, Record<string, unknown>>;
+
+  /** Hints keyed by parameter name */
+  parameters?: Record<string, UiParameterHint>;
+}
+
+/**
+ * Options for generating a createUiDefinition
+ */
+export interface UiDefinitionOptions {
+  /** Step settings and parameter hints (win over metadata.ui hints) */
+  overrides?: UiDefinitionOverrides;
+
+  /** Label of the default step (default "Settings") */
+  defaultStepLabel?: string;
+
+  /** Elements placed on the basics blade before the generated ones */
+  basics?: Record<string, unknown>[];
+
+  /** $schema of the generated document */
+  schema?: string;
+
+  /**
+   * Value to write as an element default
+   * `asText` is true when the element holds text (TextBox, DropDown and OptionsGroup labels)
+   */
+  renderDefault?: (name: string, value: unknown, asText: boolean) => unknown;
+}
+
+/**
+ * Generated createUiDefinition
+ */
+export interface UiDefinitionResult {
+  /** The createUiDefinition document */
+  uiDefinition: Record<string, unknown>;
+
+  /** Parameters the outputs are wired to */
+  parameters: string[];
+
+  /** Parameters left to their template defaults */
+  skipped: string[];
+}
+
+/**
+ * An ARM template parameter definition
+ */
+interface ArmParameter {
+  type?: string;
+  defaultValue?: unknown;
+  allowedValues?: unknown[];
+  minValue?: number;
+  maxValue?: number;
+  minLength?: number;
+  maxLength?: number;
+  metadata?: { description?: string; ui?: UiParameterHint };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Template expressions are strings in brackets; "[[" escapes a literal bracket
+ */
+function isExpression(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('[') && !value.startsWith('[[') && value.endsWith(']');
+}
+
+/**
+ * "storageAccountType" → "Storage Account Type"
+ */
+function labelFor(name: string): string {
+  const words = name.replace(/^_+/, '').replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Element type derived from a parameter
+ */
+function chooseControl(type: string, parameter: ArmParameter): UiControl {
+  if (parameter.allowedValues && parameter.allowedValues.length > 0 && (type === 'string' || type === 'int')) {
+    return parameter.allowedValues.length <= OPTIONS_GROUP_MAX ? 'OptionsGroup' : 'DropDown';
+  }
+  switch (type) {
+    case 'bool':
+      return 'CheckBox';
+    case 'securestring':
+      return 'PasswordBox';
+    case 'int':
+      return parameter.minValue !== undefined && parameter.maxValue !== undefined ? 'Slider' : 'TextBox';
+    default:
+      return 'TextBox';
+  }
+}
+
+/**
+ * Element and output expression for a parameter
+ */
+function buildElement(
+  name: string,
+  parameter: ArmParameter,
+  hint: UiParameterHint,
+  reference: string,
+  options: UiDefinitionOptions
+): { element: Record<string, unknown>; output: string } {
+  const type = (parameter.type ?? 'string').toLowerCase();
+  const control = hint.control ?? chooseControl(type, parameter);
+  const hasDefault = parameter.defaultValue !== undefined && !isExpression(parameter.defaultValue);
+  const label = hint.label ?? labelFor(name);
+  const defaultValue = (asText: boolean): Record<string, unknown> => {
+    if (!hasDefault) {
+      return {};
+    }
+    const value = asText ? String(parameter.defaultValue) : parameter.defaultValue;
+    return { defaultValue: options.renderDefault ? options.renderDefault(name, parameter.defaultValue, asText) : value };
+  };
+
+  let fields: Record<string, unknown>;
+  let output = `[${reference}]`;
+  switch (control) {
+    case 'PasswordBox':
+      fields = {
+        label: { password: label, confirmPassword: `Confirm ${label.toLowerCase()}` },
+        constraints: { required: !hasDefault },
+        options: { hideConfirmation: false }
+      };
+      break;
+    case 'CheckBox':
+      fields = defaultValue(false);
+      break;
+    case 'DropDown':
+    case 'OptionsGroup':
+      // Defaults are labels, which are the values as text
+      fields = {
+        ...defaultValue(true),
+        constraints: {
+          required: !hasDefault,
+          allowedValues: (parameter.allowedValues ?? []).map(allowed => ({ label: String(allowed), value: allowed }))
+        }
+      };
+      break;
+    case 'Slider':
+      fields = {
+        min: parameter.minValue ?? 0,
+        max: parameter.maxValue ?? 100,
+        ...(hasDefault ? defaultValue(false) : { defaultValue: parameter.minValue ?? 0 }),
+        constraints: { required: !hasDefault }
+      };
+      break;
+    default:
+      if (type === 'object' || type === 'array' || type === 'secureobject') {
+        fields = {
+          multiLine: true,
+          constraints: { required: !hasDefault, validationMessage: `Enter the ${type === 'array' ? 'array' : 'object'} as JSON` }
+        };
+        output = `[parse(${reference})]`;
+      } else if (type === 'int') {
+        // TextBox values are text
+        fields = {
+          ...defaultValue(true),
+          constraints: { required: !hasDefault, regex: '^-?[0-9]+$', validationMessage: 'Enter a whole number' }
+        };
+        output = `[int(${reference})]`;
+      } else {
+        const lengths = parameter.minLength !== undefined || parameter.maxLength !== undefined
+          ? {
+            regex: `^[\\s\\S]{${parameter.minLength ?? 0},${parameter.maxLength ?? ''}}$`,
+            validationMessage: parameter.maxLength !== undefined
+              ? `Enter ${parameter.minLength ?? 0}-${parameter.maxLength} characters`
+              : `Enter at least ${parameter.minLength} characters`
+          }
+          : {};
+        fields = { ...defaultValue(true), constraints: { required: !hasDefault, ...lengths } };
+      }
+  }
+
+  return {
+    element: {
+      name,
+      type: `Microsoft.Common.${control}`,
+      label,
+      ...(parameter.metadata?.description ? { toolTip: parameter.metadata.description } : {}),
+      ...fields,
+      ...hint.element
+    },
+    output: hint.output ?? output
+  };
+}
+
+/**
+ * Check the structure of an overrides document
+ *
+ * @returns List of problems (empty when valid)
+ */
+export function validateUiDefinitionOverrides(overrides: unknown): string[] {
+  if (!isObject(overrides)) {
+    return ['overrides must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (overrides.steps !== undefined) {
+    if (!isObject(overrides.steps)) {
+      errors.push('steps must be an object');
+    } else {
+      for (const [step, settings] of Object.entries(overrides.steps)) {
+        if (!isObject(settings)) {
+          errors.push(`steps.${step} must be an object`);
+        }
+      }
+    }
+  }
+
+  if (overrides.parameters !== undefined) {
+    if (!isObject(overrides.parameters)) {
+      errors.push('parameters must be an object');
+      return errors;
+    }
+    for (const [name, hint] of Object.entries(overrides.parameters)) {
+      errors.push(...validateHint(`parameters.${name}`, hint));
+    }
+  }
+  return errors;
+}
+
+function validateHint(prefix: string, hint: unknown): string[] {
+  if (!isObject(hint)) {
+    return [`${prefix} must be an object`];
+  }
+  const errors: string[] = [];
+  for (const field of ['step', 'label', 'output']) {
+    if (hint[field] !== undefined && typeof hint[field] !== 'string') {
+      errors.push(`${prefix}.${field} must be a string`);
+    }
+  }
+  if (hint.control !== undefined && !UI_CONTROLS.includes(hint.control as UiControl)) {
+    errors.push(`${prefix}.control must be one of: ${UI_CONTROLS.join(', ')}`);
+  }
+  if (hint.exclude !== undefined && typeof hint.exclude !== 'boolean') {
+    errors.push(`${prefix}.exclude must be a boolean`);
+  }
+  if (hint.element !== undefined && !isObject(hint.element)) {
+    errors.push(`${prefix}.element must be an object`);
+  }
+  return errors;
+}
+
+/**
+ * Read an overrides file
+ *
+ * @throws ValidationError if it is not valid JSON or fails validation
+ */
+export async function loadUiDefinitionOverrides(file: string): Promise<UiDefinitionOverrides> {
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(`Invalid createUiDefinition overrides: ${file}`, [(error as Error).message]);
+  }
+  const errors = validateUiDefinitionOverrides(overrides);
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid createUiDefinition overrides: ${file}`, errors);
+  }
+  return overrides as UiDefinitionOverrides;
+}
+
+/**
+ * Generate a createUiDefinition for the parameters of an ARM template
+ *
+ * @param template Parsed mainTemplate.json
+ * @param options Overrides, basics elements, schema and default rendering
+ * @returns The document, the parameters it collects and the ones it leaves to their defaults
+ * @throws ValidationError if a metadata.ui hint is invalid or hints name unknown parameters
+ */
+export function generateUiDefinition(
+  template: Record<string, unknown>,
+  options: UiDefinitionOptions = {}
+): UiDefinitionResult {
+  const parameters = isObject(template.parameters) ? template.parameters as Record<string, ArmParameter> : {};
+  const overrides = options.overrides ?? {};
+
+  const errors: string[] = [];
+  for (const [name, parameter] of Object.entries(parameters)) {
+    if (parameter.metadata?.ui !== undefined) {
+      errors.push(...validateHint(`${name}.metadata.ui`, parameter.metadata.ui));
+    }
+  }
+  for (const name of Object.keys(overrides.parameters ?? {})) {
+    if (!(name in parameters)) {
+      errors.push(`Overrides name an unknown parameter: ${name}`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new ValidationError('Cannot generate createUiDefinition', errors);
+  }
+
+  const basics: Record<string, unknown>[] = [...options.basics ?? []];
+  const steps = new Map<string, Record<string, unknown>[]>();
+  const outputs: Record<string, string> = {};
+  const skipped: string[] = [];
+
+  for (const [name, parameter] of Object.entries(parameters)) {
+    const overrideHint = overrides.parameters?.[name];
+    const hint: UiParameterHint = {
+      ...parameter.metadata?.ui,
+      ...overrideHint,
+      element: { ...parameter.metadata?.ui?.element, ...overrideHint?.element }
+    };
+    const hinted = parameter.metadata?.ui !== undefined || overrideHint !== undefined;
+    const type = (parameter.type ?? 'string').toLowerCase();
+
+    if (name === 'location' && !hinted) {
+      outputs.location = '[location()]';
+      continue;
+    }
+    const keepsDefault = parameter.defaultValue !== undefined &&
+      (isExpression(parameter.defaultValue) || type === 'object' || type === 'array');
+    if (hint.exclude || ARTIFACTS_PARAMETER_PATTERN.test(name) || (keepsDefault && !hinted)) {
+      skipped.push(name);
+      continue;
+    }
+
+    const step = hint.step ?? DEFAULT_UI_STEP;
+    const reference = step === BASICS_STEP ? `basics('${name}')` : `steps('${step}').${name}`;
+    const { element, output } = buildElement(name, parameter, hint, reference, options);
+    if (step === BASICS_STEP) {
+      basics.push(element);
+    } else {
+      steps.set(step, [...steps.get(step) ?? [], element]);
+    }
+    outputs[name] = output;
+  }
+
+  const stepDefinitions = [...steps.entries()].map(([name, elements]) => {
+    const label = name === DEFAULT_UI_STEP ? options.defaultStepLabel ?? labelFor(name) : labelFor(name);
+    return {
+      name,
+      label,
+      subLabel: { preValidation: 'Configure the application', postValidation: 'Done' },
+      bladeTitle: label,
+      ...overrides.steps?.[name],
+      elements
+    };
+  });
+
+  return {
+    uiDefinition: {
+      $schema: options.schema ?? UI_DEFINITION_SCHEMA_URL,
+      handler: 'Microsoft.Azure.CreateUIDef',
+      version: '0.1.2-preview',
+      parameters: { basics, steps: stepDefinitions, outputs }
+    },
+    parameters: Object.keys(outputs),
+    skipped
+  };
+}
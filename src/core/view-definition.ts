@@ -0,0 +1,370 @@
+/**
+ * viewDefinition Views
+ *
+ * The post-deployment blade of a managed application is declared as data:
+ * the `views` of a template manifest, replaced per offer by
+ * `templates.<type>.views` in azmp.config.json. Declared views are checked
+ * against the kinds of the viewDefinition schema before anything is rendered
+ * and are available to `viewDefinition.json.hbs` as `views`; their strings
+ * are rendered with the template context, so a header can read `{{name}}`.
+ *
+ * | Kind             | Required properties                                          |
+ * |------------------|--------------------------------------------------------------|
+ * | Overview         | none (header, description and commands are optional)         |
+ * | Metrics          | charts, each with metrics (name, namespace, aggregationType) |
+ * | CustomResources  | resourceType of the application's custom provider            |
+ * | Associations     | targetResourceType                                           |
+ *
+ * @example
+ * ```json
+ * "views": [
+ *   { "kind": "Overview", "properties": { "header": "{{name}}", "commands": [{ "displayName": "Rotate keys", "path": "rotateKeys" }] } },
+ *   {
+ *     "kind": "Metrics",
+ *     "properties": {
+ *       "displayName": "Metrics",
+ *       "charts": [{
+ *         "displayName": "Transactions",
+ *         "chartType": "Line",
+ *         "metrics": [{ "name": "Transactions", "namespace": "Microsoft.Storage/storageAccounts", "aggregationType": "sum" }]
+ *       }]
+ *     }
+ *   }
+ * ]
+ * ```
+ *
+ * @version 3.1.0
+ * @since 3.1.0
+ */
+
+import { ValidationError } from '../utils/error-handler';
+
+/**
+ * Schema of viewDefinition.json
+ */
+export const VIEW_DEFINITION_SCHEMA_URL = 'https://schema.management.azure.com/schemas/viewdefinition/0.0.1-preview/ViewDefinition.json#';
+
+/**
+ * View kinds of the viewDefinition schema
+ */
+export const VIEW_KINDS = ['Overview', 'Metrics', 'CustomResources', 'Associations'] as const;
+
+export type ViewKind = typeof VIEW_KINDS[number];
+
+/**
+ * Chart types of a Metrics view
+ */
+export const CHART_TYPES = ['Bar', 'Line', 'Area', 'Scatter'] as const;
+
+export type ChartType = typeof CHART_TYPES[number];
+
+/**
+ * Aggregations of a metric in a Metrics view
+ */
+export const METRIC_AGGREGATION_TYPES = ['none', 'sum', 'min', 'max', 'avg', 'unique', 'percentile', 'count'] as const;
+
+export type MetricAggregationType = typeof METRIC_AGGREGATION_TYPES[number];
+
+/**
+ * A command of an Overview or CustomResources view
+ */
+export interface ViewCommand {
+  displayName: string;
+
+  /** Action of the application's custom provider */
+  path: string;
+
+  icon?: string;
+  createUIDefinition?: Record<string, unknown>;
+}
+
+/**
+ * A metric of a chart
+ */
+export interface ViewMetric {
+  name: string;
+
+  /** Metric namespace (Microsoft.Storage/storageAccounts) */
+  namespace: string;
+
+  aggregationType: MetricAggregationType;
+
+  /** Resource type the metric is read from, and tags that pick the resources */
+  resourceType?: string;
+  resourceTagFilter?: string[];
+
+  displayName?: string;
+}
+
+/**
+ * A chart of a Metrics view
+ */
+export interface MetricsChart {
+  displayName: string;
+  chartType?: ChartType;
+  metrics: ViewMetric[];
+}
+
+export interface OverviewView {
+  kind: 'Overview';
+  properties: {
+    header?: string;
+    description?: string;
+    commands?: ViewCommand[];
+  };
+}
+
+export interface MetricsView {
+  kind: 'Metrics';
+  properties: {
+    displayName?: string;
+    version?: string;
+    charts: MetricsChart[];
+  };
+}
+
+export interface CustomResourcesView {
+  kind: 'CustomResources';
+  properties: {
+    displayName?: string;
+    version?: string;
+
+    /** Resource type of the application's custom provider (Microsoft.CustomProviders/resourceProviders) */
+    resourceType: string;
+
+    icon?: string;
+    createUIDefinition?: Record<string, unknown>;
+    commands?: ViewCommand[];
+    columns?: { key: string; displayName: string; optional?: boolean }[];
+  };
+}
+
+export interface AssociationsView {
+  kind: 'Associations';
+  properties: {
+    displayName?: string;
+    version?: string;
+    targetResourceType: string;
+    createUIDefinition?: Record<string, unknown>;
+  };
+}
+
+/**
+ * A view of viewDefinition.json
+ */
+export type ViewDefinitionView = OverviewView | MetricsView | CustomResourcesView | AssociationsView;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Check optional string fields of an object
+ */
+function checkStrings(candidate: JsonObject, fields: string[], prefix: string, errors: string[]): void {
+  for (const field of fields) {
+    if (candidate[field] !== undefined && typeof candidate[field] !== 'string') {
+      errors.push(`${prefix}.${field} must be a string`);
+    }
+  }
+}
+
+/**
+ * Check required non-empty string fields of an object
+ */
+function requireStrings(candidate: JsonObject, fields: string[], prefix: string, errors: string[]): void {
+  for (const field of fields) {
+    if (!isNonEmptyString(candidate[field])) {
+      errors.push(`${prefix}.${field} must be a non-empty string`);
+    }
+  }
+}
+
+/**
+ * Check an optional createUIDefinition field
+ */
+function checkCreateUiDefinition(candidate: JsonObject, prefix: string, errors: string[]): void {
+  if (candidate.createUIDefinition !== undefined && !isObject(candidate.createUIDefinition)) {
+    errors.push(`${prefix}.createUIDefinition must be an object`);
+  }
+}
+
+/**
+ * Check the items of an array field, which is required unless `optional`
+ */
+function checkArray(
+  candidate: JsonObject,
+  field: string,
+  prefix: string,
+  errors: string[],
+  checkItem: (item: JsonObject, itemPrefix: string) => void,
+  optional: boolean = true
+): void {
+  const items = candidate[field];
+  if (items === undefined && optional) {
+    return;
+  }
+  if (!Array.isArray(items) || (!optional && items.length === 0)) {
+    errors.push(`${prefix}.${field} must be ${optional ? 'an array' : 'a non-empty array'}`);
+    return;
+  }
+  items.forEach((item, index) => {
+    const itemPrefix = `${prefix}.${field}[${index}]`;
+    if (isObject(item)) {
+      checkItem(item, itemPrefix);
+    } else {
+      errors.push(`${itemPrefix} must be an object`);
+    }
+  });
+}
+
+function checkCommand(command: JsonObject, prefix: string, errors: string[]): void {
+  requireStrings(command, ['displayName', 'path'], prefix, errors);
+  checkStrings(command, ['icon'], prefix, errors);
+  checkCreateUiDefinition(command, prefix, errors);
+}
+
+function checkMetric(metric: JsonObject, prefix: string, errors: string[]): void {
+  requireStrings(metric, ['name', 'namespace'], prefix, errors);
+  checkStrings(metric, ['resourceType', 'displayName'], prefix, errors);
+  if (!METRIC_AGGREGATION_TYPES.includes(metric.aggregationType as MetricAggregationType)) {
+    errors.push(`${prefix}.aggregationType must be one of: ${METRIC_AGGREGATION_TYPES.join(', ')}`);
+  }
+  const tags = metric.resourceTagFilter;
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+    errors.push(`${prefix}.resourceTagFilter must be an array of strings`);
+  }
+}
+
+function checkChart(chart: JsonObject, prefix: string, errors: string[]): void {
+  requireStrings(chart, ['displayName'], prefix, errors);
+  if (chart.chartType !== undefined && !CHART_TYPES.includes(chart.chartType as ChartType)) {
+    errors.push(`${prefix}.chartType must be one of: ${CHART_TYPES.join(', ')}`);
+  }
+  checkArray(chart, 'metrics', prefix, errors, (metric, metricPrefix) => checkMetric(metric, metricPrefix, errors), false);
+}
+
+/**
+ * Check the properties of a view against its kind
+ */
+function checkViewProperties(kind: ViewKind, properties: JsonObject, prefix: string, errors: string[]): void {
+  const command = (item: JsonObject, itemPrefix: string) => checkCommand(item, itemPrefix, errors);
+  switch (kind) {
+    case 'Overview':
+      checkStrings(properties, ['header', 'description'], prefix, errors);
+      checkArray(properties, 'commands', prefix, errors, command);
+      break;
+    case 'Metrics':
+      checkStrings(properties, ['displayName', 'version'], prefix, errors);
+      checkArray(properties, 'charts', prefix, errors, (chart, chartPrefix) => checkChart(chart, chartPrefix, errors), false);
+      break;
+    case 'CustomResources':
+      checkStrings(properties, ['displayName', 'version', 'icon'], prefix, errors);
+      requireStrings(properties, ['resourceType'], prefix, errors);
+      // Custom provider resource types are plain names; ARM types belong in Associations or Metrics
+      if (isNonEmptyString(properties.resourceType) && properties.resourceType.includes('/')) {
+        errors.push(`${prefix}.resourceType must be a resource type of the application's custom provider, not '${properties.resourceType}'`);
+      }
+      checkCreateUiDefinition(properties, prefix, errors);
+      checkArray(properties, 'commands', prefix, errors, command);
+      checkArray(properties, 'columns', prefix, errors, (column, columnPrefix) => {
+        requireStrings(column, ['key', 'displayName'], columnPrefix, errors);
+        if (column.optional !== undefined && typeof column.optional !== 'boolean') {
+          errors.push(`${columnPrefix}.optional must be a boolean`);
+        }
+      });
+      break;
+    case 'Associations':
+      checkStrings(properties, ['displayName', 'version'], prefix, errors);
+      requireStrings(properties, ['targetResourceType'], prefix, errors);
+      checkCreateUiDefinition(properties, prefix, errors);
+      break;
+  }
+}
+
+/**
+ * Validate declared views against the viewDefinition schema kinds
+ *
+ * @param views Parsed views
+ * @param prefix Path of the views in error messages
+ * @returns List of problems (empty when valid)
+ */
+export function validateViewDefinitionViews(views: unknown, prefix: string = 'views'): string[] {
+  if (!Array.isArray(views)) {
+    return [`${prefix} must be an array`];
+  }
+
+  const errors: string[] = [];
+  views.forEach((view, index) => {
+    const viewPrefix = `${prefix}[${index}]`;
+    if (!isObject(view)) {
+      errors.push(`${viewPrefix} must be an object`);
+      return;
+    }
+    if (!VIEW_KINDS.includes(view.kind as ViewKind)) {
+      errors.push(`${viewPrefix}.kind must be one of: ${VIEW_KINDS.join(', ')}`);
+      return;
+    }
+    if (!isObject(view.properties)) {
+      errors.push(`${viewPrefix}.properties must be an object`);
+      return;
+    }
+    checkViewProperties(view.kind as ViewKind, view.properties, `${viewPrefix}.properties`, errors);
+  });
+
+  const overviews = views.filter(view => isObject(view) && view.kind === 'Overview').length;
+  if (overviews > 1) {
+    errors.push(`${prefix} may contain one Overview (found ${overviews})`);
+  }
+  return errors;
+}
+
+/**
+ * Views of a generation run: the config's views replace the manifest's
+ *
+ * @param manifestViews Views declared in the template manifest (already validated)
+ * @param configViews Views from templates.<type>.views
+ * @param templateType Template type for error messages
+ * @returns Views to render
+ * @throws ValidationError if the config's views do not match the schema kinds
+ */
+export function resolveViewDefinitionViews(
+  manifestViews: ViewDefinitionView[] | undefined,
+  configViews: unknown,
+  templateType: string
+): ViewDefinitionView[] {
+  if (configViews === undefined) {
+    return manifestViews ?? [];
+  }
+  const errors = validateViewDefinitionViews(configViews, `templates.${templateType}.views`);
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid viewDefinition views for template '${templateType}'`, errors);
+  }
+  return configViews as ViewDefinitionView[];
+}
+
+/**
+ * Render the strings of views that contain Handlebars expressions
+ *
+ * @param views Views to render
+ * @param render Renders one string with the template context
+ * @returns Copy of the views with rendered strings
+ */
+export function renderViewText(views: ViewDefinitionView[], render: (text: string) => string): ViewDefinitionView[] {
+  const renderValue = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.includes('{{') ? render(value) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(renderValue);
+    }
+    return isObject(value) ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item)])) : value;
+  };
+  return views.map(view => renderValue(view) as ViewDefinitionView);
+}
@@ -3,6 +3,8 @@ import * as path from 'path';
 import chalk from 'chalk';
 import { getLogger } from './logger';
 import { PluginConfig } from '../core/plugin';
+import { validateViewDefinitionViews, ViewDefinitionView } from '../core/view-definition';
+import { FileSystemError, ValidationError } from './error-handler';
 
 const logger = getLogger();
 
@@ -12,12 +14,25 @@ const logger = getLogger();
 export interface AzmpConfig {
   publisher?: string;
   defaultOutputDir?: string;
+  /**
+   * Project templates directory (relative to the config file)
+   * Files in <templatesDir>/<type> override or add to the files of that template type
+   */
   templatesDir?: string;
+  /**
+   * Per-template defaults keyed by template type (e.g. "storage")
+   * `parameters` sets values for the parameters declared in the template manifest
+   * `path` registers a local template type from that directory (relative to the config file)
+   * `views` replaces the viewDefinition views declared in the template manifest
+   */
   templates?: {
-    storage?: {
+    [type: string]: {
       name?: string;
       location?: string;
-    };
+      parameters?: Record<string, unknown>;
+      path?: string;
+      views?: ViewDefinitionView[];
+    } | undefined;
   };
   validation?: {
     saveReport?: boolean;
@@ -26,6 +41,26 @@ export interface AzmpConfig {
   packaging?: {
     defaultFileName?: string;
   };
+  /**
+   * Reproducible generation settings
+   * With deterministic enabled (or a seed set), identical inputs render identical files
+   */
+  generation?: {
+    deterministic?: boolean;
+    seed?: string;
+  };
+  /**
+   * API version catalog that latestApiVersion renders from (relative to the config file)
+   * Written by `azmp apiversions refresh`; defaults to the catalog shipped with azmp
+   */
+  apiVersionCatalog?: string;
+  /**
+   * Named ARM parameter sets for `azmp params generate`, keyed by profile name
+   * The "default" profile is written to azuredeploy.parameters.json
+   */
+  parameterProfiles?: {
+    [profile: string]: Record<string, unknown>;
+  };
   /**
    * Plugin configuration (v3.1.0+)
    * Array of plugins to load with their configuration
@@ -217,12 +252,67 @@ export class ConfigManager {
       errors.push('defaultOutputDir should be a relative path');
     }
 
+    // Validate templates directory
+    if (config.templatesDir !== undefined &&
+        (typeof config.templatesDir !== 'string' || config.templatesDir.trim().length === 0)) {
+      errors.push('templatesDir must be a non-empty string');
+    }
+
+    // Validate API version catalog path
+    if (config.apiVersionCatalog !== undefined &&
+        (typeof config.apiVersionCatalog !== 'string' || config.apiVersionCatalog.trim().length === 0)) {
+      errors.push('apiVersionCatalog must be a non-empty string');
+    }
+
     // Validate packaging file name ends with .zip
     if (config.packaging?.defaultFileName && 
         !config.packaging.defaultFileName.toLowerCase().endsWith('.zip')) {
       errors.push('Packaging defaultFileName must end with .zip');
     }
 
+    // Validate per-template parameter values (checked against the manifest at generation time)
+    for (const [type, templateConfig] of Object.entries(config.templates ?? {})) {
+      const parameters = templateConfig?.parameters;
+      if (parameters !== undefined &&
+          (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters))) {
+        errors.push(`templates.${type}.parameters must be an object`);
+      }
+      const templatePath = templateConfig?.path;
+      if (templatePath !== undefined && (typeof templatePath !== 'string' || templatePath.trim().length === 0)) {
+        errors.push(`templates.${type}.path must be a non-empty string`);
+      }
+      if (templateConfig?.views !== undefined) {
+        errors.push(...validateViewDefinitionViews(templateConfig.views, `templates.${type}.views`));
+      }
+    }
+
+    // Validate generation settings
+    if (config.generation !== undefined) {
+      if (typeof config.generation !== 'object' || config.generation === null || Array.isArray(config.generation)) {
+        errors.push('generation must be an object');
+      } else {
+        if (config.generation.deterministic !== undefined && typeof config.generation.deterministic !== 'boolean') {
+          errors.push('generation.deterministic must be a boolean');
+        }
+        if (config.generation.seed !== undefined && typeof config.generation.seed !== 'string') {
+          errors.push('generation.seed must be a string');
+        }
+      }
+    }
+
+    // Validate parameter profiles (checked against mainTemplate.json by azmp params generate)
+    if (config.parameterProfiles !== undefined) {
+      if (typeof config.parameterProfiles !== 'object' || config.parameterProfiles === null || Array.isArray(config.parameterProfiles)) {
+        errors.push('parameterProfiles must be an object');
+      } else {
+        for (const [profile, values] of Object.entries(config.parameterProfiles)) {
+          if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+            errors.push(`parameterProfiles.${profile} must be an object`);
+          }
+        }
+      }
+    }
+
     // Validate plugins array (v3.1.0+)
     if (config.plugins !== undefined) {
       if (!Array.isArray(config.plugins)) {
@@ -281,3 +371,56 @@ export class ConfigManager {
 export function getConfigManager(): ConfigManager {
   return ConfigManager.getInstance();
 }
+
+/**
+ * Resolve a path setting of a config file (paths in azmp.config.json are relative to it)
+ *
+ * @param configPath Config file, or null when none was found (the working directory is used)
+ * @param setting Path as written in the config file
+ * @returns Absolute path
+ */
+export function resolveConfigPath(configPath: string | null, setting: string): string {
+  return path.resolve(path.dirname(path.resolve(configPath ?? 'azmp.config.json')), setting);
+}
+
+/**
+ * Path as written into a config file: relative to it, with forward slashes and a leading ./
+ *
+ * @param configPath Config file
+ * @param target Absolute or working-directory-relative path
+ */
+export function toConfigPath(configPath: string, target: string): string {
+  const relative = path.relative(path.dirname(path.resolve(configPath)), path.resolve(target)).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Update a config file, keeping its other settings
+ * The file is created when it does not exist
+ *
+ * @param configPath Config file
+ * @param update Changes the parsed config
+ * @throws ValidationError if the file is not a JSON object
+ * @throws FileSystemError if the file cannot be written
+ */
+export async function updateConfigFile(configPath: string, update: (config: AzmpConfig) => AzmpConfig): Promise<void> {
+  let config: AzmpConfig = {};
+  if (await fs.pathExists(configPath)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(configPath, 'utf8'));
+    } catch (error) {
+      throw new ValidationError(`Invalid config file: ${configPath}`, [(error as Error).message]);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ValidationError(`Invalid config file: ${configPath}`, ['The config file must contain a JSON object']);
+    }
+    config = parsed as AzmpConfig;
+  }
+
+  try {
+    await fs.writeFile(configPath, JSON.stringify(update(config), null, 2) + '\n', 'utf8');
+  } catch (error) {
+    throw new FileSystemError(`Failed to write config file: ${(error as Error).message}`, configPath);
+  }
+}
@@ -28,7 +28,11 @@ export class FileSystemError extends Error {
 }
 
 export class TemplateGenerationError extends Error {
-  constructor(message: string, public readonly templateName?: string) {
+  constructor(
+    message: string,
+    public readonly templateName?: string,
+    public readonly details?: string[]
+  ) {
     super(message);
     this.name = 'TemplateGenerationError';
     Object.setPrototypeOf(this, TemplateGenerationError.prototype);
@@ -51,6 +55,22 @@ export class ErrorHandler {
    * Handle errors gracefully with contextual information
    */
   static handle(error: unknown, context: string): never {
+    this.report(error, context);
+
+    console.log(chalk.blue('\n💡 General Troubleshooting:'));
+    console.log(chalk.blue('   • Run with --help for usage information'));
+    console.log(chalk.blue('   • Check the documentation for examples'));
+    console.log(chalk.blue('   • Verify all prerequisites are installed'));
+    console.log(chalk.blue('   • Report issues at: https://github.com/HOME-OFFICE-IMPROVEMENTS-LTD/azure-marketplace-generator'));
+
+    process.exit(1);
+  }
+
+  /**
+   * Print an error with its details without exiting
+   * Used where the CLI keeps running after a failure (e.g. watch mode)
+   */
+  static report(error: unknown, context: string): void {
     console.log(); // Add spacing
 
     if (error instanceof ValidationError) {
@@ -75,6 +95,10 @@ export class ErrorHandler {
       if (error.templateName) {
         console.log(chalk.gray('   Template:'), error.templateName);
       }
+      if (error.details && error.details.length > 0) {
+        console.log();
+        error.details.forEach(detail => console.log(chalk.gray(`   ${detail}`)));
+      }
       console.log(chalk.blue('\n💡 Troubleshooting:'));
       console.log(chalk.blue('   • Verify template syntax is correct'));
       console.log(chalk.blue('   • Check Handlebars template files'));
@@ -106,14 +130,6 @@ export class ErrorHandler {
     } else {
       console.error(chalk.red(`❌ Unknown error in ${context}:`), String(error));
     }
-
-    console.log(chalk.blue('\n💡 General Troubleshooting:'));
-    console.log(chalk.blue('   • Run with --help for usage information'));
-    console.log(chalk.blue('   • Check the documentation for examples'));
-    console.log(chalk.blue('   • Verify all prerequisites are installed'));
-    console.log(chalk.blue('   • Report issues at: https://github.com/HOME-OFFICE-IMPROVEMENTS-LTD/azure-marketplace-generator'));
-
-    process.exit(1);
   }
 
   /**
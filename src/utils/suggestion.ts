@@ -0,0 +1,40 @@
+/**
+ * "Did you mean" suggestions for misspelt names (helpers, variables,
+ * partials, resource types)
+ */
+
+/**
+ * Edit distance of two names
+ */
+export function editDistance(left: string, right: string): number {
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const substitution = previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[right.length];
+}
+
+/**
+ * Suffix suggesting the closest known name, if one is close enough
+ *
+ * @param name Unknown name
+ * @param candidates Known names
+ * @returns " (did you mean 'x'?)" or an empty string
+ */
+export function suggestion(name: string, candidates: Iterable<string>): string {
+  let best: string | undefined;
+  let bestDistance = Math.min(2, Math.floor(name.length / 3));
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= bestDistance && candidate !== name) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` (did you mean '${best}'?)` : '';
+}
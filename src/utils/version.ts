@@ -0,0 +1,50 @@
+/**
+ * Version comparison utilities
+ *
+ * Minimal semver handling for compatibility checks. Pre-release and build
+ * suffixes are ignored; only major.minor.patch are compared.
+ */
+
+/**
+ * Parse a version string into numeric [major, minor, patch] parts
+ * Missing parts default to 0 (e.g. "3.1" is treated as "3.1.0")
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+/**
+ * Compare two versions
+ *
+ * @returns Negative if a < b, zero if equal, positive if a > b
+ * @throws Error if either version cannot be parsed
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${!left ? a : b}`);
+  }
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) {
+      return left[i] - right[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check whether a version satisfies a minimum version requirement
+ * Accepts "x.y.z" or ">=x.y.z" (both mean "at least x.y.z")
+ *
+ * @param version Version to check
+ * @param requirement Minimum version requirement
+ */
+export function satisfiesMinimumVersion(version: string, requirement: string): boolean {
+  const minimum = requirement.trim().replace(/^>=\s*/, '');
+  return compareVersions(version, minimum) >= 0;
+}